@@ -0,0 +1,156 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  getLLMProvider,
+  createMockProvider,
+  mockParseQuery,
+  estimateCostUsd,
+  getModelCost,
+  LLMConfigError,
+  DEFAULT_MODELS,
+} from '../llm-providers';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getLLMProvider', () => {
+  it('defaults to Anthropic with the default model', () => {
+    const provider = getLLMProvider({ ANTHROPIC_API_KEY: 'sk-test' });
+    expect(provider.name).toBe('anthropic');
+    expect(provider.model).toBe(DEFAULT_MODELS.anthropic);
+  });
+
+  it('honours LLM_MODEL', () => {
+    const provider = getLLMProvider({ ANTHROPIC_API_KEY: 'sk-test', LLM_MODEL: 'claude-3-haiku-20240307' });
+    expect(provider.model).toBe('claude-3-haiku-20240307');
+  });
+
+  it('requires an API key for Anthropic and for api.openai.com', () => {
+    expect(() => getLLMProvider({})).toThrow(LLMConfigError);
+    expect(() => getLLMProvider({ LLM_PROVIDER: 'openai' })).toThrow(/OPENAI_API_KEY/);
+  });
+
+  it('allows keyless OpenAI-compatible local servers', () => {
+    const provider = getLLMProvider({ LLM_PROVIDER: 'openai', OPENAI_BASE_URL: 'http://localhost:11434/v1', LLM_MODEL: 'llama3.1' });
+    expect(provider.name).toBe('openai');
+    expect(provider.model).toBe('llama3.1');
+  });
+
+  it('selects the mock provider without credentials', () => {
+    expect(getLLMProvider({ LLM_PROVIDER: 'Mock' }).name).toBe('mock');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => getLLMProvider({ LLM_PROVIDER: 'gemini' })).toThrow(/Unknown LLM_PROVIDER "gemini"/);
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('posts chat completions with the system prompt first and maps usage', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({
+        model: 'llama3.1',
+        choices: [{ message: { content: '{"intent":"find"}' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 8 },
+      }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = getLLMProvider({ LLM_PROVIDER: 'openai', OPENAI_BASE_URL: 'http://localhost:11434/v1/', LLM_MODEL: 'llama3.1' });
+    const completion = await provider.complete({ system: 'sys', maxTokens: 50, messages: [{ role: 'user', content: 'hi' }] });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body).messages).toEqual([
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'hi' },
+    ]);
+    expect(completion).toEqual({ text: '{"intent":"find"}', usage: { inputTokens: 120, outputTokens: 8 }, model: 'llama3.1' });
+  });
+
+  it('forces the tool and reads its arguments', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({
+        choices: [{ message: { content: null, tool_calls: [{ function: { name: 'parse', arguments: '{"intent":"find"}' } }] } }],
+      }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = getLLMProvider({ LLM_PROVIDER: 'openai', OPENAI_API_KEY: 'sk-test' });
+    const completion = await provider.complete({
+      system: 'sys',
+      maxTokens: 50,
+      messages: [{ role: 'user', content: 'hi' }],
+      tool: { name: 'parse', description: 'Parse it', inputSchema: { type: 'object' } },
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.tools[0].function).toEqual({ name: 'parse', description: 'Parse it', parameters: { type: 'object' } });
+    expect(body.tool_choice).toEqual({ type: 'function', function: { name: 'parse' } });
+    expect(completion.toolInput).toEqual({ intent: 'find' });
+    expect(completion.text).toBe('');
+  });
+
+  it('throws on HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 502 })));
+    const provider = getLLMProvider({ LLM_PROVIDER: 'openai', OPENAI_API_KEY: 'sk-test' });
+    await expect(provider.complete({ system: '', maxTokens: 10, messages: [] })).rejects.toThrow('502');
+  });
+});
+
+describe('mock provider', () => {
+  it('parses the query out of the prompt deterministically', async () => {
+    const provider = createMockProvider();
+    const request = { system: 'sys', maxTokens: 500, messages: [{ role: 'user' as const, content: 'Examples...\n\nNow parse: "free AI tools"' }] };
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+    expect(first).toEqual(second);
+    expect(JSON.parse(first.text)).toMatchObject({ intent: 'filter', filters: { pricing: ['Free'], categories: ['AI'] } });
+    expect(first.usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('answers with a tool call when a tool is requested', async () => {
+    const completion = await createMockProvider().complete({
+      system: 'sys',
+      maxTokens: 500,
+      messages: [{ role: 'user', content: 'Now parse: "free AI tools"' }],
+      tool: { name: 'parse', description: '', inputSchema: { type: 'object' } },
+    });
+    expect(completion.text).toBe('');
+    expect(completion.toolInput).toMatchObject({ filters: { pricing: ['Free'], categories: ['AI'] } });
+  });
+
+  it('returns canned output when given a responder', async () => {
+    const provider = createMockProvider(() => 'not json');
+    expect((await provider.complete({ system: '', maxTokens: 10, messages: [] })).text).toBe('not json');
+    const toolProvider = createMockProvider(() => ({ intent: 'find' }));
+    expect((await toolProvider.complete({ system: '', maxTokens: 10, messages: [] })).toolInput).toEqual({ intent: 'find' });
+  });
+});
+
+describe('mockParseQuery', () => {
+  it('extracts taxonomy filters, ratings and comparisons', () => {
+    expect(mockParseQuery('freemium tutorials rated over 9')).toMatchObject({
+      filters: { pricing: ['Freemium'], categories: ['Learning'], minGravityScore: 9 },
+    });
+    expect(mockParseQuery('alternatives to Figma')).toMatchObject({ intent: 'compare', comparisonTarget: 'Figma' });
+  });
+});
+
+describe('cost tables', () => {
+  it('estimates cost from the per-provider table', () => {
+    expect(estimateCostUsd('anthropic', 'claude-sonnet-4-20250514', { inputTokens: 1_000_000, outputTokens: 100_000 }, {})).toBeCloseTo(4.5);
+    expect(estimateCostUsd('mock', 'mock-parser', { inputTokens: 500, outputTokens: 50 }, {})).toBe(0);
+  });
+
+  it('reports unknown models as null', () => {
+    expect(estimateCostUsd('openai', 'llama3.1', { inputTokens: 10, outputTokens: 10 }, {})).toBeNull();
+  });
+
+  it('prefers LLM_COST_* overrides', () => {
+    expect(getModelCost('openai', 'llama3.1', { LLM_COST_INPUT_PER_MTOK: '0', LLM_COST_OUTPUT_PER_MTOK: '0.5' }))
+      .toEqual({ input: 0, output: 0.5 });
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * LLM Providers for the Serverless API
+ *
+ * A small provider interface so the query parser can run against
+ * Anthropic, any OpenAI-compatible server (OpenAI, Ollama, LM Studio,
+ * vLLM, ...) or a deterministic mock for `vercel dev` and tests.
+ *
+ * Selected by environment:
+ * - LLM_PROVIDER: "anthropic" (default), "openai" or "mock"
+ * - LLM_MODEL: model id (defaults per provider, see DEFAULT_MODELS)
+ * - ANTHROPIC_API_KEY: required for "anthropic"
+ * - OPENAI_BASE_URL: defaults to https://api.openai.com/v1
+ * - OPENAI_API_KEY: required for api.openai.com, optional for local servers
+ * - LLM_COST_INPUT_PER_MTOK / LLM_COST_OUTPUT_PER_MTOK: USD per 1M tokens,
+ *   overrides the cost table (e.g. for self-hosted or unlisted models)
+ *
+ * Files under api/_lib are not deployed as routes (underscore prefix).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { TAXONOMY, PRICING_KEYWORD_MAP } from '../../src/data/taxonomy.js';
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'mock';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A tool the model must call; its input is the structured output
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool input */
+  inputSchema: { type: 'object'; [key: string]: unknown };
+}
+
+export interface LLMCompletionRequest {
+  system: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  /** Force a call to this tool instead of free-form text */
+  tool?: LLMTool;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletion {
+  /** Raw text output (empty when the model answered with a tool call) */
+  text: string;
+  /** Parsed tool input when a tool was requested and called */
+  toolInput?: unknown;
+  usage: LLMUsage;
+  /** Model that produced the completion */
+  model: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Thrown when the environment selects a provider that can't be used
+ */
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-parser',
+};
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * USD per 1M tokens
+ */
+export interface ModelCost {
+  input: number;
+  output: number;
+}
+
+/**
+ * Per-provider cost tables, keyed by model id
+ * Unlisted models report an unknown cost unless LLM_COST_* is set.
+ */
+export const MODEL_COSTS: Record<LLMProviderName, Record<string, ModelCost>> = {
+  anthropic: {
+    'claude-sonnet-4-20250514': { input: 3, output: 15 },
+    'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+    'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  },
+  openai: {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  },
+  mock: {
+    'mock-parser': { input: 0, output: 0 },
+  },
+};
+
+/**
+ * Look up the cost of a model, preferring the LLM_COST_* overrides
+ */
+export function getModelCost(provider: LLMProviderName, model: string, env: Env = process.env): ModelCost | null {
+  const input = env.LLM_COST_INPUT_PER_MTOK;
+  const output = env.LLM_COST_OUTPUT_PER_MTOK;
+  if (input !== undefined && output !== undefined && !isNaN(Number(input)) && !isNaN(Number(output))) {
+    return { input: Number(input), output: Number(output) };
+  }
+  return MODEL_COSTS[provider][model] ?? null;
+}
+
+/**
+ * Estimated cost of a completion in USD, or null if the model's price is unknown
+ */
+export function estimateCostUsd(
+  provider: LLMProviderName,
+  model: string,
+  usage: LLMUsage,
+  env: Env = process.env
+): number | null {
+  const cost = getModelCost(provider, model, env);
+  if (!cost) return null;
+  return (usage.inputTokens * cost.input + usage.outputTokens * cost.output) / 1_000_000;
+}
+
+// =============================================================================
+// Anthropic
+// =============================================================================
+
+function createAnthropicProvider(apiKey: string, model: string): LLMProvider {
+  const anthropic = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete({ system, messages, maxTokens, tool }) {
+      const response = await anthropic.messages.create({
+        model,
+        max_tokens: maxTokens,
+        system,
+        messages,
+        ...(tool
+          ? {
+              tools: [{ name: tool.name, description: tool.description, input_schema: tool.inputSchema }],
+              tool_choice: { type: 'tool' as const, name: tool.name },
+            }
+          : {}),
+      });
+
+      const toolUse = response.content.find(c => c.type === 'tool_use');
+      const textContent = response.content.find(c => c.type === 'text');
+      if (!toolUse && (!textContent || textContent.type !== 'text')) {
+        throw new Error('No text response from Anthropic');
+      }
+
+      return {
+        text: textContent?.type === 'text' ? textContent.text : '',
+        ...(toolUse?.type === 'tool_use' ? { toolInput: toolUse.input } : {}),
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+        model: response.model ?? model,
+      };
+    },
+  };
+}
+
+// =============================================================================
+// OpenAI-compatible (OpenAI, Ollama, LM Studio, vLLM, llama.cpp server, ...)
+// =============================================================================
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: {
+    message?: {
+      content?: string | null;
+      tool_calls?: { function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function createOpenAIProvider(baseUrl: string, apiKey: string | undefined, model: string): LLMProvider {
+  const endpoint = baseUrl.replace(/\/+$/, '') + '/chat/completions';
+
+  return {
+    name: 'openai',
+    model,
+    async complete({ system, messages, maxTokens, tool }) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          temperature: 0,
+          messages: [{ role: 'system', content: system }, ...messages],
+          ...(tool
+            ? {
+                tools: [
+                  {
+                    type: 'function',
+                    function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+                  },
+                ],
+                tool_choice: { type: 'function', function: { name: tool.name } },
+              }
+            : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible API error: ${response.status}`);
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const message = data.choices?.[0]?.message;
+      const text = message?.content ?? '';
+      const toolArguments = message?.tool_calls?.[0]?.function?.arguments;
+      if (!text && !toolArguments) {
+        throw new Error('No text response from OpenAI-compatible API');
+      }
+
+      // Some local servers ignore tool_choice and answer in text; the caller
+      // falls back to parsing `text` when toolInput is missing
+      let toolInput: unknown;
+      if (toolArguments) {
+        try {
+          toolInput = JSON.parse(toolArguments);
+        } catch {
+          // Malformed arguments are handed back as text for the caller to report
+        }
+      }
+
+      return {
+        text: text || (toolInput === undefined ? toolArguments ?? '' : ''),
+        ...(toolInput !== undefined ? { toolInput } : {}),
+        usage: {
+          inputTokens: data.usage?.prompt_tokens ?? 0,
+          outputTokens: data.usage?.completion_tokens ?? 0,
+        },
+        model: data.model ?? model,
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Mock
+// =============================================================================
+
+/**
+ * Extract the search query from the parser's user prompt (`Now parse: "..."`)
+ */
+function extractQuery(messages: LLMMessage[]): string {
+  const content = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+  const match = content.match(/Now parse: "([\s\S]*)"\s*$/);
+  return (match ? match[1] : content).trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Deterministic keyword parse in the same shape the LLM returns
+ *
+ * Not a substitute for a model - it exists so the full request path
+ * (prompt → provider → validation → client) can run without network access.
+ */
+export function mockParseQuery(query: string): Record<string, unknown> {
+  const normalized = query.toLowerCase();
+  const hasWord = (word: string) => new RegExp('\\b' + escapeRegExp(word) + '\\b').test(normalized);
+  const filters: Record<string, unknown> = {};
+
+  const pricing = Object.entries(PRICING_KEYWORD_MAP)
+    .filter(([value, keywords]) => keywords.some(hasWord) && !(value === 'Free' && hasWord('freemium')))
+    .map(([value]) => value);
+  if (pricing.length > 0) filters.pricing = pricing;
+
+  // "tools" is also a generic noun ("free AI tools"), so it only counts on its own
+  let categories: string[] = TAXONOMY.categories
+    .filter(c => hasWord(c.name.toLowerCase()) || c.aliases.some(hasWord))
+    .map(c => c.name);
+  if (categories.length > 1) categories = categories.filter(name => name !== 'Tools');
+  if (categories.length > 0) filters.categories = categories;
+
+  const minScore = normalized.match(/(?:over|above|at least)\s*(\d+(?:\.\d+)?)/);
+  if (minScore) filters.minGravityScore = parseFloat(minScore[1]);
+  const maxScore = normalized.match(/(?:under|below|at most)\s*(\d+(?:\.\d+)?)/);
+  if (maxScore) filters.maxGravityScore = parseFloat(maxScore[1]);
+
+  if (/\bopen\s*source\b/.test(normalized)) filters.opensource = true;
+
+  const comparison = query.match(/\b(?:alternatives?\s+(?:to|for)|similar\s+to|like)\s+(.+?)\s*$/i);
+  const intent = comparison ? 'compare' : Object.keys(filters).length > 0 ? 'filter' : 'find';
+
+  return {
+    intent,
+    filters,
+    concepts: [],
+    semanticTerms: normalized.split(/\s+/).filter(word => word.length > 2),
+    confidence: 'low',
+    ...(comparison ? { comparisonTarget: comparison[1] } : {}),
+    explanation: 'Mock provider keyword parse',
+  };
+}
+
+/**
+ * Create the mock provider
+ *
+ * Pass `respond` to return canned output: a string is returned as text
+ * (e.g. invalid JSON in tests), anything else as the tool input. By default
+ * it returns mockParseQuery() for the prompt's query, as a tool call when a
+ * tool is requested.
+ */
+export function createMockProvider(respond?: (request: LLMCompletionRequest) => unknown): LLMProvider {
+  return {
+    name: 'mock',
+    model: DEFAULT_MODELS.mock,
+    async complete(request) {
+      const output = respond ? respond(request) : mockParseQuery(extractQuery(request.messages));
+      const isText = typeof output === 'string' || (!respond && !request.tool);
+      const text = isText ? (typeof output === 'string' ? output : JSON.stringify(output)) : '';
+      // Rough token estimate (~4 characters per token) so cost logging has numbers
+      const inputChars = request.system.length + request.messages.reduce((sum, m) => sum + m.content.length, 0);
+      const outputChars = isText ? text.length : JSON.stringify(output)?.length ?? 0;
+      return {
+        text,
+        ...(isText ? {} : { toolInput: output }),
+        usage: { inputTokens: Math.ceil(inputChars / 4), outputTokens: Math.ceil(outputChars / 4) },
+        model: DEFAULT_MODELS.mock,
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+/**
+ * Create the provider selected by the environment
+ *
+ * @throws LLMConfigError if the provider is unknown or missing credentials
+ */
+export function getLLMProvider(env: Env = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER ?? 'anthropic').trim().toLowerCase();
+
+  switch (name) {
+    case 'anthropic': {
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new LLMConfigError('API key not configured (ANTHROPIC_API_KEY)');
+      }
+      return createAnthropicProvider(env.ANTHROPIC_API_KEY, env.LLM_MODEL || DEFAULT_MODELS.anthropic);
+    }
+    case 'openai': {
+      const baseUrl = env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL;
+      if (!env.OPENAI_API_KEY && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+        throw new LLMConfigError('API key not configured (OPENAI_API_KEY)');
+      }
+      return createOpenAIProvider(baseUrl, env.OPENAI_API_KEY, env.LLM_MODEL || DEFAULT_MODELS.openai);
+    }
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new LLMConfigError(`Unknown LLM_PROVIDER "${name}" (expected anthropic, openai or mock)`);
+  }
+}
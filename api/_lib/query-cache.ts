@@ -0,0 +1,88 @@
+/**
+ * Parsed Query Cache
+ *
+ * Caches sanitized parse results in Vercel KV (the same store used for
+ * rate limiting) so identical queries - "free tools rated over 9" typed by
+ * a hundred people - cost one LLM call.
+ *
+ * Keys combine a version hash and the normalized query:
+ *
+ *   parsed:<version>:<normalized query>
+ *
+ * The version is derived from the prompts and the provider/model, so any
+ * prompt change or model switch starts a fresh cache. Entries expire after
+ * PARSE_CACHE_TTL_SECONDS (default 7 days).
+ *
+ * All operations fail open: a KV error is treated as a cache miss.
+ */
+
+import { createHash } from 'node:crypto';
+import { kv } from '@vercel/kv';
+
+/** Bump to invalidate every entry (e.g. when the cached shape changes) */
+const CACHE_SCHEMA_VERSION = 1;
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Normalize a query so trivially different phrasings share an entry
+ * (case, surrounding whitespace/quotes, repeated spaces, trailing punctuation)
+ */
+export function normalizeQueryForCache(query: string): string {
+  return query
+    .toLowerCase()
+    .trim()
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.,;]+$/, '')
+    .trim();
+}
+
+/**
+ * Short hash identifying everything that affects the parse output
+ */
+export function getCacheVersion(parts: string[]): string {
+  return createHash('sha256')
+    .update([String(CACHE_SCHEMA_VERSION), ...parts].join('\u0000'))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+export function getCacheKey(version: string, query: string): string {
+  return `parsed:${version}:${normalizeQueryForCache(query)}`;
+}
+
+/**
+ * TTL from PARSE_CACHE_TTL_SECONDS, falling back to the default
+ */
+export function getCacheTtlSeconds(env: Record<string, string | undefined> = process.env): number {
+  const ttl = Number(env.PARSE_CACHE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? Math.floor(ttl) : DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * Read a cached parse, or null on miss or KV error
+ */
+export async function getCachedParse<T>(key: string): Promise<T | null> {
+  try {
+    return (await kv.get<T>(key)) ?? null;
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('Parse cache KV error, treating as miss:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Store a parse with the configured TTL (errors are logged and ignored)
+ */
+export async function setCachedParse<T>(key: string, value: T): Promise<void> {
+  try {
+    await kv.set(key, value, { ex: getCacheTtlSeconds() });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('Parse cache KV error, not cached:', error);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Per-IP Rate Limiting
+ *
+ * Fixed minute and day windows per client IP, kept in Vercel KV so limits
+ * persist across serverless cold starts. Used by /api/search/parse-query
+ * and the POST side of /api/analytics/search, each with its own key prefix
+ * so one endpoint's traffic doesn't use up the other's budget.
+ *
+ * Fails open: if KV is unavailable the request is allowed.
+ */
+
+import { kv } from '@vercel/kv';
+
+export interface RateLimits {
+  /** KV key prefix, e.g. "ratelimit:" → ratelimit:<ip> */
+  prefix: string;
+  requestsPerMinute: number;
+  requestsPerDay: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  reason?: string;
+  remaining?: number;
+  resetTime?: number;
+}
+
+/**
+ * Rate limit record structure stored in Vercel KV
+ */
+type RateLimitRecord = {
+  minuteCount: number;
+  minuteResetTime: number;
+  dayCount: number;
+  dayResetTime: number;
+};
+
+/**
+ * Client IP from the proxy headers, or "unknown"
+ */
+export function getClientIp(req: Request): string {
+  return req.headers.get('x-vercel-ip') ||
+         req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+         req.headers.get('x-real-ip') ||
+         'unknown';
+}
+
+/**
+ * Check and update rate limits for an IP using Vercel KV
+ */
+export async function checkRateLimit(ip: string, limits: RateLimits): Promise<RateLimitResult> {
+  const now = Date.now();
+  const key = `${limits.prefix}${ip}`;
+
+  try {
+    // Get existing record from KV
+    let record = await kv.hgetall<RateLimitRecord>(key);
+
+    if (!record) {
+      record = {
+        minuteCount: 0,
+        minuteResetTime: now + 60000,      // 1 minute
+        dayCount: 0,
+        dayResetTime: now + 86400000,      // 24 hours
+      };
+    }
+
+    // Reset minute counter if window expired
+    if (now > record.minuteResetTime) {
+      record.minuteCount = 0;
+      record.minuteResetTime = now + 60000;
+    }
+
+    // Reset day counter if window expired
+    if (now > record.dayResetTime) {
+      record.dayCount = 0;
+      record.dayResetTime = now + 86400000;
+    }
+
+    // Check limits
+    if (record.minuteCount >= limits.requestsPerMinute) {
+      return {
+        allowed: false,
+        reason: 'Rate limit exceeded: too many requests per minute',
+        remaining: 0,
+        resetTime: record.minuteResetTime,
+      };
+    }
+    if (record.dayCount >= limits.requestsPerDay) {
+      return {
+        allowed: false,
+        reason: 'Rate limit exceeded: daily limit reached',
+        remaining: 0,
+        resetTime: record.dayResetTime,
+      };
+    }
+
+    // Increment counters
+    record.minuteCount++;
+    record.dayCount++;
+
+    // Store updated record with 24-hour expiry
+    await kv.hset(key, record);
+    await kv.expire(key, 86400); // Expire after 24 hours
+
+    return {
+      allowed: true,
+      remaining: limits.requestsPerMinute - record.minuteCount,
+      resetTime: record.minuteResetTime,
+    };
+  } catch (error) {
+    // If KV fails, log warning and allow request (fail-open)
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('Rate limit KV error, allowing request:', error);
+    }
+    return { allowed: true };
+  }
+}
+
+/**
+ * Seconds until the window that blocked the request resets
+ */
+export function getRetryAfterSeconds(result: RateLimitResult): number {
+  return result.resetTime ? Math.ceil((result.resetTime - Date.now()) / 1000) : 60;
+}
@@ -0,0 +1,260 @@
+/**
+ * Query Parameters for GET /api/resources
+ *
+ * Turns the list endpoint's query string into the same HardFilters the
+ * search UI uses, runs it through applyHardFilters (or semanticSearch when
+ * there's a `q`), sorts, and pages the result with an opaque cursor.
+ *
+ *   ?q=            free-text search, ranked like the search bar
+ *   ?category=     category name(s); repeat or comma-separate for OR
+ *   ?subCategory=  subcategory name(s)
+ *   ?pricing=      pricing value(s)
+ *   ?tags=         tag(s); a resource matches any of them
+ *   ?minScore= / ?maxScore=  gravity score range (0-10, inclusive)
+ *   ?featured= / ?opensource=  true or false
+ *   ?sort=         relevance | score | -score | name | -name | id | -id
+ *                  (`-` for descending; default relevance with `q`, else -score)
+ *   ?limit=        page size (default 50, max 200)
+ *   ?cursor=       `nextCursor` from the previous page
+ *
+ * Names are matched case-insensitively against the taxonomy; unknown
+ * values are rejected rather than silently returning nothing.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  getAllSubCategories,
+  normalizeCategoryName,
+  normalizePricingValue,
+} from '../../src/data/taxonomy.js';
+import {
+  applyHardFilters,
+  semanticSearch,
+  type HardFilters,
+} from '../../src/lib/search/semantic-search.js';
+import type { NormalizedResource } from '../../src/types/resource';
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 200;
+const MAX_QUERY_LENGTH = 1000;
+
+export const RESOURCE_SORTS = ['relevance', 'score', '-score', 'name', '-name', 'id', '-id'] as const;
+export type ResourceSort = (typeof RESOURCE_SORTS)[number];
+
+/**
+ * A validated list request
+ */
+export interface ResourceQuery {
+  q: string | null;
+  filters: HardFilters;
+  sort: ResourceSort;
+  limit: number;
+  /** Index of the first result on this page (from the cursor) */
+  offset: number;
+}
+
+/**
+ * One page of results
+ */
+export interface ResourcePage {
+  data: NormalizedResource[];
+  /** Matches across all pages */
+  total: number;
+  limit: number;
+  /** Pass as `?cursor=` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Thrown for a query string the endpoint can't serve (reported as a 400)
+ */
+export class ResourceQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceQueryError';
+  }
+}
+
+interface CursorPayload {
+  /** Offset of the next page */
+  o: number;
+  /** Fingerprint of the query the cursor was issued for */
+  f: string;
+}
+
+/**
+ * Values of a repeatable, comma-separable parameter
+ */
+function getList(params: URLSearchParams, name: string): string[] {
+  return params
+    .getAll(name)
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+function getBoolean(params: URLSearchParams, name: string): boolean | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new ResourceQueryError(`${name} must be true or false`);
+}
+
+function getScore(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  const score = Number(value);
+  if (!Number.isFinite(score) || score < 0 || score > 10) {
+    throw new ResourceQueryError(`${name} must be a number from 0 to 10`);
+  }
+  return score;
+}
+
+function canonicalize<T>(values: string[], name: string, normalize: (value: string) => T | null): T[] {
+  return values.map(value => {
+    const canonical = normalize(value);
+    if (canonical === null) throw new ResourceQueryError(`Unknown ${name} "${value}"`);
+    return canonical;
+  });
+}
+
+function normalizeSubCategory(value: string): string | null {
+  const normalized = value.toLowerCase();
+  return getAllSubCategories().find(name => name.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Stable fingerprint of everything that decides the result order, so a
+ * cursor can't be replayed against a different query
+ */
+function fingerprint(query: Omit<ResourceQuery, 'offset' | 'limit'>): string {
+  const canonical = JSON.stringify([query.q, query.sort, Object.entries(query.filters).sort()]);
+  return createHash('sha1').update(canonical).digest('base64url').slice(0, 12);
+}
+
+export function encodeCursor(offset: number, query: Omit<ResourceQuery, 'offset' | 'limit'>): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint(query) };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, query: Omit<ResourceQuery, 'offset' | 'limit'>): number {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new ResourceQueryError('Invalid cursor');
+  }
+  if (!payload || !Number.isInteger(payload.o) || (payload.o as number) < 0 || typeof payload.f !== 'string') {
+    throw new ResourceQueryError('Invalid cursor');
+  }
+  if (payload.f !== fingerprint(query)) {
+    throw new ResourceQueryError('Cursor was issued for a different query');
+  }
+  return payload.o as number;
+}
+
+/**
+ * Parse and validate the list endpoint's query string
+ *
+ * @throws ResourceQueryError for invalid or unknown values
+ */
+export function parseResourceQuery(params: URLSearchParams): ResourceQuery {
+  const q = params.get('q')?.trim() || null;
+  if (q && q.length > MAX_QUERY_LENGTH) {
+    throw new ResourceQueryError(`q too long (max ${MAX_QUERY_LENGTH} characters)`);
+  }
+
+  const filters: HardFilters = {};
+  const categories = canonicalize(getList(params, 'category'), 'category', normalizeCategoryName);
+  if (categories.length > 0) filters.categories = categories;
+  const subCategories = canonicalize(getList(params, 'subCategory'), 'subCategory', normalizeSubCategory);
+  if (subCategories.length > 0) filters.subCategories = subCategories;
+  const pricing = canonicalize(getList(params, 'pricing'), 'pricing', normalizePricingValue);
+  if (pricing.length > 0) filters.pricing = pricing;
+  const tags = getList(params, 'tags').map(tag => tag.toLowerCase());
+  if (tags.length > 0) filters.tags = tags;
+
+  const minScore = getScore(params, 'minScore');
+  const maxScore = getScore(params, 'maxScore');
+  if (minScore !== undefined && maxScore !== undefined && minScore > maxScore) {
+    throw new ResourceQueryError('minScore must not be greater than maxScore');
+  }
+  if (minScore !== undefined) filters.minGravityScore = minScore;
+  if (maxScore !== undefined) filters.maxGravityScore = maxScore;
+
+  const featured = getBoolean(params, 'featured');
+  if (featured !== undefined) filters.featured = featured;
+  const opensource = getBoolean(params, 'opensource');
+  if (opensource !== undefined) filters.opensource = opensource;
+
+  const requestedSort = params.get('sort');
+  let sort: ResourceSort = q ? 'relevance' : '-score';
+  if (requestedSort) {
+    if (!(RESOURCE_SORTS as readonly string[]).includes(requestedSort)) {
+      throw new ResourceQueryError(`sort must be one of: ${RESOURCE_SORTS.join(', ')}`);
+    }
+    sort = requestedSort as ResourceSort;
+  }
+  if (sort === 'relevance' && !q) {
+    throw new ResourceQueryError('sort=relevance requires q');
+  }
+
+  let limit = DEFAULT_LIMIT;
+  const requestedLimit = params.get('limit');
+  if (requestedLimit !== null && requestedLimit !== '') {
+    limit = Number(requestedLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ResourceQueryError(`limit must be an integer from 1 to ${MAX_LIMIT}`);
+    }
+  }
+
+  const cursor = params.get('cursor');
+  const offset = cursor ? decodeCursor(cursor, { q, filters, sort }) : 0;
+
+  return { q, filters, sort, limit, offset };
+}
+
+const COMPARATORS: Record<Exclude<ResourceSort, 'relevance'>, (a: NormalizedResource, b: NormalizedResource) => number> = {
+  score: (a, b) => a.gravityScore - b.gravityScore,
+  '-score': (a, b) => b.gravityScore - a.gravityScore,
+  name: (a, b) => a.name.localeCompare(b.name),
+  '-name': (a, b) => b.name.localeCompare(a.name),
+  id: (a, b) => a.id - b.id,
+  '-id': (a, b) => b.id - a.id,
+};
+
+/**
+ * Every match for the query, in sort order
+ *
+ * With `q` the matches and their relevance order come from semanticSearch
+ * (hard filters applied first, no fallback padding); without it, from
+ * applyHardFilters. Ties break on id so pages never overlap.
+ */
+export function findResources(resources: NormalizedResource[], query: ResourceQuery): NormalizedResource[] {
+  const matches = query.q
+    ? semanticSearch(resources, query.q, {
+        hardFilters: query.filters,
+        maxResults: resources.length,
+        correctSpelling: false,
+      }).results.map(result => result.resource)
+    : applyHardFilters(resources, query.filters);
+
+  if (query.sort === 'relevance') return matches;
+  const compare = COMPARATORS[query.sort];
+  return [...matches].sort((a, b) => compare(a, b) || a.id - b.id);
+}
+
+/**
+ * One page of matches for the query
+ */
+export function listResources(resources: NormalizedResource[], query: ResourceQuery): ResourcePage {
+  const matches = findResources(resources, query);
+  const end = query.offset + query.limit;
+  return {
+    data: matches.slice(query.offset, end),
+    total: matches.length,
+    limit: query.limit,
+    nextCursor: end < matches.length ? encodeCursor(end, query) : null,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Directory Data for the Public Resources API
+ *
+ * Shared by GET /api/resources and GET /api/resources/:id: the bundled
+ * resources.json and the cached JSON response both routes return. The data
+ * only changes on deploy, so each response carries a weak ETag over its
+ * body and a matching If-None-Match gets an empty 304.
+ */
+
+import { createHash } from 'node:crypto';
+import resourcesData from '../../src/data/resources.json' with { type: 'json' };
+import type { NormalizedResource } from '../../src/types/resource';
+
+// Validated against the resource schema at build time (see src/data/schema.ts)
+export const resources: NormalizedResource[] = resourcesData as NormalizedResource[];
+
+/**
+ * Headers on every resources API response, errors included
+ */
+export const PUBLIC_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+};
+
+const CACHE_CONTROL = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400';
+
+/**
+ * Weak ETag for a response body
+ */
+export function computeETag(body: string): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * Whether an If-None-Match header lists the ETag (weak comparison, so
+ * W/"x" and "x" match)
+ */
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => opaque(tag) === opaque(etag));
+}
+
+/**
+ * 200 JSON response with ETag and cache headers, or 304 when the client's
+ * If-None-Match already has this body
+ */
+export function cachedJson(req: Request, body: unknown): Response {
+  const text = JSON.stringify(body);
+  const etag = computeETag(text);
+  const headers = { ...PUBLIC_HEADERS, ETag: etag, 'Cache-Control': CACHE_CONTROL };
+
+  if (matchesETag(req.headers.get('if-none-match'), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(text, {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Search Analytics Store
+ *
+ * Where /api/analytics/search keeps logged searches:
+ *
+ * - "kv": Vercel KV (the store used for rate limiting and the parse cache).
+ *   Events are aggregated on write, so nothing per-search is kept:
+ *     analytics:totals           hash   searches, failing
+ *     analytics:failing          zset   query → failing searches
+ *     analytics:query:<query>    hash   count, zero, low, llm, view:<view>
+ *   Per-query hashes expire RETENTION_SECONDS after the query was last seen.
+ *   Each event is one pipelined request. The zset is capped at
+ *   MAX_FAILING_QUERIES members, and reading the report removes members
+ *   whose hash has expired and resets the rest to their hash's count.
+ * - "file": newline-delimited JSON events appended to a local file, for
+ *   `vercel dev` and self-hosting without KV.
+ *
+ * Selected by SEARCH_ANALYTICS_STORE ("kv" or "file"); defaults to "kv"
+ * when KV is configured (KV_REST_API_URL), otherwise "file".
+ * SEARCH_ANALYTICS_FILE sets the file path (default .data/search-analytics.jsonl).
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { kv } from '@vercel/kv';
+import {
+  aggregateSearchEvents,
+  isFailingSearch,
+  sortByFailures,
+  validateSearchLogEvent,
+  SEARCH_VIEWS,
+  type SearchLogEvent,
+  type SearchQueryStats,
+} from '../../src/lib/search/search-analytics.js';
+
+export type SearchAnalyticsStoreName = 'kv' | 'file';
+
+export interface SearchAnalyticsTotals {
+  totalSearches: number;
+  failingSearches: number;
+}
+
+export interface SearchAnalyticsStore {
+  name: SearchAnalyticsStoreName;
+  record(event: SearchLogEvent): Promise<void>;
+  /** Totals plus stats for up to `limit` queries, most failures first */
+  getStats(limit: number): Promise<{ totals: SearchAnalyticsTotals; queries: SearchQueryStats[] }>;
+}
+
+type Env = Record<string, string | undefined>;
+
+/** 90 days */
+const RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+/** Most failing queries kept in the ranking; the least failing are dropped first */
+const MAX_FAILING_QUERIES = 10000;
+
+/** Failing queries fetched per round trip while skipping expired ones */
+const REPORT_PAGE_SIZE = 50;
+
+const DEFAULT_FILE_PATH = '.data/search-analytics.jsonl';
+
+// =============================================================================
+// Vercel KV
+// =============================================================================
+
+const TOTALS_KEY = 'analytics:totals';
+const FAILING_KEY = 'analytics:failing';
+const queryKey = (query: string) => `analytics:query:${query}`;
+
+function toNumber(value: unknown): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+export function createKvAnalyticsStore(): SearchAnalyticsStore {
+  return {
+    name: 'kv',
+    async record(event) {
+      const failing = isFailingSearch(event);
+      const key = queryKey(event.query);
+
+      const pipeline = kv.pipeline();
+      pipeline.hincrby(TOTALS_KEY, 'searches', 1);
+      pipeline.hincrby(key, 'count', 1);
+      pipeline.hincrby(key, `view:${event.view}`, 1);
+      if (event.resultCount === 0) pipeline.hincrby(key, 'zero', 1);
+      if (event.llmEnhanced) pipeline.hincrby(key, 'llm', 1);
+      if (failing) {
+        pipeline.hincrby(TOTALS_KEY, 'failing', 1);
+        pipeline.hincrby(key, 'low', 1);
+        pipeline.zincrby(FAILING_KEY, 1, event.query);
+        pipeline.zremrangebyrank(FAILING_KEY, 0, -(MAX_FAILING_QUERIES + 1));
+        pipeline.expire(FAILING_KEY, RETENTION_SECONDS);
+      }
+      pipeline.expire(key, RETENTION_SECONDS);
+      await pipeline.exec();
+    },
+
+    async getStats(limit) {
+      const totals = (await kv.hgetall<Record<string, unknown>>(TOTALS_KEY)) ?? {};
+
+      // Page through the ranking until `limit` live queries are found, so
+      // expired queries at the top can't crowd out recent failures
+      const queries: SearchQueryStats[] = [];
+      const expired: string[] = [];
+      const pageSize = Math.max(limit, REPORT_PAGE_SIZE);
+      for (let offset = 0; queries.length < limit; offset += pageSize) {
+        const failingQueries = await kv.zrange<string[]>(FAILING_KEY, offset, offset + pageSize - 1, { rev: true });
+        if (failingQueries.length === 0) break;
+
+        const reads = kv.pipeline();
+        for (const query of failingQueries) reads.hgetall(queryKey(query));
+        const records = await reads.exec<(Record<string, unknown> | null)[]>();
+
+        failingQueries.forEach((query, index) => {
+          const record = records[index];
+          // Expired: the query hasn't failed within the retention window
+          if (!record || toNumber(record.low) === 0) {
+            expired.push(query);
+            return;
+          }
+          const views: SearchQueryStats['views'] = {};
+          for (const view of SEARCH_VIEWS) {
+            const count = toNumber(record[`view:${view}`]);
+            if (count > 0) views[view] = count;
+          }
+          queries.push({
+            query,
+            count: toNumber(record.count),
+            zeroResultCount: toNumber(record.zero),
+            lowQualityCount: toNumber(record.low),
+            llmEnhancedCount: toNumber(record.llm),
+            views,
+          });
+        });
+        if (failingQueries.length < pageSize) break;
+      }
+
+      // Rebuild the ranking from what was read: drop expired queries, and
+      // reset scores to the live count (a query that expired and came back
+      // starts over in its hash but not in the zset)
+      if (expired.length > 0 || queries.length > 0) {
+        const repair = kv.pipeline();
+        if (expired.length > 0) repair.zrem(FAILING_KEY, ...expired);
+        for (const stats of queries) {
+          repair.zadd(FAILING_KEY, { score: stats.lowQualityCount, member: stats.query });
+        }
+        await repair.exec();
+      }
+
+      return {
+        totals: { totalSearches: toNumber(totals.searches), failingSearches: toNumber(totals.failing) },
+        queries: sortByFailures(queries).slice(0, limit),
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Local file
+// =============================================================================
+
+export function createFileAnalyticsStore(path: string): SearchAnalyticsStore {
+  return {
+    name: 'file',
+    async record(event) {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, JSON.stringify(event) + '\n', 'utf-8');
+    },
+
+    async getStats(limit) {
+      let content = '';
+      try {
+        content = await readFile(path, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+
+      // Lines are re-validated: the file may have been edited by hand
+      const events = content
+        .split('\n')
+        .filter(Boolean)
+        .map(line => {
+          try {
+            return validateSearchLogEvent(JSON.parse(line));
+          } catch {
+            return null;
+          }
+        })
+        .filter((event): event is SearchLogEvent => event !== null);
+
+      return {
+        totals: { totalSearches: events.length, failingSearches: events.filter(isFailingSearch).length },
+        queries: aggregateSearchEvents(events).slice(0, limit),
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+/**
+ * Create the store selected by the environment
+ */
+export function getAnalyticsStore(env: Env = process.env): SearchAnalyticsStore {
+  const name = env.SEARCH_ANALYTICS_STORE?.trim().toLowerCase() || (env.KV_REST_API_URL ? 'kv' : 'file');
+  if (name === 'kv') return createKvAnalyticsStore();
+  return createFileAnalyticsStore(env.SEARCH_ANALYTICS_FILE || DEFAULT_FILE_PATH);
+}
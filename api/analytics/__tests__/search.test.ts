@@ -0,0 +1,268 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// In-memory stand-in for the Vercel KV hash, sorted-set and pipeline commands the store
+// and the rate limiter use
+const store = vi.hoisted(() => ({
+  hashes: new Map<string, Record<string, number>>(),
+  zsets: new Map<string, Map<string, number>>(),
+}));
+vi.mock('@vercel/kv', () => {
+  const ranked = (key: string) =>
+    [...(store.zsets.get(key) ?? new Map<string, number>())].sort((a, b) => b[1] - a[1]);
+  const zset = (key: string) => {
+    const existing = store.zsets.get(key) ?? new Map<string, number>();
+    store.zsets.set(key, existing);
+    return existing;
+  };
+  const commands = {
+    hincrby: async (key: string, field: string, by: number) => {
+      const hash = store.hashes.get(key) ?? {};
+      hash[field] = (hash[field] ?? 0) + by;
+      store.hashes.set(key, hash);
+      return hash[field];
+    },
+    hgetall: async (key: string) => store.hashes.get(key) ?? null,
+    hset: async (key: string, value: Record<string, number>) => {
+      store.hashes.set(key, { ...store.hashes.get(key), ...value });
+      return Object.keys(value).length;
+    },
+    zincrby: async (key: string, by: number, member: string) => {
+      const members = zset(key);
+      members.set(member, (members.get(member) ?? 0) + by);
+      return members.get(member);
+    },
+    zadd: async (key: string, { score, member }: { score: number; member: string }) => {
+      zset(key).set(member, score);
+      return 1;
+    },
+    zrem: async (key: string, ...members: string[]) => {
+      members.forEach(member => zset(key).delete(member));
+      return members.length;
+    },
+    // Ascending rank, like Redis; negative stop counts from the end
+    zremrangebyrank: async (key: string, start: number, stop: number) => {
+      const ascending = ranked(key).reverse();
+      const end = stop < 0 ? ascending.length + stop : stop;
+      const removed = ascending.slice(start, end + 1);
+      removed.forEach(([member]) => zset(key).delete(member));
+      return removed.length;
+    },
+    zrange: async (key: string, start: number, stop: number) =>
+      ranked(key).slice(start, stop + 1).map(([member]) => member),
+    expire: async () => 1,
+  };
+  type Command = keyof typeof commands;
+  return {
+    kv: {
+      ...Object.fromEntries(Object.entries(commands).map(([name, fn]) => [name, vi.fn(fn)])),
+      pipeline: vi.fn(() => {
+        const queued: (() => Promise<unknown>)[] = [];
+        const pipeline = {
+          exec: vi.fn(async () => {
+            const results: unknown[] = [];
+            for (const run of queued) results.push(await run());
+            return results;
+          }),
+        } as Record<string, unknown>;
+        for (const name of Object.keys(commands) as Command[]) {
+          pipeline[name] = (...args: unknown[]) => {
+            queued.push(() => (commands[name] as (...a: unknown[]) => Promise<unknown>)(...args));
+            return pipeline;
+          };
+        }
+        return pipeline;
+      }),
+    },
+  };
+});
+
+import { kv } from '@vercel/kv';
+import handler from '../search';
+
+const searchEvent = {
+  query: 'Mood board for my wedding?',
+  quality: 'low',
+  resultCount: 0,
+  llmEnhanced: true,
+  view: '3d',
+};
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/api/analytics/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function getReport(token?: string): Request {
+  return new Request('http://localhost/api/analytics/search?limit=10', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('search analytics handler', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    store.hashes.clear();
+    store.zsets.clear();
+    dir = await mkdtemp(join(tmpdir(), 'search-analytics-'));
+    vi.stubEnv('ANALYTICS_ADMIN_TOKEN', 'secret');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('file store', () => {
+    beforeEach(() => {
+      vi.stubEnv('SEARCH_ANALYTICS_STORE', 'file');
+      vi.stubEnv('SEARCH_ANALYTICS_FILE', join(dir, 'log.jsonl'));
+    });
+
+    it('appends normalized events without identifying data', async () => {
+      const response = await handler(post(searchEvent));
+      expect(response.status).toBe(204);
+
+      const lines = (await readFile(join(dir, 'log.jsonl'), 'utf-8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line))).toEqual([
+        { query: 'mood board for my wedding', quality: 'low', resultCount: 0, llmEnhanced: true, view: '3d' },
+      ]);
+    });
+
+    it('rejects malformed events', async () => {
+      expect((await handler(post({ ...searchEvent, view: 'kitchen' }))).status).toBe(400);
+      expect((await handler(new Request('http://localhost/api/analytics/search', { method: 'POST', body: '{' }))).status).toBe(400);
+    });
+
+    it('reports top failing queries and missing concepts', async () => {
+      await handler(post(searchEvent));
+      await handler(post({ ...searchEvent, view: 'card' }));
+      await handler(post({ ...searchEvent, query: 'figma', quality: 'high', resultCount: 4, llmEnhanced: false }));
+
+      const response = await handler(getReport('secret'));
+      expect(response.status).toBe(200);
+      const report = await response.json();
+      expect(report).toMatchObject({ store: 'file', totalSearches: 3, failingSearches: 2 });
+      expect(report.topFailingQueries).toEqual([
+        { query: 'mood board for my wedding', count: 2, zeroResultCount: 2, lowQualityCount: 2, llmEnhancedCount: 2, views: { '3d': 1, card: 1 } },
+      ]);
+      expect(report.missingConcepts.map((m: { phrase: string }) => m.phrase)).toEqual(['mood board', 'wedding']);
+    });
+
+    it('reports an empty store', async () => {
+      const report = await (await handler(getReport('secret'))).json();
+      expect(report).toMatchObject({ totalSearches: 0, topFailingQueries: [], missingConcepts: [] });
+    });
+  });
+
+  describe('kv store', () => {
+    beforeEach(() => {
+      vi.stubEnv('SEARCH_ANALYTICS_STORE', 'kv');
+    });
+
+    it('aggregates on write and reports from the aggregates', async () => {
+      await handler(post(searchEvent));
+      await handler(post({ ...searchEvent, view: 'card' }));
+      await handler(post({ ...searchEvent, query: 'podcast editing', quality: 'fallback', resultCount: 2, llmEnhanced: false }));
+      await handler(post({ ...searchEvent, query: 'figma', quality: 'high', resultCount: 4 }));
+
+      expect(store.hashes.get('analytics:totals')).toEqual({ searches: 4, failing: 3 });
+      const report = await (await handler(getReport('secret'))).json();
+      expect(report.store).toBe('kv');
+      expect(report.topFailingQueries.map((s: { query: string; lowQualityCount: number }) => [s.query, s.lowQualityCount])).toEqual([
+        ['mood board for my wedding', 2],
+        ['podcast editing', 1],
+      ]);
+      expect(report.topFailingQueries[0].views).toEqual({ '3d': 1, card: 1 });
+    });
+
+    it('writes each event in a single pipelined request', async () => {
+      await handler(post(searchEvent));
+
+      expect(kv.pipeline).toHaveBeenCalledTimes(1);
+      expect(kv.hincrby).not.toHaveBeenCalled();
+      expect(kv.zincrby).not.toHaveBeenCalled();
+      expect(store.zsets.get('analytics:failing')).toEqual(new Map([['mood board for my wedding', 1]]));
+    });
+
+    it('drops expired queries from the ranking instead of returning an empty report', async () => {
+      for (let i = 0; i < 3; i++) await handler(post({ ...searchEvent, query: 'old query' }));
+      await handler(post({ ...searchEvent, query: 'recent query' }));
+      // The old query's hash expired; the all-time ranking still lists it first
+      store.hashes.delete('analytics:query:old query');
+
+      const report = await (await handler(new Request('http://localhost/api/analytics/search?limit=1', {
+        headers: { Authorization: 'Bearer secret' },
+      }))).json();
+      expect(report.topFailingQueries.map((s: { query: string }) => s.query)).toEqual(['recent query']);
+      expect(store.zsets.get('analytics:failing')).toEqual(new Map([['recent query', 1]]));
+    });
+
+    it('resets a returning query to its live count', async () => {
+      for (let i = 0; i < 3; i++) await handler(post({ ...searchEvent, query: 'old query' }));
+      store.hashes.delete('analytics:query:old query');
+      await handler(post({ ...searchEvent, query: 'old query' }));
+
+      const report = await (await handler(getReport('secret'))).json();
+      expect(report.topFailingQueries[0]).toMatchObject({ query: 'old query', lowQualityCount: 1 });
+      expect(store.zsets.get('analytics:failing')?.get('old query')).toBe(1);
+    });
+  });
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      vi.stubEnv('SEARCH_ANALYTICS_STORE', 'kv');
+    });
+
+    it('limits events per IP, separately from parse-query', async () => {
+      const fromIp = () => {
+        const request = post(searchEvent);
+        request.headers.set('x-forwarded-for', '203.0.113.7');
+        return request;
+      };
+      for (let i = 0; i < 30; i++) expect((await handler(fromIp())).status).toBe(204);
+
+      const limited = await handler(fromIp());
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('Retry-After')).toBeTruthy();
+      expect(store.hashes.get('analytics:totals')).toEqual({ searches: 30, failing: 30 });
+      expect(store.hashes.has('ratelimit:analytics:203.0.113.7')).toBe(true);
+      expect(store.hashes.has('ratelimit:203.0.113.7')).toBe(false);
+    });
+  });
+
+  describe('report access', () => {
+    it('requires the admin token', async () => {
+      expect((await handler(getReport())).status).toBe(401);
+      expect((await handler(getReport('wrong'))).status).toBe(401);
+    });
+
+    it('returns a JSON 503 when the store cannot be read', async () => {
+      vi.stubEnv('SEARCH_ANALYTICS_STORE', 'kv');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.mocked(kv.hgetall).mockRejectedValueOnce(new Error('KV down'));
+
+      const response = await handler(getReport('secret'));
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ error: 'Analytics store unavailable (kv)' });
+    });
+
+        it('is unavailable until a token is configured', async () => {
+      vi.stubEnv('ANALYTICS_ADMIN_TOKEN', '');
+      expect((await handler(getReport('secret'))).status).toBe(503);
+    });
+
+    it('rejects other methods', async () => {
+      const response = await handler(new Request('http://localhost/api/analytics/search', { method: 'DELETE' }));
+      expect(response.status).toBe(405);
+    });
+  });
+});
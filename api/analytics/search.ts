@@ -0,0 +1,127 @@
+/**
+ * Vercel Function for Search Analytics
+ *
+ * POST: record one search (normalized query, quality, result count,
+ *       LLM-enhanced flag, view). Sent by the client when
+ *       VITE_SEARCH_ANALYTICS=true; see src/lib/search/search-logger.ts.
+ *       Rate limited per IP (30 req/min, 1000 req/day), like parse-query.
+ * GET:  admin report - top failing queries and the concepts missing from
+ *       the semantic mappings. Requires `Authorization: Bearer <token>`
+ *       matching ANALYTICS_ADMIN_TOKEN. `?limit=` caps each list (default 25).
+ *
+ * Storage is Vercel KV or a local file (see api/_lib/search-analytics-store.ts).
+ * Nothing identifying is stored with the events: no IP, no user agent, no
+ * timestamps. The rate limiter keeps a per-IP counter for at most a day.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { validateSearchLogEvent } from '../../src/lib/search/search-analytics.js';
+import { buildSearchReport } from '../../src/lib/search/search-report.js';
+import { getAnalyticsStore } from '../_lib/search-analytics-store.js';
+import {
+  checkRateLimit,
+  getClientIp,
+  getRetryAfterSeconds,
+  type RateLimits,
+} from '../_lib/rate-limit.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+const DEFAULT_REPORT_LIMIT = 25;
+const MAX_REPORT_LIMIT = 200;
+
+/**
+ * Every search sends one event, so this allows far more than parse-query
+ * while still capping how much one client can write to the store
+ */
+const RECORD_RATE_LIMITS: RateLimits = {
+  prefix: 'ratelimit:analytics:',
+  requestsPerMinute: 30,
+  requestsPerDay: 1000,
+};
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * Constant-time check of the admin bearer token
+ */
+function isAuthorized(req: Request, token: string): boolean {
+  const provided = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function handleRecord(req: Request): Promise<Response> {
+  const rateLimit = await checkRateLimit(getClientIp(req), RECORD_RATE_LIMITS);
+  if (!rateLimit.allowed) {
+    return json({ error: rateLimit.reason }, 429, { 'Retry-After': String(getRetryAfterSeconds(rateLimit)) });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const event = validateSearchLogEvent(body);
+  if (!event) {
+    return json({ error: 'Invalid search event' }, 400);
+  }
+
+  try {
+    await getAnalyticsStore().record(event);
+  } catch (error) {
+    // Analytics must never surface as a user-facing failure
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('Search analytics store error, event dropped:', error);
+    }
+  }
+  return new Response(null, { status: 204 });
+}
+
+async function handleReport(req: Request): Promise<Response> {
+  const token = process.env.ANALYTICS_ADMIN_TOKEN;
+  if (!token) {
+    return json({ error: 'Report not configured (ANALYTICS_ADMIN_TOKEN)' }, 503);
+  }
+  if (!isAuthorized(req, token)) {
+    return json({ error: 'Unauthorized' }, 401, { 'WWW-Authenticate': 'Bearer' });
+  }
+
+  const requested = Number(new URL(req.url).searchParams.get('limit'));
+  const limit = Number.isInteger(requested) && requested > 0
+    ? Math.min(requested, MAX_REPORT_LIMIT)
+    : DEFAULT_REPORT_LIMIT;
+
+  const store = getAnalyticsStore();
+  let stats: Awaited<ReturnType<typeof store.getStats>>;
+  try {
+    stats = await store.getStats(limit);
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn('Search analytics store error, report unavailable:', error);
+    }
+    return json({ error: `Analytics store unavailable (${store.name})` }, 503, { 'Cache-Control': 'no-store' });
+  }
+  const { totals, queries } = stats;
+  return json(
+    { store: store.name, ...buildSearchReport(queries, totals, limit) },
+    200,
+    { 'Cache-Control': 'no-store' }
+  );
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method === 'POST') return handleRecord(req);
+  if (req.method === 'GET') return handleReport(req);
+  return json({ error: 'Method not allowed' }, 405, { Allow: 'GET, POST' });
+}
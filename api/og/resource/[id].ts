@@ -0,0 +1,77 @@
+/**
+ * Vercel Function for Social Preview Cards
+ *
+ * GET /api/og/resource/:id: a resource's 1200×630 PNG card, rendered on
+ * demand with the same generator the build uses for /og/resource/:id.png
+ * (src/lib/og-image.ts). Handy for previews of a deployment without the
+ * build step, and for hosts that only run the functions.
+ *
+ * Caching: cards only change with the resource or the layout, so the ETag
+ * comes from both and a match is a 304 without rendering. Rendered cards
+ * are kept in memory while the function is warm and cached at the edge
+ * for a week. Screenshots are read from public/ (bundled via includeFiles
+ * in vercel.json).
+ */
+
+import * as path from 'node:path';
+import { createNodeAssetLoader, renderOgImage, OG_CARD_VERSION } from '../../../src/lib/og-image.js';
+import { computeETag, matchesETag, resources, PUBLIC_HEADERS } from '../../_lib/resources.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+const CACHE_CONTROL = 'public, max-age=86400, s-maxage=604800, stale-while-revalidate=86400';
+
+/** Cards rendered by this instance, by ETag */
+const renderedCards = new Map<string, Buffer>();
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...PUBLIC_HEADERS, ...headers },
+  });
+}
+
+/**
+ * The :id segment, with or without a .png extension - Vercel passes dynamic
+ * segments as a query parameter, the path is the fallback for other hosts
+ */
+function getRequestedId(req: Request): string {
+  const url = new URL(req.url);
+  const segment = url.searchParams.get('id') ?? decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '');
+  return segment.replace(/\.png$/i, '');
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405, { Allow: 'GET' });
+  }
+
+  const requested = getRequestedId(req);
+  const id = Number(requested);
+  if (!/^\d+$/.test(requested) || !Number.isSafeInteger(id)) {
+    return json({ error: 'id must be an integer' }, 400);
+  }
+
+  const resource = resources.find(r => r.id === id);
+  if (!resource) {
+    return json({ error: `No resource with id ${id}` }, 404);
+  }
+
+  const etag = computeETag(`${OG_CARD_VERSION}:${JSON.stringify(resource)}`);
+  const headers = { ...PUBLIC_HEADERS, ETag: etag, 'Cache-Control': CACHE_CONTROL };
+  if (matchesETag(req.headers.get('if-none-match'), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  let png = renderedCards.get(etag);
+  if (!png) {
+    png = await renderOgImage(resource, createNodeAssetLoader(path.join(process.cwd(), 'public')));
+    renderedCards.set(etag, png);
+  }
+  return new Response(new Uint8Array(png), {
+    status: 200,
+    headers: { 'Content-Type': 'image/png', ...headers },
+  });
+}
@@ -0,0 +1,44 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import handler from '../[id]';
+
+function get(path: string, headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost${path}`, { headers });
+}
+
+describe('GET /api/og/resource/:id', () => {
+  beforeEach(() => {
+    // Favicons come from the network; the card falls back to the Globe
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('renders a cacheable PNG card', async () => {
+    const response = await handler(get('/api/og/resource/1?id=1'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('Cache-Control')).toContain('s-maxage=');
+    expect(response.headers.get('ETag')).toMatch(/^W\/".+"$/);
+
+    const body = Buffer.from(await response.arrayBuffer());
+    expect(body.subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('accepts a .png extension in the path', async () => {
+    expect((await handler(get('/api/og/resource/1.png'))).status).toBe(200);
+  });
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const etag = (await handler(get('/api/og/resource/1'))).headers.get('ETag')!;
+    const response = await handler(get('/api/og/resource/1', { 'If-None-Match': etag }));
+    expect(response.status).toBe(304);
+  });
+
+  it('returns 404 for unknown ids and 400 for malformed ones', async () => {
+    expect((await handler(get('/api/og/resource/999999'))).status).toBe(404);
+    expect((await handler(get('/api/og/resource/figma'))).status).toBe(400);
+  });
+});
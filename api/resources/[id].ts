@@ -0,0 +1,48 @@
+/**
+ * Vercel Function for the Public Resources API (single resource)
+ *
+ * GET /api/resources/:id: one resource in the NormalizedResource shape,
+ * as `{ data }`. 404 for ids not in the directory.
+ *
+ * Same caching as the list endpoint: weak ETag, 304 on If-None-Match.
+ */
+
+import { cachedJson, resources, PUBLIC_HEADERS } from '../_lib/resources.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...PUBLIC_HEADERS, ...headers },
+  });
+}
+
+/**
+ * The :id segment - Vercel passes dynamic segments as a query parameter,
+ * the path is the fallback for other hosts
+ */
+function getRequestedId(req: Request): string {
+  const url = new URL(req.url);
+  return url.searchParams.get('id') ?? decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '');
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405, { Allow: 'GET' });
+  }
+
+  const requested = getRequestedId(req);
+  const id = Number(requested);
+  if (!/^\d+$/.test(requested) || !Number.isSafeInteger(id)) {
+    return json({ error: 'id must be an integer' }, 400);
+  }
+
+  const resource = resources.find(r => r.id === id);
+  if (!resource) {
+    return json({ error: `No resource with id ${id}` }, 404);
+  }
+  return cachedJson(req, { data: resource });
+}
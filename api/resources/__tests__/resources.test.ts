@@ -0,0 +1,147 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import listHandler from '../index';
+import detailHandler from '../[id]';
+import { resources } from '../../_lib/resources';
+import { semanticSearch } from '../../../src/lib/search/semantic-search';
+import type { NormalizedResource } from '../../../src/types/resource';
+
+interface Page {
+  data: NormalizedResource[];
+  total: number;
+  limit: number;
+  nextCursor: string | null;
+}
+
+function get(path: string, headers: Record<string, string> = {}): Request {
+  return new Request(`http://localhost${path}`, { headers });
+}
+
+async function list(query: string): Promise<Page> {
+  const response = await listHandler(get(`/api/resources?${query}`));
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+describe('GET /api/resources', () => {
+  it('returns the first page sorted by score', async () => {
+    const page = await list('');
+    expect(page.total).toBe(resources.length);
+    expect(page.limit).toBe(50);
+    expect(page.data).toHaveLength(50);
+    const scores = page.data.map(r => r.gravityScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(Object.keys(page.data[0]).sort()).toEqual(Object.keys(resources.find(r => r.id === page.data[0].id)!).sort());
+  });
+
+  it('filters by category, pricing and flags case-insensitively', async () => {
+    const page = await list('category=ai,tools&pricing=free&opensource=true&limit=200');
+    expect(page.total).toBeGreaterThan(0);
+    for (const resource of page.data) {
+      expect(['AI', 'Tools']).toContain(resource.category);
+      expect(resource.pricing).toBe('Free');
+      expect(resource.opensource).toBe(true);
+    }
+  });
+
+  it('filters by score range and tags', async () => {
+    const page = await list('minScore=8&maxScore=9&tags=icons&limit=200');
+    for (const resource of page.data) {
+      expect(resource.gravityScore).toBeGreaterThanOrEqual(8);
+      expect(resource.gravityScore).toBeLessThanOrEqual(9);
+      expect(resource.tags?.some(tag => tag.toLowerCase().includes('icons'))).toBe(true);
+    }
+  });
+
+  it('ranks free-text queries like the search bar', async () => {
+    const page = await list('q=figma&pricing=freemium');
+    const expected = semanticSearch(resources, 'figma', {
+      hardFilters: { pricing: ['Freemium'] },
+      maxResults: resources.length,
+      correctSpelling: false,
+    }).results.map(r => r.resource.id);
+    expect(page.data.map(r => r.id)).toEqual(expected.slice(0, 50));
+    expect(page.total).toBe(expected.length);
+    expect(page.data.map(r => r.name)).toContain('Figma');
+  });
+
+  it('sorts by name', async () => {
+    const names = (await list('sort=name&limit=200')).data.map(r => r.name);
+    expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+  });
+
+  it('pages with a cursor without overlap', async () => {
+    const first = await list('sort=id&limit=60');
+    expect(first.nextCursor).toEqual(expect.any(String));
+    const second = await list(`sort=id&limit=60&cursor=${first.nextCursor}`);
+    const third = await list(`sort=id&limit=60&cursor=${second.nextCursor}`);
+
+    const ids = [...first.data, ...second.data, ...third.data].map(r => r.id);
+    expect(ids).toEqual(resources.map(r => r.id).sort((a, b) => a - b));
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('rejects a cursor from a different query', async () => {
+    const { nextCursor } = await list('sort=id&limit=10');
+    const response = await listHandler(get(`/api/resources?sort=name&limit=10&cursor=${nextCursor}`));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Cursor was issued for a different query' });
+  });
+
+  it.each([
+    ['category=Kitchen', 'Unknown category "Kitchen"'],
+    ['minScore=11', 'minScore must be a number from 0 to 10'],
+    ['minScore=9&maxScore=8', 'minScore must not be greater than maxScore'],
+    ['featured=yes', 'featured must be true or false'],
+    ['sort=relevance', 'sort=relevance requires q'],
+    ['limit=0', 'limit must be an integer from 1 to 200'],
+    ['cursor=nope', 'Invalid cursor'],
+  ])('rejects %s', async (query, error) => {
+    const response = await listHandler(get(`/api/resources?${query}`));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+  });
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const response = await listHandler(get('/api/resources?category=AI'));
+    const etag = response.headers.get('ETag');
+    expect(etag).toMatch(/^W\/".+"$/);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+
+    const revalidated = await listHandler(get('/api/resources?category=AI', { 'If-None-Match': etag! }));
+    expect(revalidated.status).toBe(304);
+    expect(await revalidated.text()).toBe('');
+
+    const other = await listHandler(get('/api/resources?category=Tools', { 'If-None-Match': etag! }));
+    expect(other.status).toBe(200);
+  });
+
+  it('only allows GET', async () => {
+    const response = await listHandler(new Request('http://localhost/api/resources', { method: 'POST' }));
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET');
+  });
+});
+
+describe('GET /api/resources/:id', () => {
+  it('returns one resource', async () => {
+    const response = await detailHandler(get('/api/resources/1?id=1'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ data: resources.find(r => r.id === 1) });
+  });
+
+  it('reads the id from the path when there is no query parameter', async () => {
+    const response = await detailHandler(get('/api/resources/1'));
+    expect((await response.json()).data.id).toBe(1);
+  });
+
+  it('returns 404 for unknown ids and 400 for malformed ones', async () => {
+    expect((await detailHandler(get('/api/resources/999999'))).status).toBe(404);
+    expect((await detailHandler(get('/api/resources/figma'))).status).toBe(400);
+  });
+
+  it('answers a matching If-None-Match with 304', async () => {
+    const etag = (await detailHandler(get('/api/resources/1'))).headers.get('ETag')!;
+    expect((await detailHandler(get('/api/resources/1', { 'If-None-Match': etag }))).status).toBe(304);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Vercel Function for the Public Resources API (list)
+ *
+ * GET /api/resources: the directory's resources, filtered, sorted and paged.
+ * Query parameters are documented in api/_lib/resource-query.ts; filters go
+ * through the same applyHardFilters / semanticSearch as the search UI, and
+ * every item has the NormalizedResource shape.
+ *
+ * Read-only and public: no auth, CORS open to any origin. Responses carry
+ * a weak ETag, so pollers can send If-None-Match and get a 304.
+ */
+
+import { cachedJson, resources, PUBLIC_HEADERS } from '../_lib/resources.js';
+import { listResources, parseResourceQuery, ResourceQueryError } from '../_lib/resource-query.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...PUBLIC_HEADERS, ...headers },
+  });
+}
+
+export default async function handler(req: Request): Promise<Response> {
+  if (req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405, { Allow: 'GET' });
+  }
+
+  try {
+    const query = parseResourceQuery(new URL(req.url).searchParams);
+    return cachedJson(req, listResources(resources, query));
+  } catch (error) {
+    if (error instanceof ResourceQueryError) {
+      return json({ error: error.message }, 400);
+    }
+    throw error;
+  }
+}
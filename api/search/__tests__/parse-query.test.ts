@@ -0,0 +1,275 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// In-memory stand-in for Vercel KV (rate limiting and parse cache)
+const store = vi.hoisted(() => new Map<string, { value: unknown; ex?: number }>());
+vi.mock('@vercel/kv', () => ({
+  kv: {
+    hgetall: vi.fn(async (key: string) => store.get(key)?.value ?? null),
+    hset: vi.fn(async (key: string, value: unknown) => { store.set(key, { value }); return 1; }),
+    expire: vi.fn().mockResolvedValue(1),
+    get: vi.fn(async (key: string) => store.get(key)?.value ?? null),
+    set: vi.fn(async (key: string, value: unknown, options?: { ex?: number }) => {
+      store.set(key, { value, ex: options?.ex });
+      return 'OK';
+    }),
+  },
+}));
+
+import { kv } from '@vercel/kv';
+import handler from '../parse-query';
+import { normalizeQueryForCache, getCacheTtlSeconds } from '../../_lib/query-cache';
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/api/search/parse-query', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('parse-query handler', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.mocked(kv.hset).mockClear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('runs the full parse path offline with the mock provider', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    const response = await handler(post({ query: 'free AI tools rated over 9' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-LLM-Provider')).toBe('mock');
+    expect(await response.json()).toMatchObject({
+      intent: 'filter',
+      filters: { pricing: ['Free'], categories: ['AI'], minGravityScore: 9 },
+    });
+  });
+
+  it('returns 500 when the selected provider is not configured', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    const response = await handler(post({ query: 'figma' }));
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toMatch(/ANTHROPIC_API_KEY/);
+  });
+
+  it('rejects non-POST requests and invalid queries', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    expect((await handler(new Request('http://localhost/api/search/parse-query'))).status).toBe(405);
+    expect((await handler(post({ query: 42 }))).status).toBe(400);
+  });
+
+  describe('structured output', () => {
+    /** OpenAI-compatible responses that call the parse tool with each input in turn */
+    function stubToolCalls(...inputs: unknown[]) {
+      const fetchMock = vi.fn();
+      for (const input of inputs) {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+          choices: [{ message: { tool_calls: [{ function: { name: 'parse_search_query', arguments: JSON.stringify(input) } }] } }],
+          usage: { prompt_tokens: 100, completion_tokens: 20 },
+        })));
+      }
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:1/v1');
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    const validParse = { intent: 'filter', filters: { categories: ['AI'] }, concepts: [], semanticTerms: ['ai'], confidence: 'high' };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('forces the parse tool with the shared schema', async () => {
+      const fetchMock = stubToolCalls(validParse);
+      const body = await (await handler(post({ query: 'ai tools' }))).json();
+
+      const request = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(request.tool_choice.function.name).toBe('parse_search_query');
+      expect(request.tools[0].function.parameters.required).toContain('intent');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(body).toEqual({ ...validParse, cached: false });
+    });
+
+    it('retries once with the validation errors', async () => {
+      const fetchMock = stubToolCalls({ ...validParse, filters: { categories: ['Widgets'] } }, validParse);
+      const body = await (await handler(post({ query: 'ai tools' }))).json();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const retryPrompt = JSON.parse(fetchMock.mock.calls[1][1].body).messages[1].content;
+      expect(retryPrompt).toContain('filters.categories[0]: unknown category "Widgets"');
+      expect(retryPrompt).toMatch(/Now parse: "ai tools"$/);
+      expect(body).toEqual({ ...validParse, cached: false });
+    });
+
+    it('reports fields that are still invalid after the retry', async () => {
+      const invalid = { ...validParse, filters: { categories: ['AI', 'Widgets'] }, mood: 'happy' };
+      const fetchMock = stubToolCalls(invalid, invalid);
+      const body = await (await handler(post({ query: 'ai tools' }))).json();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(body.filters).toEqual({ categories: ['AI'] });
+      expect(body.issues).toEqual([
+        { path: 'mood', message: 'unknown field' },
+        { path: 'filters.categories[1]', message: 'unknown category "Widgets"' },
+      ]);
+      expect(body).not.toHaveProperty('error');
+    });
+
+    it('does not cache a parse that is still invalid after the retry', async () => {
+      const invalid = { ...validParse, filters: { categories: ['Widgets'] } };
+      stubToolCalls(invalid, invalid, validParse);
+      await handler(post({ query: 'ai tools' }));
+      expect([...store.keys()].some(k => k.startsWith('parsed:'))).toBe(false);
+
+      const again = await handler(post({ query: 'ai tools' }));
+      expect(again.headers.get('X-Cache')).toBe('MISS');
+      expect(await again.json()).toEqual({ ...validParse, cached: false });
+    });
+
+    it('falls back when the model never returns JSON', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:1/v1');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const fetchMock = vi.fn().mockImplementation(async () =>
+        new Response(JSON.stringify({ choices: [{ message: { content: 'Sure! Here are some tools.' } }] }))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const body = await (await handler(post({ query: 'ai tools' }))).json();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(body.error).toBe('LLM parsing failed');
+    });
+  });
+
+  describe('conversation turns', () => {
+    const turns = [{ query: 'ai image tools', filters: { categories: ['AI'] } }];
+
+    it('sends prior turns ahead of the query and never caches follow-ups', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const refined = { intent: 'filter', filters: { categories: ['AI'], pricing: ['Free'] }, concepts: ['image generation'], semanticTerms: [], confidence: 'high', refinesPrevious: true };
+      const fetchMock = vi.fn().mockImplementation(async () => new Response(JSON.stringify({
+        choices: [{ message: { tool_calls: [{ function: { name: 'parse_search_query', arguments: JSON.stringify(refined) } }] } }],
+        usage: { prompt_tokens: 100, completion_tokens: 20 },
+      })));
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:1/v1');
+      vi.stubGlobal('fetch', fetchMock);
+
+      const response = await handler(post({ query: 'only the free ones', turns }));
+      expect(await response.json()).toEqual({ ...refined, cached: false });
+      const prompt = JSON.parse(fetchMock.mock.calls[0][1].body).messages[1].content;
+      expect(prompt).toContain('1. "ai image tools" → filters {"categories":["AI"]}');
+      expect(prompt).toMatch(/Now parse: "only the free ones"$/);
+
+      expect([...store.keys()].some(k => k.startsWith('parsed:'))).toBe(false);
+      const again = await handler(post({ query: 'only the free ones', turns }));
+      expect(again.headers.get('X-Cache')).toBe('MISS');
+    });
+
+    it('rejects malformed turns', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'mock');
+      expect((await handler(post({ query: 'free', turns: 'ai tools' }))).status).toBe(400);
+      expect((await handler(post({ query: 'free', turns: [{ query: '' }] }))).status).toBe(400);
+      expect((await handler(post({ query: 'free', turns: [{ query: 'a'.repeat(1001), filters: {} }] }))).status).toBe(400);
+    });
+  });
+
+  describe('parse cache', () => {
+    it('caches the sanitized parse and serves normalized repeats as hits', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'mock');
+      const miss = await handler(post({ query: 'Free AI tools rated over 9' }));
+      expect(miss.headers.get('X-Cache')).toBe('MISS');
+      const missBody = await miss.json();
+      expect(missBody.cached).toBe(false);
+      expect(missBody).not.toHaveProperty('error');
+
+      const hit = await handler(post({ query: '  free ai   TOOLS rated over 9? ' }));
+      expect(hit.headers.get('X-Cache')).toBe('HIT');
+      const hitBody = await hit.json();
+      expect(hitBody.cached).toBe(true);
+      expect({ ...hitBody, cached: false }).toEqual(missBody);
+    });
+
+    it('does not count hits against the rate limit', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'mock');
+      await handler(post({ query: 'free tools' }));
+      expect(kv.hset).toHaveBeenCalledTimes(1);
+
+      const hit = await handler(post({ query: 'free tools' }));
+      expect(hit.headers.get('X-Cache')).toBe('HIT');
+      expect(hit.headers.get('X-RateLimit-Remaining')).toBeNull();
+      expect(kv.hset).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves hits even when the caller is rate limited', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'mock');
+      await handler(post({ query: 'free tools' }));
+      const [rateLimitKey] = [...store.keys()].filter(key => key.startsWith('ratelimit:'));
+      store.set(rateLimitKey, {
+        value: { minuteCount: 10, minuteResetTime: Date.now() + 60000, dayCount: 10, dayResetTime: Date.now() + 86400000 },
+      });
+
+      expect((await handler(post({ query: 'free tools' }))).status).toBe(200);
+      expect((await handler(post({ query: 'paid tools' }))).status).toBe(429);
+    });
+
+    it('stores entries with a TTL under a versioned key', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'mock');
+      await handler(post({ query: 'free tools' }));
+      const [key] = [...store.keys()].filter(k => k.startsWith('parsed:'));
+      expect(key).toMatch(/^parsed:[0-9a-f]{12}:free tools$/);
+      expect(store.get(key)?.ex).toBe(getCacheTtlSeconds());
+    });
+
+    it('misses when the provider or model changes', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'mock');
+      await handler(post({ query: 'free tools' }));
+
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:1/v1');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+      const response = await handler(post({ query: 'free tools' }));
+      expect(response.headers.get('X-Cache')).toBeNull();
+      expect((await response.json()).error).toBe('LLM parsing failed');
+    });
+
+    it('does not cache failed parses', async () => {
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:1/v1');
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+      await handler(post({ query: 'free tools' }));
+      expect([...store.keys()].some(k => k.startsWith('parsed:'))).toBe(false);
+    });
+  });
+});
+
+describe('normalizeQueryForCache', () => {
+  it('ignores case, repeated spaces, quotes and trailing punctuation', () => {
+    expect(normalizeQueryForCache('  "Free Tools   rated over 9?!" ')).toBe('free tools rated over 9');
+  });
+
+  it('keeps operator syntax intact', () => {
+    expect(normalizeQueryForCache('category:AI score:>9')).toBe('category:ai score:>9');
+  });
+});
+
+describe('getCacheTtlSeconds', () => {
+  it('reads PARSE_CACHE_TTL_SECONDS and falls back to 7 days', () => {
+    expect(getCacheTtlSeconds({ PARSE_CACHE_TTL_SECONDS: '3600' })).toBe(3600);
+    expect(getCacheTtlSeconds({ PARSE_CACHE_TTL_SECONDS: 'soon' })).toBe(604800);
+    expect(getCacheTtlSeconds({})).toBe(604800);
+  });
+});
@@ -1,17 +1,57 @@
 /**
  * Vercel Edge Function for LLM Query Parsing
  *
- * Securely proxies Claude API calls to parse search queries
+ * Securely proxies LLM calls to parse search queries
  * into structured filters and semantic concepts.
  *
  * Features:
- * - Claude Sonnet for high-quality query understanding
+ * - Pluggable provider: Claude Sonnet by default, any OpenAI-compatible
+ *   server, or an offline mock (see api/_lib/llm-providers.ts)
  * - Per-IP rate limiting via Vercel KV (10 req/min, 100 req/day)
+ * - Structured output via a forced tool call, validated against the shared
+ *   schema (src/lib/search/parsed-query-schema.ts); invalid output is retried
+ *   once with the validation errors, and anything still invalid is reported
+ *   in `issues` rather than silently dropped
+ * - Validated parses cached in KV by normalized query (cache hits are
+ *   not rate limited, see api/_lib/query-cache.ts)
+ * - Conversational refinement: optional prior `turns` let the model merge
+ *   a follow-up into the previous search (never cached)
  * - Graceful fallback on errors
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { kv } from '@vercel/kv';
+import { describeTaxonomyForPrompt } from '../../src/data/taxonomy.js';
+import {
+  validateParsedQuery,
+  validatePriorTurns,
+  formatParsedQueryIssue,
+  PARSE_QUERY_TOOL_NAME,
+  PARSED_QUERY_JSON_SCHEMA,
+  MAX_QUERY_LENGTH,
+  type ParsedQuery,
+  type ParsedQueryTurn,
+  type ParsedQueryValidationResult,
+} from '../../src/lib/search/parsed-query-schema.js';
+import {
+  getCacheKey,
+  getCacheVersion,
+  getCachedParse,
+  setCachedParse,
+} from '../_lib/query-cache.js';
+import {
+  getLLMProvider,
+  estimateCostUsd,
+  LLMConfigError,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMTool,
+  type LLMUsage,
+} from '../_lib/llm-providers.js';
+import {
+  checkRateLimit,
+  getClientIp,
+  getRetryAfterSeconds,
+  type RateLimits,
+} from '../_lib/rate-limit.js';
 
 export const config = {
   runtime: 'nodejs',
@@ -20,110 +60,20 @@ export const config = {
 /**
  * Rate limiting configuration
  */
-const RATE_LIMITS = {
-  REQUESTS_PER_MINUTE: 10,
-  REQUESTS_PER_DAY: 100,
+const RATE_LIMITS: RateLimits = {
+  prefix: 'ratelimit:',
+  requestsPerMinute: 10,
+  requestsPerDay: 100,
 };
 
-/**
- * Rate limit record structure stored in Vercel KV
- */
-interface RateLimitRecord {
-  minuteCount: number;
-  minuteResetTime: number;
-  dayCount: number;
-  dayResetTime: number;
-}
-
-/**
- * Check and update rate limits for an IP using Vercel KV
- *
- * Uses persistent storage to maintain rate limits across serverless cold starts.
- * Falls back to allowing the request if KV is unavailable (fail-open).
- */
-async function checkRateLimit(ip: string): Promise<{
-  allowed: boolean;
-  reason?: string;
-  remaining?: number;
-  resetTime?: number;
-}> {
-  const now = Date.now();
-  const key = `ratelimit:${ip}`;
-
-  try {
-    // Get existing record from KV
-    let record = await kv.hgetall<RateLimitRecord>(key);
-
-    if (!record) {
-      record = {
-        minuteCount: 0,
-        minuteResetTime: now + 60000,      // 1 minute
-        dayCount: 0,
-        dayResetTime: now + 86400000,      // 24 hours
-      };
-    }
-
-    // Reset minute counter if window expired
-    if (now > record.minuteResetTime) {
-      record.minuteCount = 0;
-      record.minuteResetTime = now + 60000;
-    }
-
-    // Reset day counter if window expired
-    if (now > record.dayResetTime) {
-      record.dayCount = 0;
-      record.dayResetTime = now + 86400000;
-    }
-
-    // Check limits
-    if (record.minuteCount >= RATE_LIMITS.REQUESTS_PER_MINUTE) {
-      return {
-        allowed: false,
-        reason: 'Rate limit exceeded: too many requests per minute',
-        remaining: 0,
-        resetTime: record.minuteResetTime,
-      };
-    }
-    if (record.dayCount >= RATE_LIMITS.REQUESTS_PER_DAY) {
-      return {
-        allowed: false,
-        reason: 'Rate limit exceeded: daily limit reached',
-        remaining: 0,
-        resetTime: record.dayResetTime,
-      };
-    }
-
-    // Increment counters
-    record.minuteCount++;
-    record.dayCount++;
-
-    // Store updated record with 24-hour expiry
-    await kv.hset(key, record);
-    await kv.expire(key, 86400); // Expire after 24 hours
-
-    return {
-      allowed: true,
-      remaining: RATE_LIMITS.REQUESTS_PER_MINUTE - record.minuteCount,
-      resetTime: record.minuteResetTime,
-    };
-  } catch (error) {
-    // If KV fails, log warning and allow request (fail-open)
-    if (process.env.NODE_ENV !== 'production') {
-      console.warn('Rate limit KV error, allowing request:', error);
-    }
-    return { allowed: true };
-  }
-}
-
 /**
  * System prompt for query parsing
+ * Category, subcategory and pricing values come from src/data/taxonomy.ts
  */
 const SYSTEM_PROMPT = `You are a search query parser for a design tool directory. Your job is to understand user queries and extract structured filters and semantic concepts.
 
 Available data fields to filter on:
-- category: "Tools", "AI", "Templates", "Learning", "Inspiration", "Community"
-- subCategory: "Design", "Development", "Productivity", "Generative", "Assets", "Guides", "Galleries", etc.
-- pricing: "Free", "Freemium", "Paid", "Pay per use"
+${describeTaxonomyForPrompt()}
 - gravityScore: 7.5 to 9.8 (higher = more important/popular, like a rating)
 - tags: design, prototyping, ai, video, animation, icons, collaboration, react, etc.
 - featured: true/false
@@ -136,35 +86,29 @@ Intent types:
 - "explore": User is browsing/discovering without specific criteria
 - "recommend": User wants suggestions based on a use case
 
-IMPORTANT: Respond with ONLY valid JSON, no markdown, no code blocks.`;
+IMPORTANT: Respond by calling the ${PARSE_QUERY_TOOL_NAME} tool. Only use taxonomy values listed above.`;
+
+/**
+ * Prefix describing the conversation so far, for follow-up queries
+ * (kept before the prompt so it still ends with `Now parse: "..."`)
+ */
+function buildConversationNote(turns: ParsedQueryTurn[]): string {
+  const lines = turns.map((turn, i) => `${i + 1}. "${turn.query}" → filters ${JSON.stringify(turn.filters)}`);
+  return `This query continues a search conversation. Earlier searches, oldest first, with the filters in effect after each:
+${lines.join('\n')}
+
+If the query refines the last search ("only the free ones", "any price", "now open source"), set refinesPrevious to true and return the complete merged filters: keep earlier filters the user didn't change, replace the ones they changed and omit the ones they removed. Keep the earlier concepts and add any new ones. If it starts a new search, set refinesPrevious to false and parse it on its own.
+
+`;
+}
 
 /**
  * Build the user prompt for parsing
  */
 function buildUserPrompt(query: string): string {
-  return `Parse this search query into structured JSON: "${query}"
-
-Return JSON with this structure:
-{
-  "intent": "filter" | "find" | "compare" | "explore" | "recommend",
-  "filters": {
-    "pricing": ["Free"] (optional array),
-    "categories": ["Tools"] (optional array),
-    "subCategories": ["Design"] (optional array),
-    "minGravityScore": 9 (optional number),
-    "maxGravityScore": 10 (optional number),
-    "tags": ["design"] (optional array),
-    "featured": true (optional boolean),
-    "opensource": true (optional boolean)
-  },
-  "concepts": ["concept1", "concept2"] (semantic concepts for soft matching),
-  "semanticTerms": ["term1"] (original terms for fallback),
-  "confidence": "high" | "medium" | "low",
-  "comparisonTarget": "Figma" (optional, for comparison queries),
-  "explanation": "Brief explanation" (optional)
-}
+  return `Parse this search query with the ${PARSE_QUERY_TOOL_NAME} tool: "${query}"
 
-Examples:
+Examples of tool input:
 - "free tools rated over 9" → {"intent":"filter","filters":{"pricing":["Free"],"minGravityScore":9},"concepts":[],"semanticTerms":["tools"],"confidence":"high"}
 - "mood board tools" → {"intent":"find","filters":{},"concepts":["visual inspiration","design curation","image collection","pinterest-like","collage","moodboard"],"semanticTerms":["mood board"],"confidence":"medium"}
 - "alternatives to Figma" → {"intent":"compare","filters":{"categories":["Tools"]},"concepts":["design tool","ui design","prototyping"],"semanticTerms":[],"confidence":"high","comparisonTarget":"Figma"}
@@ -172,6 +116,51 @@ Examples:
 Now parse: "${query}"`;
 }
 
+/**
+ * The tool the model must call - its input schema is the ParsedQuery schema
+ */
+const PARSE_TOOL: LLMTool = {
+  name: PARSE_QUERY_TOOL_NAME,
+  description: 'Record the structured parse of a design directory search query',
+  inputSchema: PARSED_QUERY_JSON_SCHEMA,
+};
+
+/** First attempt plus one retry with the validation errors */
+const MAX_PARSE_ATTEMPTS = 2;
+
+/**
+ * Read the model's output: the tool input, or JSON text from providers
+ * that answered without calling the tool
+ *
+ * @throws SyntaxError if the text is not valid JSON
+ */
+function readModelOutput(completion: LLMCompletion): unknown {
+  if (completion.toolInput !== undefined) return completion.toolInput;
+
+  // Clean up potential markdown code blocks
+  let jsonText = completion.text.trim();
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
+  }
+  return JSON.parse(jsonText);
+}
+
+/**
+ * Prefix for the retry prompt: the previous output and what was wrong with it
+ * (kept before the original prompt so it still ends with `Now parse: "..."`)
+ */
+function buildRetryNote(previousOutput: string, problems: string[]): string {
+  return `Your previous parse of this query was invalid:
+${previousOutput}
+
+Problems:
+${problems.map(problem => '- ' + problem).join('\n')}
+
+Call the tool again with every problem fixed.
+
+`;
+}
+
 export default async function handler(req: Request): Promise<Response> {
   // Only allow POST requests
   if (req.method !== 'POST') {
@@ -181,18 +170,93 @@ export default async function handler(req: Request): Promise<Response> {
     });
   }
 
+  // Parse request body
+  let query: string;
+  let turns: ParsedQueryTurn[] = [];
+  try {
+    const body = await req.json();
+    query = body.query;
+
+    if (!query || typeof query !== 'string') {
+      return new Response(JSON.stringify({ error: 'Invalid query parameter' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate query length to prevent abuse
+    if (query.length > MAX_QUERY_LENGTH) {
+      return new Response(JSON.stringify({ error: `Query too long (max ${MAX_QUERY_LENGTH} characters)` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Prior turns of a conversation, if this is a follow-up
+    if (body.turns !== undefined) {
+      const priorTurns = validatePriorTurns(body.turns);
+      if (!priorTurns) {
+        return new Response(JSON.stringify({ error: 'Invalid turns parameter' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+      turns = priorTurns;
+    }
+  } catch {
+    return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Select the LLM provider from the environment
+  let provider: LLMProvider;
+  try {
+    provider = getLLMProvider();
+  } catch (error) {
+    if (!(error instanceof LLMConfigError)) throw error;
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Serve repeat queries from the parse cache - hits skip the LLM and the rate limit.
+  // Follow-ups depend on the conversation, so they are never cached.
+  const cacheable = turns.length === 0;
+  const cacheKey = getCacheKey(
+    getCacheVersion([
+      SYSTEM_PROMPT,
+      buildUserPrompt(''),
+      JSON.stringify(PARSED_QUERY_JSON_SCHEMA),
+      provider.name,
+      provider.model,
+    ]),
+    query
+  );
+  const cached = cacheable ? await getCachedParse<ParsedQuery>(cacheKey) : null;
+  if (cached) {
+    return new Response(JSON.stringify({ ...cached, cached: true }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Cache': 'HIT',
+        'X-LLM-Provider': provider.name,
+      },
+    });
+  }
+
   // Get client IP for rate limiting
-  const ip = req.headers.get('x-vercel-ip') ||
-             req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
-             req.headers.get('x-real-ip') ||
-             'unknown';
+  const ip = getClientIp(req);
 
   // Check rate limit
-  const rateLimitResult = await checkRateLimit(ip);
+  const rateLimitResult = await checkRateLimit(ip, RATE_LIMITS);
   if (!rateLimitResult.allowed) {
-    const retryAfter = rateLimitResult.resetTime
-      ? Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
-      : 60;
+    const retryAfter = getRetryAfterSeconds(rateLimitResult);
 
     return new Response(
       JSON.stringify({
@@ -208,7 +272,7 @@ export default async function handler(req: Request): Promise<Response> {
         headers: {
           'Content-Type': 'application/json',
           'Retry-After': String(retryAfter),
-          'X-RateLimit-Limit': String(RATE_LIMITS.REQUESTS_PER_MINUTE),
+          'X-RateLimit-Limit': String(RATE_LIMITS.requestsPerMinute),
           'X-RateLimit-Remaining': '0',
           'X-RateLimit-Reset': String(rateLimitResult.resetTime || Date.now() + 60000),
         },
@@ -219,118 +283,101 @@ export default async function handler(req: Request): Promise<Response> {
   // Build rate limit headers for successful responses
   const rateLimitHeaders: Record<string, string> = {};
   if (rateLimitResult.remaining !== undefined) {
-    rateLimitHeaders['X-RateLimit-Limit'] = String(RATE_LIMITS.REQUESTS_PER_MINUTE);
+    rateLimitHeaders['X-RateLimit-Limit'] = String(RATE_LIMITS.requestsPerMinute);
     rateLimitHeaders['X-RateLimit-Remaining'] = String(rateLimitResult.remaining);
     rateLimitHeaders['X-RateLimit-Reset'] = String(rateLimitResult.resetTime || Date.now() + 60000);
   }
 
-  // Parse request body
-  let query: string;
   try {
-    const body = await req.json();
-    query = body.query;
-
-    if (!query || typeof query !== 'string') {
-      return new Response(JSON.stringify({ error: 'Invalid query parameter' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Validate query length to prevent abuse
-    if (query.length > 1000) {
-      return new Response(JSON.stringify({ error: 'Query too long (max 1000 characters)' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' },
+    const usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+    let model = provider.model;
+    let result: ParsedQueryValidationResult | null = null;
+    let retryNote = '';
+    let attempts = 0;
+    const conversationNote = turns.length > 0 ? buildConversationNote(turns) : '';
+
+    while (attempts < MAX_PARSE_ATTEMPTS) {
+      attempts++;
+      const completion = await provider.complete({
+        system: SYSTEM_PROMPT,
+        maxTokens: 500,
+        tool: PARSE_TOOL,
+        messages: [
+          {
+            role: 'user',
+            content: conversationNote + retryNote + buildUserPrompt(query),
+          },
+        ],
       });
-    }
-  } catch {
-    return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' },
-    });
-  }
-
-  // Check for API key
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    return new Response(
-      JSON.stringify({ error: 'API key not configured' }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
+      usage.inputTokens += completion.usage.inputTokens;
+      usage.outputTokens += completion.usage.outputTokens;
+      model = completion.model;
+
+      let output: unknown;
+      try {
+        output = readModelOutput(completion);
+      } catch {
+        if (process.env.NODE_ENV !== 'production') {
+          console.error(`Failed to parse ${provider.name} response:`, completion.text);
+        }
+        // Keep the previous attempt's result, if any - it beats no parse at all
+        retryNote = buildRetryNote(completion.text, ['the response was not valid JSON']);
+        continue;
       }
-    );
-  }
-
-  try {
-    // Initialize Anthropic client
-    const anthropic = new Anthropic({
-      apiKey,
-    });
 
-    // Call Claude Sonnet for high-quality query understanding
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 500,
-      system: SYSTEM_PROMPT,
-      messages: [
-        {
-          role: 'user',
-          content: buildUserPrompt(query),
-        },
-      ],
-    });
+      result = validateParsedQuery(output);
+      if (result.valid) break;
+      retryNote = buildRetryNote(JSON.stringify(output), result.issues.map(formatParsedQueryIssue));
+    }
 
-    // Cost tracking - extract usage data from response
-    // Claude Sonnet 4 pricing: $3/1M input tokens, $15/1M output tokens
-    const { input_tokens, output_tokens } = response.usage;
-    const estimatedCostUsd = (input_tokens * 0.000003) + (output_tokens * 0.000015);
+    // Cost tracking - prices per model live in the provider cost tables
+    const estimatedCostUsd = estimateCostUsd(provider.name, model, usage);
 
     if (process.env.NODE_ENV !== 'production') {
       console.log('[AI Cost]', {
-        model: 'claude-sonnet-4-20250514',
-        input_tokens,
-        output_tokens,
-        estimated_cost_usd: estimatedCostUsd.toFixed(6),
+        provider: provider.name,
+        model,
+        attempts,
+        turns: turns.length,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        estimated_cost_usd: estimatedCostUsd === null ? 'unknown' : estimatedCostUsd.toFixed(6),
         query_preview: query.substring(0, 50) + (query.length > 50 ? '...' : ''),
       });
     }
 
-    // Extract text content
-    const textContent = response.content.find(c => c.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text response from Claude');
+    if (!result) {
+      throw new Error(`Invalid JSON from ${provider.name}`);
     }
 
-    // Parse the JSON response
-    let parsed;
-    try {
-      // Clean up potential markdown code blocks
-      let jsonText = textContent.text.trim();
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
-      }
-      parsed = JSON.parse(jsonText);
-    } catch (parseError) {
-      if (process.env.NODE_ENV !== 'production') {
-        console.error('Failed to parse Claude response:', textContent.text);
-      }
-      throw new Error('Invalid JSON from Claude');
+    // Whatever is still invalid after the retry is reported, not hidden
+    if (!result.valid && process.env.NODE_ENV !== 'production') {
+      console.warn(`${provider.name} parse still invalid after retry:`, result.issues.map(formatParsedQueryIssue));
+    }
+    const parsed: ParsedQuery = {
+      ...result.value,
+      ...(result.issues.length > 0 ? { issues: result.issues } : {}),
+    };
+
+    // Cache the validated parse for everyone else asking the same thing.
+    // A parse that is still invalid is returned uncached, so one bad output
+    // isn't served for the whole TTL.
+    if (cacheable && result.valid) {
+      await setCachedParse(cacheKey, parsed);
     }
 
-    // Return the parsed query
-    return new Response(JSON.stringify(parsed), {
+    return new Response(JSON.stringify({ ...parsed, cached: false }), {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Cache-Control': 'public, s-maxage=3600', // Cache for 1 hour
+        'X-Cache': 'MISS',
+        'X-LLM-Provider': provider.name,
         ...rateLimitHeaders,
       },
     });
   } catch (error) {
     if (process.env.NODE_ENV !== 'production') {
-      console.error('Claude API error:', error);
+      console.error(`${provider.name} API error:`, error);
     }
 
     // Return a fallback response that the client can use
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { CliError, USAGE, runCli } from '../design-directory';
+import { formatMarkdownTable, formatTextTable, type Column } from '../format';
+import { resources, vectorIndex } from '../../src/data';
+import { semanticSearch } from '../../src/lib/search/semantic-search';
+import type { NormalizedResource } from '../../src/types/resource';
+
+function run(...args: string[]) {
+  return runCli(args, { resources, vectorIndex });
+}
+
+function runJson<T>(...args: string[]): T {
+  return JSON.parse(run(...args, '--format', 'json').output);
+}
+
+describe('design-directory CLI', () => {
+  it('prints usage without a command or with --help', () => {
+    expect(run().output).toBe(USAGE);
+    expect(run('search', '--help').output).toBe(USAGE);
+  });
+
+  it('searches with the same ranking as the site', () => {
+    const result = runJson<{ results: { resource: NormalizedResource }[] }>('search', 'free icon libraries', '-n', '5');
+    const expected = semanticSearch(resources, 'free icon libraries', { maxResults: 5 }).results;
+    expect(result.results.map(r => r.resource.id)).toEqual(expected.map(r => r.resource.id));
+  });
+
+  it('applies operators in the query and filter flags', () => {
+    const result = runJson<{ results: { resource: NormalizedResource }[] }>(
+      'search', 'react components pricing:free', '--category', 'tools'
+    );
+    expect(result.results.length).toBeGreaterThan(0);
+    for (const { resource } of result.results) {
+      expect(resource.pricing).toBe('Free');
+      expect(resource.category).toBe('Tools');
+    }
+  });
+
+  it('reports ignored operators and spelling suggestions as warnings', () => {
+    expect(run('search', 'icons category:kitchen').warnings).toEqual([
+      'Ignored category:kitchen: unknown category "kitchen"',
+    ]);
+    expect(run('search', 'figam').warnings).toContain('Did you mean "figma"?');
+  });
+
+  it('lists filtered resources, best score first', () => {
+    const result = runJson<{ total: number; resources: NormalizedResource[] }>(
+      'list', '--category', 'AI', '--pricing', 'Free,Freemium', '--min-score', '9'
+    );
+    const expected = resources.filter(r =>
+      r.category === 'AI' && ['Free', 'Freemium'].includes(r.pricing ?? '') && r.gravityScore >= 9
+    );
+    expect(result.total).toBe(expected.length);
+    const scores = result.resources.map(r => r.gravityScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('shows a resource by id or by name', () => {
+    expect(runJson('show', '1')).toEqual(resources.find(r => r.id === 1));
+    expect(runJson<NormalizedResource>('show', 'figmaa').name).toBe('Figma');
+    expect(run('show', 'Figma', '-f', 'markdown').output).toMatch(/^# Figma\n/);
+  });
+
+  it('finds related resources', () => {
+    const result = runJson<{ target: NormalizedResource; related: { resource: NormalizedResource }[] }>(
+      'related', 'figma', '-n', '3'
+    );
+    expect(result.target.name).toBe('Figma');
+    expect(result.related).toHaveLength(3);
+    expect(result.related.map(r => r.resource.id)).not.toContain(result.target.id);
+    expect(run('related', '1', '-n', '3').output).toMatch(/^Related to Figma \(#1\)\n\n ?ID +Name/);
+  });
+
+  it('throws CliError for bad usage and unknown resources', () => {
+    expect(() => run('bogus')).toThrow(CliError);
+    expect(() => run('list', '--foo')).toThrow(CliError);
+    expect(() => run('list', '--format', 'xml')).toThrow('Unknown format "xml"');
+    expect(() => run('list', '--category', 'Kitchen')).toThrow('unknown category "Kitchen"');
+    expect(() => run('list', '--limit', '0')).toThrow('--limit must be a positive integer');
+    expect(() => run('show', '999999')).toThrow('No resource matches "999999"');
+  });
+});
+
+describe('table formats', () => {
+  const rows = [{ name: 'A | B', score: 9.5 }, { name: 'A very long resource name', score: 10 }];
+  const columns: Column<(typeof rows)[number]>[] = [
+    { header: 'Name', value: row => row.name, maxWidth: 10 },
+    { header: 'Score', value: row => row.score.toFixed(1), align: 'right' },
+  ];
+
+  it('aligns plain-text columns and truncates long values', () => {
+    expect(formatTextTable(rows, columns)).toBe(
+      'Name        Score\n' +
+      '----------  -----\n' +
+      'A | B         9.5\n' +
+      'A very lo…   10.0\n'
+    );
+  });
+
+  it('escapes Markdown cells', () => {
+    expect(formatMarkdownTable(rows, columns)).toBe(
+      '| Name | Score |\n' +
+      '|---|---:|\n' +
+      '| A \\| B | 9.5 |\n' +
+      '| A very long resource name | 10.0 |\n'
+    );
+  });
+
+  it('prints a note instead of an empty table', () => {
+    expect(run('list', '--min-score', '10', '--max-score', '1').output).toBe('No matching resources.\n');
+    expect(run('list', '--min-score', '10', '--max-score', '1', '-f', 'markdown').output).toBe('_No matching resources._\n');
+  });
+});
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+/**
+ * design-directory executable (package.json "bin")
+ *
+ * The CLI is TypeScript; this registers the loader from the `tsx`
+ * dependency and runs cli/index.ts, so no build step or npx download is
+ * needed.
+ */
+
+import { register } from 'tsx/esm/api';
+
+register();
+await import('./index.ts');
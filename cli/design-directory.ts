@@ -0,0 +1,293 @@
+/**
+ * design-directory CLI commands
+ *
+ * Runs the site's search engine from the command line, over the same
+ * resources.json and vector index the app bundles:
+ *
+ * - search <query>   semanticSearch, with the search operators (category:ai score:>8)
+ * - show <id|name>   one resource
+ * - list             applyHardFilters, highest gravity score first
+ * - related <id|name> TF-IDF similarity, like the detail page's Related Resources
+ *
+ * Filter flags (--category, --pricing, --min-score, ...) are turned into
+ * operators, so they accept the same names and aliases as the search bar.
+ * runCli is pure: it returns the output, and cli/index.ts prints it.
+ */
+
+import { parseArgs } from 'util';
+import { applyHardFilters, semanticSearch, type HardFilters } from '../src/lib/search/semantic-search';
+import { findSimilarResources, getSharedTerms, type VectorIndex } from '../src/lib/search/vector-index';
+import { findResourceByName } from '../src/lib/search/compare-search';
+import { parseQueryOperators } from '../src/lib/search/query-operators';
+import { getSpellingCorrection } from '../src/lib/search/spell-correction';
+import type { NormalizedResource } from '../src/types/resource';
+import {
+  OUTPUT_FORMATS,
+  formatResource,
+  formatRows,
+  resourceColumns,
+  type Column,
+  type OutputFormat,
+} from './format';
+
+export const USAGE = `Usage: design-directory <command> [options]
+
+Commands:
+  search <query>       Search like the site does; operators work in the query
+                       (e.g. "icon libraries pricing:free -tag:3d")
+  show <id|name>       Show one resource
+  list                 List resources, highest score first
+  related <id|name>    Resources most similar to one resource
+
+Filters (search, list, related):
+  --category <name>    Category or alias; repeat or comma-separate for any of
+  --sub <name>         Subcategory
+  --pricing <value>    Free, Freemium, Paid, ...
+  --tag <tag>          Resources with this tag (partial match)
+  --min-score <n>      Minimum gravity score
+  --max-score <n>      Maximum gravity score
+  --featured           Only featured resources
+  --opensource         Only open source resources
+
+Options:
+  -f, --format <fmt>   table (default), markdown or json
+  --json               Same as --format json
+  -n, --limit <n>      Maximum results (search and related default to 10)
+  --sort <field>       list order: score (default), name or id
+  -h, --help           Show this help
+`;
+
+const DEFAULT_LIMIT = 10;
+
+const LIST_SORTS = {
+  score: (a: NormalizedResource, b: NormalizedResource) => b.gravityScore - a.gravityScore || a.id - b.id,
+  name: (a: NormalizedResource, b: NormalizedResource) => a.name.localeCompare(b.name),
+  id: (a: NormalizedResource, b: NormalizedResource) => a.id - b.id,
+};
+
+const OPTIONS = {
+  format: { type: 'string', short: 'f' },
+  json: { type: 'boolean' },
+  limit: { type: 'string', short: 'n' },
+  sort: { type: 'string' },
+  category: { type: 'string', multiple: true },
+  sub: { type: 'string', multiple: true },
+  pricing: { type: 'string', multiple: true },
+  tag: { type: 'string', multiple: true },
+  'min-score': { type: 'string' },
+  'max-score': { type: 'string' },
+  featured: { type: 'boolean' },
+  opensource: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+export interface CliData {
+  resources: NormalizedResource[];
+  vectorIndex: VectorIndex;
+}
+
+export interface CliResult {
+  /** Command output, for stdout */
+  output: string;
+  /** Notes about the query (ignored operators, spelling), for stderr */
+  warnings: string[];
+}
+
+/**
+ * Invalid usage or a lookup that found nothing
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function getFormat(options: CliOptions): OutputFormat {
+  if (options.json) return 'json';
+  const format = options.format ?? 'table';
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new CliError(`Unknown format "${format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return format as OutputFormat;
+}
+
+function getLimit(options: CliOptions, fallback: number | undefined): number | undefined {
+  if (options.limit === undefined) return fallback;
+  const limit = Number(options.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new CliError(`--limit must be a positive integer, got "${options.limit}"`);
+  }
+  return limit;
+}
+
+/**
+ * Filter flags → HardFilters, through the search operator parser
+ */
+function getFlagFilters(options: CliOptions): HardFilters {
+  const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+  const tokens = [
+    ...(options.category ?? []).map(value => `category:${quote(value)}`),
+    ...(options.sub ?? []).map(value => `sub:${quote(value)}`),
+    ...(options.pricing ?? []).map(value => `pricing:${quote(value)}`),
+    ...(options.tag ?? []).map(value => `tag:${quote(value)}`),
+    ...(options['min-score'] !== undefined ? [`score:>=${options['min-score']}`] : []),
+    ...(options['max-score'] !== undefined ? [`score:<=${options['max-score']}`] : []),
+    ...(options.featured ? ['featured:yes'] : []),
+    ...(options.opensource ? ['opensource:yes'] : []),
+  ];
+
+  const { filters, errors } = parseQueryOperators(tokens.join(' '));
+  if (errors.length > 0) {
+    throw new CliError(errors.map(error => `Invalid filter ${error.raw}: ${error.message}`).join('\n'));
+  }
+  return filters;
+}
+
+/**
+ * Look up a resource by id, or by name (exact or a small typo)
+ */
+function resolveResource(resources: NormalizedResource[], ref: string): NormalizedResource {
+  if (!ref) throw new CliError('Pass a resource id or name');
+  const resource = /^\d+$/.test(ref)
+    ? resources.find(r => r.id === Number(ref))
+    : findResourceByName(resources, ref);
+  if (!resource) throw new CliError(`No resource matches "${ref}"`);
+  return resource;
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + '\n';
+}
+
+function search(data: CliData, query: string, options: CliOptions, format: OutputFormat): CliResult {
+  // Operators become hard filters, as in the search bar; flags win on conflict
+  const operatorQuery = parseQueryOperators(query);
+  const hasOperators = operatorQuery.operators.length > 0;
+  const hardFilters = { ...operatorQuery.filters, ...getFlagFilters(options) };
+  const freeText = hasOperators ? operatorQuery.freeText : query;
+  if (!freeText && Object.keys(hardFilters).length === 0) {
+    throw new CliError('search needs a query');
+  }
+
+  const { results, metadata } = semanticSearch(data.resources, freeText, {
+    hardFilters,
+    maxResults: getLimit(options, DEFAULT_LIMIT),
+  });
+  // Corrections keep the operators as typed
+  const suggestedQuery = hasOperators && metadata.suggestedQuery
+    ? getSpellingCorrection(data.resources, query)
+    : metadata.suggestedQuery;
+
+  const warnings = operatorQuery.errors.map(error => `Ignored ${error.raw}: ${error.message}`);
+  if (suggestedQuery) warnings.push(`Did you mean "${suggestedQuery}"?`);
+
+  if (format === 'json') {
+    return {
+      output: toJson({
+        query,
+        quality: metadata.quality,
+        totalResults: metadata.totalResults,
+        ...(suggestedQuery && { suggestedQuery }),
+        ...(operatorQuery.errors.length > 0 && { ignoredOperators: operatorQuery.errors }),
+        results: results.map(({ resource, score, matchReasons }) => ({
+          resource,
+          score: Math.round(score),
+          matchReasons,
+        })),
+      }),
+      warnings,
+    };
+  }
+
+  const columns: Column<(typeof results)[number]>[] = [
+    ...resourceColumns<(typeof results)[number]>(result => result.resource),
+    { header: 'Match', value: result => String(Math.round(result.score)), align: 'right' },
+  ];
+  return { output: formatRows(format, results, columns), warnings };
+}
+
+function list(data: CliData, options: CliOptions, format: OutputFormat): CliResult {
+  const sort = options.sort ?? 'score';
+  if (!(sort in LIST_SORTS)) {
+    throw new CliError(`Unknown sort "${sort}" (expected ${Object.keys(LIST_SORTS).join(', ')})`);
+  }
+
+  const matches = applyHardFilters(data.resources, getFlagFilters(options))
+    .sort(LIST_SORTS[sort as keyof typeof LIST_SORTS]);
+  const page = matches.slice(0, getLimit(options, undefined));
+
+  if (format === 'json') {
+    return { output: toJson({ total: matches.length, resources: page }), warnings: [] };
+  }
+  return { output: formatRows(format, page, resourceColumns(resource => resource)), warnings: [] };
+}
+
+function show(data: CliData, ref: string, format: OutputFormat): CliResult {
+  const resource = resolveResource(data.resources, ref);
+  return {
+    output: format === 'json' ? toJson(resource) : formatResource(format, resource),
+    warnings: [],
+  };
+}
+
+function related(data: CliData, ref: string, options: CliOptions, format: OutputFormat): CliResult {
+  const target = resolveResource(data.resources, ref);
+  const pool = applyHardFilters(data.resources, getFlagFilters(options));
+  const similar = findSimilarResources(data.vectorIndex, target.id, pool, { limit: getLimit(options, DEFAULT_LIMIT) })
+    .map(({ resource, similarity }) => ({
+      resource,
+      similarity: Math.round(similarity * 1000) / 1000,
+      sharedTerms: getSharedTerms(data.vectorIndex, target.id, resource.id),
+    }));
+
+  if (format === 'json') {
+    return { output: toJson({ target, related: similar }), warnings: [] };
+  }
+
+  const columns: Column<(typeof similar)[number]>[] = [
+    ...resourceColumns<(typeof similar)[number]>(row => row.resource),
+    { header: 'Similarity', value: row => row.similarity.toFixed(2), align: 'right' },
+    // The subcategory term is already visible in its own column
+    { header: 'Shared terms', value: row => row.sharedTerms.filter(term => !term.startsWith('sub:')).join(', ') },
+  ];
+  const heading = format === 'markdown' ? `## Related to ${target.name}\n\n` : `Related to ${target.name} (#${target.id})\n\n`;
+  return { output: heading + formatRows(format, similar, columns), warnings: [] };
+}
+
+/**
+ * Run one CLI invocation (arguments after the program name)
+ */
+export function runCli(args: string[], data: CliData): CliResult {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values: options, positionals } = parsed;
+  const [command, ...rest] = positionals;
+  if (options.help || !command) {
+    return { output: USAGE, warnings: [] };
+  }
+
+  const format = getFormat(options);
+  const argument = rest.join(' ').trim();
+
+  switch (command) {
+    case 'search':
+      return search(data, argument, options, format);
+    case 'list':
+      if (argument) throw new CliError(`list takes no arguments, got "${argument}"`);
+      return list(data, options, format);
+    case 'show':
+      return show(data, argument, format);
+    case 'related':
+      return related(data, argument, options, format);
+    default:
+      throw new CliError(`Unknown command "${command}"`);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Output formatting for the design-directory CLI
+ *
+ * Every command renders as a plain-text table (for terminals), a Markdown
+ * table (for docs and READMEs) or JSON (for scripts). Columns are declared
+ * once and rendered by both table formats.
+ */
+
+import { escapeMarkdownCell } from '../src/lib/export';
+import type { NormalizedResource } from '../src/types/resource';
+
+export type OutputFormat = 'table' | 'markdown' | 'json';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['table', 'markdown', 'json'];
+
+/**
+ * One column of a rendered table
+ */
+export interface Column<T> {
+  header: string;
+  value: (row: T) => string;
+  /** Markdown cell, when it differs from the plain value (e.g. a link) */
+  markdown?: (row: T) => string;
+  /** Plain-text width limit; longer values end in "…" */
+  maxWidth?: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * The standard resource columns, for rows that carry a resource
+ */
+export function resourceColumns<T>(getResource: (row: T) => NormalizedResource): Column<T>[] {
+  return [
+    { header: 'ID', value: row => String(getResource(row).id), align: 'right' },
+    {
+      header: 'Name',
+      value: row => getResource(row).name,
+      markdown: row => `[${escapeMarkdownCell(getResource(row).name)}](${getResource(row).url})`,
+      maxWidth: 32,
+    },
+    { header: 'Category', value: row => getResource(row).category ?? '-' },
+    { header: 'Subcategory', value: row => getResource(row).subCategory ?? '-', maxWidth: 24 },
+    { header: 'Pricing', value: row => getResource(row).pricing ?? '-' },
+    { header: 'Score', value: row => getResource(row).gravityScore.toFixed(1), align: 'right' },
+  ];
+}
+
+function truncate(value: string, maxWidth: number | undefined): string {
+  return maxWidth && value.length > maxWidth ? value.slice(0, maxWidth - 1) + '…' : value;
+}
+
+/**
+ * Render rows as an aligned plain-text table
+ */
+export function formatTextTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = rows.map(row => columns.map(column => truncate(column.value(row).replace(/\s+/g, ' '), column.maxWidth)));
+  const widths = columns.map((column, i) => Math.max(column.header.length, ...cells.map(line => line[i].length)));
+  const render = (line: string[]) => line
+    .map((cell, i) => (columns[i].align === 'right' ? cell.padStart(widths[i]) : cell.padEnd(widths[i])))
+    .join('  ')
+    .trimEnd();
+
+  return [
+    render(columns.map(column => column.header)),
+    render(widths.map(width => '-'.repeat(width))),
+    ...cells.map(render),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Render rows as a Markdown table
+ */
+export function formatMarkdownTable<T>(rows: T[], columns: Column<T>[]): string {
+  const lines = [
+    '| ' + columns.map(column => column.header).join(' | ') + ' |',
+    '|' + columns.map(column => (column.align === 'right' ? '---:' : '---')).join('|') + '|',
+    ...rows.map(row => '| ' + columns
+      .map(column => (column.markdown ? column.markdown(row) : escapeMarkdownCell(column.value(row))))
+      .join(' | ') + ' |'),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render rows in a table format, or a note when there are none
+ */
+export function formatRows<T>(format: Exclude<OutputFormat, 'json'>, rows: T[], columns: Column<T>[]): string {
+  if (rows.length === 0) {
+    return format === 'markdown' ? '_No matching resources._\n' : 'No matching resources.\n';
+  }
+  return format === 'markdown' ? formatMarkdownTable(rows, columns) : formatTextTable(rows, columns);
+}
+
+function resourceFields(resource: NormalizedResource): [string, string][] {
+  return [
+    ['ID', String(resource.id)],
+    ['URL', resource.url],
+    ['Category', [resource.category, resource.subCategory].filter(Boolean).join(' / ') || '-'],
+    ['Pricing', resource.pricing ?? '-'],
+    ['Score', resource.gravityScore.toFixed(1)],
+    ['Featured', resource.featured ? 'Yes' : 'No'],
+    ['Open source', resource.opensource ? 'Yes' : 'No'],
+    ['Tags', resource.tags?.length ? resource.tags.join(', ') : '-'],
+  ];
+}
+
+/**
+ * Render one resource with all its fields
+ */
+export function formatResource(format: Exclude<OutputFormat, 'json'>, resource: NormalizedResource): string {
+  const fields = resourceFields(resource);
+
+  if (format === 'markdown') {
+    const lines = [`# ${resource.name}`, ''];
+    if (resource.description) lines.push(resource.description, '');
+    lines.push(...fields.map(([label, value]) => `- **${label}:** ${label === 'URL' ? `<${value}>` : value}`));
+    return lines.join('\n') + '\n';
+  }
+
+  const labelWidth = Math.max(...fields.map(([label]) => label.length)) + 1;
+  const lines = [resource.name, ''];
+  if (resource.description) lines.push(resource.description, '');
+  lines.push(...fields.map(([label, value]) => `${(label + ':').padEnd(labelWidth)}  ${value}`));
+  return lines.join('\n') + '\n';
+}
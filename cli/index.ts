@@ -0,0 +1,47 @@
+/**
+ * design-directory CLI entry point
+ *
+ * Reads src/data/resources.json and vector-index.json, runs one command
+ * (see cli/design-directory.ts) and prints the result. Needs no API key
+ * or network.
+ *
+ * Run with:
+ *   npm run design-directory -- search "free icon libraries"
+ *   npx tsx cli/index.ts list --category AI --pricing Free --min-score 9
+ *
+ * or, after `npm link`, as `design-directory <command>` (via cli/bin.js).
+ *
+ * Output goes to stdout; warnings and errors go to stderr, so the JSON
+ * format can be piped straight into jq.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { CliError, runCli } from './design-directory';
+import type { NormalizedResource } from '../src/types/resource';
+import type { VectorIndex } from '../src/lib/search/vector-index';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '..', 'src', 'data');
+const RESOURCES_JSON_PATH = path.join(DATA_DIR, 'resources.json');
+const VECTOR_INDEX_PATH = path.join(DATA_DIR, 'vector-index.json');
+
+function main() {
+  const resources: NormalizedResource[] = JSON.parse(fs.readFileSync(RESOURCES_JSON_PATH, 'utf-8'));
+  const vectorIndex: VectorIndex = JSON.parse(fs.readFileSync(VECTOR_INDEX_PATH, 'utf-8'));
+
+  try {
+    const { output, warnings } = runCli(process.argv.slice(2), { resources, vectorIndex });
+    for (const warning of warnings) console.error(warning);
+    process.stdout.write(output);
+  } catch (error) {
+    if (!(error instanceof CliError)) throw error;
+    console.error(`❌ ${error.message}\nRun design-directory --help for usage.`);
+    process.exit(1);
+  }
+}
+
+main();
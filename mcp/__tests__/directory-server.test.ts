@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createDirectoryMcpServer, toHardFilters } from '../directory-server';
+import { resources, vectorIndex } from '../../src/data';
+import type { NormalizedResource } from '../../src/types/resource';
+
+let client: Client;
+
+beforeAll(async () => {
+  const server = createDirectoryMcpServer({ resources, vectorIndex });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  client = new Client({ name: 'test', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+});
+
+afterAll(async () => {
+  await client.close();
+});
+
+async function call(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+  return (await client.callTool({ name, arguments: args })) as CallToolResult;
+}
+
+async function callJson<T>(name: string, args: Record<string, unknown>): Promise<T> {
+  const result = await call(name, args);
+  expect(result.isError).toBeFalsy();
+  const [content] = result.content;
+  return JSON.parse(content.type === 'text' ? content.text : '');
+}
+
+describe('directory MCP server', () => {
+  it('lists every tool as read-only', async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name).sort()).toEqual([
+      'filter_resources', 'get_resource', 'get_suggestions', 'related_resources', 'search_resources',
+    ]);
+    expect(tools.every(t => t.annotations?.readOnlyHint)).toBe(true);
+  });
+
+  it('searches with filters and operators', async () => {
+    const result = await callJson<{ results: { resource: NormalizedResource }[] }>('search_resources', {
+      query: 'react components pricing:free',
+      categories: ['Tools'],
+      limit: 5,
+    });
+    expect(result.results.length).toBeGreaterThan(0);
+    expect(result.results.length).toBeLessThanOrEqual(5);
+    for (const { resource } of result.results) {
+      expect(resource.pricing).toBe('Free');
+      expect(resource.category).toBe('Tools');
+      expect(resource).toEqual(resources.find(r => r.id === resource.id));
+    }
+  });
+
+  it('filters by exact criteria, best score first', async () => {
+    const result = await callJson<{ total: number; resources: NormalizedResource[] }>('filter_resources', {
+      opensource: true,
+      minScore: 8,
+      limit: 50,
+    });
+    expect(result.total).toBe(resources.filter(r => r.opensource && r.gravityScore >= 8).length);
+    const scores = result.resources.map(r => r.gravityScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('rejects values outside the taxonomy', async () => {
+    const result = await call('filter_resources', { categories: ['Kitchen'] });
+    expect(result.isError).toBe(true);
+  });
+
+  it('finds related resources by name', async () => {
+    const result = await callJson<{ target: NormalizedResource; related: { resource: NormalizedResource; similarity: number }[] }>(
+      'related_resources',
+      { name: 'figma', limit: 3 }
+    );
+    expect(result.target.name).toBe('Figma');
+    expect(result.related).toHaveLength(3);
+    expect(result.related.map(r => r.resource.id)).not.toContain(result.target.id);
+  });
+
+  it('reports unknown resources as tool errors', async () => {
+    const result = await call('related_resources', { id: 999999 });
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: 'text', text: 'No resource matches id 999999' }]);
+  });
+
+  it('suggests completions and returns single resources', async () => {
+    const { suggestions } = await callJson<{ suggestions: string[] }>('get_suggestions', { query: 'fig' });
+    expect(suggestions).toContain('Figma');
+    expect(await callJson('get_resource', { id: 1 })).toEqual(resources.find(r => r.id === 1));
+  });
+});
+
+describe('toHardFilters', () => {
+  it('maps score bounds and drops empty lists', () => {
+    expect(toHardFilters({ minScore: 7, maxScore: 9, tags: [], featured: false })).toEqual({
+      minGravityScore: 7,
+      maxGravityScore: 9,
+      featured: false,
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * MCP Server for the Design Directory
+ *
+ * Exposes the local search engine to AI assistants as Model Context
+ * Protocol tools, over the same resources.json and vector index the app
+ * bundles. Everything runs in-process: no LLM, no network.
+ *
+ * Tools:
+ * - search_resources   semanticSearch (natural language + optional filters)
+ * - filter_resources   applyHardFilters (exact criteria, sorted by score)
+ * - related_resources  TF-IDF similarity, like the detail page's Related Resources
+ * - get_suggestions    getSuggestions (typeahead for a partial query)
+ * - get_resource       one resource by id or name
+ *
+ * Resources come back in the NormalizedResource shape, as JSON text.
+ * The stdio entry point is mcp/index.ts.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { CATEGORY_NAMES, PRICING_VALUES, getAllSubCategories } from '../src/data/taxonomy';
+import { applyHardFilters, getSuggestions, semanticSearch, type HardFilters } from '../src/lib/search/semantic-search';
+import { findSimilarResources, getSharedTerms, type VectorIndex } from '../src/lib/search/vector-index';
+import { findResourceByName } from '../src/lib/search/compare-search';
+import { parseQueryOperators } from '../src/lib/search/query-operators';
+import { getSpellingCorrection } from '../src/lib/search/spell-correction';
+import type { NormalizedResource } from '../src/types/resource';
+
+export const SERVER_NAME = 'design-directory';
+export const SERVER_VERSION = '1.0.0';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export interface DirectoryData {
+  resources: NormalizedResource[];
+  vectorIndex: VectorIndex;
+}
+
+const limitSchema = z.number().int().min(1).max(MAX_LIMIT).optional()
+  .describe(`Maximum results (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT})`);
+
+const filterShape = {
+  categories: z.array(z.enum(CATEGORY_NAMES as [string, ...string[]])).optional()
+    .describe('Only these categories (any of)'),
+  subCategories: z.array(z.enum(getAllSubCategories() as [string, ...string[]])).optional()
+    .describe('Only these subcategories (any of)'),
+  pricing: z.array(z.enum(PRICING_VALUES as [string, ...string[]])).optional()
+    .describe('Only these pricing models (any of)'),
+  tags: z.array(z.string()).optional()
+    .describe('Resources with at least one of these tags (partial match)'),
+  minScore: z.number().min(0).max(10).optional().describe('Minimum gravity score (1-10 curated rating)'),
+  maxScore: z.number().min(0).max(10).optional().describe('Maximum gravity score'),
+  featured: z.boolean().optional().describe('Only featured (true) or non-featured (false) resources'),
+  opensource: z.boolean().optional().describe('Only open source (true) or closed source (false) resources'),
+};
+
+type FilterArgs = {
+  [K in keyof typeof filterShape]?: z.infer<(typeof filterShape)[K]>;
+};
+
+/**
+ * Tool arguments → the HardFilters the search engine takes
+ */
+export function toHardFilters(args: FilterArgs): HardFilters {
+  const filters: HardFilters = {};
+  if (args.categories?.length) filters.categories = args.categories;
+  if (args.subCategories?.length) filters.subCategories = args.subCategories;
+  if (args.pricing?.length) filters.pricing = args.pricing;
+  if (args.tags?.length) filters.tags = args.tags;
+  if (args.minScore !== undefined) filters.minGravityScore = args.minScore;
+  if (args.maxScore !== undefined) filters.maxGravityScore = args.maxScore;
+  if (args.featured !== undefined) filters.featured = args.featured;
+  if (args.opensource !== undefined) filters.opensource = args.opensource;
+  return filters;
+}
+
+function jsonResult(value: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(value, null, 2) }] };
+}
+
+function errorResult(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+/**
+ * Look up a resource by id, or by name (exact or a small typo)
+ */
+function resolveResource(
+  resources: NormalizedResource[],
+  args: { id?: number; name?: string }
+): NormalizedResource | string {
+  if (args.id === undefined && !args.name) return 'Pass an id or a name';
+  const resource = args.id !== undefined
+    ? resources.find(r => r.id === args.id)
+    : findResourceByName(resources, args.name!);
+  return resource ?? `No resource matches ${args.id !== undefined ? `id ${args.id}` : `"${args.name}"`}`;
+}
+
+/**
+ * Create the MCP server with every directory tool registered
+ */
+export function createDirectoryMcpServer({ resources, vectorIndex }: DirectoryData): McpServer {
+  const server = new McpServer({ name: SERVER_NAME, version: SERVER_VERSION });
+  const readOnly = { readOnlyHint: true, openWorldHint: false };
+
+  server.registerTool(
+    'search_resources',
+    {
+      title: 'Search resources',
+      description: 'Search the design directory in natural language ("free icon libraries", "figma plugins for prototyping"). '
+        + 'Ranks by name, tag, category and concept matches with typo tolerance; supports the search operators '
+        + '(category:ai pricing:free score:>8 tag:video -tag:3d). Optional filters must match exactly.',
+      inputSchema: {
+        query: z.string().min(1).max(1000).describe('What to look for'),
+        ...filterShape,
+        limit: limitSchema,
+      },
+      annotations: readOnly,
+    },
+    async ({ query, limit = DEFAULT_LIMIT, ...filters }) => {
+      // Operators become hard filters, as in the search bar; tool filters win on conflict
+      const operatorQuery = parseQueryOperators(query);
+      const hasOperators = operatorQuery.operators.length > 0;
+      const { results, metadata } = semanticSearch(resources, hasOperators ? operatorQuery.freeText : query, {
+        hardFilters: { ...operatorQuery.filters, ...toHardFilters(filters) },
+        maxResults: limit,
+      });
+      // Corrections keep the operators as typed
+      const suggestedQuery = hasOperators && metadata.suggestedQuery
+        ? getSpellingCorrection(resources, query)
+        : metadata.suggestedQuery;
+
+      return jsonResult({
+        quality: metadata.quality,
+        totalResults: metadata.totalResults,
+        ...(suggestedQuery && { suggestedQuery }),
+        ...(operatorQuery.errors.length > 0 && { ignoredOperators: operatorQuery.errors }),
+        results: results.map(({ resource, score, matchReasons }) => ({
+          resource,
+          score: Math.round(score),
+          matchReasons,
+        })),
+      });
+    }
+  );
+
+  server.registerTool(
+    'filter_resources',
+    {
+      title: 'Filter resources',
+      description: 'List resources matching exact criteria (category, subcategory, pricing, tags, score range, '
+        + 'featured, open source), highest gravity score first.',
+      inputSchema: { ...filterShape, limit: limitSchema },
+      annotations: readOnly,
+    },
+    async ({ limit = DEFAULT_LIMIT, ...filters }) => {
+      const matches = applyHardFilters(resources, toHardFilters(filters))
+        .sort((a, b) => b.gravityScore - a.gravityScore || a.id - b.id);
+      return jsonResult({ total: matches.length, resources: matches.slice(0, limit) });
+    }
+  );
+
+  server.registerTool(
+    'related_resources',
+    {
+      title: 'Related resources',
+      description: 'Resources most similar to one resource (alternatives to Figma, tools like Webflow), '
+        + 'by description, tags and subcategory. Identify the resource by id or name; optional filters narrow the alternatives.',
+      inputSchema: {
+        id: z.number().int().optional().describe('Resource id'),
+        name: z.string().optional().describe('Resource name (small typos are tolerated)'),
+        ...filterShape,
+        limit: limitSchema,
+      },
+      annotations: readOnly,
+    },
+    async ({ id, name, limit = DEFAULT_LIMIT, ...filters }) => {
+      const target = resolveResource(resources, { id, name });
+      if (typeof target === 'string') return errorResult(target);
+
+      const pool = applyHardFilters(resources, toHardFilters(filters));
+      const similar = findSimilarResources(vectorIndex, target.id, pool, { limit });
+      return jsonResult({
+        target,
+        related: similar.map(({ resource, similarity }) => ({
+          resource,
+          similarity: Math.round(similarity * 1000) / 1000,
+          sharedTerms: getSharedTerms(vectorIndex, target.id, resource.id),
+        })),
+      });
+    }
+  );
+
+  server.registerTool(
+    'get_suggestions',
+    {
+      title: 'Search suggestions',
+      description: 'Resource names, categories and tags that complete a partial query (at least 2 characters).',
+      inputSchema: {
+        query: z.string().describe('Partial query'),
+        limit: z.number().int().min(1).max(20).optional().describe('Maximum suggestions (default 5)'),
+      },
+      annotations: readOnly,
+    },
+    async ({ query, limit = 5 }) => jsonResult({ suggestions: getSuggestions(resources, query, limit) })
+  );
+
+  server.registerTool(
+    'get_resource',
+    {
+      title: 'Get resource',
+      description: 'One resource by id or name.',
+      inputSchema: {
+        id: z.number().int().optional().describe('Resource id'),
+        name: z.string().optional().describe('Resource name (small typos are tolerated)'),
+      },
+      annotations: readOnly,
+    },
+    async ({ id, name }) => {
+      const resource = resolveResource(resources, { id, name });
+      return typeof resource === 'string' ? errorResult(resource) : jsonResult(resource);
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,45 @@
+/**
+ * Design Directory MCP server (stdio)
+ *
+ * Lets AI assistants search the directory with the local search engine.
+ * Reads src/data/resources.json and vector-index.json at startup; needs no
+ * API key or network. See mcp/directory-server.ts for the tools.
+ *
+ * Run with:
+ *   npm run mcp
+ *
+ * Register it with an MCP client as a stdio server, using the tsx installed
+ * with the repo's dependencies so it starts offline, e.g.
+ *   { "command": "/path/to/repo/node_modules/.bin/tsx", "args": ["/path/to/repo/mcp/index.ts"] }
+ *
+ * stdout carries the protocol, so diagnostics go to stderr.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createDirectoryMcpServer } from './directory-server';
+import type { NormalizedResource } from '../src/types/resource';
+import type { VectorIndex } from '../src/lib/search/vector-index';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '..', 'src', 'data');
+const RESOURCES_JSON_PATH = path.join(DATA_DIR, 'resources.json');
+const VECTOR_INDEX_PATH = path.join(DATA_DIR, 'vector-index.json');
+
+async function main() {
+  const resources: NormalizedResource[] = JSON.parse(fs.readFileSync(RESOURCES_JSON_PATH, 'utf-8'));
+  const vectorIndex: VectorIndex = JSON.parse(fs.readFileSync(VECTOR_INDEX_PATH, 'utf-8'));
+
+  const server = createDirectoryMcpServer({ resources, vectorIndex });
+  await server.connect(new StdioServerTransport());
+  console.error(`Design Directory MCP server ready (${resources.length} resources)`);
+}
+
+main().catch(error => {
+  console.error('❌ MCP server failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+/**
+ * Build the local TF-IDF vector index from resources.json
+ *
+ * Writes src/data/vector-index.json, which powers "alternatives to X"
+ * search and related resources without a network call. The output is
+ * deterministic, so rebuilding without resource changes produces no diff.
+ *
+ * Run with:
+ *   npm run build-index            # write the index
+ *   npm run build-index -- --check # exit 1 if the checked-in index is stale
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { buildVectorIndex, serializeVectorIndex } from '../src/lib/search/vector-index';
+import type { NormalizedResource } from '../src/types/resource';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const RESOURCES_JSON_PATH = path.join(__dirname, '..', 'src', 'data', 'resources.json');
+const VECTOR_INDEX_PATH = path.join(__dirname, '..', 'src', 'data', 'vector-index.json');
+
+function main() {
+  const check = process.argv.slice(2).includes('--check');
+  const resources: NormalizedResource[] = JSON.parse(fs.readFileSync(RESOURCES_JSON_PATH, 'utf-8'));
+  const index = buildVectorIndex(resources);
+  const output = serializeVectorIndex(index);
+
+  if (check) {
+    const current = fs.existsSync(VECTOR_INDEX_PATH) ? fs.readFileSync(VECTOR_INDEX_PATH, 'utf-8') : '';
+    if (current !== output) {
+      console.error('❌ vector-index.json is out of date. Run: npm run build-index');
+      process.exit(1);
+    }
+    console.log('✅ vector-index.json is up to date');
+    return;
+  }
+
+  fs.writeFileSync(VECTOR_INDEX_PATH, output);
+  console.log(
+    '✅ Indexed ' + Object.keys(index.vectors).length + ' resources, ' +
+    index.terms.length + ' terms → ' + path.relative(process.cwd(), VECTOR_INDEX_PATH)
+  );
+}
+
+main();
@@ -0,0 +1,89 @@
+/**
+ * Evaluate search relevance against the golden query set
+ *
+ * Runs every query in src/data/golden-queries.json through semanticSearch
+ * and prints precision@k, recall and NDCG per query and overall. The same
+ * check runs in vitest (relevance-eval.test.ts) and fails on any drop
+ * below src/data/relevance-baseline.json.
+ *
+ * Run with:
+ *   npm run eval-search                       # print the report and regressions
+ *   npm run eval-search -- --update-baseline  # store the current metrics
+ *   npm run eval-search -- --json             # raw JSON
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  compareToBaseline,
+  evaluateGoldenSet,
+  findUnknownResources,
+  toBaseline,
+  type GoldenQuery,
+  type RelevanceBaseline,
+  type RelevanceReport,
+} from '../src/lib/search/relevance-eval';
+import type { NormalizedResource } from '../src/types/resource';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, '..', 'src', 'data');
+const RESOURCES_JSON_PATH = path.join(DATA_DIR, 'resources.json');
+const GOLDEN_QUERIES_PATH = path.join(DATA_DIR, 'golden-queries.json');
+const BASELINE_PATH = path.join(DATA_DIR, 'relevance-baseline.json');
+
+const format = (value: number) => value.toFixed(3);
+
+function printReport(report: RelevanceReport) {
+  console.log(`${'Query'.padEnd(32)} P@${report.k}    Recall NDCG@${report.k}`);
+  for (const q of report.queries) {
+    console.log(`${q.query.padEnd(32)} ${format(q.precisionAtK)}  ${format(q.recall)}  ${format(q.ndcg)}`);
+    if (q.missing.length > 0) console.log(`${''.padEnd(32)} missing: ${q.missing.join(', ')}`);
+  }
+  const { overall } = report;
+  console.log(`\n${'Overall'.padEnd(32)} ${format(overall.precisionAtK)}  ${format(overall.recall)}  ${format(overall.ndcg)}`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const resources: NormalizedResource[] = JSON.parse(fs.readFileSync(RESOURCES_JSON_PATH, 'utf-8'));
+  const goldenQueries: GoldenQuery[] = JSON.parse(fs.readFileSync(GOLDEN_QUERIES_PATH, 'utf-8'));
+
+  const unknown = findUnknownResources(resources, goldenQueries);
+  if (unknown.length > 0) {
+    console.error(`❌ Golden queries name unknown resources: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  const report = evaluateGoldenSet(resources, goldenQueries);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  printReport(report);
+
+  if (args.includes('--update-baseline')) {
+    fs.writeFileSync(BASELINE_PATH, JSON.stringify(toBaseline(report), null, 2) + '\n');
+    console.log('\n✅ Baseline written → ' + path.relative(process.cwd(), BASELINE_PATH));
+    return;
+  }
+
+  if (!fs.existsSync(BASELINE_PATH)) {
+    console.log('\nNo baseline yet. Run: npm run eval-search -- --update-baseline');
+    return;
+  }
+  const baseline: RelevanceBaseline = JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf-8'));
+  const regressions = compareToBaseline(report, baseline);
+  if (regressions.length > 0) {
+    console.error('\n❌ Below baseline:');
+    regressions.forEach(line => console.error('  ' + line));
+    process.exit(1);
+  }
+  console.log('\n✅ At or above baseline');
+}
+
+main();
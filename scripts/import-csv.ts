@@ -0,0 +1,102 @@
+/**
+ * Import resources from a CSV spreadsheet export into resources.json
+ *
+ * Maps spreadsheet columns onto the resource schema, assigns new ids,
+ * skips rows whose domain already exists, and prints a diff of what would
+ * change. Nothing is written unless --write is passed.
+ *
+ * Run with:
+ *   npm run import-csv -- path/to/export.csv          # preview only
+ *   npm run import-csv -- path/to/export.csv --write  # preview, then write
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { planCsvImport, CSV_COLUMN_ALIASES } from '../src/data/csv-import';
+import { validateResources, formatResourceIssue } from '../src/data/schema';
+import type { NormalizedResource } from '../src/types/resource';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const RESOURCES_JSON_PATH = path.join(__dirname, '..', 'src', 'data', 'resources.json');
+
+function formatResourceLine(resource: NormalizedResource): string {
+  const parts = [
+    resource.category + ' → ' + (resource.subCategory ?? '-'),
+    resource.pricing ?? 'no pricing',
+    'score ' + resource.gravityScore.toFixed(1),
+  ];
+  if (resource.opensource) parts.push('open source');
+  if (resource.featured) parts.push('featured');
+  return '[' + resource.id + '] ' + resource.name + ' (' + parts.join(', ') + ')';
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const write = args.includes('--write');
+  const csvPath = args.find(arg => !arg.startsWith('--'));
+
+  if (!csvPath) {
+    console.error('Usage: npm run import-csv -- <file.csv> [--write]');
+    console.error('\nRecognised columns: ' + Object.keys(CSV_COLUMN_ALIASES).join(', '));
+    process.exit(1);
+  }
+
+  console.log('📦 Importing resources from ' + csvPath + '\n');
+
+  const csvText = fs.readFileSync(path.resolve(csvPath), 'utf-8');
+  const existing: NormalizedResource[] = JSON.parse(fs.readFileSync(RESOURCES_JSON_PATH, 'utf-8'));
+  const plan = planCsvImport(csvText, existing);
+
+  console.log('📋 Existing resources: ' + existing.length);
+
+  if (plan.unknownColumns.length > 0) {
+    console.log('\n⚠️  Ignored columns: ' + plan.unknownColumns.join(', '));
+  }
+
+  if (plan.errors.length > 0) {
+    console.log('\n❌ Rows with errors: ' + plan.errors.length);
+    plan.errors.forEach(e => console.log('   - row ' + e.row + (e.name ? ' (' + e.name + ')' : '') + ': ' + e.message));
+  }
+
+  console.log('\n⏭️  Skipped (duplicates): ' + plan.duplicates.length);
+  plan.duplicates.forEach(d => console.log('   - row ' + d.row + ': ' + d.name + ' (' + d.domain + ') matches ' + d.existingName));
+
+  console.log('\n--- resources.json');
+  console.log('+++ resources.json (after import)');
+  plan.added.forEach(r => console.log('+ ' + formatResourceLine(r)));
+  if (plan.added.length === 0) console.log('  (no changes)');
+
+  // Validate the merged data so bad rows never reach resources.json
+  const merged = [...existing, ...plan.added];
+  const validation = validateResources(merged);
+  if (!validation.valid) {
+    console.error('\n❌ Schema validation failed with ' + validation.issues.length + ' issue(s):');
+    validation.issues.forEach(issue => console.error('   ' + formatResourceIssue(issue)));
+    process.exit(1);
+  }
+
+  if (plan.errors.length > 0) {
+    console.error('\nFix the rows above and re-run. Nothing was written.');
+    process.exit(1);
+  }
+
+  if (plan.added.length === 0) {
+    console.log('\nNothing to import.');
+    return;
+  }
+
+  if (!write) {
+    console.log('\n🔍 Dry run: ' + plan.added.length + ' resource(s) would be added. Re-run with --write to save them.');
+    return;
+  }
+
+  fs.writeFileSync(RESOURCES_JSON_PATH, JSON.stringify(merged, null, 2) + '\n', 'utf-8');
+
+  console.log('\n💾 Saved! Total resources: ' + merged.length);
+  console.log("\n📸 Run 'npm run capture-screenshots' to capture screenshots for new resources");
+}
+
+main();
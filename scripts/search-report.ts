@@ -0,0 +1,90 @@
+/**
+ * Print the search analytics report
+ *
+ * Lists the queries that most often return nothing (or nothing good), and
+ * the words in them that src/lib/search/semantic-mappings.ts doesn't cover.
+ *
+ * Run with:
+ *   npm run search-report                               # local file store
+ *   npm run search-report -- --file path/to/log.jsonl   # another file
+ *   npm run search-report -- --url https://your.site    # deployed endpoint
+ *   npm run search-report -- --json                     # raw JSON
+ *
+ * --url reads ANALYTICS_ADMIN_TOKEN from the environment or .env.
+ */
+
+import { config } from 'dotenv';
+import { createFileAnalyticsStore } from '../api/_lib/search-analytics-store';
+import { buildSearchReport, type SearchReport } from '../src/lib/search/search-report';
+
+config();
+
+const DEFAULT_FILE_PATH = '.data/search-analytics.jsonl';
+const LIMIT = 25;
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function fetchReport(baseUrl: string): Promise<SearchReport> {
+  const token = process.env.ANALYTICS_ADMIN_TOKEN;
+  if (!token) {
+    throw new Error('ANALYTICS_ADMIN_TOKEN is not set');
+  }
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/analytics/search?limit=${LIMIT}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Report request failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+async function readReport(filePath: string): Promise<SearchReport> {
+  const { totals, queries } = await createFileAnalyticsStore(filePath).getStats(LIMIT);
+  return buildSearchReport(queries, totals, LIMIT);
+}
+
+function printReport(report: SearchReport) {
+  const rate = report.totalSearches > 0
+    ? ((report.failingSearches / report.totalSearches) * 100).toFixed(1) + '%'
+    : 'n/a';
+  console.log(`Searches: ${report.totalSearches}, failing: ${report.failingSearches} (${rate})`);
+
+  console.log('\nTop failing queries (failing / total, zero results, LLM, views):');
+  if (report.topFailingQueries.length === 0) console.log('  None');
+  for (const stats of report.topFailingQueries) {
+    const views = Object.entries(stats.views).map(([view, count]) => `${view} ${count}`).join(', ');
+    console.log(
+      `  ${String(stats.lowQualityCount).padStart(4)} / ${String(stats.count).padEnd(4)} ` +
+      `${JSON.stringify(stats.query)} - ${stats.zeroResultCount} zero, ${stats.llmEnhancedCount} LLM, ${views}`
+    );
+  }
+
+  console.log('\nConcepts missing from semantic-mappings.ts:');
+  if (report.missingConcepts.length === 0) console.log('  None');
+  for (const missing of report.missingConcepts) {
+    console.log(
+      `  ${String(missing.failingSearches).padStart(4)}  ${JSON.stringify(missing.phrase)} ` +
+      `(e.g. ${missing.examples.map(q => JSON.stringify(q)).join(', ')})`
+    );
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const url = getArg(args, '--url');
+  const report = url ? await fetchReport(url) : await readReport(getArg(args, '--file') ?? DEFAULT_FILE_PATH);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
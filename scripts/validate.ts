@@ -0,0 +1,57 @@
+/**
+ * Validate resources.json against the resource schema
+ *
+ * Reports every schema violation with its resource id and field, then prints
+ * category/subcategory statistics. Exits with code 1 if validation fails.
+ *
+ * Run with: npm run validate
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { validateResources, formatResourceIssue } from '../src/data/schema';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const RESOURCES_JSON_PATH = path.join(__dirname, '..', 'src', 'data', 'resources.json');
+
+function main() {
+  const data: unknown = JSON.parse(fs.readFileSync(RESOURCES_JSON_PATH, 'utf-8'));
+  const { valid, issues, resources } = validateResources(data);
+
+  console.log('Total resources:', Array.isArray(data) ? data.length : 0);
+
+  const cats: Record<string, number> = {};
+  const subs: Record<string, number> = {};
+  resources.forEach(res => {
+    cats[res.category ?? '(none)'] = (cats[res.category ?? '(none)'] || 0) + 1;
+    const subKey = res.category + ' → ' + res.subCategory;
+    subs[subKey] = (subs[subKey] || 0) + 1;
+  });
+
+  console.log('\nCategories:');
+  Object.entries(cats).sort((a, b) => b[1] - a[1]).forEach(([k, v]) => console.log('  ' + k + ':', v));
+
+  console.log('\nSubcategories (' + Object.keys(subs).length + ' total):');
+  Object.entries(subs).sort((a, b) => a[0].localeCompare(b[0])).forEach(([k, v]) => console.log('  ' + k + ':', v));
+
+  const avgLen = resources.length
+    ? Math.round(resources.reduce((s, x) => s + (x.description?.length || 0), 0) / resources.length)
+    : 0;
+  console.log('\nAvg description length:', avgLen, 'chars');
+
+  const missing = resources.filter(x => !x.screenshot).map(x => x.name);
+  console.log('Missing screenshots:', missing.length ? missing.join(', ') : 'None');
+
+  if (!valid) {
+    console.error('\n❌ Schema validation failed with ' + issues.length + ' issue(s):');
+    issues.forEach(issue => console.error('   ' + formatResourceIssue(issue)));
+    process.exit(1);
+  }
+
+  console.log('\n✅ Schema validation passed');
+}
+
+main();
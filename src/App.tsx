@@ -2,6 +2,7 @@ import { Routes, Route, useLocation } from 'react-router-dom';
 import { AnimatePresence } from 'framer-motion';
 import Home from './pages/Home';
 import ResourceDetail from './pages/ResourceDetail';
+import Compare from './pages/Compare';
 import { PageTransition } from './components/layout/PageTransition';
 
 /**
@@ -12,6 +13,7 @@ import { PageTransition } from './components/layout/PageTransition';
  * - / : Home page with 3D universe or table view
  * - /?display=table : Table view
  * - /resource/:id : Individual resource detail page
+ * - /compare?ids=1,5,9 : 2-4 resources side by side
  *
  * Uses AnimatePresence for smooth page transitions
  * with fade + slide animations between routes.
@@ -38,6 +40,14 @@ function App() {
             </PageTransition>
           }
         />
+        <Route
+          path="/compare"
+          element={
+            <PageTransition>
+              <Compare />
+            </PageTransition>
+          }
+        />
       </Routes>
     </AnimatePresence>
   );
@@ -3,6 +3,7 @@ import { render, screen, fireEvent, cleanup } from '@testing-library/react';
 import { SearchModal } from '../search/SearchModal';
 import type { SearchResult, GroupedSearchResults } from '../../hooks/useResourceSearch';
 import type { NormalizedResource } from '../../types/resource';
+import type { TypeaheadSuggestion } from '../../lib/search/typeahead';
 
 // ── Helpers ──────────────────────────────────────────────────────────────
 
@@ -47,6 +48,7 @@ let mockSearchReturn = {
   results: [] as SearchResult[],
   groupedResults: {} as GroupedSearchResults,
   defaultResults: [] as SearchResult[],
+  suggestions: [] as TypeaheadSuggestion[],
   isSearching: false,
   clearSearch: mockClearSearch,
   metadata: null,
@@ -145,6 +147,7 @@ describe('SearchModal', () => {
       results: [],
       groupedResults: {},
       defaultResults: allDefaults,
+      suggestions: [],
       isSearching: false,
       clearSearch: mockClearSearch,
       metadata: null,
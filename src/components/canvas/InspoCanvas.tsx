@@ -11,7 +11,6 @@ import NebulaClusters from './NebulaClusters';
 import NebulaPlanes from './NebulaPlanes';
 import ClusterLabels from './ClusterLabels';
 import type { NormalizedResource } from '../../types/resource';
-import { CATEGORY_ORDER, CATEGORY_COLORS } from '../../types/resource';
 
 /**
  * Camera animation configuration
@@ -958,7 +957,7 @@ export default function InspoCanvas({
   // Calculate cluster configurations based on resources
   const clusters = useMemo(() => {
     if (resources.length === 0) return [];
-    return calculateCategoryClusters(resources, CATEGORY_ORDER, CATEGORY_COLORS);
+    return calculateCategoryClusters(resources);
   }, [resources]);
 
   // Track mouse position for tooltip
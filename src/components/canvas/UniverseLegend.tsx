@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronDown } from 'lucide-react';
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from '@/components/ui/collapsible';
-import { CATEGORY_COLORS } from '@/types/resource';
+import { TAXONOMY } from '@/data/taxonomy';
 
 interface UniverseLegendProps {
   isOpen: boolean;
@@ -378,7 +378,7 @@ export const UniverseLegend: React.FC<UniverseLegendProps> = ({ isOpen, onClose
                       transition={{ duration: 0.2 }}
                       className="grid grid-cols-2 gap-2"
                     >
-                      {Object.entries(CATEGORY_COLORS).map(([category, color], index) => (
+                      {TAXONOMY.categories.map(({ name: category, color }, index) => (
                         <motion.div
                           key={category}
                           initial={{ opacity: 0, scale: 0.8 }}
@@ -4,15 +4,19 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { CardViewBreadcrumbs } from './CardViewBreadcrumbs';
 import { CategoryGrid } from './CategoryGrid';
 import { ResourceMosaic } from './ResourceMosaic';
+import { ExportMenu } from '../ui/ExportMenu';
 import type { NormalizedResource } from '../../types/resource';
+import type { ExportContext } from '@/lib/export';
 import { PAGE_TRANSITION } from '@/lib/motion-tokens';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
 
 interface CardViewProps {
   resources: NormalizedResource[];
+  /** Name of the collection `resources` was narrowed to, for exports */
+  collectionName?: string;
 }
 
-export function CardView({ resources }: CardViewProps) {
+export function CardView({ resources, collectionName }: CardViewProps) {
   const [searchParams, setSearchParams] = useSearchParams();
   const prefersReducedMotion = useReducedMotion();
 
@@ -55,6 +59,15 @@ export function CardView({ resources }: CardViewProps) {
     return filtered;
   }, [resources, activeCategory, activeSubcategory]);
 
+  // Export context - card view filters by collection, category and subcategory only
+  const exportContext = useMemo((): ExportContext => {
+    const filters: Record<string, string> = {};
+    if (collectionName) filters.Collection = collectionName;
+    if (activeCategory) filters.Category = activeCategory;
+    if (activeSubcategory) filters['Sub-category'] = activeSubcategory;
+    return { view: 'card', filters };
+  }, [collectionName, activeCategory, activeSubcategory]);
+
   // Navigation handlers
   const navigateToHome = useCallback(() => {
     setSearchParams({ display: 'card' });
@@ -96,6 +109,7 @@ export function CardView({ resources }: CardViewProps) {
           resourceCount={filteredResources.length}
           onNavigateHome={navigateToHome}
           onNavigateCategory={navigateToCategory}
+          actions={<ExportMenu resources={filteredResources} context={exportContext} />}
         />
 
         {/* Content based on level */}
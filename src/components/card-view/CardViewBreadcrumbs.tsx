@@ -1,3 +1,4 @@
+import type { ReactNode } from 'react';
 import { motion } from 'framer-motion';
 import { ChevronRight, LayoutGrid } from 'lucide-react';
 import { getCategoryColor } from '../../types/resource';
@@ -8,6 +9,8 @@ interface CardViewBreadcrumbsProps {
   resourceCount: number;
   onNavigateHome: () => void;
   onNavigateCategory: () => void;
+  /** Optional controls rendered after the resource count (e.g. export menu) */
+  actions?: ReactNode;
 }
 
 export function CardViewBreadcrumbs({
@@ -15,7 +18,8 @@ export function CardViewBreadcrumbs({
   subcategory,
   resourceCount,
   onNavigateHome,
-  onNavigateCategory
+  onNavigateCategory,
+  actions,
 }: CardViewBreadcrumbsProps) {
   const categoryColor = category ? getCategoryColor(category) : null;
 
@@ -79,11 +83,14 @@ export function CardViewBreadcrumbs({
         )}
       </div>
 
-      {/* Resource count */}
-      <p className="text-sm text-[var(--fg-secondary)] shrink-0 whitespace-nowrap">
-        <span className="font-semibold text-brand-aperol">{resourceCount}</span>
-        {' '}resource{resourceCount !== 1 ? 's' : ''}
-      </p>
+      {/* Resource count + actions */}
+      <div className="flex items-center gap-3 shrink-0">
+        <p className="text-sm text-[var(--fg-secondary)] whitespace-nowrap">
+          <span className="font-semibold text-brand-aperol">{resourceCount}</span>
+          {' '}resource{resourceCount !== 1 ? 's' : ''}
+        </p>
+        {actions}
+      </div>
     </motion.nav>
   );
 }
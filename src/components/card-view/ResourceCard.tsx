@@ -5,6 +5,7 @@ import { getCategoryColor } from '../../types/resource';
 import { SPRING, STAGGER } from '@/lib/motion-tokens';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
 import { ResourceLogo } from '@/components/ui/ResourceLogo';
+import { FavoriteButton } from '@/components/ui/FavoriteButton';
 
 interface ResourceCardProps {
   resource: NormalizedResource;
@@ -29,16 +30,9 @@ export function ResourceCard({ resource, index }: ResourceCardProps) {
   const pricingColor = getPricingColor(resource.pricing);
 
   return (
-    <motion.button
-      onClick={() => navigate(`/resource/${resource.id}`)}
-      className={`
-        relative w-full aspect-square rounded-lg overflow-hidden
-        bg-os-surface-dark/40 border border-[var(--border-secondary)]
-        flex flex-col items-center justify-center p-3
-        text-center transition-colors duration-200
-        focus:outline-none focus:ring-1 focus:ring-[var(--border-primary)]/60 focus:ring-offset-2 focus:ring-offset-[var(--bg-primary)]
-        group
-      `}
+    // Wrapper so the favorite star isn't nested inside the card button
+    <motion.div
+      className="relative group"
       variants={prefersReducedMotion ? {
         hidden: { opacity: 0 },
         visible: { opacity: 1 }
@@ -54,43 +48,56 @@ export function ResourceCard({ resource, index }: ResourceCardProps) {
           }
         }
       }}
-      whileHover={prefersReducedMotion ? {} : {
-        scale: 1.02,
-        boxShadow: `0 8px 30px ${categoryColor}15`,
-        borderColor: categoryColor,
-      }}
-      whileTap={prefersReducedMotion ? {} : { scale: 0.98 }}
     >
-      {/* Resource logo */}
-      <ResourceLogo resource={resource} size="lg" faviconSize="lg" className="mb-2" />
+      <motion.button
+        onClick={() => navigate(`/resource/${resource.id}`)}
+        className={`
+          relative w-full aspect-square rounded-lg overflow-hidden
+          bg-os-surface-dark/40 border border-[var(--border-secondary)]
+          flex flex-col items-center justify-center p-3
+          text-center transition-colors duration-200
+          focus:outline-none focus:ring-1 focus:ring-[var(--border-primary)]/60 focus:ring-offset-2 focus:ring-offset-[var(--bg-primary)]
+        `}
+        whileHover={prefersReducedMotion ? {} : {
+          scale: 1.02,
+          boxShadow: `0 8px 30px ${categoryColor}15`,
+          borderColor: categoryColor,
+        }}
+        whileTap={prefersReducedMotion ? {} : { scale: 0.98 }}
+      >
+        {/* Resource logo */}
+        <ResourceLogo resource={resource} size="lg" faviconSize="lg" className="mb-2" />
 
-      {/* Resource name */}
-      <p className="text-xs font-medium text-[var(--fg-primary)] line-clamp-2 leading-tight">
-        {resource.name}
-      </p>
+        {/* Resource name */}
+        <p className="text-xs font-medium text-[var(--fg-primary)] line-clamp-2 leading-tight">
+          {resource.name}
+        </p>
 
-      {/* Pricing badge */}
-      {resource.pricing && pricingColor && (
-        <div
-          className="absolute top-2 right-2 px-1.5 py-0.5 rounded text-[10px] font-medium"
+        {/* Pricing badge */}
+        {resource.pricing && pricingColor && (
+          <div
+            className="absolute top-2 right-2 px-1.5 py-0.5 rounded text-[10px] font-medium"
+            style={{
+              backgroundColor: `${pricingColor}20`,
+              color: pricingColor,
+            }}
+          >
+            {resource.pricing}
+          </div>
+        )}
+
+        {/* Hover overlay with category color */}
+        <motion.div
+          className="absolute inset-0 pointer-events-none"
+          initial={{ opacity: 0 }}
+          whileHover={{ opacity: 1 }}
           style={{
-            backgroundColor: `${pricingColor}20`,
-            color: pricingColor,
+            background: `linear-gradient(135deg, ${categoryColor}05 0%, ${categoryColor}10 100%)`,
           }}
-        >
-          {resource.pricing}
-        </div>
-      )}
+        />
+      </motion.button>
 
-      {/* Hover overlay with category color */}
-      <motion.div
-        className="absolute inset-0 pointer-events-none"
-        initial={{ opacity: 0 }}
-        whileHover={{ opacity: 1 }}
-        style={{
-          background: `linear-gradient(135deg, ${categoryColor}05 0%, ${categoryColor}10 100%)`,
-        }}
-      />
-    </motion.button>
+      <FavoriteButton resource={resource} size="sm" revealOnHover className="absolute top-2 left-2" />
+    </motion.div>
   );
 }
@@ -1,4 +1,5 @@
 import { motion } from 'framer-motion';
+import { Sparkles } from 'lucide-react';
 import { DURATION, EASING } from '@/lib/motion-tokens';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
 import { LogoStack } from './LogoStack';
@@ -15,6 +16,8 @@ interface LandingPageProps {
   onNavigate: (display: '3d' | 'card' | 'table') => void;
   isExiting?: boolean;
   onExitComplete?: () => void;
+  /** Opens the guided recommendation flow */
+  onRecommend?: () => void;
 }
 
 /** Stagger entrance variants */
@@ -53,9 +56,10 @@ const EXIT_BG_DURATION = 0.3;
  *
  * The front door of the Design Directory.
  * Shows a rotating icon carousel, title, description,
- * and a view toggle to jump into Universe, Card, or Table.
+ * a view toggle to jump into Universe, Card, or Table, and a way into
+ * the guided recommendations for visitors who don't know where to start.
  */
-export function LandingPage({ resources, totalCount, onNavigate, isExiting, onExitComplete }: LandingPageProps) {
+export function LandingPage({ resources, totalCount, onNavigate, isExiting, onExitComplete, onRecommend }: LandingPageProps) {
   const prefersReducedMotion = useReducedMotion();
   const variants = prefersReducedMotion ? reducedItemVariants : itemVariants;
 
@@ -141,6 +145,15 @@ export function LandingPage({ resources, totalCount, onNavigate, isExiting, onEx
           <div className="w-full flex justify-center">
             <LandingViewToggle onNavigate={onNavigate} />
           </div>
+          {onRecommend && (
+            <button
+              onClick={onRecommend}
+              className="mt-2 inline-flex items-center gap-1.5 text-sm text-[var(--fg-secondary)] hover:text-brand-aperol transition-colors"
+            >
+              <Sparkles className="w-4 h-4" />
+              Not sure? Help me choose
+            </button>
+          )}
         </motion.div>
 
         {/* Resource counter */}
@@ -0,0 +1,250 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, ArrowRight, Sparkles, X } from 'lucide-react';
+import type { NormalizedResource } from '../../types/resource';
+import { PAGE_TRANSITION } from '@/lib/motion-tokens';
+import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { ResourceLogo } from '@/components/ui/ResourceLogo';
+import {
+  RECOMMEND_STEPS,
+  recommendResources,
+  type RecommendAnswers,
+} from '@/lib/search/recommend';
+
+interface RecommendWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  resources: NormalizedResource[];
+  onSelectResource: (resource: NormalizedResource) => void;
+  /** Show the whole shortlist in the current view */
+  onShowResults?: (resources: NormalizedResource[]) => void;
+  /** Answers to start from (e.g. from a "recommend" search) */
+  initialAnswers?: RecommendAnswers;
+}
+
+/** Picks shown in the shortlist */
+const SHORTLIST_SIZE = 5;
+
+/**
+ * RecommendWizard
+ *
+ * Guided flow for the "recommend" intent: five quick questions, then a
+ * ranked shortlist with a reason for each pick. Every question can be
+ * skipped; answers only narrow what they're about.
+ */
+export function RecommendWizard({
+  isOpen,
+  onClose,
+  resources,
+  onSelectResource,
+  onShowResults,
+  initialAnswers,
+}: RecommendWizardProps) {
+  const [answers, setAnswers] = useState<RecommendAnswers>(initialAnswers ?? {});
+  const [stepIndex, setStepIndex] = useState(0);
+  const [mounted, setMounted] = useState(false);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const previousFocusRef = useRef<HTMLElement | null>(null);
+  const prefersReducedMotion = useReducedMotion();
+
+  const isShortlist = stepIndex >= RECOMMEND_STEPS.length;
+  const step = RECOMMEND_STEPS[stepIndex];
+
+  const shortlist = useMemo(
+    () => (isShortlist ? recommendResources(resources, answers, { limit: SHORTLIST_SIZE }) : []),
+    [isShortlist, resources, answers]
+  );
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // Start over with the initial answers each time the wizard opens
+  useEffect(() => {
+    if (isOpen) {
+      setAnswers(initialAnswers ?? {});
+      setStepIndex(0);
+    }
+  }, [isOpen, initialAnswers]);
+
+  // Focus the dialog when it opens, restore focus on close
+  useEffect(() => {
+    if (isOpen) {
+      previousFocusRef.current = document.activeElement as HTMLElement;
+      setTimeout(() => dialogRef.current?.querySelector<HTMLElement>('[data-autofocus]')?.focus(), 50);
+    } else if (previousFocusRef.current) {
+      previousFocusRef.current.focus();
+      previousFocusRef.current = null;
+    }
+  }, [isOpen]);
+
+  // Move focus to the first option of each new step
+  useEffect(() => {
+    if (isOpen) dialogRef.current?.querySelector<HTMLElement>('[data-autofocus]')?.focus();
+  }, [isOpen, stepIndex]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const answer = (value: string) => {
+    setAnswers(prev => ({ ...prev, [step.id]: value }));
+    setStepIndex(index => index + 1);
+  };
+
+  const skip = () => {
+    setAnswers(prev => {
+      const next = { ...prev };
+      delete next[step.id];
+      return next;
+    });
+    setStepIndex(index => index + 1);
+  };
+
+  const modalContent = (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={PAGE_TRANSITION.backdrop.initial}
+            animate={PAGE_TRANSITION.backdrop.animate}
+            exit={PAGE_TRANSITION.backdrop.exit}
+            transition={PAGE_TRANSITION.backdrop.transition}
+            className="fixed inset-0 z-[9998] bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+          />
+
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="recommend-wizard-title"
+            className="fixed inset-0 z-[9999] flex items-start justify-center pt-[12vh] px-4"
+            onClick={onClose}
+          >
+            <motion.div
+              ref={dialogRef}
+              initial={prefersReducedMotion ? PAGE_TRANSITION.reduced.initial : PAGE_TRANSITION.modal.initial}
+              animate={prefersReducedMotion ? PAGE_TRANSITION.reduced.animate : PAGE_TRANSITION.modal.animate}
+              exit={prefersReducedMotion ? PAGE_TRANSITION.reduced.exit : PAGE_TRANSITION.modal.exit}
+              transition={prefersReducedMotion ? PAGE_TRANSITION.reduced.transition : PAGE_TRANSITION.modal.transition}
+              className="w-full max-w-xl bg-[var(--bg-primary)] rounded-xl border border-[var(--border-secondary)] shadow-2xl overflow-hidden"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div className="flex items-center gap-3 px-5 py-4 border-b border-[var(--border-secondary)]">
+                <Sparkles className="w-5 h-5 text-brand-aperol flex-shrink-0" />
+                <h2 id="recommend-wizard-title" className="flex-1 text-sm font-medium text-[var(--fg-primary)]">
+                  {isShortlist ? 'Your shortlist' : step.question}
+                </h2>
+                {!isShortlist && (
+                  <span className="text-xs text-[var(--fg-tertiary)]">
+                    {stepIndex + 1} of {RECOMMEND_STEPS.length}
+                  </span>
+                )}
+                <button
+                  onClick={onClose}
+                  aria-label="Close recommendations"
+                  className="p-1 rounded-full text-[var(--fg-secondary)] hover:text-[var(--fg-primary)] hover:bg-[var(--bg-tertiary)] transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* Question */}
+              {!isShortlist && (
+                <div className="p-5 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {step.options.map((option, index) => (
+                    <button
+                      key={option.value}
+                      data-autofocus={index === 0 ? true : undefined}
+                      onClick={() => answer(option.value)}
+                      aria-pressed={answers[step.id] === option.value}
+                      className={`text-left px-3 py-2.5 rounded-lg border transition-colors ${
+                        answers[step.id] === option.value
+                          ? 'border-brand-aperol bg-brand-aperol/10'
+                          : 'border-[var(--border-secondary)] hover:border-[var(--fg-tertiary)] hover:bg-[var(--bg-secondary)]/50'
+                      }`}
+                    >
+                      <span className="block text-sm text-[var(--fg-primary)]">{option.label}</span>
+                      {option.description && (
+                        <span className="block text-xs text-[var(--fg-secondary)]">{option.description}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Shortlist */}
+              {isShortlist && (
+                <ol aria-label="Recommended resources" className="py-2">
+                  {shortlist.map(({ resource, reason }, index) => (
+                    <li key={resource.id}>
+                      <button
+                        data-autofocus={index === 0 ? true : undefined}
+                        onClick={() => onSelectResource(resource)}
+                        className="w-full flex items-center gap-3 px-5 py-3 text-left hover:bg-[var(--bg-secondary)]/50 transition-colors"
+                      >
+                        <span className="w-4 text-xs text-[var(--fg-tertiary)]">{index + 1}</span>
+                        <ResourceLogo resource={resource} size="sm" />
+                        <span className="flex-1 min-w-0">
+                          <span className="block text-sm font-medium text-[var(--fg-primary)] truncate">{resource.name}</span>
+                          <span className="block text-xs text-[var(--fg-secondary)] truncate">{reason}</span>
+                        </span>
+                        <ArrowRight className="w-4 h-4 text-[var(--fg-secondary)] flex-shrink-0" />
+                      </button>
+                    </li>
+                  ))}
+                  {shortlist.length === 0 && (
+                    <li className="px-5 py-6 text-sm text-center text-[var(--fg-secondary)]">
+                      Nothing matches all of that. Try relaxing the budget or open-source answer.
+                    </li>
+                  )}
+                </ol>
+              )}
+
+              {/* Footer */}
+              <div className="flex items-center justify-between px-5 py-3 border-t border-[var(--border-secondary)]">
+                <button
+                  onClick={() => setStepIndex(index => Math.max(0, index - 1))}
+                  disabled={stepIndex === 0}
+                  className="inline-flex items-center gap-1.5 text-xs text-[var(--fg-secondary)] hover:text-[var(--fg-primary)] disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  <ArrowLeft className="w-3.5 h-3.5" />
+                  Back
+                </button>
+                {isShortlist ? (
+                  onShowResults && shortlist.length > 0 && (
+                    <button
+                      onClick={() => onShowResults(shortlist.map(pick => pick.resource))}
+                      className="px-3 py-1.5 rounded-lg bg-brand-aperol text-white text-xs hover:bg-brand-aperol/90 transition-colors"
+                    >
+                      Show in view
+                    </button>
+                  )
+                ) : (
+                  <button
+                    onClick={skip}
+                    className="text-xs text-[var(--fg-secondary)] hover:text-[var(--fg-primary)] transition-colors"
+                  >
+                    Skip
+                  </button>
+                )}
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+
+  if (!mounted) return null;
+
+  return createPortal(modalContent, document.body);
+}
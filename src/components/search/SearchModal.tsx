@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, X, ArrowRight, Command } from 'lucide-react';
+import { Search, X, ArrowRight, Command, CornerDownLeft } from 'lucide-react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { useResourceSearch, type SearchResult } from '../../hooks/useResourceSearch';
 import type { NormalizedResource } from '../../types/resource';
@@ -10,6 +10,9 @@ import { PAGE_TRANSITION } from '@/lib/motion-tokens';
 import { SearchResultSkeleton } from '@/components/ui/Skeleton';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
 import { ResourceLogo } from '@/components/ui/ResourceLogo';
+import { HighlightedText } from '@/components/ui/HighlightedText';
+import { getFieldSpans, getDescriptionSnippet } from '@/lib/search/match-spans';
+import type { SuggestionKind, TypeaheadSuggestion } from '@/lib/search/typeahead';
 
 // Virtual list item types
 type VirtualItem =
@@ -23,6 +26,15 @@ const HEADER_HEIGHT = 32;
 const RESULT_HEIGHT = 60;
 const POPULAR_LABEL_HEIGHT = 28;
 
+// Short hint shown beside each suggestion
+const SUGGESTION_KIND_LABELS: Record<SuggestionKind, string> = {
+  facet: 'Filter',
+  resource: 'Resource',
+  subcategory: 'Subcategory',
+  tag: 'Tag',
+  concept: 'Topic',
+};
+
 interface SearchModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -41,8 +53,9 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
   // Refs for keyboard handler to avoid listener churn (Bug 1 fix)
   const selectedIndexRef = useRef(selectedIndex);
   const flatResultsRef = useRef<SearchResult[]>([]);
+  const suggestionsRef = useRef<TypeaheadSuggestion[]>([]);
 
-  const { query, setQuery, groupedResults, defaultResults, isSearching, clearSearch } = useResourceSearch({
+  const { query, setQuery, groupedResults, defaultResults, suggestions, isSearching, clearSearch, metadata } = useResourceSearch({
     debounceMs: 100,
     maxResults: 30,
   });
@@ -60,6 +73,9 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
     return groups;
   }, [defaultResults]);
 
+  // "Did you mean" for the settled query
+  const suggestedQuery = query.trim() && !isSearching ? metadata?.suggestedQuery : undefined;
+
   // Use search results when query exists, otherwise show default results
   const displayGroupedResults = query.trim() ? groupedResults : defaultGroupedResults;
 
@@ -147,10 +163,14 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
     }
   }, [isOpen, clearSearch]);
 
+  // Suggestions come first in keyboard order, but selection starts on the
+  // first result so Enter still opens the top match
+  const suggestionCount = suggestions.length;
+
   // Reset selection when results change
   useEffect(() => {
-    setSelectedIndex(0);
-  }, [query]);
+    setSelectedIndex(suggestionCount);
+  }, [query, suggestionCount]);
 
   // Keep refs in sync for keyboard handler (Bug 1 fix)
   useEffect(() => {
@@ -161,28 +181,40 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
     flatResultsRef.current = flatResults;
   }, [flatResults]);
 
+  useEffect(() => {
+    suggestionsRef.current = suggestions;
+  }, [suggestions]);
+
   // Scroll selected item into view using virtualizer
   useEffect(() => {
-    if (selectedIndex >= 0) {
-      const virtualIndex = resultIndexToVirtualIndex.get(selectedIndex);
+    if (selectedIndex >= suggestionCount) {
+      const virtualIndex = resultIndexToVirtualIndex.get(selectedIndex - suggestionCount);
       if (virtualIndex !== undefined) {
         virtualizer.scrollToIndex(virtualIndex, { align: 'auto', behavior: 'smooth' });
       }
     }
-  }, [selectedIndex, resultIndexToVirtualIndex, virtualizer]);
+  }, [selectedIndex, suggestionCount, resultIndexToVirtualIndex, virtualizer]);
 
   // Handle selection
   const handleSelect = useCallback((result: SearchResult) => {
     onSelectResource(result.resource);
   }, [onSelectResource]);
 
+  // Accepting a suggestion completes the query and keeps typing in the input
+  const handleAcceptSuggestion = useCallback((suggestion: TypeaheadSuggestion) => {
+    setQuery(suggestion.value);
+    inputRef.current?.focus();
+  }, [setQuery]);
+
   // Handle keyboard navigation (Bug 1 fix: read from refs to avoid listener churn)
   useEffect(() => {
     if (!isOpen) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
       const currentResults = flatResultsRef.current;
+      const currentSuggestions = suggestionsRef.current;
       const currentIndex = selectedIndexRef.current;
+      const itemCount = currentSuggestions.length + currentResults.length;
 
       if (e.key === 'Escape') {
         onClose();
@@ -198,35 +230,40 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
       } else if (e.key === 'ArrowDown') {
         e.preventDefault();
         setSelectedIndex(
-          currentIndex < currentResults.length - 1 ? currentIndex + 1 : 0
+          currentIndex < itemCount - 1 ? currentIndex + 1 : 0
         );
       } else if (e.key === 'ArrowUp') {
         e.preventDefault();
         setSelectedIndex(
-          currentIndex > 0 ? currentIndex - 1 : currentResults.length - 1
+          currentIndex > 0 ? currentIndex - 1 : itemCount - 1
         );
       } else if (e.key === 'Enter') {
         e.preventDefault();
-        if (currentResults[currentIndex]) {
-          handleSelect(currentResults[currentIndex]);
+        if (currentSuggestions[currentIndex]) {
+          handleAcceptSuggestion(currentSuggestions[currentIndex]);
+        } else if (currentResults[currentIndex - currentSuggestions.length]) {
+          handleSelect(currentResults[currentIndex - currentSuggestions.length]);
         }
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isOpen, onClose, handleSelect]);
+  }, [isOpen, onClose, handleSelect, handleAcceptSuggestion]);
 
   // Render result item
   const renderResultItem = (result: SearchResult, isSelected: boolean, globalIndex: number) => {
     const categoryColor = getCategoryColor(result.resource.category);
+    const nameSpans = getFieldSpans(result.matches, 'name');
+    // Excerpt around the best description match (plain description start otherwise)
+    const snippet = getDescriptionSnippet(result.resource.description, result.matches, 90);
 
     return (
       <button
         key={result.resource.id}
         data-index={globalIndex}
         onClick={() => handleSelect(result)}
-        onMouseEnter={() => setSelectedIndex(globalIndex)}
+        onMouseEnter={() => setSelectedIndex(suggestionCount + globalIndex)}
         className={`
           w-full flex items-center gap-3
           px-5 py-3
@@ -240,11 +277,11 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
         <ResourceLogo resource={result.resource} size="sm" />
         <div className="flex-1 min-w-0">
           <div className="text-sm font-medium text-[var(--fg-primary)] truncate">
-            {result.resource.name}
+            <HighlightedText text={result.resource.name} spans={nameSpans} />
           </div>
-          {result.resource.description && (
+          {snippet && (
             <div className="text-xs text-[var(--fg-secondary)] truncate">
-              {result.resource.description}
+              <HighlightedText text={snippet.text} spans={snippet.spans} />
             </div>
           )}
         </div>
@@ -345,6 +382,60 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
                 </div>
               </div>
 
+              {/* Typeahead suggestions */}
+              {suggestions.length > 0 && (
+                <div aria-label="Suggestions" role="group" className="py-1.5 border-b border-[var(--border-secondary)]">
+                  {suggestions.map((suggestion, index) => {
+                    const isSelected = selectedIndex === index;
+                    return (
+                      <button
+                        key={`${suggestion.kind}-${suggestion.label}`}
+                        onClick={() => handleAcceptSuggestion(suggestion)}
+                        onMouseEnter={() => setSelectedIndex(index)}
+                        className={`
+                          w-full flex items-center gap-3
+                          px-5 py-1.5
+                          text-left text-sm
+                          transition-colors
+                          ${isSelected ? 'bg-[var(--bg-secondary)]' : 'hover:bg-[var(--bg-secondary)]/50'}
+                        `}
+                      >
+                        <Search className="w-3.5 h-3.5 text-[var(--fg-secondary)] flex-shrink-0" />
+                        <span className="flex-1 min-w-0 truncate text-[var(--fg-primary)]">
+                          {suggestion.label}
+                          {suggestion.count !== undefined && (
+                            <span className="text-[var(--fg-secondary)]"> ({suggestion.count})</span>
+                          )}
+                        </span>
+                        <span className="text-[10px] uppercase tracking-wider text-[var(--fg-secondary)]">
+                          {SUGGESTION_KIND_LABELS[suggestion.kind]}
+                        </span>
+                        {isSelected && (
+                          <CornerDownLeft className="w-3.5 h-3.5 text-[var(--fg-secondary)] flex-shrink-0" />
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Spelling correction - re-runs the search */}
+              {suggestedQuery && (
+                <div className="px-5 py-2 text-xs text-[var(--fg-secondary)] border-b border-[var(--border-secondary)]">
+                  Did you mean{' '}
+                  <button
+                    onClick={() => {
+                      setQuery(suggestedQuery);
+                      inputRef.current?.focus();
+                    }}
+                    className="font-medium text-brand-aperol hover:underline"
+                  >
+                    {suggestedQuery}
+                  </button>
+                  ?
+                </div>
+              )}
+
               {/* Results List - Virtualized */}
               <div
                 ref={scrollContainerRef}
@@ -418,7 +509,7 @@ export function SearchModal({ isOpen, onClose, onSelectResource }: SearchModalPr
                             transform: `translateY(${virtualRow.start}px)`,
                           }}
                         >
-                          {renderResultItem(result, selectedIndex === globalIndex, globalIndex)}
+                          {renderResultItem(result, selectedIndex === suggestionCount + globalIndex, globalIndex)}
                         </div>
                       );
                     })}
@@ -3,6 +3,8 @@ import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { SearchModal } from '../SearchModal';
 import type { NormalizedResource } from '../../../types/resource';
+import type { MatchSpan } from '../../../lib/search/match-spans';
+import type { TypeaheadSuggestion } from '../../../lib/search/typeahead';
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
@@ -78,8 +80,10 @@ vi.mock('framer-motion', () => {
 // Mock useResourceSearch — controlled via mockSetQuery / mockResults
 let mockQuery = '';
 let mockSetQuery: ReturnType<typeof vi.fn>;
-let mockGroupedResults: Record<string, { resource: NormalizedResource; score: number; matchedField: string }[]> = {};
+let mockGroupedResults: Record<string, { resource: NormalizedResource; score: number; matchedField: string; matches?: MatchSpan[] }[]> = {};
 let mockDefaultResults: { resource: NormalizedResource; score: number; matchedField: string }[] = [];
+let mockSuggestions: TypeaheadSuggestion[] = [];
+let mockSuggestedQuery: string | undefined;
 let mockIsSearching = false;
 const mockClearSearch = vi.fn();
 
@@ -89,6 +93,8 @@ vi.mock('../../../hooks/useResourceSearch', () => ({
     setQuery: mockSetQuery,
     groupedResults: mockGroupedResults,
     defaultResults: mockDefaultResults,
+    suggestions: mockSuggestions,
+    metadata: mockSuggestedQuery ? { suggestedQuery: mockSuggestedQuery } : null,
     isSearching: mockIsSearching,
     clearSearch: mockClearSearch,
   }),
@@ -138,6 +144,8 @@ function setMockSearchState(opts: {
   query?: string;
   grouped?: Record<string, NormalizedResource[]>;
   defaults?: NormalizedResource[];
+  suggestions?: TypeaheadSuggestion[];
+  suggestedQuery?: string;
   isSearching?: boolean;
 }) {
   mockQuery = opts.query ?? '';
@@ -150,6 +158,8 @@ function setMockSearchState(opts: {
   if (opts.defaults) {
     mockDefaultResults = opts.defaults.map(toSearchResult);
   }
+  mockSuggestions = opts.suggestions ?? [];
+  mockSuggestedQuery = opts.suggestedQuery;
   mockIsSearching = opts.isSearching ?? false;
 }
 
@@ -299,6 +309,78 @@ describe('SearchModal', () => {
     });
   });
 
+  describe('typeahead suggestions', () => {
+    const suggestions: TypeaheadSuggestion[] = [
+      { kind: 'facet', label: 'pricing: Free', value: 'pricing:Free ', count: 42 },
+      { kind: 'resource', label: 'Freepik', value: 'Freepik ' },
+    ];
+
+    it('shows suggestions with their counts', () => {
+      setMockSearchState({ query: 'fre', grouped: { Tools: [MOCK_RESOURCES[0]] }, suggestions });
+      render(<SearchModal {...defaultProps} />);
+
+      const group = screen.getByRole('group', { name: 'Suggestions' });
+      expect(group).toHaveTextContent('pricing: Free (42)');
+      expect(group).toHaveTextContent('Freepik');
+    });
+
+    it('keeps Enter on the first result until a suggestion is selected', async () => {
+      const onSelectResource = vi.fn();
+      setMockSearchState({ query: 'fre', grouped: { Tools: [MOCK_RESOURCES[0]] }, suggestions });
+
+      const user = userEvent.setup();
+      render(<SearchModal {...defaultProps} onSelectResource={onSelectResource} />);
+
+      await user.keyboard('{Enter}');
+      expect(onSelectResource).toHaveBeenCalledWith(MOCK_RESOURCES[0]);
+      expect(mockSetQuery).not.toHaveBeenCalled();
+    });
+
+    it('moves into suggestions with ArrowUp and completes the query on Enter', async () => {
+      const onSelectResource = vi.fn();
+      setMockSearchState({ query: 'fre', grouped: { Tools: [MOCK_RESOURCES[0]] }, suggestions });
+
+      const user = userEvent.setup();
+      render(<SearchModal {...defaultProps} onSelectResource={onSelectResource} />);
+
+      // First result → last suggestion → first suggestion
+      await user.keyboard('{ArrowUp}{ArrowUp}{Enter}');
+      expect(mockSetQuery).toHaveBeenCalledWith('pricing:Free ');
+      expect(onSelectResource).not.toHaveBeenCalled();
+    });
+
+    it('completes the query when a suggestion is clicked', async () => {
+      setMockSearchState({ query: 'fre', grouped: {}, suggestions });
+
+      const user = userEvent.setup();
+      render(<SearchModal {...defaultProps} />);
+
+      await user.hover(screen.getByText('Freepik'));
+      await user.click(screen.getByText('Freepik'));
+      expect(mockSetQuery).toHaveBeenCalledWith('Freepik ');
+    });
+  });
+
+  describe('did you mean', () => {
+    it('re-runs the search with the corrected query', async () => {
+      setMockSearchState({ query: 'protoyping tols', grouped: {}, suggestedQuery: 'prototyping tools' });
+
+      const user = userEvent.setup();
+      render(<SearchModal {...defaultProps} />);
+
+      expect(screen.getByText(/Did you mean/)).toBeInTheDocument();
+      await user.hover(screen.getByRole('button', { name: 'prototyping tools' }));
+      await user.click(screen.getByRole('button', { name: 'prototyping tools' }));
+      expect(mockSetQuery).toHaveBeenCalledWith('prototyping tools');
+    });
+
+    it('waits for the search to settle', () => {
+      setMockSearchState({ query: 'protoyping tols', grouped: {}, suggestedQuery: 'prototyping tools', isSearching: true });
+      render(<SearchModal {...defaultProps} />);
+      expect(screen.queryByText(/Did you mean/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('result display', () => {
     it('shows "No results found" when query has no matches', () => {
       setMockSearchState({ query: 'xyznonexistent', grouped: {} });
@@ -328,6 +410,27 @@ describe('SearchModal', () => {
       expect(screen.getByText('Figma')).toBeInTheDocument();
     });
 
+    it('highlights matched spans in the name and description snippet', () => {
+      mockQuery = 'fig';
+      mockGroupedResults = {
+        Tools: [{
+          resource: MOCK_RESOURCES[0],
+          score: 70,
+          matchedField: 'name starts with query',
+          matches: [
+            { field: 'name', start: 0, end: 3, kind: 'prefix' },
+            { field: 'description', start: 0, end: 3, kind: 'exact' },
+          ],
+        }],
+      };
+      render(<SearchModal {...defaultProps} />);
+      const marks = document.querySelectorAll('mark');
+      expect(marks).toHaveLength(2);
+      expect(marks[0]).toHaveTextContent('Fig');
+      expect(marks[0]).toHaveAttribute('data-match-kind', 'prefix');
+      expect(marks[1]).toHaveAttribute('data-match-kind', 'exact');
+    });
+
     it('shows skeleton loading state while searching', () => {
       setMockSearchState({ isSearching: true });
       render(<SearchModal {...defaultProps} />);
@@ -4,6 +4,12 @@ import { X } from 'lucide-react';
 import { DURATION, EASING } from '@/lib/motion-tokens';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
 
+/** One search in a refinement conversation */
+export interface AIFilterThreadItem {
+  query: string;
+  summary: string;
+}
+
 interface AIFilterResponseProps {
   messageId?: number;
   message: string | null;
@@ -11,6 +17,12 @@ interface AIFilterResponseProps {
   onDismiss: () => void;
   matchCount?: number;
   autoFadeDelay?: number;
+  /** Searches in the current conversation, oldest first (the last one is `message`) */
+  thread?: AIFilterThreadItem[];
+  /** Spelling-corrected query offered as "Did you mean…" */
+  suggestedQuery?: string;
+  /** Re-run the search with the suggested query */
+  onSearchSuggestion?: (query: string) => void;
 }
 
 /**
@@ -18,6 +30,9 @@ interface AIFilterResponseProps {
  *
  * Displays AI-generated responses with a delightful typewriter effect.
  * Shows when the user asks a natural language question to filter resources.
+ * In a conversation, earlier searches are listed above the latest response,
+ * which stays until dismissed so it can be refined. Responses offering a
+ * spelling correction also stay, so there's time to click it.
  */
 export function AIFilterResponse({
   messageId,
@@ -26,6 +41,9 @@ export function AIFilterResponse({
   onDismiss,
   matchCount,
   autoFadeDelay = 4000,
+  thread,
+  suggestedQuery,
+  onSearchSuggestion,
 }: AIFilterResponseProps) {
   // Note: _isTyping is available for future loading state UI
   const [displayedText, setDisplayedText] = useState('');
@@ -95,8 +113,11 @@ export function AIFilterResponse({
     // Track current message ID to prevent stale dismissals
     currentMessageIdRef.current = messageId;
 
-    // Only start auto-fade timer when typing is complete
-    if (isComplete && message) {
+    const hasSuggestion = Boolean(suggestedQuery && onSearchSuggestion);
+    const isRefined = Boolean(thread && thread.length > 1);
+
+    // Only start auto-fade timer when typing is complete (refined searches and corrections stay open)
+    if (isComplete && message && !isRefined && !hasSuggestion) {
       autoFadeTimerRef.current = setTimeout(() => {
         // Only dismiss if this is still the current message
         if (currentMessageIdRef.current === messageId) {
@@ -111,7 +132,10 @@ export function AIFilterResponse({
         autoFadeTimerRef.current = null;
       }
     };
-  }, [isComplete, message, messageId, autoFadeDelay, onDismiss]);
+  }, [isComplete, message, messageId, autoFadeDelay, onDismiss, thread, suggestedQuery, onSearchSuggestion]);
+
+  const earlierTurns = thread && thread.length > 1 ? thread.slice(0, -1) : [];
+  const currentQuery = thread?.[thread.length - 1]?.query;
 
   return (
     <AnimatePresence>
@@ -133,6 +157,23 @@ export function AIFilterResponse({
               <X className="w-3.5 h-3.5" />
             </button>
 
+            {/* Earlier searches in the conversation */}
+            {earlierTurns.length > 0 && (
+              <ol aria-label="Conversation" className="mb-2 space-y-1.5 pr-6 border-b border-[var(--border-secondary)] pb-2">
+                {earlierTurns.map((turn, index) => (
+                  <li key={index} className="text-xs leading-relaxed">
+                    <span className="text-[var(--fg-primary)]">{turn.query}</span>
+                    <span className="text-[var(--fg-secondary)]"> — {turn.summary}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {/* Latest search in a conversation */}
+            {earlierTurns.length > 0 && currentQuery && (
+              <p className="text-xs text-[var(--fg-primary)] mb-1 pr-6">{currentQuery}</p>
+            )}
+
             {/* Typing text */}
             <p className="text-sm text-[var(--fg-primary)] leading-relaxed pr-6">
               {displayedText}
@@ -162,6 +203,20 @@ export function AIFilterResponse({
                 </motion.div>
               )}
             </AnimatePresence>
+
+            {/* Spelling correction */}
+            {isComplete && suggestedQuery && onSearchSuggestion && (
+              <p className="mt-2 text-xs text-[var(--fg-secondary)]">
+                Did you mean{' '}
+                <button
+                  onClick={() => onSearchSuggestion(suggestedQuery)}
+                  className="font-medium text-brand-aperol hover:underline"
+                >
+                  {suggestedQuery}
+                </button>
+                ?
+              </p>
+            )}
           </div>
         </motion.div>
       )}
@@ -2,11 +2,14 @@ import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { NormalizedResource } from '../../types/resource';
 import { CATEGORY_COLORS } from '../../types/resource';
+import type { FacetCounts } from '../../lib/search/facets';
 
 interface CategoryButtonsProps {
   resources: NormalizedResource[];
   activeCategory: string | null;
   activeSubCategory: string | null;
+  /** Result counts for the current search, shown next to each button */
+  facetCounts?: FacetCounts | null;
   onCategoryChange: (category: string | null) => void;
   onSubCategoryChange: (subCategory: string | null) => void;
 }
@@ -15,6 +18,7 @@ export function CategoryButtons({
   resources,
   activeCategory,
   activeSubCategory,
+  facetCounts,
   onCategoryChange,
   onSubCategoryChange,
 }: CategoryButtonsProps) {
@@ -66,6 +70,9 @@ export function CategoryButtons({
     return null;
   }
 
+  const renderCount = (counts: Record<string, number> | undefined, value: string) =>
+    counts ? <span className="ml-1 tabular-nums opacity-70">({counts[value] ?? 0})</span> : null;
+
   return (
     <div className="space-y-2">
       {/* Main Category Row */}
@@ -123,6 +130,7 @@ export function CategoryButtons({
                 whileTap={{ scale: 0.95 }}
               >
                 {category}
+                {renderCount(facetCounts?.category, category)}
               </motion.button>
             );
           })}
@@ -211,6 +219,7 @@ export function CategoryButtons({
                       whileTap={{ scale: 0.95 }}
                     >
                       {subCategory}
+                      {renderCount(facetCounts?.subCategory, subCategory)}
                     </motion.button>
                   );
                 })}
@@ -0,0 +1,144 @@
+import { useState, useRef, useEffect, type FormEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, FolderPlus, Plus } from 'lucide-react';
+import type { NormalizedResource } from '../../types/resource';
+import { COLLECTION_NAME_MAX_LENGTH } from '@/lib/collections';
+import { useCollectionsStore } from '@/store/useCollectionsStore';
+
+interface CollectionMenuProps {
+  resource: NormalizedResource;
+  className?: string;
+}
+
+/**
+ * CollectionMenu
+ *
+ * Dropdown that adds a resource to named collections, or to a new one.
+ */
+export function CollectionMenu({ resource, className = '' }: CollectionMenuProps) {
+  const collections = useCollectionsStore(state => state.collections);
+  const toggleInCollection = useCollectionsStore(state => state.toggleInCollection);
+  const createCollection = useCollectionsStore(state => state.createCollection);
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const savedCount = collections.filter(c => c.resourceIds.includes(resource.id)).length;
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const collection = createCollection(newName, [resource.id]);
+    if (!collection) {
+      setError('A collection with that name already exists');
+      return;
+    }
+    setNewName('');
+    setError(null);
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Save to collection"
+        className={`inline-flex items-center justify-center gap-2 rounded-lg border transition-all w-10 h-10 sm:w-auto sm:px-3 sm:py-2 lg:px-3 lg:py-2 text-xs sm:text-sm ${
+          savedCount > 0
+            ? 'bg-brand-aperol/10 border-brand-aperol/40 text-brand-aperol'
+            : 'bg-[var(--bg-secondary)]/30 border-[var(--border-secondary)] text-[var(--fg-secondary)] hover:bg-[var(--bg-secondary)]/60 hover:text-[var(--fg-primary)]'
+        }`}
+      >
+        <FolderPlus className="w-4 h-4 sm:w-3.5 sm:h-3.5 lg:w-4 lg:h-4" />
+        <span className="hidden sm:inline">{savedCount > 0 ? `Saved (${savedCount})` : 'Save'}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            role="menu"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15, ease: [0.4, 0, 0.2, 1] }}
+            className="absolute right-0 top-full mt-2 z-30 w-64 p-1 rounded-lg bg-[var(--bg-primary)] border border-[var(--border-secondary)] shadow-lg"
+          >
+            {collections.length === 0 && (
+              <p className="px-3 py-2 text-xs text-[var(--fg-tertiary)]">No collections yet</p>
+            )}
+            {collections.map(collection => {
+              const isSaved = collection.resourceIds.includes(resource.id);
+              return (
+                <button
+                  key={collection.id}
+                  type="button"
+                  role="menuitemcheckbox"
+                  aria-checked={isSaved}
+                  onClick={() => toggleInCollection(collection.id, resource.id)}
+                  className="flex w-full items-center gap-2 px-3 py-2 rounded-md text-sm text-left text-[var(--fg-primary)] hover:bg-[var(--bg-secondary)] hover:text-brand-aperol transition-colors"
+                >
+                  <span className={`flex items-center justify-center w-4 h-4 rounded border flex-shrink-0 ${
+                    isSaved ? 'bg-brand-aperol border-brand-aperol text-white' : 'border-[var(--border-primary)]'
+                  }`}>
+                    {isSaved && <Check className="w-3 h-3" />}
+                  </span>
+                  <span className="truncate">{collection.name}</span>
+                </button>
+              );
+            })}
+
+            <form onSubmit={handleCreate} className="mt-1 pt-1 border-t border-[var(--border-secondary)]">
+              <div className="flex items-center gap-1 px-1 py-1">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => {
+                    setNewName(e.target.value);
+                    setError(null);
+                  }}
+                  maxLength={COLLECTION_NAME_MAX_LENGTH}
+                  placeholder="New collection"
+                  aria-label="New collection name"
+                  className="flex-1 min-w-0 px-2 py-1.5 rounded-md bg-[var(--bg-secondary)] border border-[var(--border-secondary)] text-sm text-[var(--fg-primary)] placeholder:text-[var(--fg-tertiary)] focus:outline-none focus:border-brand-aperol/50"
+                />
+                <button
+                  type="submit"
+                  disabled={!newName.trim()}
+                  aria-label="Create collection"
+                  className="p-1.5 rounded-md text-[var(--fg-secondary)] hover:text-brand-aperol disabled:opacity-40 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              {error && <p role="alert" className="px-2 pb-1 text-xs text-red-400">{error}</p>}
+            </form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
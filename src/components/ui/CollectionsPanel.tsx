@@ -0,0 +1,310 @@
+import { useState, useRef, useEffect, type FormEvent, type ChangeEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, FolderOpen, Pencil, Plus, Star, Trash2, Upload, X } from 'lucide-react';
+import type { NormalizedResource } from '../../types/resource';
+import {
+  COLLECTION_NAME_MAX_LENGTH,
+  CollectionsImportError,
+  FAVORITES_COLLECTION_ID,
+  FAVORITES_COLLECTION_NAME,
+  downloadCollections,
+  parseCollectionsFile,
+} from '@/lib/collections';
+import { useActiveCollection, useCollectionsStore } from '@/store/useCollectionsStore';
+
+interface CollectionsPanelProps {
+  /** All resources, for counting and validating imports */
+  resources: NormalizedResource[];
+  className?: string;
+}
+
+const inputClassName = 'flex-1 min-w-0 px-2 py-1.5 rounded-md bg-[var(--bg-secondary)] border border-[var(--border-secondary)] text-sm text-[var(--fg-primary)] placeholder:text-[var(--fg-tertiary)] focus:outline-none focus:border-brand-aperol/50';
+const iconButtonClassName = 'p-1.5 rounded-md text-[var(--fg-tertiary)] hover:text-brand-aperol transition-colors disabled:opacity-40';
+
+/**
+ * CollectionsPanel
+ *
+ * Dropdown that filters the current view to Favorites or one named
+ * collection, and manages collections: create, rename, delete, and
+ * import/export as JSON.
+ */
+export function CollectionsPanel({ resources, className = '' }: CollectionsPanelProps) {
+  const favorites = useCollectionsStore(state => state.favorites);
+  const collections = useCollectionsStore(state => state.collections);
+  const activeCollectionId = useCollectionsStore(state => state.activeCollectionId);
+  const setActiveCollection = useCollectionsStore(state => state.setActiveCollection);
+  const createCollection = useCollectionsStore(state => state.createCollection);
+  const renameCollection = useCollectionsStore(state => state.renameCollection);
+  const deleteCollection = useCollectionsStore(state => state.deleteCollection);
+  const importCollections = useCollectionsStore(state => state.importCollections);
+  const activeCollection = useActiveCollection();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Saved ids can outlive a resource; only count what still exists
+  const knownIds = new Set(resources.map(r => r.id));
+  const countOf = (ids: number[]) => ids.filter(id => knownIds.has(id)).length;
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const select = (id: string | null) => {
+    setActiveCollection(id);
+    setIsOpen(false);
+  };
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    if (createCollection(newName)) {
+      setNewName('');
+      setStatus(null);
+    } else {
+      setStatus({ text: 'A collection with that name already exists', isError: true });
+    }
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    if (renameCollection(editing.id, editing.name)) {
+      setEditing(null);
+      setStatus(null);
+    } else {
+      setStatus({ text: 'Names must be unique and not empty', isError: true });
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`Delete the collection "${name}"? The resources stay in the directory.`)) {
+      deleteCollection(id);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { data, issues } = parseCollectionsFile(await file.text(), resources);
+      importCollections(data);
+      const summary = `Imported ${data.collections.length} collection${data.collections.length === 1 ? '' : 's'} and ${data.favorites.length} favorite${data.favorites.length === 1 ? '' : 's'}`;
+      setStatus({ text: issues.length > 0 ? `${summary}. ${issues.join('; ')}.` : `${summary}.`, isError: false });
+    } catch (error) {
+      const message = error instanceof CollectionsImportError ? error.message : 'The file could not be read';
+      setStatus({ text: `Import failed: ${message}`, isError: true });
+    }
+  };
+
+  const options = [
+    { id: FAVORITES_COLLECTION_ID, name: FAVORITES_COLLECTION_NAME, count: countOf(favorites), editable: false },
+    ...collections.map(c => ({ id: c.id, name: c.name, count: countOf(c.resourceIds), editable: true })),
+  ];
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <div className="flex items-center">
+        <button
+          type="button"
+          onClick={() => setIsOpen(open => !open)}
+          aria-haspopup="dialog"
+          aria-expanded={isOpen}
+          className={`inline-flex items-center gap-1.5 h-10 px-3 rounded-lg border text-sm transition-all ${
+            activeCollection
+              ? 'bg-brand-aperol/10 border-brand-aperol/40 text-brand-aperol'
+              : 'bg-os-surface-dark/50 border-[var(--border-secondary)] text-os-text-secondary-dark hover:text-os-text-primary-dark hover:border-brand-aperol/30'
+          }`}
+          title="Favorites and collections"
+        >
+          {activeCollectionId === FAVORITES_COLLECTION_ID
+            ? <Star className="w-4 h-4" fill="currentColor" />
+            : <FolderOpen className="w-4 h-4" />}
+          <span className="hidden sm:inline max-w-[160px] truncate">
+            {activeCollection ? activeCollection.name : 'Collections'}
+          </span>
+        </button>
+        {activeCollection && (
+          <button
+            type="button"
+            onClick={() => setActiveCollection(null)}
+            aria-label={`Stop filtering by ${activeCollection.name}`}
+            className="ml-1 p-1.5 rounded-md text-os-text-secondary-dark hover:text-brand-aperol transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            role="dialog"
+            aria-label="Favorites and collections"
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15, ease: [0.4, 0, 0.2, 1] }}
+            className="absolute right-0 top-full mt-2 z-[300] w-72 p-1 rounded-lg bg-[var(--bg-primary)] border border-[var(--border-secondary)] shadow-lg"
+          >
+            <p className="px-3 pt-2 pb-1 text-caption font-text uppercase tracking-wider text-[var(--fg-tertiary)]">
+              Show
+            </p>
+            <button
+              type="button"
+              onClick={() => select(null)}
+              aria-pressed={!activeCollectionId}
+              className={`flex w-full items-center justify-between px-3 py-2 rounded-md text-sm transition-colors hover:bg-[var(--bg-secondary)] ${
+                !activeCollectionId ? 'text-brand-aperol' : 'text-[var(--fg-primary)]'
+              }`}
+            >
+              <span>All resources</span>
+              <span className="text-xs text-[var(--fg-tertiary)]">{resources.length}</span>
+            </button>
+
+            <ul className="max-h-64 overflow-y-auto">
+              {options.map(option => (
+                <li key={option.id} className="group flex items-center gap-1 rounded-md hover:bg-[var(--bg-secondary)]">
+                  {editing?.id === option.id ? (
+                    <form onSubmit={handleRename} className="flex flex-1 items-center gap-1 px-1 py-1">
+                      <input
+                        type="text"
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: option.id, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') {
+                            e.stopPropagation();
+                            setEditing(null);
+                          }
+                        }}
+                        maxLength={COLLECTION_NAME_MAX_LENGTH}
+                        aria-label={`Rename ${option.name}`}
+                        autoFocus
+                        className={inputClassName}
+                      />
+                      <button type="submit" className="px-2 py-1 text-xs text-brand-aperol">Save</button>
+                    </form>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => select(option.id)}
+                        aria-pressed={activeCollectionId === option.id}
+                        className={`flex flex-1 min-w-0 items-center justify-between gap-2 px-3 py-2 text-sm text-left ${
+                          activeCollectionId === option.id ? 'text-brand-aperol' : 'text-[var(--fg-primary)]'
+                        }`}
+                      >
+                        <span className="flex items-center gap-2 min-w-0">
+                          {option.editable
+                            ? <FolderOpen className="w-3.5 h-3.5 flex-shrink-0 text-[var(--fg-tertiary)]" />
+                            : <Star className="w-3.5 h-3.5 flex-shrink-0 text-brand-aperol" fill="currentColor" />}
+                          <span className="truncate">{option.name}</span>
+                        </span>
+                        <span className="text-xs text-[var(--fg-tertiary)]">{option.count}</span>
+                      </button>
+                      {option.editable && (
+                        <span className="flex items-center pr-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                          <button
+                            type="button"
+                            onClick={() => setEditing({ id: option.id, name: option.name })}
+                            aria-label={`Rename ${option.name}`}
+                            className={iconButtonClassName}
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(option.id, option.name)}
+                            aria-label={`Delete ${option.name}`}
+                            className={iconButtonClassName}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </span>
+                      )}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <form onSubmit={handleCreate} className="flex items-center gap-1 px-1 py-1 mt-1 border-t border-[var(--border-secondary)]">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                maxLength={COLLECTION_NAME_MAX_LENGTH}
+                placeholder="New collection"
+                aria-label="New collection name"
+                className={inputClassName}
+              />
+              <button type="submit" disabled={!newName.trim()} aria-label="Create collection" className={iconButtonClassName}>
+                <Plus className="w-4 h-4" />
+              </button>
+            </form>
+
+            <div className="flex items-center gap-1 px-1 py-1 border-t border-[var(--border-secondary)]">
+              <button
+                type="button"
+                onClick={() => downloadCollections({ favorites, collections })}
+                disabled={favorites.length === 0 && collections.length === 0}
+                className="flex flex-1 items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-xs text-[var(--fg-secondary)] hover:bg-[var(--bg-secondary)] hover:text-brand-aperol transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Export JSON
+              </button>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex flex-1 items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-xs text-[var(--fg-secondary)] hover:bg-[var(--bg-secondary)] hover:text-brand-aperol transition-colors"
+              >
+                <Upload className="w-3.5 h-3.5" />
+                Import JSON
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImport}
+                className="hidden"
+                aria-label="Import collections file"
+              />
+            </div>
+
+            {status && (
+              <p
+                role={status.isError ? 'alert' : 'status'}
+                className={`px-3 py-2 text-xs ${status.isError ? 'text-red-400' : 'text-[var(--fg-secondary)]'}`}
+              >
+                {status.text}
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+import type { NormalizedResource } from '../../types/resource';
+import {
+  downloadExport,
+  EXPORT_FORMATS,
+  type ExportContext,
+  type ExportFormat,
+} from '@/lib/export';
+
+const FORMAT_ICONS: Record<ExportFormat, typeof Download> = {
+  csv: FileSpreadsheet,
+  json: FileJson,
+  markdown: FileText,
+};
+
+const FORMAT_ORDER: ExportFormat[] = ['csv', 'json', 'markdown'];
+
+interface ExportMenuProps {
+  /** Resources to export, already filtered and sorted */
+  resources: NormalizedResource[];
+  /** View and filter context written into the export header */
+  context: ExportContext;
+  /** Open the menu upward (for bottom-anchored controls) */
+  placement?: 'top' | 'bottom';
+  className?: string;
+}
+
+/**
+ * ExportMenu
+ *
+ * Dropdown that downloads the current resource set as CSV, JSON or Markdown.
+ */
+export function ExportMenu({
+  resources,
+  context,
+  placement = 'bottom',
+  className = '',
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadExport(format, resources, context);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={resources.length === 0}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="inline-flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-secondary)] text-xs text-[var(--fg-secondary)] hover:text-brand-aperol hover:border-[var(--fg-tertiary)] transition-all disabled:opacity-40 disabled:pointer-events-none"
+        title={`Export ${resources.length} resources`}
+      >
+        <Download className="w-3.5 h-3.5" />
+        <span>Export</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            role="menu"
+            initial={{ opacity: 0, y: placement === 'top' ? 4 : -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: placement === 'top' ? 4 : -4 }}
+            transition={{ duration: 0.15, ease: [0.4, 0, 0.2, 1] }}
+            className={`absolute right-0 z-30 min-w-[160px] p-1 rounded-lg bg-[var(--bg-primary)] border border-[var(--border-secondary)] shadow-lg ${
+              placement === 'top' ? 'bottom-full mb-2' : 'top-full mt-2'
+            }`}
+          >
+            {FORMAT_ORDER.map(format => {
+              const Icon = FORMAT_ICONS[format];
+              return (
+                <button
+                  key={format}
+                  type="button"
+                  role="menuitem"
+                  onClick={() => handleExport(format)}
+                  className="flex w-full items-center gap-2 px-3 py-2 rounded-md text-sm text-[var(--fg-primary)] hover:bg-[var(--bg-secondary)] hover:text-brand-aperol transition-colors"
+                >
+                  <Icon className="w-4 h-4 text-[var(--fg-secondary)]" />
+                  {EXPORT_FORMATS[format].label}
+                </button>
+              );
+            })}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { Star } from 'lucide-react';
+import type { NormalizedResource } from '../../types/resource';
+import { useCollectionsStore, useIsFavorite } from '@/store/useCollectionsStore';
+
+interface FavoriteButtonProps {
+  resource: NormalizedResource;
+  size?: 'sm' | 'md';
+  /** Show "Favorite" / "Favorited" next to the star */
+  showLabel?: boolean;
+  /** Hide the star until the parent `group` is hovered, unless it is already a favorite */
+  revealOnHover?: boolean;
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: { button: 'w-7 h-7', icon: 'w-3.5 h-3.5' },
+  md: { button: 'w-8 h-8', icon: 'w-4 h-4' },
+};
+
+/**
+ * FavoriteButton
+ *
+ * Star toggle that saves a resource to Favorites. Safe to place inside
+ * clickable rows and cards: the click does not reach the parent.
+ */
+export function FavoriteButton({
+  resource,
+  size = 'md',
+  showLabel = false,
+  revealOnHover = false,
+  className = '',
+}: FavoriteButtonProps) {
+  const isFavorite = useIsFavorite(resource.id);
+  const toggleFavorite = useCollectionsStore(state => state.toggleFavorite);
+  const sizes = SIZE_CLASSES[size];
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        e.preventDefault();
+        toggleFavorite(resource.id);
+      }}
+      aria-pressed={isFavorite}
+      aria-label={isFavorite ? `Remove ${resource.name} from favorites` : `Add ${resource.name} to favorites`}
+      title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+      className={`inline-flex items-center justify-center gap-2 rounded-lg border transition-all ${
+        showLabel ? 'w-10 h-10 sm:w-auto sm:h-auto sm:px-3 sm:py-2 text-xs sm:text-sm' : sizes.button
+      } ${
+        isFavorite
+          ? 'bg-brand-aperol/10 border-brand-aperol/40 text-brand-aperol'
+          : 'bg-[var(--bg-secondary)] border-[var(--border-secondary)] text-[var(--fg-secondary)] hover:text-brand-aperol hover:border-[var(--fg-tertiary)]'
+      } ${
+        revealOnHover && !isFavorite ? 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100' : ''
+      } ${className}`}
+    >
+      <Star className={sizes.icon} fill={isFavorite ? 'currentColor' : 'none'} />
+      {showLabel && <span className="hidden sm:inline">{isFavorite ? 'Favorited' : 'Favorite'}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { splitHighlightSegments, type MatchKind, type MatchSpan } from '@/lib/search/match-spans';
+
+interface HighlightedTextProps {
+  /** Full text to render */
+  text: string;
+  /** Match spans for this text (already filtered to the field) */
+  spans: MatchSpan[];
+  /** Additional CSS classes for the wrapper */
+  className?: string;
+}
+
+/**
+ * Get highlight styling for a match kind
+ * Direct matches are filled; indirect (synonym/concept/fuzzy) matches are underlined
+ */
+function getMarkClass(kind: MatchKind): string {
+  switch (kind) {
+    case 'exact':
+    case 'prefix':
+      return 'bg-brand-aperol/20 text-inherit rounded-sm';
+    case 'synonym':
+    case 'concept':
+      return 'bg-transparent text-inherit underline decoration-dotted decoration-brand-aperol underline-offset-2';
+    case 'fuzzy':
+      return 'bg-transparent text-inherit underline decoration-wavy decoration-brand-aperol/70 underline-offset-2';
+  }
+}
+
+/**
+ * HighlightedText
+ *
+ * Renders text with search match spans wrapped in <mark>.
+ */
+export function HighlightedText({ text, spans, className = '' }: HighlightedTextProps) {
+  const segments = useMemo(() => splitHighlightSegments(text, spans), [text, spans]);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, i) =>
+        segment.kind ? (
+          <mark key={i} data-match-kind={segment.kind} className={getMarkClass(segment.kind)}>
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </span>
+  );
+}
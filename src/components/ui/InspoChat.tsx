@@ -1,18 +1,21 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Mic, Send } from 'lucide-react';
+import { Mic, Send, Sparkles } from 'lucide-react';
 import { useVoiceRecognition } from '../../hooks/useVoiceRecognition';
 
 interface InspoChatProps {
   onSubmit: (query: string) => void;
   isLoading?: boolean;
   placeholder?: string;
+  /** Opens the guided recommendation flow */
+  onRecommend?: () => void;
 }
 
 export function InspoChat({
   onSubmit,
   isLoading = false,
-  placeholder = "Search inspiration resources..."
+  placeholder = "Search inspiration resources...",
+  onRecommend,
 }: InspoChatProps) {
   const [input, setInput] = useState('');
   const [isFocused, setIsFocused] = useState(false);
@@ -103,6 +106,19 @@ export function InspoChat({
 
         {/* Toolbar */}
         <div className="flex items-center justify-end px-4 py-3 border-t border-[var(--border-secondary)] gap-2 sm:gap-4">
+          {/* Guided recommendations */}
+          {onRecommend && (
+            <button
+              type="button"
+              onClick={onRecommend}
+              className="mr-auto inline-flex items-center gap-1.5 px-2 py-1.5 rounded-lg text-sm text-os-text-secondary-dark hover:text-os-text-primary-dark hover:bg-os-bg-dark transition-colors"
+              title="Answer a few questions for a shortlist"
+            >
+              <Sparkles className="w-4 h-4" />
+              Help me choose
+            </button>
+          )}
+
           {/* Voice Input */}
           <div className="relative">
             {isListening && (
@@ -4,6 +4,7 @@ import type { NormalizedResource } from '../../types/resource';
 import { CATEGORY_COLORS, DEFAULT_COLOR } from '../../types/resource';
 import { GravityScoreBadge } from './GravityScoreBadge';
 import { ResourceLogo } from './ResourceLogo';
+import { FavoriteButton } from './FavoriteButton';
 
 interface InspoResourceTooltipProps {
   onClick?: (resource: NormalizedResource) => void;
@@ -134,6 +135,9 @@ export default function InspoResourceTooltip({
                   )}
                 </div>
               </div>
+
+              {/* Favorite - doesn't trigger the card's click-through */}
+              {resource && <FavoriteButton resource={resource} size="sm" className="flex-shrink-0" />}
             </div>
 
             {/* Description */}
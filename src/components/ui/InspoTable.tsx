@@ -6,6 +6,17 @@ import type { NormalizedResource } from '../../types/resource';
 import { MobileResourceCard } from './MobileResourceCard';
 import { GravityScoreBadge } from './GravityScoreBadge';
 import { ResourceLogo } from './ResourceLogo';
+import { ExportMenu } from './ExportMenu';
+import { FavoriteButton } from './FavoriteButton';
+import { HighlightedText } from './HighlightedText';
+import type { ExportContext } from '@/lib/export';
+import {
+  findLiteralMatches,
+  getDescriptionSnippet,
+  getFieldSpans,
+  type MatchSpan,
+} from '@/lib/search/match-spans';
+import { computeFacetCounts } from '@/lib/search/facets';
 
 // Animation variants for staggered row entrance
 const rowVariants = {
@@ -34,6 +45,38 @@ const RATING_RANGES = [
   { value: 'below-6', label: 'Below 6', min: 0, max: 5.99 },
 ] as const;
 
+/**
+ * Secondary line under a resource name showing where the search matched:
+ * a description excerpt, or the matching tags
+ */
+function MatchContext({ resource, matches }: { resource: NormalizedResource; matches?: MatchSpan[] }) {
+  if (!matches?.length) return null;
+
+  if (getFieldSpans(matches, 'description').length > 0) {
+    const snippet = getDescriptionSnippet(resource.description, matches, 80);
+    if (!snippet) return null;
+    return (
+      <p className="mt-1 max-w-xs text-xs text-[var(--fg-secondary)] line-clamp-1">
+        <HighlightedText text={snippet.text} spans={snippet.spans} />
+      </p>
+    );
+  }
+
+  const tagIndexes = [...new Set(matches.filter(m => m.field === 'tags').map(m => m.tagIndex))]
+    .filter((i): i is number => i !== undefined);
+  if (tagIndexes.length === 0 || !resource.tags) return null;
+
+  return (
+    <p className="mt-1 flex flex-wrap gap-1.5 text-xs text-[var(--fg-secondary)]">
+      {tagIndexes.map(i => (
+        <span key={i}>
+          #<HighlightedText text={resource.tags![i]} spans={getFieldSpans(matches, 'tags', i)} />
+        </span>
+      ))}
+    </p>
+  );
+}
+
 interface InspoTableProps {
   resources: NormalizedResource[];
   initialCategory?: string;
@@ -43,11 +86,23 @@ interface InspoTableProps {
   initialFeatured?: string;
   initialOpensource?: string;
   isFromUrl?: boolean;
+  /** Name of the collection `resources` was narrowed to, for exports */
+  collectionName?: string;
 }
 
 type SortField = 'name' | 'category' | 'subCategory' | 'pricing' | 'gravityScore';
+type FilterField = 'category' | 'subCategory' | 'pricing' | 'rating';
 type SortDirection = 'asc' | 'desc' | null;
 
+// Column labels used in export headers
+const SORT_LABELS: Record<SortField, string> = {
+  name: 'Name',
+  category: 'Category',
+  subCategory: 'Sub-category',
+  pricing: 'Pricing',
+  gravityScore: 'Rating',
+};
+
 export function InspoTable({
   resources,
   initialCategory,
@@ -57,6 +112,7 @@ export function InspoTable({
   initialFeatured,
   initialOpensource,
   isFromUrl,
+  collectionName,
 }: InspoTableProps) {
   const navigate = useNavigate();
 
@@ -156,19 +212,20 @@ export function InspoTable({
     };
   }, [resources]);
 
-  // Apply filters and sorting
-  const filteredAndSortedResources = useMemo(() => {
-    let filtered = resources.filter((resource) => {
-      const categoryMatch = categoryFilter === 'all' || resource.category === categoryFilter;
-      const subCategoryMatch = subCategoryFilter === 'all' || resource.subCategory === subCategoryFilter;
-      const pricingMatch = pricingFilter === 'all' || resource.pricing === pricingFilter;
+  // Whether a resource passes the filters, optionally ignoring one (for that dropdown's counts)
+  const matchesFilters = useMemo(() => {
+    const ratingRange = RATING_RANGES.find(r => r.value === ratingFilter);
+
+    return (resource: NormalizedResource, ignore?: FilterField) => {
+      const categoryMatch = ignore === 'category' || categoryFilter === 'all' || resource.category === categoryFilter;
+      const subCategoryMatch = ignore === 'subCategory' || subCategoryFilter === 'all' || resource.subCategory === subCategoryFilter;
+      const pricingMatch = ignore === 'pricing' || pricingFilter === 'all' || resource.pricing === pricingFilter;
       const tierMatch = tierFilter === 'all' || String(resource.tier) === tierFilter;
       const featuredMatch = featuredFilter === 'all' || (featuredFilter === 'true' && resource.featured);
       const opensourceMatch = opensourceFilter === 'all' || (opensourceFilter === 'true' && resource.opensource);
 
       // Rating filter
-      const ratingRange = RATING_RANGES.find(r => r.value === ratingFilter);
-      const ratingMatch = !ratingRange || ratingFilter === 'all' || 
+      const ratingMatch = ignore === 'rating' || !ratingRange || ratingFilter === 'all' ||
         (resource.gravityScore >= ratingRange.min && resource.gravityScore <= ratingRange.max);
 
       // Search filter
@@ -178,7 +235,25 @@ export function InspoTable({
         resource.tags?.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
 
       return categoryMatch && subCategoryMatch && pricingMatch && tierMatch && featuredMatch && opensourceMatch && searchMatch && ratingMatch;
-    });
+    };
+  }, [categoryFilter, subCategoryFilter, pricingFilter, ratingFilter, tierFilter, featuredFilter, opensourceFilter, searchQuery]);
+
+  // Dropdown counts: each dropdown counts the rows every other filter leaves,
+  // so a count is how many rows picking that value would show
+  const facetCounts = useMemo(() => {
+    const countIgnoring = (field: FilterField) =>
+      computeFacetCounts(resources.filter(resource => matchesFilters(resource, field)));
+    return {
+      category: countIgnoring('category').category,
+      subCategory: countIgnoring('subCategory').subCategory,
+      pricing: countIgnoring('pricing').pricing,
+      scoreTier: countIgnoring('rating').scoreTier,
+    };
+  }, [resources, matchesFilters]);
+
+  // Apply filters and sorting
+  const filteredAndSortedResources = useMemo(() => {
+    let filtered = resources.filter(resource => matchesFilters(resource));
 
     // Apply sorting
     if (sortField && sortDirection) {
@@ -202,7 +277,37 @@ export function InspoTable({
     }
 
     return filtered;
-  }, [resources, categoryFilter, subCategoryFilter, pricingFilter, ratingFilter, tierFilter, featuredFilter, opensourceFilter, searchQuery, sortField, sortDirection]);
+  }, [resources, matchesFilters, sortField, sortDirection]);
+
+  // Match spans for the search box, keyed by resource id (for highlighting)
+  const searchMatches = useMemo(() => {
+    const map = new Map<number, MatchSpan[]>();
+    if (!searchQuery) return map;
+    for (const resource of filteredAndSortedResources) {
+      map.set(resource.id, findLiteralMatches(resource, searchQuery));
+    }
+    return map;
+  }, [filteredAndSortedResources, searchQuery]);
+
+  // Export context - mirrors the active filters and sort
+  const exportContext = useMemo((): ExportContext => {
+    const filters: Record<string, string> = {};
+    if (collectionName) filters.Collection = collectionName;
+    if (searchQuery) filters.Search = searchQuery;
+    if (categoryFilter !== 'all') filters.Category = categoryFilter;
+    if (subCategoryFilter !== 'all') filters['Sub-category'] = subCategoryFilter;
+    if (pricingFilter !== 'all') filters.Pricing = pricingFilter;
+    if (ratingFilter !== 'all') filters.Rating = RATING_RANGES.find(r => r.value === ratingFilter)?.label ?? ratingFilter;
+    if (tierFilter !== 'all') filters.Tier = tierFilter;
+    if (featuredFilter === 'true') filters.Featured = 'Yes';
+    if (opensourceFilter === 'true') filters['Open Source'] = 'Yes';
+
+    return {
+      view: 'table',
+      filters,
+      sort: sortField && sortDirection ? `${SORT_LABELS[sortField]} (${sortDirection})` : undefined,
+    };
+  }, [collectionName, searchQuery, categoryFilter, subCategoryFilter, pricingFilter, ratingFilter, tierFilter, featuredFilter, opensourceFilter, sortField, sortDirection]);
 
   // Handle sort toggle
   const handleSort = (field: SortField) => {
@@ -316,7 +421,7 @@ export function InspoTable({
                   <option value="all">All</option>
                   {filterOptions.categories.map((category) => (
                     <option key={category} value={category}>
-                      {category}
+                      {category} ({facetCounts.category[category] ?? 0})
                     </option>
                   ))}
                 </select>
@@ -336,7 +441,7 @@ export function InspoTable({
                   <option value="all">All</option>
                   {filterOptions.subCategories.map((subCategory) => (
                     <option key={subCategory} value={subCategory}>
-                      {subCategory}
+                      {subCategory} ({facetCounts.subCategory[subCategory] ?? 0})
                     </option>
                   ))}
                 </select>
@@ -356,7 +461,7 @@ export function InspoTable({
                   <option value="all">All</option>
                   {filterOptions.pricings.map((pricing) => (
                     <option key={pricing} value={pricing}>
-                      {pricing}
+                      {pricing} ({facetCounts.pricing[pricing] ?? 0})
                     </option>
                   ))}
                 </select>
@@ -375,7 +480,7 @@ export function InspoTable({
                 >
                   {RATING_RANGES.map((range) => (
                     <option key={range.value} value={range.value}>
-                      {range.label}
+                      {range.value === 'all' ? range.label : `${range.label} (${facetCounts.scoreTier[range.value] ?? 0})`}
                     </option>
                   ))}
                 </select>
@@ -383,12 +488,15 @@ export function InspoTable({
             </div>
           </div>
 
-          {/* Results Count - with breathing room */}
-          <div className="text-sm text-[var(--fg-secondary)] pt-2">
-            <span className="font-accent text-brand-aperol">{filteredAndSortedResources.length}</span>
-            {' '}of{' '}
-            <span className="font-medium">{resources.length}</span>
-            {' '}resources
+          {/* Results Count + Export - with breathing room */}
+          <div className="flex items-center justify-between gap-4 pt-2">
+            <div className="text-sm text-[var(--fg-secondary)]">
+              <span className="font-accent text-brand-aperol">{filteredAndSortedResources.length}</span>
+              {' '}of{' '}
+              <span className="font-medium">{resources.length}</span>
+              {' '}resources
+            </div>
+            <ExportMenu resources={filteredAndSortedResources} context={exportContext} />
           </div>
         </div>
       </motion.div>
@@ -495,7 +603,7 @@ export function InspoTable({
               </th>
 
               {/* Actions Header */}
-              <th className="w-20 p-4 bg-[var(--bg-primary)]">
+              <th className="w-28 p-4 bg-[var(--bg-primary)]">
                 <span className="sr-only">Actions</span>
               </th>
             </tr>
@@ -525,9 +633,12 @@ export function InspoTable({
 
                   {/* Name Column - Links to detail page */}
                   <td className="p-4">
-                    <span className="font-medium text-[var(--fg-primary)] group-hover:text-brand-aperol transition-colors">
-                      {resource.name}
-                    </span>
+                    <HighlightedText
+                      text={resource.name}
+                      spans={getFieldSpans(searchMatches.get(resource.id), 'name')}
+                      className="font-medium text-[var(--fg-primary)] group-hover:text-brand-aperol transition-colors"
+                    />
+                    <MatchContext resource={resource} matches={searchMatches.get(resource.id)} />
                   </td>
 
                   {/* Category Column */}
@@ -564,18 +675,21 @@ export function InspoTable({
                     )}
                   </td>
 
-                  {/* Actions Column - External Link */}
+                  {/* Actions Column - Favorite + External Link */}
                   <td className="p-4">
-                    <a
-                      href={resource.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      onClick={(e) => e.stopPropagation()}
-                      className="inline-flex items-center justify-center w-8 h-8 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-secondary)] text-[var(--fg-secondary)] hover:text-brand-aperol hover:border-[var(--fg-tertiary)] transition-all"
-                      title={`Visit ${resource.name}`}
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                    </a>
+                    <div className="flex items-center gap-2">
+                      <FavoriteButton resource={resource} />
+                      <a
+                        href={resource.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={(e) => e.stopPropagation()}
+                        className="inline-flex items-center justify-center w-8 h-8 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-secondary)] text-[var(--fg-secondary)] hover:text-brand-aperol hover:border-[var(--fg-tertiary)] transition-all"
+                        title={`Visit ${resource.name}`}
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </div>
                   </td>
                 </motion.tr>
               ))
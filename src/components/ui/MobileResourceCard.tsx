@@ -1,5 +1,6 @@
 import { GravityScoreBadge } from './GravityScoreBadge';
 import { ResourceLogo } from './ResourceLogo';
+import { FavoriteButton } from './FavoriteButton';
 import type { NormalizedResource } from '../../types/resource';
 
 interface MobileResourceCardProps {
@@ -53,6 +54,9 @@ export function MobileResourceCard({ resource, onClick }: MobileResourceCardProp
           <span className="text-xs text-os-text-secondary-dark">-</span>
         )}
       </div>
+
+      {/* Column 5: Favorite */}
+      <FavoriteButton resource={resource} size="sm" className="shrink-0" />
     </div>
   );
 }
@@ -373,4 +373,90 @@ describe('AIFilterResponse', () => {
       expect(onDismiss).not.toHaveBeenCalled();
     });
   });
+
+  describe('conversation thread', () => {
+    const thread = [
+      { query: 'ai image tools', summary: 'Found 12 resources in AI.' },
+      { query: 'only the free ones', summary: 'Found 4 Free resources, in AI.' },
+    ];
+
+    it('lists earlier searches above the latest response', () => {
+      render(<AIFilterResponse {...defaultProps} message={thread[1].summary} thread={thread} />);
+
+      const list = screen.getByRole('list', { name: 'Conversation' });
+      expect(list).toHaveTextContent('ai image tools');
+      expect(list).toHaveTextContent('Found 12 resources in AI.');
+      expect(list).not.toHaveTextContent('only the free ones');
+      expect(screen.getByText('only the free ones')).toBeInTheDocument();
+    });
+
+    it('shows no list for the first search of a conversation', () => {
+      render(<AIFilterResponse {...defaultProps} thread={thread.slice(0, 1)} />);
+      expect(screen.queryByRole('list', { name: 'Conversation' })).not.toBeInTheDocument();
+    });
+
+    it('does not auto-dismiss during a conversation', async () => {
+      const onDismiss = vi.fn();
+      render(<AIFilterResponse {...defaultProps} message="Hi" onDismiss={onDismiss} thread={thread} autoFadeDelay={500} />);
+
+      await act(async () => {
+        vi.advanceTimersByTime(5000);
+      });
+      expect(onDismiss).not.toHaveBeenCalled();
+    });
+
+    it('auto-dismisses the first search of a conversation', async () => {
+      const onDismiss = vi.fn();
+      render(<AIFilterResponse {...defaultProps} message="Hi" onDismiss={onDismiss} thread={thread.slice(0, 1)} autoFadeDelay={500} />);
+
+      // Let the typewriter complete, then pass the auto-fade delay
+      await act(async () => {
+        vi.advanceTimersByTime(1000);
+      });
+      await act(async () => {
+        vi.advanceTimersByTime(600);
+      });
+      expect(onDismiss).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('did you mean', () => {
+    it('re-runs the search with the suggested query', async () => {
+      const onSearchSuggestion = vi.fn();
+      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+      render(
+        <AIFilterResponse
+          {...defaultProps}
+          message="Hi"
+          suggestedQuery="prototyping tools"
+          onSearchSuggestion={onSearchSuggestion}
+        />
+      );
+
+      await act(async () => {
+        vi.advanceTimersByTime(1000);
+      });
+      await user.click(screen.getByRole('button', { name: 'prototyping tools' }));
+      expect(onSearchSuggestion).toHaveBeenCalledWith('prototyping tools');
+    });
+
+    it('does not auto-dismiss while a suggestion is shown', async () => {
+      const onDismiss = vi.fn();
+      render(
+        <AIFilterResponse
+          {...defaultProps}
+          message="Hi"
+          onDismiss={onDismiss}
+          autoFadeDelay={500}
+          suggestedQuery="prototyping tools"
+          onSearchSuggestion={vi.fn()}
+        />
+      );
+
+      await act(async () => {
+        vi.advanceTimersByTime(5000);
+      });
+      expect(onDismiss).not.toHaveBeenCalled();
+    });
+  });
 });
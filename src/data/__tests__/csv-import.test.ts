@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planCsvImport,
+  mapCsvRecord,
+  resolveCsvColumn,
+  getResourceDomain,
+} from '../csv-import';
+import { exportToCsv } from '../../lib/export';
+import type { NormalizedResource } from '../../types/resource';
+
+const EXISTING: NormalizedResource[] = [
+  {
+    id: 1,
+    name: 'Figma',
+    url: 'https://figma.com',
+    description: null,
+    category: 'Tools',
+    subCategory: 'Design',
+    pricing: 'Freemium',
+    featured: true,
+    opensource: false,
+    tags: ['design'],
+    count: null,
+    tier: 1,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 9.8,
+  },
+  {
+    id: 12,
+    name: 'Unsplash',
+    url: 'https://unsplash.com',
+    description: null,
+    category: 'Templates',
+    subCategory: 'Assets',
+    pricing: 'Free',
+    featured: false,
+    opensource: false,
+    tags: ['photo'],
+    count: null,
+    tier: 1,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 8.0,
+  },
+];
+
+describe('resolveCsvColumn', () => {
+  it('matches headers case-insensitively and ignores separators', () => {
+    expect(resolveCsvColumn('Sub Category')).toBe('subCategory');
+    expect(resolveCsvColumn('gravity_score')).toBe('gravityScore');
+    expect(resolveCsvColumn('Open-Source')).toBe('opensource');
+    expect(resolveCsvColumn('Website')).toBe('url');
+  });
+
+  it('returns null for unknown headers', () => {
+    expect(resolveCsvColumn('Notes')).toBeNull();
+  });
+});
+
+describe('getResourceDomain', () => {
+  it('strips www and lowercases', () => {
+    expect(getResourceDomain('https://www.Penpot.app/design')).toBe('penpot.app');
+  });
+});
+
+describe('mapCsvRecord', () => {
+  it('maps spreadsheet values onto the resource shape', () => {
+    const resource = mapCsvRecord({
+      name: ' Penpot ',
+      url: 'https://penpot.app',
+      category: 'Tools',
+      subCategory: 'Design',
+      pricing: 'Free',
+      opensource: 'Yes',
+      featured: '',
+      tags: 'Design; Open-Source, ,prototyping',
+      tier: '2',
+      gravityScore: '8.1',
+      gravityRationale: 'Open source Figma rival',
+    });
+
+    expect(resource).toMatchObject({
+      name: 'Penpot',
+      opensource: true,
+      featured: false,
+      tags: ['design', 'open-source', 'prototyping'],
+      tier: 2,
+      gravityScore: 8.1,
+      description: null,
+      screenshot: null,
+      gravityRationale: 'Open source Figma rival',
+    });
+    expect(resource).not.toHaveProperty('logoBg');
+  });
+
+  it('reports missing required fields', () => {
+    expect(mapCsvRecord({ url: 'https://a.com', gravityScore: '8' })).toEqual({ error: 'missing name' });
+    expect(mapCsvRecord({ name: 'A', gravityScore: '8' })).toEqual({ error: 'missing url' });
+    expect(mapCsvRecord({ name: 'A', url: 'https://a.com' })).toEqual({ error: 'missing gravityScore' });
+    expect(mapCsvRecord({ name: 'A', url: 'https://a.com', gravityScore: 'high' })).toEqual({
+      error: 'gravityScore "high" is not a number',
+    });
+  });
+});
+
+describe('planCsvImport', () => {
+  const csv = [
+    'Name,URL,Category,Pricing,Gravity Score,Notes',
+    'Penpot,https://penpot.app,Tools,Free,8.1,first',
+    'Figma Files,https://www.figma.com/files,Tools,Free,9,dup of existing',
+    'Penpot Docs,https://penpot.app/docs,Learning,Free,7,dup within sheet',
+    'Broken,,Tools,Free,7,',
+    'Lunacy,https://icons8.com/lunacy,Tools,Free,7.4,',
+  ].join('\n');
+
+  it('assigns ids after the current maximum', () => {
+    const plan = planCsvImport(csv, EXISTING);
+    expect(plan.added.map(r => [r.id, r.name])).toEqual([
+      [13, 'Penpot'],
+      [14, 'Lunacy'],
+    ]);
+  });
+
+  it('detects duplicates by domain against existing and earlier rows', () => {
+    const plan = planCsvImport(csv, EXISTING);
+    expect(plan.duplicates).toEqual([
+      { row: 3, name: 'Figma Files', domain: 'figma.com', existingName: 'Figma' },
+      { row: 4, name: 'Penpot Docs', domain: 'penpot.app', existingName: 'Penpot' },
+    ]);
+  });
+
+  it('reports row errors and unknown columns', () => {
+    const plan = planCsvImport(csv, EXISTING);
+    expect(plan.errors).toEqual([{ row: 5, name: 'Broken', message: 'missing url' }]);
+    expect(plan.unknownColumns).toEqual(['Notes']);
+  });
+
+  it('numbers rows by file line when quoted fields span lines', () => {
+    const multiline = [
+      'Name,URL,Description,Gravity Score',
+      'Penpot,https://penpot.app,"Open source design.',
+      '',
+      'Self-hostable.",8.1',
+      '',
+      'Figma Files,https://figma.com/files,Dup,9',
+      'Broken,,"Also',
+      'multi-line",7',
+    ].join('\r\n');
+    const plan = planCsvImport(multiline, EXISTING);
+
+    expect(plan.added[0].description).toBe('Open source design.\r\n\r\nSelf-hostable.');
+    expect(plan.duplicates.map(d => d.row)).toEqual([6]);
+    expect(plan.errors).toEqual([{ row: 7, name: 'Broken', message: 'missing url' }]);
+  });
+
+  it('round-trips a CSV exported from the site, skipping its filter header', () => {
+    const exported: NormalizedResource = {
+      ...EXISTING[0],
+      id: 40,
+      name: 'Penpot',
+      url: 'https://penpot.app',
+      description: 'Open source design, "multiplayer"',
+      pricing: 'Free',
+      featured: false,
+      opensource: true,
+      tags: ['design', 'prototyping'],
+      tier: 2,
+      screenshot: '/assets/screenshots/40-penpot.jpg',
+      logoBg: '#000000',
+      gravityScore: 8.1,
+      gravityRationale: 'Strong open source, "Figma-like" editor',
+    };
+    const csvExport = exportToCsv([exported, EXISTING[0]], {
+      view: 'table',
+      filters: { Category: 'Tools' },
+      exportedAt: new Date('2025-01-31T12:00:00Z'),
+    });
+    expect(csvExport.startsWith('# ')).toBe(true);
+
+    const plan = planCsvImport(csvExport, EXISTING);
+    expect(plan.errors).toEqual([]);
+    expect(plan.unknownColumns).toEqual([]);
+    // Every field the import reads survives the round trip; only the id is reassigned
+    expect(plan.added).toEqual([{ ...exported, id: 13 }]);
+    // Row numbers count the header lines, so they match the file
+    const headerLines = csvExport.split('\n').filter(line => line.startsWith('#')).length;
+    expect(plan.duplicates).toEqual([
+      { row: headerLines + 3, name: 'Figma', domain: 'figma.com', existingName: 'Figma' },
+    ]);
+  });
+
+  it('does not mutate the existing resources', () => {
+    const before = JSON.stringify(EXISTING);
+    planCsvImport(csv, EXISTING);
+    expect(JSON.stringify(EXISTING)).toBe(before);
+  });
+});
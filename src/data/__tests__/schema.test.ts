@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import resourcesData from '../resources.json';
+import {
+  validateResources,
+  assertValidResources,
+  formatResourceIssue,
+  normalizeUrl,
+} from '../schema';
+
+/**
+ * Minimal valid raw record for tests
+ */
+function makeRecord(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 1,
+    name: 'Figma',
+    url: 'https://figma.com',
+    description: 'Collaborative design tool',
+    category: 'Tools',
+    subCategory: 'Design',
+    pricing: 'Freemium',
+    featured: true,
+    opensource: false,
+    tags: ['design'],
+    count: null,
+    tier: 1,
+    thumbnail: null,
+    screenshot: '/assets/screenshots/1-figma.jpg',
+    gravityScore: 9.8,
+    ...overrides,
+  };
+}
+
+describe('validateResources', () => {
+  it('accepts the checked-in resources.json', () => {
+    const result = validateResources(resourcesData);
+    expect(result.issues.map(formatResourceIssue)).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.resources).toHaveLength(resourcesData.length);
+  });
+
+  it('rejects non-array data', () => {
+    const result = validateResources({ id: 1 });
+    expect(result.valid).toBe(false);
+    expect(result.issues[0].field).toBe('(root)');
+  });
+
+  it('reports unknown categories with id and field', () => {
+    const { issues } = validateResources([makeRecord({ id: 7, category: 'Widgets' })]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ id: 7, index: 0, field: 'category' });
+    expect(issues[0].message).toContain('Widgets');
+  });
+
+  it('reports subcategories not defined for the category in the taxonomy', () => {
+    const { issues } = validateResources([
+      makeRecord({ id: 1, subCategory: 'Galleries' }),
+      makeRecord({ id: 2, url: 'https://two.example', subCategory: null }),
+    ]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ id: 1, field: 'subCategory' });
+    expect(issues[0].message).toContain('for Tools');
+  });
+
+  it('reports gravityScore outside 1.0-10.0', () => {
+    const { issues } = validateResources([
+      makeRecord({ id: 1, gravityScore: 0.5 }),
+      makeRecord({ id: 2, url: 'https://b.com', gravityScore: 10.1 }),
+      makeRecord({ id: 3, url: 'https://c.com', gravityScore: 10 }),
+    ]);
+    expect(issues.map(i => [i.id, i.field])).toEqual([
+      [1, 'gravityScore'],
+      [2, 'gravityScore'],
+    ]);
+  });
+
+  it('validates logoBg presets and hex colors', () => {
+    const { issues } = validateResources([
+      makeRecord({ id: 1, logoBg: 'light' }),
+      makeRecord({ id: 2, url: 'https://b.com', logoBg: '#1C1C1C' }),
+      makeRecord({ id: 3, url: 'https://c.com', logoBg: '#FFF' }),
+      makeRecord({ id: 4, url: 'https://d.com', logoBg: 'purple' }),
+    ]);
+    expect(issues.map(i => [i.id, i.field])).toEqual([
+      [3, 'logoBg'],
+      [4, 'logoBg'],
+    ]);
+  });
+
+  it('reports duplicate ids and urls', () => {
+    const { issues } = validateResources([
+      makeRecord({ id: 1, url: 'https://figma.com' }),
+      makeRecord({ id: 1, url: 'https://other.com' }),
+      makeRecord({ id: 2, url: 'https://www.figma.com/' }),
+    ]);
+    expect(issues.map(i => [i.index, i.field])).toEqual([
+      [1, 'id'],
+      [2, 'url'],
+    ]);
+  });
+
+  it('reports every violation in a record, not just the first', () => {
+    const { issues } = validateResources([
+      makeRecord({ id: 3, pricing: 'Cheap', featured: 'yes', tags: ['ok', 4], extra: true }),
+    ]);
+    expect(issues.map(i => i.field)).toEqual(['pricing', 'featured', 'tags[1]', 'extra']);
+  });
+
+  it('falls back to index when id is invalid', () => {
+    const { issues } = validateResources([makeRecord({ id: 'abc' })]);
+    expect(formatResourceIssue(issues[0])).toMatch(/^\[index 0\] id:/);
+  });
+});
+
+describe('assertValidResources', () => {
+  it('returns typed resources when valid', () => {
+    expect(assertValidResources([makeRecord()])[0].name).toBe('Figma');
+  });
+
+  it('throws listing every issue', () => {
+    expect(() =>
+      assertValidResources([makeRecord({ category: 'Nope', gravityScore: 42 })])
+    ).toThrow(/2 issue\(s\)[\s\S]*category[\s\S]*gravityScore/);
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('ignores www prefix and trailing slashes', () => {
+    expect(normalizeUrl('https://www.Figma.com/')).toBe(normalizeUrl('https://figma.com'));
+  });
+
+  it('keeps distinct paths on the same host apart', () => {
+    expect(normalizeUrl('https://figma.com/community')).not.toBe(normalizeUrl('https://figma.com'));
+  });
+});
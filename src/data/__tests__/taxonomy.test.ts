@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import resourcesData from '../resources.json';
+import {
+  TAXONOMY,
+  CATEGORY_NAMES,
+  CATEGORY_COLOR_MAP,
+  PRICING_VALUES,
+  getSubCategories,
+  normalizeCategoryName,
+  normalizePricingValue,
+  describeTaxonomyForPrompt,
+} from '../taxonomy';
+import { CATEGORY_ORDER, CATEGORY_COLORS } from '../../types/resource';
+import { categoryAliases, pricingKeywords, resolveCategory } from '../../lib/search/semantic-mappings';
+import { calculateCategoryClusters } from '../../utils/orbital-layout';
+
+describe('TAXONOMY', () => {
+  it('has unique category names with hex colors', () => {
+    expect(new Set(CATEGORY_NAMES).size).toBe(CATEGORY_NAMES.length);
+    for (const category of TAXONOMY.categories) {
+      expect(category.color).toMatch(/^#[0-9A-F]{6}$/i);
+      expect(category.subCategories.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('keeps aliases lowercase and unique across categories', () => {
+    const seen = new Set<string>();
+    for (const category of TAXONOMY.categories) {
+      for (const alias of category.aliases) {
+        expect(alias).toBe(alias.toLowerCase());
+        expect(seen.has(alias)).toBe(false);
+        seen.add(alias);
+      }
+    }
+  });
+
+  it('covers every category and subcategory used in resources.json', () => {
+    for (const resource of resourcesData) {
+      expect(CATEGORY_NAMES).toContain(resource.category);
+      if (resource.subCategory) {
+        expect(getSubCategories(resource.category)).toContain(resource.subCategory);
+      }
+      if (resource.pricing) {
+        expect(PRICING_VALUES).toContain(resource.pricing);
+      }
+    }
+  });
+});
+
+describe('taxonomy readers', () => {
+  it('drives ring order and colors in types/resource', () => {
+    expect(CATEGORY_ORDER).toEqual(CATEGORY_NAMES);
+    expect(CATEGORY_COLORS).toEqual(CATEGORY_COLOR_MAP);
+  });
+
+  it('drives search aliases and pricing keywords', () => {
+    expect(Object.keys(categoryAliases)).toEqual([...CATEGORY_NAMES]);
+    for (const pricing of PRICING_VALUES) {
+      expect(pricingKeywords[pricing]).toBeDefined();
+    }
+    expect(resolveCategory('tutorials')).toBe('Learning');
+  });
+
+  it('drives the orbital layout by default', () => {
+    const clusters = calculateCategoryClusters(
+      CATEGORY_NAMES.map(category => ({ category }))
+    );
+    expect(clusters.map(c => c.category)).toEqual([...CATEGORY_NAMES]);
+    expect(clusters.map(c => c.color)).toEqual(TAXONOMY.categories.map(c => c.color));
+  });
+
+  it('lists every category, subcategory and pricing value in the prompt', () => {
+    const prompt = describeTaxonomyForPrompt();
+    for (const category of TAXONOMY.categories) {
+      expect(prompt).toContain('"' + category.name + '"');
+      for (const sub of category.subCategories) {
+        expect(prompt).toContain('"' + sub + '"');
+      }
+    }
+    for (const pricing of PRICING_VALUES) {
+      expect(prompt).toContain('"' + pricing + '"');
+    }
+  });
+});
+
+describe('normalizeCategoryName / normalizePricingValue', () => {
+  it('returns canonical names case-insensitively', () => {
+    expect(normalizeCategoryName(' ai ')).toBe('AI');
+    expect(normalizeCategoryName('tools')).toBe('Tools');
+    expect(normalizeCategoryName('Widgets')).toBeNull();
+    expect(normalizePricingValue('pay per use')).toBe('Pay per use');
+    expect(normalizePricingValue('cheap')).toBeNull();
+  });
+});
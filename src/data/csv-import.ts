@@ -0,0 +1,261 @@
+/**
+ * CSV Import for Resources
+ *
+ * Maps rows from a curator spreadsheet export onto NormalizedResource,
+ * assigns new ids, and detects duplicates by domain (same rules as
+ * scripts/add-resources.ts). Used by scripts/import-csv.ts.
+ *
+ * Files exported from the site's table/card/3D views import as-is: their
+ * leading `# ` filter-header lines are skipped and their `id` column is
+ * ignored.
+ */
+
+import Papa from 'papaparse';
+import type { NormalizedResource } from '../types/resource';
+
+/**
+ * Spreadsheet column aliases, keyed by resource field.
+ * Headers are matched case-insensitively, ignoring spaces, dashes and underscores.
+ */
+export const CSV_COLUMN_ALIASES: Record<string, string[]> = {
+  name: ['name', 'title', 'resource'],
+  url: ['url', 'link', 'website', 'homepage'],
+  description: ['description', 'desc', 'summary'],
+  category: ['category'],
+  subCategory: ['subcategory', 'sub'],
+  pricing: ['pricing', 'price', 'pricingmodel'],
+  featured: ['featured'],
+  opensource: ['opensource', 'oss'],
+  tags: ['tags', 'keywords'],
+  tier: ['tier'],
+  screenshot: ['screenshot'],
+  logoBg: ['logobg', 'logobackground'],
+  gravityScore: ['gravityscore', 'gravity', 'score', 'rating'],
+  gravityRationale: ['gravityrationale', 'rationale'],
+};
+
+/**
+ * A CSV row that could not be mapped onto a resource
+ */
+export interface CsvRowError {
+  /** 1-based line number in the file (the header is row 1 unless comment lines precede it) */
+  row: number;
+  name: string | null;
+  message: string;
+}
+
+/**
+ * A CSV row skipped because its domain already exists
+ */
+export interface CsvDuplicate {
+  row: number;
+  name: string;
+  domain: string;
+  /** Name of the existing (or earlier imported) resource with this domain */
+  existingName: string;
+}
+
+export interface CsvImportPlan {
+  /** New resources with assigned ids, in spreadsheet order */
+  added: NormalizedResource[];
+  duplicates: CsvDuplicate[];
+  errors: CsvRowError[];
+  /** Unrecognised column headers (ignored) */
+  unknownColumns: string[];
+}
+
+/** Columns that are recognised but not imported (new ids are always assigned) */
+const IGNORED_COLUMNS = new Set(['id']);
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Resolve a spreadsheet header to a resource field, or null if unknown
+ */
+export function resolveCsvColumn(header: string): string | null {
+  const normalized = normalizeHeader(header);
+  for (const [field, aliases] of Object.entries(CSV_COLUMN_ALIASES)) {
+    if (aliases.includes(normalized)) return field;
+  }
+  return null;
+}
+
+/**
+ * Get the domain used for duplicate detection (hostname without www)
+ */
+export function getResourceDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace('www.', '').toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+function parseBoolean(value: string): boolean {
+  return ['true', 'yes', 'y', '1', 'x'].includes(value.trim().toLowerCase());
+}
+
+function parseTags(value: string): string[] | null {
+  const tags = value
+    .split(/[,;|]/)
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return tags.length > 0 ? tags : null;
+}
+
+function emptyToNull(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function countNewlines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+/**
+ * Map a single CSV record (already keyed by resource field) onto a resource
+ * without an id. Returns an error message if required fields are missing.
+ */
+export function mapCsvRecord(
+  record: Record<string, string>
+): Omit<NormalizedResource, 'id'> | { error: string } {
+  const name = emptyToNull(record.name);
+  const url = emptyToNull(record.url);
+  if (!name) return { error: 'missing name' };
+  if (!url) return { error: 'missing url' };
+
+  const scoreText = emptyToNull(record.gravityScore);
+  const gravityScore = scoreText ? Number(scoreText) : NaN;
+  if (Number.isNaN(gravityScore)) {
+    return { error: scoreText ? 'gravityScore "' + scoreText + '" is not a number' : 'missing gravityScore' };
+  }
+
+  const tierText = emptyToNull(record.tier);
+  const tier = tierText ? Number(tierText) : null;
+  if (tier !== null && Number.isNaN(tier)) {
+    return { error: 'tier "' + tierText + '" is not a number' };
+  }
+
+  const resource: Omit<NormalizedResource, 'id'> = {
+    name,
+    url,
+    description: emptyToNull(record.description),
+    category: emptyToNull(record.category),
+    subCategory: emptyToNull(record.subCategory),
+    pricing: emptyToNull(record.pricing),
+    featured: parseBoolean(record.featured ?? ''),
+    opensource: parseBoolean(record.opensource ?? ''),
+    tags: parseTags(record.tags ?? ''),
+    count: null,
+    tier,
+    thumbnail: null,
+    screenshot: emptyToNull(record.screenshot),
+    gravityScore,
+  };
+
+  const gravityRationale = emptyToNull(record.gravityRationale);
+  if (gravityRationale) resource.gravityRationale = gravityRationale;
+
+  const logoBg = emptyToNull(record.logoBg);
+  if (logoBg) resource.logoBg = logoBg;
+
+  return resource;
+}
+
+/**
+ * Parse CSV text and plan an import against the existing resources
+ *
+ * Does not mutate `existing`. New ids continue from the current maximum.
+ */
+export function planCsvImport(
+  csvText: string,
+  existing: NormalizedResource[]
+): CsvImportPlan {
+  // Skip the comment header our own exports start with, keeping row numbers
+  // aligned with the file
+  let bodyStart = 0;
+  let commentLines = 0;
+  while (csvText.startsWith('#', bodyStart)) {
+    const lineEnd = csvText.indexOf('\n', bodyStart);
+    bodyStart = lineEnd === -1 ? csvText.length : lineEnd + 1;
+    commentLines++;
+  }
+  const body = csvText.slice(bodyStart);
+
+  // Papa reports where each row ends; count newlines up to its last character
+  // and back out the ones inside quoted fields, so multi-line cells don't
+  // shift later rows
+  const rows: { row: Record<string, string>; rowNumber: number }[] = [];
+  const errors: CsvRowError[] = [];
+  let counted = 0;
+  let line = commentLines + 1;
+  const parsed = Papa.parse<Record<string, string>>(body, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim(),
+    step: results => {
+      let rowEnd = results.meta.cursor;
+      while (rowEnd > counted && (body[rowEnd - 1] === '\n' || body[rowEnd - 1] === '\r')) rowEnd--;
+      line += countNewlines(body.slice(counted, rowEnd));
+      counted = rowEnd;
+      const rowNumber = line - countNewlines(Object.values(results.data).flat().join(''));
+      for (const error of results.errors) {
+        errors.push({ row: rowNumber, name: null, message: error.message });
+      }
+      rows.push({ row: results.data, rowNumber });
+    },
+  });
+
+  const headers = parsed.meta.fields ?? [];
+  const columnMap = new Map<string, string>();
+  const unknownColumns: string[] = [];
+  for (const header of headers) {
+    const field = resolveCsvColumn(header);
+    if (field) {
+      columnMap.set(header, field);
+    } else if (header && !IGNORED_COLUMNS.has(normalizeHeader(header))) {
+      unknownColumns.push(header);
+    }
+  }
+
+  // Domain → resource name, seeded from existing data
+  const knownDomains = new Map<string, string>();
+  for (const resource of existing) {
+    const domain = getResourceDomain(resource.url);
+    if (!knownDomains.has(domain)) knownDomains.set(domain, resource.name);
+  }
+
+  const added: NormalizedResource[] = [];
+  const duplicates: CsvDuplicate[] = [];
+  let nextId = existing.reduce((max, r) => Math.max(max, r.id), 0) + 1;
+
+  rows.forEach(({ row, rowNumber }) => {
+    const record: Record<string, string> = {};
+    for (const [header, value] of Object.entries(row)) {
+      const field = columnMap.get(header);
+      if (field && typeof value === 'string') record[field] = value;
+    }
+
+    const mapped = mapCsvRecord(record);
+    if ('error' in mapped) {
+      errors.push({ row: rowNumber, name: emptyToNull(record.name), message: mapped.error });
+      return;
+    }
+
+    // Check for domain match, including the base domain (matches add-resources.ts)
+    const domain = getResourceDomain(mapped.url);
+    const baseDomain = domain.split('.').slice(-2).join('.');
+    const existingName = knownDomains.get(domain) ?? knownDomains.get(baseDomain);
+    if (existingName) {
+      duplicates.push({ row: rowNumber, name: mapped.name, domain, existingName });
+      return;
+    }
+
+    knownDomains.set(domain, mapped.name);
+    added.push({ id: nextId++, ...mapped });
+  });
+
+  return { added, duplicates, errors, unknownColumns };
+}
@@ -1,4 +1,11 @@
 import resourcesData from './resources.json';
+import vectorIndexData from './vector-index.json';
 import type { NormalizedResource } from '../types/resource';
+import type { VectorIndex } from '../lib/search/vector-index';
 
+// Validated against the resource schema at build time (see ./schema.ts)
 export const resources: NormalizedResource[] = resourcesData as NormalizedResource[];
+
+// TF-IDF index generated from resources.json (see scripts/build-vector-index.ts).
+// JSON imports type [termIndex, weight] pairs as number[][], hence the double cast.
+export const vectorIndex: VectorIndex = vectorIndexData as unknown as VectorIndex;
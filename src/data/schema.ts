@@ -0,0 +1,317 @@
+/**
+ * Resource Schema
+ *
+ * Runtime validation for resources.json against the NormalizedResource shape.
+ * Runs at build time (see vite.config.ts), in tests, and via `npm run validate`.
+ *
+ * Every violation is collected rather than failing on the first one, so a
+ * single run reports everything that needs fixing in the data file.
+ */
+
+import type { NormalizedResource } from '../types/resource';
+import { CATEGORY_NAMES, PRICING_VALUES, getSubCategories } from './taxonomy';
+
+/**
+ * Named logoBg presets (see resolveLogoBg in lib/favicon.ts)
+ */
+export const LOGO_BG_PRESETS = ['light', 'dark', 'globe'] as const;
+
+/** Gravity score bounds (inclusive) */
+export const GRAVITY_SCORE_MIN = 1.0;
+export const GRAVITY_SCORE_MAX = 10.0;
+
+/** Maximum length of gravityRationale */
+export const GRAVITY_RATIONALE_MAX_LENGTH = 50;
+
+const HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+const KNOWN_FIELDS = new Set<string>([
+  'id',
+  'name',
+  'url',
+  'description',
+  'category',
+  'subCategory',
+  'pricing',
+  'featured',
+  'opensource',
+  'tags',
+  'count',
+  'tier',
+  'thumbnail',
+  'screenshot',
+  'logoBg',
+  'gravityScore',
+  'gravityRationale',
+]);
+
+/**
+ * A single schema violation
+ */
+export interface ResourceIssue {
+  /** Resource id, or null when the id itself is missing/invalid */
+  id: number | null;
+  /** Position of the resource in the array */
+  index: number;
+  /** Field that failed validation */
+  field: string;
+  message: string;
+}
+
+export interface ResourceValidationResult {
+  valid: boolean;
+  issues: ResourceIssue[];
+  resources: NormalizedResource[];
+}
+
+/**
+ * Normalize a URL for duplicate detection (host without www, no trailing slash)
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./, '').toLowerCase();
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+    return host + pathname + parsed.search;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNullableString(value: unknown): boolean {
+  return value === null || typeof value === 'string';
+}
+
+/**
+ * Validate a single resource record, pushing any issues found
+ */
+function validateResource(
+  record: unknown,
+  index: number,
+  issues: ResourceIssue[]
+): record is NormalizedResource {
+  if (!isPlainObject(record)) {
+    issues.push({ id: null, index, field: '(root)', message: 'resource must be an object' });
+    return false;
+  }
+
+  const id = typeof record.id === 'number' && Number.isInteger(record.id) && record.id > 0
+    ? record.id
+    : null;
+  const startCount = issues.length;
+  const report = (field: string, message: string) => {
+    issues.push({ id, index, field, message });
+  };
+
+  if (id === null) {
+    report('id', 'must be a positive integer, got ' + JSON.stringify(record.id));
+  }
+
+  if (typeof record.name !== 'string' || record.name.trim() === '') {
+    report('name', 'must be a non-empty string');
+  }
+
+  if (typeof record.url !== 'string') {
+    report('url', 'must be a string');
+  } else {
+    try {
+      const parsed = new URL(record.url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        report('url', 'must use http or https, got "' + parsed.protocol + '"');
+      }
+    } catch {
+      report('url', 'is not a valid URL: "' + record.url + '"');
+    }
+  }
+
+  if (!isNullableString(record.description)) {
+    report('description', 'must be a string or null');
+  }
+
+  if (typeof record.category !== 'string') {
+    report('category', 'is required');
+  } else if (!(CATEGORY_NAMES as readonly string[]).includes(record.category)) {
+    report('category', 'unknown category "' + record.category + '" (expected one of: ' + CATEGORY_NAMES.join(', ') + ')');
+  }
+
+  if (!isNullableString(record.subCategory)) {
+    report('subCategory', 'must be a string or null');
+  } else if (
+    typeof record.subCategory === 'string' &&
+    typeof record.category === 'string' &&
+    (CATEGORY_NAMES as readonly string[]).includes(record.category) &&
+    !getSubCategories(record.category).includes(record.subCategory)
+  ) {
+    report(
+      'subCategory',
+      'unknown subCategory "' + record.subCategory + '" for ' + record.category +
+        ' (expected one of: ' + getSubCategories(record.category).join(', ') + ')'
+    );
+  }
+
+  if (record.pricing !== null) {
+    if (typeof record.pricing !== 'string') {
+      report('pricing', 'must be a string or null');
+    } else if (!(PRICING_VALUES as readonly string[]).includes(record.pricing)) {
+      report('pricing', 'unknown pricing "' + record.pricing + '" (expected one of: ' + PRICING_VALUES.join(', ') + ')');
+    }
+  }
+
+  if (typeof record.featured !== 'boolean') {
+    report('featured', 'must be a boolean');
+  }
+  if (typeof record.opensource !== 'boolean') {
+    report('opensource', 'must be a boolean');
+  }
+
+  if (record.tags !== null) {
+    if (!Array.isArray(record.tags)) {
+      report('tags', 'must be an array of strings or null');
+    } else {
+      record.tags.forEach((tag, i) => {
+        if (typeof tag !== 'string' || tag.trim() === '') {
+          report('tags[' + i + ']', 'must be a non-empty string');
+        }
+      });
+    }
+  }
+
+  if (!isNullableString(record.count)) {
+    report('count', 'must be a string or null');
+  }
+
+  if (record.tier !== null && (typeof record.tier !== 'number' || !Number.isInteger(record.tier))) {
+    report('tier', 'must be an integer or null');
+  }
+
+  if (!isNullableString(record.thumbnail)) {
+    report('thumbnail', 'must be a string or null');
+  }
+  if (!isNullableString(record.screenshot)) {
+    report('screenshot', 'must be a string or null');
+  } else if (typeof record.screenshot === 'string' && !record.screenshot.startsWith('/')) {
+    report('screenshot', 'must be a path relative to public/ starting with "/"');
+  }
+
+  if (record.logoBg !== undefined && record.logoBg !== null) {
+    const isPreset = (LOGO_BG_PRESETS as readonly unknown[]).includes(record.logoBg);
+    const isHex = typeof record.logoBg === 'string' && HEX_COLOR_PATTERN.test(record.logoBg);
+    if (!isPreset && !isHex) {
+      report('logoBg', 'must be one of ' + LOGO_BG_PRESETS.join(', ') + ' or a #RRGGBB hex color, got ' + JSON.stringify(record.logoBg));
+    }
+  }
+
+  if (typeof record.gravityScore !== 'number' || Number.isNaN(record.gravityScore)) {
+    report('gravityScore', 'is required and must be a number');
+  } else if (record.gravityScore < GRAVITY_SCORE_MIN || record.gravityScore > GRAVITY_SCORE_MAX) {
+    report('gravityScore', 'must be between ' + GRAVITY_SCORE_MIN.toFixed(1) + ' and ' + GRAVITY_SCORE_MAX.toFixed(1) + ', got ' + record.gravityScore);
+  }
+
+  if (record.gravityRationale !== undefined) {
+    if (typeof record.gravityRationale !== 'string') {
+      report('gravityRationale', 'must be a string');
+    } else if (record.gravityRationale.length > GRAVITY_RATIONALE_MAX_LENGTH) {
+      report('gravityRationale', 'must be at most ' + GRAVITY_RATIONALE_MAX_LENGTH + ' characters, got ' + record.gravityRationale.length);
+    }
+  }
+
+  for (const key of Object.keys(record)) {
+    if (!KNOWN_FIELDS.has(key)) {
+      report(key, 'unknown field');
+    }
+  }
+
+  return issues.length === startCount;
+}
+
+/**
+ * Validate raw resources data (the parsed contents of resources.json)
+ *
+ * Checks every record against the NormalizedResource schema and the
+ * collection for duplicate ids and URLs.
+ */
+export function validateResources(data: unknown): ResourceValidationResult {
+  const issues: ResourceIssue[] = [];
+
+  if (!Array.isArray(data)) {
+    return {
+      valid: false,
+      issues: [{ id: null, index: -1, field: '(root)', message: 'resources data must be an array' }],
+      resources: [],
+    };
+  }
+
+  const resources: NormalizedResource[] = [];
+  const seenIds = new Map<number, number>();
+  const seenUrls = new Map<string, number>();
+
+  data.forEach((record, index) => {
+    if (validateResource(record, index, issues)) {
+      resources.push(record);
+    }
+
+    if (!isPlainObject(record)) return;
+
+    if (typeof record.id === 'number') {
+      const firstIndex = seenIds.get(record.id);
+      if (firstIndex !== undefined) {
+        issues.push({
+          id: record.id,
+          index,
+          field: 'id',
+          message: 'duplicate id (first used at index ' + firstIndex + ')',
+        });
+      } else {
+        seenIds.set(record.id, index);
+      }
+    }
+
+    if (typeof record.url === 'string') {
+      const key = normalizeUrl(record.url);
+      const firstIndex = seenUrls.get(key);
+      if (firstIndex !== undefined) {
+        issues.push({
+          id: typeof record.id === 'number' ? record.id : null,
+          index,
+          field: 'url',
+          message: 'duplicate url "' + record.url + '" (first used at index ' + firstIndex + ')',
+        });
+      } else {
+        seenUrls.set(key, index);
+      }
+    }
+  });
+
+  return {
+    valid: issues.length === 0,
+    issues,
+    resources,
+  };
+}
+
+/**
+ * Format a validation issue as a single human-readable line
+ */
+export function formatResourceIssue(issue: ResourceIssue): string {
+  const where = issue.id !== null ? 'id ' + issue.id : 'index ' + issue.index;
+  return '[' + where + '] ' + issue.field + ': ' + issue.message;
+}
+
+/**
+ * Validate resources data and throw if any violations are found
+ * (for use in build steps)
+ */
+export function assertValidResources(data: unknown): NormalizedResource[] {
+  const result = validateResources(data);
+  if (!result.valid) {
+    const lines = result.issues.map(issue => '  ' + formatResourceIssue(issue));
+    throw new Error(
+      'resources.json failed schema validation with ' + result.issues.length + ' issue(s):\n' + lines.join('\n')
+    );
+  }
+  return result.resources;
+}
@@ -0,0 +1,178 @@
+/**
+ * Resource Taxonomy
+ *
+ * Single definition of the categories, subcategories, colors, ring order,
+ * search aliases and pricing values used across the directory. The client
+ * (filters, 3D layout, legend, search), the schema validator and the AI
+ * query parser prompt all read from here.
+ *
+ * To add or rename a category, edit TAXONOMY and update the `category`
+ * field of affected resources in resources.json. `npm run validate` reports
+ * any resource that no longer matches.
+ *
+ * This module must stay free of browser/Vite-only APIs: it is also imported
+ * by the serverless functions in api/ and by scripts run with tsx.
+ */
+
+/**
+ * A top-level category
+ */
+export interface CategoryDefinition {
+  name: string;
+  /** Hex color used for filters, 3D nodes, legend and cards */
+  color: string;
+  /** One-line description (shown to the AI query parser) */
+  description: string;
+  /** Lowercase alternative names resolved by search */
+  aliases: readonly string[];
+  /** Allowed subCategory values for resources in this category */
+  subCategories: readonly string[];
+}
+
+/**
+ * A pricing model
+ */
+export interface PricingDefinition {
+  value: string;
+  /** Lowercase phrases that imply this pricing in a search query */
+  keywords: readonly string[];
+}
+
+export interface TaxonomyDefinition {
+  /** Categories in ring order: inner rings (fewer resources) to outer rings */
+  categories: readonly CategoryDefinition[];
+  pricing: readonly PricingDefinition[];
+}
+
+export const TAXONOMY = {
+  categories: [
+    {
+      name: 'Community',
+      color: '#3B82F6',
+      description: 'Forums, Discord servers, communities',
+      aliases: ['communities', 'forums', 'social', 'network', 'networking'],
+      subCategories: ['Forums', 'Hiring', 'News'],
+    },
+    {
+      name: 'Inspiration',
+      color: '#FF5102',
+      description: 'Showcases, galleries, collections',
+      aliases: ['inspo', 'ideas', 'galleries', 'showcase', 'portfolio', 'examples'],
+      subCategories: ['Showcases', 'Galleries'],
+    },
+    {
+      name: 'Learning',
+      color: '#10B981',
+      description: 'Tutorials, courses, documentation',
+      aliases: ['tutorials', 'courses', 'education', 'educational', 'training', 'lessons'],
+      subCategories: ['Guides', 'Blogs'],
+    },
+    {
+      name: 'Templates',
+      color: '#F59E0B',
+      description: 'Starter kits, UI kits, themes',
+      aliases: ['assets', 'resources', 'kits', 'starters', 'boilerplates'],
+      subCategories: ['Assets', 'Kits', 'Templates', 'Mockups'],
+    },
+    {
+      name: 'Tools',
+      color: '#EC4899',
+      description: 'Design tools, builders, editors',
+      aliases: ['apps', 'applications', 'software', 'programs', 'utilities'],
+      subCategories: ['Design', 'Development', 'Productivity', 'Builders', 'Hosting', 'Animation', '3D'],
+    },
+    {
+      name: 'AI',
+      color: '#06B6D4',
+      description: 'AI-powered tools and platforms',
+      aliases: ['artificial intelligence', 'machine learning', 'ml', 'generative', 'smart'],
+      subCategories: ['Generative', 'Assistants', 'Infrastructure', 'Design'],
+    },
+  ],
+  pricing: [
+    { value: 'Free', keywords: ['free', 'gratis', 'no cost', '$0', 'zero cost'] },
+    { value: 'Freemium', keywords: ['freemium', 'free tier', 'free plan', 'basic free', 'free version'] },
+    { value: 'Paid', keywords: ['paid', 'premium', 'pro', 'subscription', 'license'] },
+    { value: 'Pay per use', keywords: ['pay per use', 'pay as you go', 'usage based', 'usage-based'] },
+  ],
+} as const satisfies TaxonomyDefinition;
+
+export type CategoryName = (typeof TAXONOMY.categories)[number]['name'];
+export type PricingValue = (typeof TAXONOMY.pricing)[number]['value'];
+
+/** Category names in ring order */
+export const CATEGORY_NAMES: readonly CategoryName[] = TAXONOMY.categories.map(c => c.name);
+
+/** Category name → color */
+export const CATEGORY_COLOR_MAP: Record<string, string> = Object.fromEntries(
+  TAXONOMY.categories.map(c => [c.name, c.color])
+);
+
+/** Category name → search aliases */
+export const CATEGORY_ALIAS_MAP: Record<string, string[]> = Object.fromEntries(
+  TAXONOMY.categories.map(c => [c.name, [...c.aliases]])
+);
+
+/** Allowed pricing values */
+export const PRICING_VALUES: readonly PricingValue[] = TAXONOMY.pricing.map(p => p.value);
+
+/** Pricing value → search keywords */
+export const PRICING_KEYWORD_MAP: Record<string, string[]> = Object.fromEntries(
+  TAXONOMY.pricing.map(p => [p.value, [...p.keywords]])
+);
+
+/**
+ * Look up a category definition by exact name
+ */
+export function getCategoryDefinition(name: string): CategoryDefinition | undefined {
+  return TAXONOMY.categories.find(c => c.name === name);
+}
+
+/**
+ * Allowed subcategories for a category (empty for unknown categories)
+ */
+export function getSubCategories(category: string): readonly string[] {
+  return getCategoryDefinition(category)?.subCategories ?? [];
+}
+
+/**
+ * All subcategory names across categories, deduplicated, in taxonomy order
+ */
+export function getAllSubCategories(): string[] {
+  return Array.from(new Set(TAXONOMY.categories.flatMap(c => c.subCategories)));
+}
+
+/**
+ * Match a category name case-insensitively, returning the canonical name
+ */
+export function normalizeCategoryName(value: string): CategoryName | null {
+  const normalized = value.trim().toLowerCase();
+  return CATEGORY_NAMES.find(name => name.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Match a pricing value case-insensitively, returning the canonical value
+ */
+export function normalizePricingValue(value: string): PricingValue | null {
+  const normalized = value.trim().toLowerCase();
+  return PRICING_VALUES.find(p => p.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Describe the taxonomy fields for an LLM prompt
+ *
+ * Returns the category/subCategory/pricing lines of the
+ * "Available data fields" section shared by the query parser prompts.
+ */
+export function describeTaxonomyForPrompt(): string {
+  const quote = (values: readonly string[]) => values.map(v => '"' + v + '"').join(', ');
+  const categoryLines = TAXONOMY.categories.map(c =>
+    '  - "' + c.name + '": ' + c.description + ' (subCategories: ' + quote(c.subCategories) + ')'
+  );
+  return [
+    '- category: ' + quote(CATEGORY_NAMES),
+    ...categoryLines,
+    '- subCategory: ' + quote(getAllSubCategories()),
+    '- pricing: ' + quote(PRICING_VALUES),
+  ].join('\n');
+}
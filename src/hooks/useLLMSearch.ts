@@ -3,28 +3,55 @@
  *
  * React hook that orchestrates hybrid search:
  * - Simple queries use fast local semantic search
+ * - Operator queries (category:AI score:>9) are parsed locally into hard filters
+ * - Comparisons against a resource in the directory ("alternatives to Figma")
+ *   are ranked locally from the TF-IDF vector index
  * - Complex queries use LLM parsing for intent extraction and hard filtering
+ * - Follow-ups in a conversation ("only the free ones", "any price") refine
+ *   the previous search instead of starting over (see lib/search/conversation.ts)
  */
 
 import { useState, useCallback, useRef } from 'react';
-import { resources } from '../data';
+import { resources, vectorIndex } from '../data';
+import type { NormalizedResource } from '../types/resource';
 
 import {
   semanticSearch,
   generateAIResponse,
+  getSpellingCorrection,
   type ScoredResult,
   type SearchMetadata,
+  type SearchResponse,
   type HardFilters,
 } from '../lib/search';
 import {
   classifyQueryComplexity,
   type QueryClassification,
 } from '../lib/search/query-classifier';
+import {
+  parseQueryOperators,
+  type OperatorQuery,
+} from '../lib/search/query-operators';
+import {
+  compareSearch,
+  findResourceByName,
+  resolveComparisonTarget,
+} from '../lib/search/compare-search';
 import {
   parseQueryWithLLM,
   createFallbackParse,
   type ParsedQuery,
 } from '../lib/search/llm-query-parser';
+import {
+  appendTurn,
+  getLatestTurn,
+  getPriorTurns,
+  getRefinementText,
+  isRefinementQuery,
+  mergeRefinement,
+  type ConversationTurn,
+  type SearchConversation,
+} from '../lib/search/conversation';
 
 /**
  * Search result structure
@@ -36,13 +63,19 @@ export interface LLMSearchResult {
   parsedQuery: ParsedQuery | null;
   classification: QueryClassification | null;
   isLLMEnhanced: boolean;
+  /** Operator syntax parsed from the query, if any operators were used */
+  operatorQuery: OperatorQuery | null;
+  /** Whether the query refined the previous search in the conversation */
+  isRefinement: boolean;
+  /** The conversation including this search (a new one unless it was a refinement) */
+  conversation: SearchConversation;
 }
 
 /**
  * Hook return type
  */
 export interface UseLLMSearchReturn {
-  search: (query: string) => Promise<LLMSearchResult>;
+  search: (query: string, conversation?: SearchConversation | null) => Promise<LLMSearchResult>;
   isLoading: boolean;
   error: string | null;
   lastResult: LLMSearchResult | null;
@@ -62,6 +95,331 @@ interface UseLLMSearchOptions {
   maxResults?: number;
 }
 
+/**
+ * Log why each query went to local search or the LLM (VITE_DEBUG_SEARCH=true)
+ */
+function isSearchDebugEnabled(): boolean {
+  return import.meta.env.VITE_DEBUG_SEARCH === 'true';
+}
+
+/**
+ * Parse operator syntax, returning null when the query uses no operators
+ */
+function getOperatorQuery(query: string): OperatorQuery | null {
+  const operatorQuery = parseQueryOperators(query);
+  return operatorQuery.operators.length > 0 ? operatorQuery : null;
+}
+
+/**
+ * Resolve the resource a compare-intent LLM parse refers to, if it's in the directory
+ */
+function getParsedComparisonTarget(parsedQuery: ParsedQuery | null): NormalizedResource | null {
+  if (parsedQuery?.intent !== 'compare' || !parsedQuery.comparisonTarget) return null;
+  return findResourceByName(resources, parsedQuery.comparisonTarget);
+}
+
+/**
+ * Filters for a comparison answered locally: operator filters plus any
+ * pricing/category/rating the fallback parser finds ("free tools like Figma")
+ */
+function getLocalComparisonFilters(query: string, operatorQuery: OperatorQuery | null): HardFilters {
+  return {
+    ...toHardFilters(createFallbackParse(query).filters),
+    ...operatorQuery?.filters,
+  };
+}
+
+/**
+ * Hard filters from a parsed query, without empty lists
+ */
+function toHardFilters(filters: ParsedQuery['filters']): HardFilters {
+  const hardFilters: HardFilters = {
+    pricing: filters.pricing,
+    categories: filters.categories,
+    subCategories: filters.subCategories,
+    minGravityScore: filters.minGravityScore,
+    maxGravityScore: filters.maxGravityScore,
+    tags: filters.tags,
+    featured: filters.featured,
+    opensource: filters.opensource,
+  };
+
+  // Clean up empty arrays
+  if (hardFilters.pricing?.length === 0) delete hardFilters.pricing;
+  if (hardFilters.categories?.length === 0) delete hardFilters.categories;
+  if (hardFilters.subCategories?.length === 0) delete hardFilters.subCategories;
+  if (hardFilters.tags?.length === 0) delete hardFilters.tags;
+  return hardFilters;
+}
+
+/**
+ * Race an LLM parse against the timeout
+ */
+function parseWithTimeout(
+  query: string,
+  timeout: number,
+  conversation?: Parameters<typeof parseQueryWithLLM>[1]
+): Promise<ParsedQuery> {
+  return Promise.race([
+    parseQueryWithLLM(query, conversation),
+    new Promise<ParsedQuery>((_, reject) =>
+      setTimeout(() => reject(new Error('LLM timeout')), timeout)
+    ),
+  ]);
+}
+
+/**
+ * Everything the search needs from a query
+ */
+interface ResolvedQuery {
+  operatorQuery: OperatorQuery | null;
+  classification: QueryClassification;
+  searchText: string;
+  parsedQuery: ParsedQuery | null;
+  hardFilters?: HardFilters;
+  llmConcepts?: string[];
+  isLLMEnhanced: boolean;
+  comparisonTarget: NormalizedResource | null;
+  isRefinement: boolean;
+}
+
+/**
+ * Resolve a follow-up against the previous turn of the conversation
+ *
+ * The LLM says whether the follow-up refines the previous search
+ * (refinesPrevious) and, if so, returns the merged filters. When it doesn't
+ * say, or isn't used, the local heuristics decide and the fallback parse
+ * is merged into the previous state.
+ *
+ * Returns null for a new search the LLM hasn't parsed yet.
+ */
+async function resolveFollowUp(
+  query: string,
+  conversation: SearchConversation,
+  previous: ConversationTurn,
+  options: { enableLLM: boolean; timeout: number }
+): Promise<{ parsedQuery: ParsedQuery; isLLMEnhanced: boolean; isRefinement: boolean } | null> {
+  const looksLikeRefinement = isRefinementQuery(query);
+
+  if (options.enableLLM && (looksLikeRefinement || classifyQueryComplexity(query).isComplex)) {
+    let parsedQuery: ParsedQuery;
+    try {
+      parsedQuery = await parseWithTimeout(query, options.timeout, {
+        turns: getPriorTurns(conversation),
+        previous: previous.parsedQuery,
+      });
+    } catch (llmError) {
+      if (import.meta.env.DEV) {
+        console.warn('LLM search failed, using local fallback:', llmError);
+      }
+      return looksLikeRefinement
+        ? { parsedQuery: createFallbackParse(query, previous.parsedQuery), isLLMEnhanced: false, isRefinement: true }
+        : null;
+    }
+
+    if (parsedQuery.refinesPrevious === undefined && looksLikeRefinement) {
+      parsedQuery = mergeRefinement(previous.parsedQuery, parsedQuery, query);
+    }
+    // A new topic keeps its parse, so it isn't sent to the LLM twice
+    return { parsedQuery, isLLMEnhanced: true, isRefinement: parsedQuery.refinesPrevious === true };
+  }
+
+  return looksLikeRefinement
+    ? { parsedQuery: createFallbackParse(query, previous.parsedQuery), isLLMEnhanced: false, isRefinement: true }
+    : null;
+}
+
+/**
+ * Parse a query into search text, filters and comparison target
+ *
+ * Operator queries and comparisons against a directory resource always
+ * start a new search; anything else may refine the conversation.
+ */
+async function resolveQuery(
+  normalizedQuery: string,
+  options: { enableLLM: boolean; timeout: number; conversation?: SearchConversation | null }
+): Promise<ResolvedQuery> {
+  const { enableLLM, timeout, conversation } = options;
+
+  // Step 1: Parse operator syntax, then classify query complexity
+  // (operator queries are always classified as simple)
+  const operatorQuery = getOperatorQuery(normalizedQuery);
+  const classification = classifyQueryComplexity(normalizedQuery, { debug: isSearchDebugEnabled() });
+  if (classification.debug) {
+    console.debug(`[search] "${normalizedQuery}"\n  ${classification.debug.explanation.join('\n  ')}`);
+  }
+  const searchText = operatorQuery ? operatorQuery.freeText : normalizedQuery;
+
+  // Comparisons against a resource in the directory never need the LLM
+  const localComparisonTarget = resolveComparisonTarget(resources, searchText);
+  if (localComparisonTarget) {
+    return {
+      operatorQuery,
+      classification,
+      searchText,
+      parsedQuery: null,
+      hardFilters: getLocalComparisonFilters(searchText, operatorQuery),
+      isLLMEnhanced: false,
+      comparisonTarget: localComparisonTarget,
+      isRefinement: false,
+    };
+  }
+
+  // Step 2: Follow-ups refine the previous search: its text plus anything new
+  const previous = getLatestTurn(conversation);
+  const followUp = conversation && previous && !operatorQuery
+    ? await resolveFollowUp(normalizedQuery, conversation, previous, { enableLLM, timeout })
+    : null;
+  if (previous && followUp?.isRefinement) {
+    const { parsedQuery } = followUp;
+    return {
+      operatorQuery,
+      classification,
+      searchText: [previous.searchText, getRefinementText(normalizedQuery)].filter(Boolean).join(' '),
+      parsedQuery,
+      hardFilters: toHardFilters(parsedQuery.filters),
+      llmConcepts: parsedQuery.concepts.length > 0 ? parsedQuery.concepts : previous.llmConcepts,
+      isLLMEnhanced: followUp.isLLMEnhanced,
+      comparisonTarget: getParsedComparisonTarget(parsedQuery),
+      isRefinement: true,
+    };
+  }
+
+  let parsedQuery: ParsedQuery | null = null;
+  let hardFilters: HardFilters | undefined = operatorQuery?.filters;
+  let llmConcepts: string[] | undefined;
+  let isLLMEnhanced = false;
+
+  // Step 3: For complex queries, use LLM parsing (already done for a new topic in a conversation)
+  if (followUp || (enableLLM && classification.isComplex)) {
+    try {
+      parsedQuery = followUp?.parsedQuery ?? await parseWithTimeout(normalizedQuery, timeout);
+      isLLMEnhanced = true;
+
+      // Extract hard filters from parsed query
+      if (parsedQuery.filters) {
+        hardFilters = toHardFilters(parsedQuery.filters);
+      }
+
+      // Extract LLM concepts for soft matching
+      if (parsedQuery.concepts && parsedQuery.concepts.length > 0) {
+        llmConcepts = parsedQuery.concepts;
+      }
+    } catch (llmError) {
+      // LLM failed - use fallback parsing
+      if (import.meta.env.DEV) {
+        console.warn('LLM search failed, using local fallback:', llmError);
+      }
+      parsedQuery = createFallbackParse(normalizedQuery);
+
+      // Still apply any filters we could extract locally
+      if (parsedQuery.filters) {
+        hardFilters = parsedQuery.filters as HardFilters;
+      }
+    }
+  }
+
+  return {
+    operatorQuery,
+    classification,
+    searchText,
+    parsedQuery,
+    hardFilters,
+    llmConcepts,
+    isLLMEnhanced,
+    comparisonTarget: getParsedComparisonTarget(parsedQuery),
+    isRefinement: false,
+  };
+}
+
+/**
+ * Add a search to the conversation
+ *
+ * Searches without an LLM parse are recorded by the filters they applied,
+ * so a follow-up has something to refine.
+ */
+function recordTurn(
+  conversation: SearchConversation | null | undefined,
+  query: string,
+  resolved: ResolvedQuery,
+  resultCount: number
+): SearchConversation {
+  return appendTurn(conversation, {
+    query,
+    parsedQuery: resolved.parsedQuery ?? {
+      intent: 'find',
+      filters: (resolved.hardFilters ?? {}) as ParsedQuery['filters'],
+      concepts: [],
+      semanticTerms: [],
+      confidence: 'high',
+    },
+    searchText: resolved.searchText,
+    llmConcepts: resolved.llmConcepts,
+    resultCount,
+    isRefinement: resolved.isRefinement,
+  });
+}
+
+/**
+ * Result for an empty query
+ */
+function createEmptyResult(query: string): LLMSearchResult {
+  return {
+    results: [],
+    metadata: {
+      quality: 'fallback',
+      totalResults: 0,
+      detectedConcepts: [],
+      expandedTerms: [],
+      matchedCategory: null,
+      matchedPricing: null,
+      originalQuery: query,
+      directMatchCount: 0,
+    },
+    aiResponse: { message: '', matchCount: 0 },
+    parsedQuery: null,
+    classification: null,
+    isLLMEnhanced: false,
+    operatorQuery: null,
+    isRefinement: false,
+    conversation: { turns: [] },
+  };
+}
+
+/**
+ * Run the search: rank by similarity for comparisons, otherwise semantic search
+ *
+ * Falls back to semantic search when a comparison leaves no results.
+ * A "did you mean" correction covers the whole query, not just the text
+ * that was searched.
+ */
+function runSearch(
+  searchText: string,
+  comparisonTarget: NormalizedResource | null,
+  options: { hardFilters?: HardFilters; llmConcepts?: string[]; minResults: number; maxResults: number; query: string }
+): SearchResponse {
+  const { hardFilters, llmConcepts, minResults, maxResults, query } = options;
+
+  if (comparisonTarget) {
+    const comparison = compareSearch(resources, vectorIndex, comparisonTarget, { hardFilters, maxResults, query });
+    if (comparison.results.length > 0) return comparison;
+  }
+
+  const response = semanticSearch(resources, searchText, {
+    minResults,
+    maxResults,
+    includeFallback: true,
+    hardFilters,
+    llmConcepts,
+  });
+
+  if (response.metadata.suggestedQuery && searchText !== query) {
+    const suggestedQuery = getSpellingCorrection(resources, query) ?? undefined;
+    return { ...response, metadata: { ...response.metadata, suggestedQuery } };
+  }
+  return response;
+}
+
 /**
  * Custom hook for LLM-enhanced semantic search
  */
@@ -84,7 +442,7 @@ export function useLLMSearch(options: UseLLMSearchOptions = {}): UseLLMSearchRet
    * Main search function
    */
   const search = useCallback(
-    async (query: string): Promise<LLMSearchResult> => {
+    async (query: string, conversation?: SearchConversation | null): Promise<LLMSearchResult> => {
       // Cancel any in-flight requests
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -98,96 +456,26 @@ export function useLLMSearch(options: UseLLMSearchOptions = {}): UseLLMSearchRet
 
       // Handle empty query
       if (!normalizedQuery) {
-        const emptyResult: LLMSearchResult = {
-          results: [],
-          metadata: {
-            quality: 'fallback',
-            totalResults: 0,
-            detectedConcepts: [],
-            expandedTerms: [],
-            matchedCategory: null,
-            matchedPricing: null,
-            originalQuery: query,
-            directMatchCount: 0,
-          },
-          aiResponse: { message: '', matchCount: 0 },
-          parsedQuery: null,
-          classification: null,
-          isLLMEnhanced: false,
-        };
+        const emptyResult = createEmptyResult(query);
         setLastResult(emptyResult);
         setIsLoading(false);
         return emptyResult;
       }
 
       try {
-        // Step 1: Classify query complexity
-        const classification = classifyQueryComplexity(normalizedQuery);
-        let parsedQuery: ParsedQuery | null = null;
-        let hardFilters: HardFilters | undefined;
-        let llmConcepts: string[] | undefined;
-        let isLLMEnhanced = false;
-
-        // Step 2: For complex queries, use LLM parsing
-        if (enableLLM && classification.isComplex) {
-          try {
-            // Race between LLM call and timeout
-            parsedQuery = await Promise.race([
-              parseQueryWithLLM(normalizedQuery),
-              new Promise<ParsedQuery>((_, reject) =>
-                setTimeout(() => reject(new Error('LLM timeout')), llmTimeout)
-              ),
-            ]);
-            isLLMEnhanced = true;
-
-            // Extract hard filters from parsed query
-            if (parsedQuery.filters) {
-              hardFilters = {
-                pricing: parsedQuery.filters.pricing,
-                categories: parsedQuery.filters.categories,
-                subCategories: parsedQuery.filters.subCategories,
-                minGravityScore: parsedQuery.filters.minGravityScore,
-                maxGravityScore: parsedQuery.filters.maxGravityScore,
-                tags: parsedQuery.filters.tags,
-                featured: parsedQuery.filters.featured,
-                opensource: parsedQuery.filters.opensource,
-              };
-
-              // Clean up empty arrays
-              if (hardFilters.pricing?.length === 0) delete hardFilters.pricing;
-              if (hardFilters.categories?.length === 0) delete hardFilters.categories;
-              if (hardFilters.subCategories?.length === 0) delete hardFilters.subCategories;
-              if (hardFilters.tags?.length === 0) delete hardFilters.tags;
-            }
-
-            // Extract LLM concepts for soft matching
-            if (parsedQuery.concepts && parsedQuery.concepts.length > 0) {
-              llmConcepts = parsedQuery.concepts;
-            }
-          } catch (llmError) {
-            // LLM failed - use fallback parsing
-            if (import.meta.env.DEV) {
-              console.warn('LLM search failed, using local fallback:', llmError);
-            }
-            parsedQuery = createFallbackParse(normalizedQuery);
-            
-            // Still apply any filters we could extract locally
-            if (parsedQuery.filters) {
-              hardFilters = parsedQuery.filters as HardFilters;
-            }
-          }
-        }
+        const resolved = await resolveQuery(normalizedQuery, { enableLLM, timeout: llmTimeout, conversation });
 
-        // Step 3: Execute semantic search with filters
-        const { results, metadata } = semanticSearch(resources, normalizedQuery, {
+        // Step 4: Execute search with filters - similarity ranking for comparisons,
+        // semantic search otherwise (operator queries search only their free-text terms)
+        const { results, metadata } = runSearch(resolved.searchText, resolved.comparisonTarget, {
+          hardFilters: resolved.hardFilters,
+          llmConcepts: resolved.llmConcepts,
           minResults,
           maxResults,
-          includeFallback: true,
-          hardFilters,
-          llmConcepts,
+          query: normalizedQuery,
         });
 
-        // Step 4: Generate AI response
+        // Step 5: Generate AI response
         const aiResponse = generateAIResponse(results, metadata);
 
         // Build result
@@ -195,9 +483,12 @@ export function useLLMSearch(options: UseLLMSearchOptions = {}): UseLLMSearchRet
           results,
           metadata,
           aiResponse,
-          parsedQuery,
-          classification,
-          isLLMEnhanced,
+          parsedQuery: resolved.parsedQuery,
+          classification: resolved.classification,
+          isLLMEnhanced: resolved.isLLMEnhanced,
+          operatorQuery: resolved.operatorQuery,
+          isRefinement: resolved.isRefinement,
+          conversation: recordTurn(conversation, normalizedQuery, resolved, results.length),
         };
 
         setLastResult(searchResult);
@@ -226,6 +517,9 @@ export function useLLMSearch(options: UseLLMSearchOptions = {}): UseLLMSearchRet
           parsedQuery: null,
           classification: null,
           isLLMEnhanced: false,
+          operatorQuery: null,
+          isRefinement: false,
+          conversation: { turns: [] },
         };
 
         setLastResult(fallbackResult);
@@ -246,70 +540,27 @@ export function useLLMSearch(options: UseLLMSearchOptions = {}): UseLLMSearchRet
 
 /**
  * Utility function for one-off searches without hook state
+ *
+ * Pass the previous result's `conversation` to let the query refine it.
  */
 export async function performLLMSearch(
   query: string,
-  options: { enableLLM?: boolean; timeout?: number } = {}
+  options: { enableLLM?: boolean; timeout?: number; conversation?: SearchConversation | null } = {}
 ): Promise<LLMSearchResult> {
-  const { enableLLM = true, timeout = 5000 } = options;
+  const { enableLLM = true, timeout = 5000, conversation } = options;
   const normalizedQuery = query.trim();
 
   if (!normalizedQuery) {
-    return {
-      results: [],
-      metadata: {
-        quality: 'fallback',
-        totalResults: 0,
-        detectedConcepts: [],
-        expandedTerms: [],
-        matchedCategory: null,
-        matchedPricing: null,
-        originalQuery: query,
-        directMatchCount: 0,
-      },
-      aiResponse: { message: '', matchCount: 0 },
-      parsedQuery: null,
-      classification: null,
-      isLLMEnhanced: false,
-    };
-  }
-
-  const classification = classifyQueryComplexity(normalizedQuery);
-  let parsedQuery: ParsedQuery | null = null;
-  let hardFilters: HardFilters | undefined;
-  let llmConcepts: string[] | undefined;
-  let isLLMEnhanced = false;
-
-  if (enableLLM && classification.isComplex) {
-    try {
-      parsedQuery = await Promise.race([
-        parseQueryWithLLM(normalizedQuery),
-        new Promise<ParsedQuery>((_, reject) =>
-          setTimeout(() => reject(new Error('timeout')), timeout)
-        ),
-      ]);
-      isLLMEnhanced = true;
-
-      if (parsedQuery.filters) {
-        hardFilters = parsedQuery.filters as HardFilters;
-      }
-      if (parsedQuery.concepts?.length) {
-        llmConcepts = parsedQuery.concepts;
-      }
-    } catch {
-      parsedQuery = createFallbackParse(normalizedQuery);
-      if (parsedQuery.filters) {
-        hardFilters = parsedQuery.filters as HardFilters;
-      }
-    }
+    return createEmptyResult(query);
   }
 
-  const { results, metadata } = semanticSearch(resources, normalizedQuery, {
+  const resolved = await resolveQuery(normalizedQuery, { enableLLM, timeout, conversation });
+  const { results, metadata } = runSearch(resolved.searchText, resolved.comparisonTarget, {
+    hardFilters: resolved.hardFilters,
+    llmConcepts: resolved.llmConcepts,
     minResults: 1,
     maxResults: 50,
-    includeFallback: true,
-    hardFilters,
-    llmConcepts,
+    query: normalizedQuery,
   });
 
   const aiResponse = generateAIResponse(results, metadata);
@@ -318,8 +569,11 @@ export async function performLLMSearch(
     results,
     metadata,
     aiResponse,
-    parsedQuery,
-    classification,
-    isLLMEnhanced,
+    parsedQuery: resolved.parsedQuery,
+    classification: resolved.classification,
+    isLLMEnhanced: resolved.isLLMEnhanced,
+    operatorQuery: resolved.operatorQuery,
+    isRefinement: resolved.isRefinement,
+    conversation: recordTurn(conversation, normalizedQuery, resolved, results.length),
   };
 }
@@ -1,12 +1,26 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { resources } from '../data';
 import type { NormalizedResource } from '../types/resource';
-import { semanticSearch, type SearchMetadata } from '../lib/search';
+import {
+  semanticSearch,
+  parseQueryOperators,
+  getSpellingCorrection,
+  getTypeaheadSuggestions,
+  type MatchSpan,
+  type SearchMetadata,
+  type TypeaheadSuggestion,
+} from '../lib/search';
+import { logSearch } from '../lib/search/search-logger';
+
+/** A query is logged once typing has paused this long, so partial words aren't */
+const ANALYTICS_SETTLE_MS = 1500;
 
 export interface SearchResult {
   resource: NormalizedResource;
   score: number;
   matchedField: string;
+  /** Match spans for highlighting (absent for default/popular results) */
+  matches?: MatchSpan[];
 }
 
 export interface GroupedSearchResults {
@@ -16,6 +30,7 @@ export interface GroupedSearchResults {
 interface UseResourceSearchOptions {
   debounceMs?: number;
   maxResults?: number;
+  maxSuggestions?: number;
 }
 
 interface UseResourceSearchResult {
@@ -24,6 +39,8 @@ interface UseResourceSearchResult {
   results: SearchResult[];
   groupedResults: GroupedSearchResults;
   defaultResults: SearchResult[];
+  /** Completions for the word being typed (not debounced) */
+  suggestions: TypeaheadSuggestion[];
   isSearching: boolean;
   clearSearch: () => void;
   metadata: SearchMetadata | null;
@@ -37,9 +54,11 @@ interface UseResourceSearchResult {
  * - Concept mapping (vibe code → Cursor, v0, Bolt)
  * - Fuzzy matching for typos (figam → Figma)
  * - Intelligent fallbacks (always returns useful results)
+ * - Operator syntax (category:AI pricing:free score:>9 -tag:3d)
+ * - Typeahead suggestions for names, tags, subcategories, concepts and facets
  */
 export function useResourceSearch(options: UseResourceSearchOptions = {}): UseResourceSearchResult {
-  const { debounceMs = 100, maxResults = 50 } = options;
+  const { debounceMs = 100, maxResults = 50, maxSuggestions = 6 } = options;
 
   const [query, setQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
@@ -64,23 +83,53 @@ export function useResourceSearch(options: UseResourceSearchOptions = {}): UseRe
       return [];
     }
 
+    // Operator syntax (category:AI score:>9) becomes hard filters;
+    // only the remaining free text is searched semantically
+    const operatorQuery = parseQueryOperators(debouncedQuery);
+    const hasOperators = operatorQuery.operators.length > 0;
+
     // Use semantic search for intelligent matching
-    const { results: semanticResults, metadata } = semanticSearch(resources, debouncedQuery, {
-      minResults: 3,
-      maxResults,
-      includeFallback: true,
-    });
+    const { results: semanticResults, metadata } = semanticSearch(
+      resources,
+      hasOperators ? operatorQuery.freeText : debouncedQuery,
+      {
+        minResults: 3,
+        maxResults,
+        includeFallback: true,
+        hardFilters: hasOperators ? operatorQuery.filters : undefined,
+      }
+    );
 
-    setSearchMetadata(metadata);
+    // Corrections keep the operators as typed
+    setSearchMetadata(hasOperators && metadata.suggestedQuery
+      ? { ...metadata, suggestedQuery: getSpellingCorrection(resources, debouncedQuery) ?? undefined }
+      : metadata);
 
     // Convert ScoredResult to SearchResult for backwards compatibility
     return semanticResults.map(sr => ({
       resource: sr.resource,
       score: sr.score,
       matchedField: sr.matchReasons[0] || 'semantic',
+      matches: sr.matches,
     }));
   }, [debouncedQuery, maxResults]);
 
+  // Log the search once the query settles (a no-op unless analytics is enabled)
+  useEffect(() => {
+    if (!debouncedQuery.trim() || !searchMetadata) return;
+    const timer = setTimeout(() => {
+      logSearch({
+        query: debouncedQuery,
+        quality: searchMetadata.quality,
+        resultCount: results.length,
+        llmEnhanced: false,
+        view: 'search-modal',
+      });
+    }, ANALYTICS_SETTLE_MS);
+
+    return () => clearTimeout(timer);
+  }, [debouncedQuery, searchMetadata, results.length]);
+
   // Group results by category
   const groupedResults = useMemo((): GroupedSearchResults => {
     const groups: GroupedSearchResults = {};
@@ -96,6 +145,12 @@ export function useResourceSearch(options: UseResourceSearchOptions = {}): UseRe
     return groups;
   }, [results]);
 
+  // Suggestions follow every keystroke so they keep up with typing
+  const suggestions = useMemo(
+    () => getTypeaheadSuggestions(resources, query, maxSuggestions),
+    [query, maxSuggestions]
+  );
+
   // Default results for empty query state (top 15 resources by gravity score)
   const defaultResults = useMemo((): SearchResult[] => {
     return [...resources]
@@ -120,6 +175,7 @@ export function useResourceSearch(options: UseResourceSearchOptions = {}): UseRe
     results,
     groupedResults,
     defaultResults,
+    suggestions,
     isSearching,
     clearSearch,
     metadata: searchMetadata,
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CollectionsImportError,
+  FAVORITES_COLLECTION_ID,
+  findCollectionByName,
+  getCollectionSelection,
+  getCollectionsFilename,
+  mergeCollections,
+  normalizeCollectionName,
+  parseCollectionsFile,
+  serializeCollections,
+  toggleId,
+  type CollectionsData,
+} from '../collections';
+import type { NormalizedResource } from '../../types/resource';
+
+function resource(id: number, name: string): NormalizedResource {
+  return {
+    id,
+    name,
+    url: `https://example.com/${id}`,
+    description: null,
+    category: 'Tools',
+    subCategory: null,
+    pricing: 'Free',
+    featured: false,
+    opensource: false,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 5,
+  };
+}
+
+const RESOURCES = [resource(1, 'Figma'), resource(2, 'Framer'), resource(3, 'Linear')];
+
+const DATA: CollectionsData = {
+  favorites: [1, 3],
+  collections: [
+    { id: 'c-brand', name: 'Brand refresh', resourceIds: [2], createdAt: '2025-01-01T00:00:00.000Z' },
+  ],
+};
+
+describe('normalizeCollectionName', () => {
+  it('trims and collapses whitespace', () => {
+    expect(normalizeCollectionName('  Brand   refresh \n')).toBe('Brand refresh');
+  });
+
+  it('caps the length', () => {
+    expect(normalizeCollectionName('x'.repeat(100))).toHaveLength(60);
+  });
+});
+
+describe('findCollectionByName', () => {
+  it('ignores case and surrounding whitespace', () => {
+    expect(findCollectionByName(DATA.collections, ' brand REFRESH ')?.id).toBe('c-brand');
+    expect(findCollectionByName(DATA.collections, 'Other')).toBeUndefined();
+  });
+});
+
+describe('toggleId', () => {
+  it('adds missing ids and removes present ones', () => {
+    expect(toggleId([1, 2], 3)).toEqual([1, 2, 3]);
+    expect(toggleId([1, 2, 3], 2)).toEqual([1, 3]);
+  });
+});
+
+describe('getCollectionSelection', () => {
+  it('resolves favorites and named collections', () => {
+    expect(getCollectionSelection(DATA, FAVORITES_COLLECTION_ID)).toEqual({
+      id: 'favorites',
+      name: 'Favorites',
+      resourceIds: [1, 3],
+    });
+    expect(getCollectionSelection(DATA, 'c-brand')?.name).toBe('Brand refresh');
+  });
+
+  it('returns null for no selection or a deleted collection', () => {
+    expect(getCollectionSelection(DATA, null)).toBeNull();
+    expect(getCollectionSelection(DATA, 'c-gone')).toBeNull();
+  });
+});
+
+describe('serializeCollections / parseCollectionsFile', () => {
+  it('round-trips an export', () => {
+    const text = serializeCollections(DATA, new Date('2025-01-31T12:00:00Z'));
+    expect(JSON.parse(text)).toMatchObject({ source: 'Design Directory', version: 1, exportedAt: '2025-01-31T12:00:00.000Z' });
+    expect(parseCollectionsFile(text, RESOURCES)).toEqual({ data: DATA, issues: [] });
+  });
+
+  it('drops unknown resources, unnamed and duplicate collections', () => {
+    const text = JSON.stringify({
+      favorites: [1, 1, 99],
+      collections: [
+        { id: 'a', name: 'Inspiration', resourceIds: [2, 'x'] },
+        { name: '  ', resourceIds: [1] },
+        { id: 'b', name: 'inspiration', resourceIds: [3] },
+      ],
+    });
+    const { data, issues } = parseCollectionsFile(text, RESOURCES);
+
+    expect(data.favorites).toEqual([1]);
+    expect(data.collections).toHaveLength(1);
+    expect(data.collections[0]).toMatchObject({ id: 'a', name: 'Inspiration', resourceIds: [2] });
+    expect(issues).toEqual([
+      'Favorites: skipped 1 unknown resource',
+      'Collection "Inspiration": skipped 1 unknown resource',
+      'Collection 2: missing a name',
+      'Collection "inspiration": listed twice, kept the first',
+    ]);
+  });
+
+  it('throws on unreadable files', () => {
+    expect(() => parseCollectionsFile('not json', RESOURCES)).toThrow(CollectionsImportError);
+    expect(() => parseCollectionsFile('{"resources": []}', RESOURCES)).toThrow('does not contain favorites or collections');
+    expect(() => parseCollectionsFile('{"version": 2, "favorites": []}', RESOURCES)).toThrow('newer version');
+  });
+});
+
+describe('mergeCollections', () => {
+  it('unions favorites and merges collections by id or name', () => {
+    const merged = mergeCollections(DATA, {
+      favorites: [3, 2],
+      collections: [
+        { id: 'c-other-browser', name: 'brand refresh', resourceIds: [2, 1], createdAt: '2025-02-01T00:00:00.000Z' },
+        { id: 'c-new', name: 'Icons', resourceIds: [3], createdAt: '2025-02-01T00:00:00.000Z' },
+      ],
+    });
+
+    expect(merged.favorites).toEqual([1, 3, 2]);
+    expect(merged.collections.map(c => [c.id, c.name, c.resourceIds])).toEqual([
+      ['c-brand', 'Brand refresh', [2, 1]],
+      ['c-new', 'Icons', [3]],
+    ]);
+  });
+});
+
+describe('getCollectionsFilename', () => {
+  it('includes the date', () => {
+    expect(getCollectionsFilename(new Date('2025-01-31T12:00:00Z'))).toBe('design-directory-collections-2025-01-31.json');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Papa from 'papaparse';
+import {
+  downloadFile,
+  exportToCsv,
+  exportToJson,
+  exportToMarkdown,
+  getExportFilename,
+  getExportHeaderLines,
+  type ExportContext,
+} from '../export';
+import type { NormalizedResource } from '../../types/resource';
+
+const RESOURCES: NormalizedResource[] = [
+  {
+    id: 1,
+    name: 'Figma',
+    url: 'https://figma.com',
+    description: 'Collaborative design, prototyping, "multiplayer"',
+    category: 'Tools',
+    subCategory: 'Design',
+    pricing: 'Freemium',
+    featured: true,
+    opensource: false,
+    tags: ['design', 'prototyping'],
+    count: null,
+    tier: 1,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 9.8,
+  },
+  {
+    id: 2,
+    name: 'Pipe | Tool',
+    url: 'https://example.com',
+    description: null,
+    category: 'AI',
+    subCategory: null,
+    pricing: 'Free',
+    featured: false,
+    opensource: true,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 7,
+  },
+];
+
+const CONTEXT: ExportContext = {
+  view: 'table',
+  filters: { Category: 'AI', Pricing: 'Free' },
+  sort: 'Rating (desc)',
+  exportedAt: new Date('2025-01-31T12:00:00Z'),
+};
+
+describe('getExportHeaderLines', () => {
+  it('describes the view, count, filters and sort', () => {
+    expect(getExportHeaderLines(2, CONTEXT)).toEqual([
+      'Design Directory export — Table View',
+      'Exported: 2025-01-31T12:00:00.000Z',
+      'Resources: 2',
+      'Filters: Category: AI, Pricing: Free',
+      'Sort: Rating (desc)',
+    ]);
+  });
+
+  it('reports no filters', () => {
+    const lines = getExportHeaderLines(0, { view: '3d', filters: {} });
+    expect(lines).toContain('Filters: none');
+    expect(lines[0]).toContain('Universe View');
+  });
+});
+
+describe('exportToCsv', () => {
+  it('writes the header as comment lines followed by parseable rows', () => {
+    const csv = exportToCsv(RESOURCES, CONTEXT);
+    const lines = csv.split('\n');
+    expect(lines[0]).toBe('# Design Directory export — Table View');
+    expect(lines).toContain('# Filters: Category: AI, Pricing: Free');
+
+    const body = lines.filter(line => !line.startsWith('#')).join('\n');
+    const parsed = Papa.parse<Record<string, string>>(body, { header: true, skipEmptyLines: true });
+    expect(parsed.data).toHaveLength(2);
+    expect(parsed.data[0].description).toBe('Collaborative design, prototyping, "multiplayer"');
+    expect(parsed.data[0].tags).toBe('design, prototyping');
+    expect(parsed.data[1].subCategory).toBe('');
+    expect(parsed.meta.fields).toEqual(expect.arrayContaining(['tier', 'logoBg', 'screenshot', 'gravityRationale']));
+    expect(parsed.data[0].tier).toBe('1');
+  });
+});
+
+describe('exportToJson', () => {
+  it('wraps resources with export metadata', () => {
+    const json = JSON.parse(exportToJson(RESOURCES, CONTEXT));
+    expect(json.meta).toEqual({
+      source: 'Design Directory',
+      view: 'table',
+      exportedAt: '2025-01-31T12:00:00.000Z',
+      count: 2,
+      filters: { Category: 'AI', Pricing: 'Free' },
+      sort: 'Rating (desc)',
+    });
+    expect(json.resources.map((r: NormalizedResource) => r.id)).toEqual([1, 2]);
+  });
+});
+
+describe('exportToMarkdown', () => {
+  it('renders a linked table with escaped cells', () => {
+    const md = exportToMarkdown(RESOURCES, CONTEXT);
+    expect(md.startsWith('# Design Directory export — Table View\n')).toBe(true);
+    expect(md).toContain('- Filters: Category: AI, Pricing: Free');
+    expect(md).toContain('| [Figma](https://figma.com) | Tools | Design | Freemium | 9.8 | No |');
+    expect(md).toContain('| [Pipe \\| Tool](https://example.com) | AI | - | Free | 7.0 | Yes |');
+  });
+
+  it('notes an empty result set instead of an empty table', () => {
+    const md = exportToMarkdown([], CONTEXT);
+    expect(md).toContain('_No resources match the current filters._');
+    expect(md).not.toContain('| Name |');
+  });
+});
+
+describe('getExportFilename', () => {
+  it('includes view, filter values and date', () => {
+    expect(getExportFilename('csv', CONTEXT)).toBe('design-directory-table-ai-free-2025-01-31.csv');
+    expect(getExportFilename('markdown', { ...CONTEXT, filters: {} })).toBe('design-directory-table-2025-01-31.md');
+  });
+});
+
+describe('downloadFile', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('revokes the object URL only after the download has started', () => {
+    vi.useFakeTimers();
+    URL.createObjectURL = vi.fn(() => 'blob:export');
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    downloadFile('a,b\n', 'export.csv', 'text/csv');
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export');
+  });
+});
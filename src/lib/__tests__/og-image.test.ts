@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import sharp from 'sharp';
+import {
+  buildOgImageSvg,
+  createNodeAssetLoader,
+  loadOgImageAssets,
+  renderOgImage,
+  wrapText,
+  type OgImageAssetLoader,
+} from '../og-image';
+import { getCategoryColor, type NormalizedResource } from '../../types/resource';
+
+const FIGMA: NormalizedResource = {
+  id: 1,
+  name: 'Figma',
+  url: 'https://figma.com',
+  description: 'Collaborative design',
+  category: 'Tools',
+  subCategory: 'Design',
+  pricing: 'Freemium',
+  featured: true,
+  opensource: false,
+  tags: ['design'],
+  count: null,
+  tier: 1,
+  thumbnail: null,
+  screenshot: '/assets/screenshots/1-figma.jpg',
+  logoBg: '#FF6600',
+  gravityScore: 9.8,
+};
+
+const NO_ASSETS = { screenshot: null, logo: null };
+
+async function solidPng(color: string): Promise<Buffer> {
+  return sharp({ create: { width: 64, height: 64, channels: 4, background: color } }).png().toBuffer();
+}
+
+function offlineLoader(overrides: Partial<OgImageAssetLoader> = {}): OgImageAssetLoader {
+  return {
+    readPublicFile: vi.fn(async () => null),
+    fetchImage: vi.fn(async () => null),
+    ...overrides,
+  };
+}
+
+describe('wrapText', () => {
+  it('breaks at spaces and ellipsizes what does not fit', () => {
+    expect(wrapText('Figma', 13, 2)).toEqual(['Figma']);
+    expect(wrapText('Google Material Design Icons', 16, 2)).toEqual(['Google Material', 'Design Icons']);
+    expect(wrapText('One Two Three Four Five Six', 8, 2)).toEqual(['One Two', 'Three…']);
+    expect(wrapText('Supercalifragilistic', 10, 2)).toEqual(['Supercali…']);
+  });
+});
+
+describe('buildOgImageSvg', () => {
+  it('shows the name, category color, pricing and score', () => {
+    const svg = buildOgImageSvg(FIGMA, NO_ASSETS);
+    expect(svg).toContain('width="1200" height="630"');
+    expect(svg).toContain('>Figma</tspan>');
+    expect(svg).toContain('Tools · Design');
+    expect(svg).toContain('Freemium  ·  Gravity 9.8/10');
+    expect(svg).toContain(`fill="${getCategoryColor('Tools')}"`);
+  });
+
+  it('puts the logo on its resolved logoBg', () => {
+    const svg = buildOgImageSvg({ ...FIGMA, logoBg: 'light' }, { ...NO_ASSETS, logo: 'data:image/png;base64,AAAA' });
+    expect(svg).toContain('fill="#F5F3F0"');
+    expect(svg).toContain('href="data:image/png;base64,AAAA"');
+  });
+
+  it('falls back to the Globe without a logo or with logoBg "globe"', () => {
+    expect(buildOgImageSvg(FIGMA, NO_ASSETS)).toContain('<circle cx="12" cy="12" r="10"/>');
+    const forced = buildOgImageSvg({ ...FIGMA, logoBg: 'globe' }, { ...NO_ASSETS, logo: 'data:image/png;base64,AAAA' });
+    expect(forced).not.toContain('base64,AAAA');
+    expect(forced).toContain('fill="#FFFAEE"');
+  });
+
+  it('escapes resource text', () => {
+    const svg = buildOgImageSvg({ ...FIGMA, name: 'A & <B>' }, NO_ASSETS);
+    expect(svg).toContain('A &amp; &lt;B&gt;');
+  });
+});
+
+describe('loadOgImageAssets', () => {
+  it('reads the screenshot from public/ and the favicon from the network', async () => {
+    const loader = offlineLoader({
+      readPublicFile: vi.fn(async () => solidPng('#00FF00')),
+      fetchImage: vi.fn(async () => solidPng('#0000FF')),
+    });
+    const assets = await loadOgImageAssets(FIGMA, loader);
+
+    expect(loader.readPublicFile).toHaveBeenCalledWith('/assets/screenshots/1-figma.jpg');
+    expect(loader.fetchImage).toHaveBeenCalledWith(expect.stringContaining('domain=figma.com'));
+    expect(assets.screenshot).toMatch(/^data:image\/jpeg;base64,/);
+    expect(assets.logo).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('skips images that fail to load or decode', async () => {
+    const loader = offlineLoader({ readPublicFile: vi.fn(async () => Buffer.from('not an image')) });
+    expect(await loadOgImageAssets(FIGMA, loader)).toEqual(NO_ASSETS);
+  });
+});
+
+describe('renderOgImage', () => {
+  it('renders a 1200×630 PNG even with no images', async () => {
+    const png = await renderOgImage({ ...FIGMA, screenshot: null }, offlineLoader());
+    const metadata = await sharp(png).metadata();
+    expect(metadata).toMatchObject({ format: 'png', width: 1200, height: 630 });
+  });
+});
+
+describe('createNodeAssetLoader', () => {
+  it('never touches the network when favicons are off', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      const loader = createNodeAssetLoader('/nonexistent', { fetchFavicons: false });
+      expect(await loader.fetchImage('https://www.google.com/s2/favicons?domain=figma.com')).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPageMeta,
+  buildRobotsTxt,
+  buildSitemap,
+  getResourceDescription,
+  getResourcePageMeta,
+  renderResourcePage,
+} from '../seo';
+import type { NormalizedResource } from '../../types/resource';
+
+const SITE = 'https://example.com/';
+
+const FIGMA: NormalizedResource = {
+  id: 1,
+  name: 'Figma',
+  url: 'https://figma.com',
+  description: 'Collaborative design & prototyping',
+  category: 'Tools',
+  subCategory: 'Design',
+  pricing: 'Freemium',
+  featured: true,
+  opensource: false,
+  tags: ['design', 'prototyping'],
+  count: null,
+  tier: 1,
+  thumbnail: null,
+  screenshot: '/assets/screenshots/1-figma.jpg',
+  gravityScore: 9.8,
+};
+
+// Trimmed copy of index.html's head
+const TEMPLATE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta name="description" content="Curated design resources." />
+    <meta property="og:type" content="website" />
+    <meta property="og:title" content="OS Design Directory" />
+    <meta property="og:description" content="Curated design resources." />
+    <meta property="og:image" content="https://example.com/og-image.jpg" />
+    <meta name="twitter:card" content="summary_large_image" />
+    <meta name="twitter:title" content="OS Design Directory" />
+    <meta name="twitter:description" content="Curated design resources." />
+    <meta name="twitter:image" content="https://example.com/og-image.jpg" />
+    <title>OS Design Directory</title>
+  </head>
+  <body><div id="root"></div></body>
+</html>`;
+
+function getJsonLd(html: string): Record<string, unknown> {
+  const match = html.match(/<script type="application\/ld\+json">(.*?)<\/script>/);
+  return JSON.parse(match![1]);
+}
+
+describe('getResourcePageMeta', () => {
+  it('builds canonical and image URLs from the site URL', () => {
+    const meta = getResourcePageMeta(FIGMA, SITE);
+    expect(meta.title).toBe('Figma | OS Design Directory');
+    expect(meta.canonicalUrl).toBe('https://example.com/resource/1');
+    expect(meta.imageUrl).toBe('https://example.com/og/resource/1.png');
+  });
+});
+
+describe('getResourceDescription', () => {
+  it('describes resources without a description by category', () => {
+    expect(getResourceDescription({ ...FIGMA, description: null })).toBe('Figma: Design resource in the OS Design Directory.');
+  });
+
+  it('cuts long descriptions at a word boundary', () => {
+    const description = getResourceDescription({ ...FIGMA, description: 'word '.repeat(60) });
+    expect(description.length).toBeLessThanOrEqual(160);
+    expect(description).toMatch(/word…$/);
+  });
+});
+
+describe('renderResourcePage', () => {
+  const html = renderResourcePage(TEMPLATE, FIGMA, SITE);
+
+  it('replaces the title and social tags', () => {
+    expect(html).toContain('<title>Figma | OS Design Directory</title>');
+    expect(html).toContain('<meta name="description" content="Collaborative design &amp; prototyping" />');
+    expect(html).toContain('<meta property="og:title" content="Figma | OS Design Directory" />');
+    expect(html).toContain('<meta name="twitter:image" content="https://example.com/og/resource/1.png" />');
+    expect(html).toContain('<meta property="og:image:width" content="1200" />');
+    expect(html).not.toContain('Curated design resources.');
+    expect(html.match(/og:title/g)).toHaveLength(1);
+  });
+
+  it('adds the canonical link and og:url', () => {
+    expect(html).toContain('<link rel="canonical" href="https://example.com/resource/1" />');
+    expect(html).toContain('<meta property="og:url" content="https://example.com/resource/1" />');
+  });
+
+  it('adds SoftwareApplication JSON-LD', () => {
+    expect(getJsonLd(html)).toMatchObject({
+      '@context': 'https://schema.org',
+      '@type': 'SoftwareApplication',
+      name: 'Figma',
+      url: 'https://figma.com',
+      mainEntityOfPage: 'https://example.com/resource/1',
+      keywords: 'design, prototyping',
+      offers: { '@type': 'Offer', price: '0', priceCurrency: 'USD' },
+    });
+    expect(getJsonLd(renderResourcePage(TEMPLATE, { ...FIGMA, pricing: 'Paid' }, SITE))).not.toHaveProperty('offers');
+  });
+
+  it('keeps resource text from breaking out of the markup', () => {
+    const page = renderResourcePage(TEMPLATE, { ...FIGMA, name: 'A "$&" </script><b>' }, SITE);
+    expect(page).toContain('<title>A &quot;$&amp;&quot; &lt;/script&gt;&lt;b&gt; | OS Design Directory</title>');
+    expect(page.match(/<\/script>/g)).toHaveLength(1);
+    expect(getJsonLd(page).name).toBe('A "$&" </script><b>');
+  });
+
+  it('is stable when applied twice', () => {
+    const meta = getResourcePageMeta(FIGMA, SITE);
+    expect(applyPageMeta(applyPageMeta(TEMPLATE, meta), meta)).toBe(applyPageMeta(TEMPLATE, meta));
+  });
+});
+
+describe('sitemap and robots', () => {
+  it('lists the home page and every resource', () => {
+    const sitemap = buildSitemap([FIGMA, { ...FIGMA, id: 2 }], SITE);
+    expect(sitemap).toContain('<loc>https://example.com/</loc>');
+    expect(sitemap).toContain('<loc>https://example.com/resource/1</loc>');
+    expect(sitemap).toContain('<loc>https://example.com/resource/2</loc>');
+  });
+
+  it('points robots.txt at the sitemap', () => {
+    expect(buildRobotsTxt(SITE)).toContain('Sitemap: https://example.com/sitemap.xml');
+  });
+});
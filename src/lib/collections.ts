@@ -0,0 +1,239 @@
+/**
+ * Favorites and named collections
+ *
+ * Plain data helpers behind store/useCollectionsStore.ts: naming rules,
+ * the JSON file format for import/export, and merging an imported file
+ * into what is already saved. Everything lives in the browser
+ * (localStorage); the file is how collections move between browsers.
+ */
+
+import type { NormalizedResource } from '../types/resource';
+import { downloadFile } from './export';
+
+/**
+ * A named list of resources, e.g. "Tools for the brand refresh"
+ */
+export interface Collection {
+  id: string;
+  name: string;
+  /** Resource ids in the order they were added */
+  resourceIds: number[];
+  createdAt: string;
+}
+
+/**
+ * Everything that is saved: starred resources plus named collections
+ */
+export interface CollectionsData {
+  favorites: number[];
+  collections: Collection[];
+}
+
+/**
+ * The exported file
+ */
+export interface CollectionsFile extends CollectionsData {
+  source: 'Design Directory';
+  version: typeof COLLECTIONS_FILE_VERSION;
+  exportedAt: string;
+}
+
+/**
+ * A collection resolved for filtering views
+ */
+export interface CollectionSelection {
+  id: string;
+  name: string;
+  resourceIds: number[];
+}
+
+/** Pseudo-collection id for the starred resources */
+export const FAVORITES_COLLECTION_ID = 'favorites';
+export const FAVORITES_COLLECTION_NAME = 'Favorites';
+
+export const COLLECTION_NAME_MAX_LENGTH = 60;
+export const COLLECTIONS_FILE_VERSION = 1;
+
+/**
+ * Thrown when an imported file cannot be read at all
+ */
+export class CollectionsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CollectionsImportError';
+  }
+}
+
+/**
+ * Trim and collapse whitespace; names longer than the limit are cut
+ */
+export function normalizeCollectionName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, COLLECTION_NAME_MAX_LENGTH).trim();
+}
+
+/**
+ * Find a collection by name, ignoring case
+ */
+export function findCollectionByName(collections: Collection[], name: string): Collection | undefined {
+  const normalized = normalizeCollectionName(name).toLowerCase();
+  return collections.find(c => c.name.toLowerCase() === normalized);
+}
+
+export function createCollectionId(): string {
+  return 'c-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * Add the id if missing, remove it if present
+ */
+export function toggleId(ids: number[], id: number): number[] {
+  return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+}
+
+/**
+ * Resolve Favorites or a collection id to its name and resources
+ */
+export function getCollectionSelection(data: CollectionsData, id: string | null): CollectionSelection | null {
+  if (!id) return null;
+  if (id === FAVORITES_COLLECTION_ID) {
+    return { id, name: FAVORITES_COLLECTION_NAME, resourceIds: data.favorites };
+  }
+  const collection = data.collections.find(c => c.id === id);
+  return collection ? { id, name: collection.name, resourceIds: collection.resourceIds } : null;
+}
+
+/**
+ * Serialize favorites and collections as an importable JSON file
+ */
+export function serializeCollections(data: CollectionsData, exportedAt: Date = new Date()): string {
+  const file: CollectionsFile = {
+    source: 'Design Directory',
+    version: COLLECTIONS_FILE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    favorites: data.favorites,
+    collections: data.collections,
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keep the ids of resources that exist, reporting the rest
+ */
+function readResourceIds(value: unknown, knownIds: Set<number>, label: string, issues: string[]): number[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${label}: expected a list of resource ids`);
+    return [];
+  }
+  const ids: number[] = [];
+  let unknown = 0;
+  for (const id of value) {
+    if (typeof id === 'number' && knownIds.has(id)) {
+      if (!ids.includes(id)) ids.push(id);
+    } else {
+      unknown += 1;
+    }
+  }
+  if (unknown > 0) {
+    issues.push(`${label}: skipped ${unknown} unknown resource${unknown === 1 ? '' : 's'}`);
+  }
+  return ids;
+}
+
+/**
+ * Read an exported collections file
+ *
+ * Invalid entries are dropped rather than failing the whole import;
+ * `issues` lists what was skipped. Only an unreadable file throws.
+ */
+export function parseCollectionsFile(
+  text: string,
+  resources: NormalizedResource[]
+): { data: CollectionsData; issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new CollectionsImportError('The file is not valid JSON');
+  }
+  if (!isRecord(parsed) || (!('favorites' in parsed) && !('collections' in parsed))) {
+    throw new CollectionsImportError('The file does not contain favorites or collections');
+  }
+  if (typeof parsed.version === 'number' && parsed.version > COLLECTIONS_FILE_VERSION) {
+    throw new CollectionsImportError(`The file was exported by a newer version (format ${parsed.version})`);
+  }
+
+  const knownIds = new Set(resources.map(r => r.id));
+  const issues: string[] = [];
+  const favorites = 'favorites' in parsed
+    ? readResourceIds(parsed.favorites, knownIds, 'Favorites', issues)
+    : [];
+
+  const collections: Collection[] = [];
+  const rawCollections = parsed.collections ?? [];
+  if (!Array.isArray(rawCollections)) {
+    issues.push('Collections: expected a list');
+  } else {
+    rawCollections.forEach((raw, index) => {
+      const name = isRecord(raw) && typeof raw.name === 'string' ? normalizeCollectionName(raw.name) : '';
+      if (!isRecord(raw) || !name) {
+        issues.push(`Collection ${index + 1}: missing a name`);
+        return;
+      }
+      if (findCollectionByName(collections, name)) {
+        issues.push(`Collection "${name}": listed twice, kept the first`);
+        return;
+      }
+      collections.push({
+        id: typeof raw.id === 'string' && raw.id ? raw.id : createCollectionId(),
+        name,
+        resourceIds: readResourceIds(raw.resourceIds, knownIds, `Collection "${name}"`, issues),
+        createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : new Date().toISOString(),
+      });
+    });
+  }
+
+  return { data: { favorites, collections }, issues };
+}
+
+/**
+ * Merge an imported file into the saved data
+ *
+ * Nothing saved is lost: favorites are combined, and a collection with the
+ * same id or name gains the imported resources instead of being replaced.
+ */
+export function mergeCollections(current: CollectionsData, incoming: CollectionsData): CollectionsData {
+  const union = (a: number[], b: number[]) => [...a, ...b.filter(id => !a.includes(id))];
+  const collections = [...current.collections];
+
+  for (const imported of incoming.collections) {
+    const index = collections.findIndex(c => c.id === imported.id || c.name.toLowerCase() === imported.name.toLowerCase());
+    if (index >= 0) {
+      collections[index] = {
+        ...collections[index],
+        resourceIds: union(collections[index].resourceIds, imported.resourceIds),
+      };
+    } else {
+      collections.push(imported);
+    }
+  }
+
+  return { favorites: union(current.favorites, incoming.favorites), collections };
+}
+
+/**
+ * Download filename, e.g. design-directory-collections-2025-01-31.json
+ */
+export function getCollectionsFilename(date: Date = new Date()): string {
+  return `design-directory-collections-${date.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Serialize favorites and collections and trigger a browser download
+ */
+export function downloadCollections(data: CollectionsData): void {
+  downloadFile(serializeCollections(data), getCollectionsFilename(), 'application/json;charset=utf-8');
+}
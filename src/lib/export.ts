@@ -0,0 +1,215 @@
+/**
+ * Resource export utilities
+ *
+ * Serializes the current filtered/sorted resource set as CSV, JSON or
+ * Markdown. Every format carries a header describing the view and the
+ * filters that produced it, so pasted lists stay self-explanatory.
+ */
+
+import Papa from 'papaparse';
+import type { NormalizedResource } from '../types/resource';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+/**
+ * Describes where an export came from
+ */
+export interface ExportContext {
+  /** View the export was triggered from */
+  view: 'table' | 'card' | '3d';
+  /** Active filters as label → value pairs, e.g. { Category: 'AI' } */
+  filters: Record<string, string>;
+  /** Active sort description, e.g. "Rating (desc)" */
+  sort?: string;
+  /** Timestamp of the export (defaults to now) */
+  exportedAt?: Date;
+}
+
+/** Format metadata for menus and downloads */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+};
+
+const VIEW_LABELS: Record<ExportContext['view'], string> = {
+  table: 'Table View',
+  card: 'Card View',
+  '3d': 'Universe View',
+};
+
+/**
+ * Human-readable header lines shared by every format
+ */
+export function getExportHeaderLines(count: number, context: ExportContext): string[] {
+  const exportedAt = (context.exportedAt ?? new Date()).toISOString();
+  const filterEntries = Object.entries(context.filters);
+  const lines = [
+    'Design Directory export — ' + VIEW_LABELS[context.view],
+    'Exported: ' + exportedAt,
+    'Resources: ' + count,
+    'Filters: ' + (filterEntries.length > 0
+      ? filterEntries.map(([label, value]) => label + ': ' + value).join(', ')
+      : 'none'),
+  ];
+  if (context.sort) {
+    lines.push('Sort: ' + context.sort);
+  }
+  return lines;
+}
+
+/**
+ * Serialize resources as CSV, with the header as leading `#` comment lines
+ *
+ * Columns cover every field `npm run import-csv` reads, so an export imports
+ * back unchanged (see src/data/csv-import.ts).
+ */
+export function exportToCsv(resources: NormalizedResource[], context: ExportContext): string {
+  const header = getExportHeaderLines(resources.length, context).map(line => '# ' + line);
+  const body = Papa.unparse({
+    fields: [
+      'id', 'name', 'url', 'category', 'subCategory', 'pricing', 'gravityScore',
+      'featured', 'opensource', 'tags', 'tier', 'logoBg', 'screenshot',
+      'gravityRationale', 'description',
+    ],
+    data: resources.map(r => [
+      r.id,
+      r.name,
+      r.url,
+      r.category ?? '',
+      r.subCategory ?? '',
+      r.pricing ?? '',
+      r.gravityScore,
+      r.featured,
+      r.opensource,
+      (r.tags ?? []).join(', '),
+      r.tier ?? '',
+      r.logoBg ?? '',
+      r.screenshot ?? '',
+      r.gravityRationale ?? '',
+      r.description ?? '',
+    ]),
+  }, { newline: '\n' });
+  return header.join('\n') + '\n' + body + '\n';
+}
+
+/**
+ * Serialize resources as JSON in the NormalizedResource shape
+ */
+export function exportToJson(resources: NormalizedResource[], context: ExportContext): string {
+  return JSON.stringify(
+    {
+      meta: {
+        source: 'Design Directory',
+        view: context.view,
+        exportedAt: (context.exportedAt ?? new Date()).toISOString(),
+        count: resources.length,
+        filters: context.filters,
+        ...(context.sort ? { sort: context.sort } : {}),
+      },
+      resources,
+    },
+    null,
+    2
+  ) + '\n';
+}
+
+/**
+ * Escape pipes and newlines so a value fits in one Markdown table cell
+ */
+export function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Serialize resources as a Markdown table with a filter summary above it
+ */
+export function exportToMarkdown(resources: NormalizedResource[], context: ExportContext): string {
+  const [title, ...meta] = getExportHeaderLines(resources.length, context);
+  const lines = ['# ' + title, '', ...meta.map(line => '- ' + line), ''];
+
+  if (resources.length === 0) {
+    lines.push('_No resources match the current filters._');
+    return lines.join('\n') + '\n';
+  }
+
+  lines.push('| Name | Category | Sub-category | Pricing | Rating | Open Source |');
+  lines.push('|------|----------|--------------|---------|--------|-------------|');
+  for (const r of resources) {
+    lines.push('| ' + [
+      '[' + escapeMarkdownCell(r.name) + '](' + r.url + ')',
+      escapeMarkdownCell(r.category ?? '-'),
+      escapeMarkdownCell(r.subCategory ?? '-'),
+      escapeMarkdownCell(r.pricing ?? '-'),
+      r.gravityScore.toFixed(1),
+      r.opensource ? 'Yes' : 'No',
+    ].join(' | ') + ' |');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize resources in the requested format
+ */
+export function serializeExport(
+  format: ExportFormat,
+  resources: NormalizedResource[],
+  context: ExportContext
+): string {
+  switch (format) {
+    case 'csv':
+      return exportToCsv(resources, context);
+    case 'json':
+      return exportToJson(resources, context);
+    case 'markdown':
+      return exportToMarkdown(resources, context);
+  }
+}
+
+/**
+ * Build a download filename, e.g. design-directory-table-ai-2025-01-31.csv
+ */
+export function getExportFilename(format: ExportFormat, context: ExportContext): string {
+  const date = (context.exportedAt ?? new Date()).toISOString().slice(0, 10);
+  const filterSlug = Object.values(context.filters)
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  const parts = ['design-directory', context.view, filterSlug, date].filter(Boolean);
+  return parts.join('-') + '.' + EXPORT_FORMATS[format].extension;
+}
+
+/**
+ * Trigger a browser download of text content
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Serialize resources and trigger a browser download
+ */
+export function downloadExport(
+  format: ExportFormat,
+  resources: NormalizedResource[],
+  context: ExportContext
+): void {
+  downloadFile(
+    serializeExport(format, resources, context),
+    getExportFilename(format, context),
+    EXPORT_FORMATS[format].mimeType
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Social Preview Cards
+ *
+ * Composes the 1200×630 card shown when a resource link is shared: its
+ * screenshot, its logo on the same background the app gives it
+ * (resolveLogoBg, with the Globe fallback), name, category color, pricing
+ * and gravity score. The card is an SVG with the images inlined, rasterized
+ * to PNG with sharp.
+ *
+ * The build writes one card per resource to dist/og/resource/:id.png (see
+ * the prerender plugin in vite.config.ts) from local files only, unless
+ * OG_CARD_FAVICONS=true; api/og/resource/[id].ts renders the same card on
+ * demand and fetches favicons. Text uses the system sans-serif font,
+ * since librsvg can't load the web fonts.
+ *
+ * Node-only (sharp): never import this from the app.
+ */
+
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import sharp from 'sharp';
+import { getCategoryColor, type NormalizedResource } from '../types/resource.js';
+import { getFaviconUrl, resolveLogoBg } from './favicon.js';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, SITE_NAME } from './seo.js';
+
+/** Bump when the card layout changes, so cached cards are replaced */
+export const OG_CARD_VERSION = 1;
+
+const COLORS = {
+  background: '#191919',
+  text: '#FFFAEE',
+  muted: 'rgba(255, 250, 238, 0.6)',
+  /** Logo container without a logoBg (the app's translucent secondary surface) */
+  logoDefault: '#2A2A2A',
+  /** Globe fallback container (matches ResourceLogo) */
+  globeBg: '#FFFAEE',
+  globeStroke: '#191919',
+  screenshotPlaceholder: '#232323',
+} as const;
+
+const FONT_FAMILY = 'Helvetica Neue, Helvetica, Arial, sans-serif';
+
+const LAYOUT = {
+  padding: 64,
+  logoSize: 104,
+  logoInset: 16,
+  screenshot: { x: 600, y: 64, width: 536, height: 502 },
+  /** Width available to the left column's text */
+  textWidth: 488,
+} as const;
+
+/**
+ * Where the card's images come from: files under public/ for screenshots,
+ * the network for favicons. Either may return null; the card falls back.
+ */
+export interface OgImageAssetLoader {
+  readPublicFile(publicPath: string): Promise<Buffer | null>;
+  fetchImage(url: string): Promise<Buffer | null>;
+}
+
+/**
+ * Images already sized and inlined as data URIs
+ */
+export interface OgImageAssets {
+  screenshot: string | null;
+  logo: string | null;
+}
+
+const FETCH_TIMEOUT_MS = 3000;
+
+/**
+ * Asset loader backed by the filesystem and fetch
+ *
+ * @param publicDir - Directory holding the files under public/
+ * @param options.fetchFavicons - Fetch favicons over the network (default
+ *   true); when false, cards use the Globe logo and need no network
+ */
+export function createNodeAssetLoader(
+  publicDir: string,
+  { fetchFavicons = true }: { fetchFavicons?: boolean } = {}
+): OgImageAssetLoader {
+  return {
+    async readPublicFile(publicPath) {
+      // Normalized against the root first, so `..` can't leave publicDir
+      const filePath = path.join(publicDir, path.posix.normalize(`/${publicPath}`));
+      try {
+        return await readFile(filePath);
+      } catch {
+        return null;
+      }
+    },
+    async fetchImage(url) {
+      if (!fetchFavicons) return null;
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+        if (!response.ok) return null;
+        return Buffer.from(await response.arrayBuffer());
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Split a name into at most `maxLines` lines of about `maxChars`, breaking
+ * at spaces and ending with an ellipsis if it still doesn't fit
+ */
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  const ellipsize = (line: string) => `${line.slice(0, maxChars - 1).trimEnd()}…`;
+  const fitted = lines.map(line => (line.length > maxChars ? ellipsize(line) : line));
+  if (fitted.length <= maxLines) return fitted;
+
+  const kept = fitted.slice(0, maxLines);
+  if (!kept[maxLines - 1].endsWith('…')) kept[maxLines - 1] = ellipsize(kept[maxLines - 1]);
+  return kept;
+}
+
+/**
+ * Rough text width for the card's sans-serif (no font metrics in SVG)
+ */
+function estimateTextWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * 0.56;
+}
+
+/** Lucide's Globe, the app's fallback logo */
+function renderGlobe(x: number, y: number, size: number): string {
+  const scale = size / 24;
+  return `<g transform="translate(${x} ${y}) scale(${scale})" fill="none" stroke="${COLORS.globeStroke}" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round">
+    <circle cx="12" cy="12" r="10"/>
+    <path d="M12 2a14.5 14.5 0 0 0 0 20 14.5 14.5 0 0 0 0-20"/>
+    <path d="M2 12h20"/>
+  </g>`;
+}
+
+function renderLogo(resource: NormalizedResource, logo: string | null): string {
+  const { padding, logoSize, logoInset } = LAYOUT;
+  const forceGlobe = resource.logoBg === 'globe';
+  const showGlobe = forceGlobe || !logo;
+  const background = showGlobe ? COLORS.globeBg : resolveLogoBg(resource.logoBg) ?? COLORS.logoDefault;
+  const inner = logoSize - logoInset * 2;
+
+  const content = showGlobe
+    ? renderGlobe(padding + logoInset, padding + logoInset, inner)
+    : `<image href="${logo}" x="${padding + logoInset}" y="${padding + logoInset}" width="${inner}" height="${inner}" preserveAspectRatio="xMidYMid meet"/>`;
+
+  return `<rect x="${padding}" y="${padding}" width="${logoSize}" height="${logoSize}" rx="22" fill="${background}"/>
+  ${content}`;
+}
+
+function renderScreenshot(resource: NormalizedResource, screenshot: string | null, categoryColor: string): string {
+  const { x, y, width, height } = LAYOUT.screenshot;
+  if (screenshot) {
+    return `<image href="${screenshot}" x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="xMidYMin slice" clip-path="url(#screenshot)"/>
+  <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="20" fill="none" stroke="rgba(255, 250, 238, 0.12)" stroke-width="2"/>`;
+  }
+  // No screenshot: the category color and the name's initial
+  return `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="20" fill="${COLORS.screenshotPlaceholder}"/>
+  <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="20" fill="${categoryColor}" fill-opacity="0.16"/>
+  <text x="${x + width / 2}" y="${y + height / 2 + 72}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="220" font-weight="700" fill="${categoryColor}">${escapeXml(resource.name.charAt(0).toUpperCase())}</text>`;
+}
+
+/**
+ * The card as SVG, with images already inlined
+ */
+export function buildOgImageSvg(resource: NormalizedResource, assets: OgImageAssets): string {
+  const { padding, textWidth } = LAYOUT;
+  const categoryColor = getCategoryColor(resource.category);
+
+  const nameFontSize = resource.name.length <= 13 ? 64 : 52;
+  const nameLines = wrapText(resource.name, Math.floor(textWidth / (nameFontSize * 0.56)), 2);
+  const nameTop = padding + LAYOUT.logoSize + 40 + nameFontSize;
+  const nameText = nameLines
+    .map((line, i) => `<tspan x="${padding}" y="${nameTop + i * nameFontSize * 1.1}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  const categoryLabel = [resource.category, resource.subCategory].filter(Boolean).join(' · ') || 'Resource';
+  const pillY = nameTop + (nameLines.length - 1) * nameFontSize * 1.1 + 44;
+  const pillWidth = Math.min(estimateTextWidth(categoryLabel, 24) + 40, textWidth);
+
+  const details = [resource.pricing, `Gravity ${resource.gravityScore.toFixed(1)}/10`].filter(Boolean).join('  ·  ');
+  const { x, y, width, height } = LAYOUT.screenshot;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}">
+  <defs>
+    <clipPath id="screenshot"><rect x="${x}" y="${y}" width="${width}" height="${height}" rx="20"/></clipPath>
+  </defs>
+  <rect width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" fill="${COLORS.background}"/>
+  <rect width="12" height="${OG_IMAGE_HEIGHT}" fill="${categoryColor}"/>
+  ${renderLogo(resource, assets.logo)}
+  <text font-family="${FONT_FAMILY}" font-size="${nameFontSize}" font-weight="700" fill="${COLORS.text}">${nameText}</text>
+  <rect x="${padding}" y="${pillY}" width="${pillWidth}" height="44" rx="22" fill="${categoryColor}" fill-opacity="0.18" stroke="${categoryColor}" stroke-width="2"/>
+  <text x="${padding + 20}" y="${pillY + 30}" font-family="${FONT_FAMILY}" font-size="24" font-weight="500" fill="${categoryColor}">${escapeXml(categoryLabel)}</text>
+  <text x="${padding}" y="${pillY + 104}" font-family="${FONT_FAMILY}" font-size="30" fill="${COLORS.text}">${escapeXml(details)}</text>
+  <text x="${padding}" y="${OG_IMAGE_HEIGHT - padding}" font-family="${FONT_FAMILY}" font-size="24" fill="${COLORS.muted}">${escapeXml(SITE_NAME)}</text>
+  ${renderScreenshot(resource, assets.screenshot, categoryColor)}
+</svg>`;
+}
+
+async function toDataUri(image: sharp.Sharp, format: 'png' | 'jpeg'): Promise<string> {
+  const buffer = format === 'png' ? await image.png().toBuffer() : await image.jpeg({ quality: 82 }).toBuffer();
+  return `data:image/${format};base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Load, resize and inline the screenshot and logo
+ *
+ * Logo order matches ResourceLogo: thumbnail, then favicon, then Globe.
+ * Unreadable images are dropped rather than failing the card.
+ */
+export async function loadOgImageAssets(
+  resource: NormalizedResource,
+  loader: OgImageAssetLoader
+): Promise<OgImageAssets> {
+  const { width, height } = LAYOUT.screenshot;
+  const logoSize = LAYOUT.logoSize - LAYOUT.logoInset * 2;
+
+  const loadImage = (source: string) =>
+    source.startsWith('/') ? loader.readPublicFile(source) : loader.fetchImage(source);
+
+  let screenshot: string | null = null;
+  const screenshotBuffer = resource.screenshot ? await loadImage(resource.screenshot) : null;
+  if (screenshotBuffer) {
+    screenshot = await toDataUri(
+      sharp(screenshotBuffer).resize(width, height, { fit: 'cover', position: 'top' }),
+      'jpeg'
+    ).catch(() => null);
+  }
+
+  let logo: string | null = null;
+  if (resource.logoBg !== 'globe') {
+    const sources = [resource.thumbnail, getFaviconUrl(resource.url, 'lg')].filter((s): s is string => !!s);
+    for (const source of sources) {
+      const buffer = await loadImage(source);
+      if (!buffer) continue;
+      logo = await toDataUri(
+        sharp(buffer).resize(logoSize, logoSize, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } }),
+        'png'
+      ).catch(() => null);
+      if (logo) break;
+    }
+  }
+
+  return { screenshot, logo };
+}
+
+/**
+ * Render a resource's card as PNG
+ */
+export async function renderOgImage(resource: NormalizedResource, loader: OgImageAssetLoader): Promise<Buffer> {
+  const assets = await loadOgImageAssets(resource, loader);
+  return sharp(Buffer.from(buildOgImageSvg(resource, assets))).png().toBuffer();
+}
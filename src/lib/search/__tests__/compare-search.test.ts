@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseComparisonQuery,
+  findResourceByName,
+  resolveComparisonTarget,
+  compareSearch,
+  parseCompareIds,
+  buildCompareUrl,
+  getComparisonUrl,
+} from '../compare-search';
+import { buildVectorIndex } from '../vector-index';
+import { generateAIResponse } from '../ai-response-generator';
+import type { NormalizedResource } from '../../../types/resource';
+
+function makeResource(overrides: Partial<NormalizedResource> & { id: number; name: string }): NormalizedResource {
+  return {
+    url: `https://example.com/${overrides.name.toLowerCase().replace(/\s+/g, '-')}`,
+    description: null,
+    category: null,
+    subCategory: null,
+    pricing: null,
+    featured: false,
+    opensource: false,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 5.0,
+    ...overrides,
+  };
+}
+
+const RESOURCES: NormalizedResource[] = [
+  makeResource({ id: 1, name: 'Figma', description: 'Collaborative interface design and prototyping', category: 'Tools', subCategory: 'Design', pricing: 'Freemium', tags: ['design', 'prototyping', 'collaboration'] }),
+  makeResource({ id: 2, name: 'Penpot', description: 'Open source interface design and prototyping', category: 'Tools', subCategory: 'Design', pricing: 'Free', tags: ['design', 'prototyping'], opensource: true }),
+  makeResource({ id: 3, name: 'Sketch', description: 'Interface design and prototyping for Mac', category: 'Tools', subCategory: 'Design', pricing: 'Paid', tags: ['design', 'prototyping'] }),
+  makeResource({ id: 4, name: 'Unsplash', description: 'Free stock photography', category: 'Templates', subCategory: 'Assets', pricing: 'Free', tags: ['photos'] }),
+];
+
+const INDEX = buildVectorIndex(RESOURCES);
+
+describe('parseComparisonQuery', () => {
+  it.each([
+    ['alternatives to Figma', 'Figma'],
+    ['alternative for figma?', 'figma'],
+    ['tools like Webflow', 'Webflow'],
+    ['design apps like Framer', 'Framer'],
+    ['something like notion', 'notion'],
+    ['like Figma', 'Figma'],
+    ['similar to Notion', 'Notion'],
+    ['figma alternatives', 'figma'],
+    ['free figma alternatives', 'figma'],
+    ['Sketch vs Figma', 'Sketch'],
+  ])('finds the target in "%s"', (query, target) => {
+    expect(parseComparisonQuery(query)?.target).toBe(target);
+  });
+
+  it('returns null for non-comparison queries', () => {
+    expect(parseComparisonQuery('free design tools')).toBeNull();
+  });
+
+  it.each([
+    "I'd like figma",
+    'I would like a free prototyping tool',
+    'looks like a whiteboard',
+  ])('does not treat "like" in "%s" as a comparison', (query) => {
+    expect(parseComparisonQuery(query)).toBeNull();
+  });
+});
+
+describe('findResourceByName', () => {
+  it('matches case-insensitively and tolerates small typos', () => {
+    expect(findResourceByName(RESOURCES, 'FIGMA')?.id).toBe(1);
+    expect(findResourceByName(RESOURCES, 'penpott')?.id).toBe(2);
+    expect(findResourceByName(RESOURCES, 'photoshop')).toBeNull();
+  });
+});
+
+describe('resolveComparisonTarget', () => {
+  it('drops trailing words until a name matches', () => {
+    expect(resolveComparisonTarget(RESOURCES, 'alternatives to figma for teams')?.id).toBe(1);
+  });
+
+  it('returns null when the target is not in the directory', () => {
+    expect(resolveComparisonTarget(RESOURCES, 'alternatives to photoshop')).toBeNull();
+  });
+});
+
+describe('compareSearch', () => {
+  it('ranks similar resources and excludes the target', () => {
+    const { results, metadata } = compareSearch(RESOURCES, INDEX, RESOURCES[0]);
+    expect(results.map(r => r.resource.name)).toEqual(expect.arrayContaining(['Penpot', 'Sketch']));
+    expect(results.map(r => r.resource.id)).not.toContain(1);
+    expect(results.map(r => r.resource.id)).not.toContain(4);
+    expect(results[0].matchReasons[0]).toBe('similar to Figma');
+    expect(metadata.comparisonTarget).toBe('Figma');
+  });
+
+  it('applies hard filters before ranking', () => {
+    const { results } = compareSearch(RESOURCES, INDEX, RESOURCES[0], { hardFilters: { pricing: ['Free'] } });
+    expect(results.map(r => r.resource.name)).toEqual(['Penpot']);
+  });
+
+  it('highlights tags shared with the target', () => {
+    const { results } = compareSearch(RESOURCES, INDEX, RESOURCES[0]);
+    const penpot = results.find(r => r.resource.id === 2)!;
+    expect(penpot.matches.every(m => m.field === 'tags' && m.kind === 'concept')).toBe(true);
+    expect(penpot.matches).toHaveLength(2);
+  });
+
+  it('produces an alternatives message', () => {
+    const { results, metadata } = compareSearch(RESOURCES, INDEX, RESOURCES[0], { hardFilters: { pricing: ['Free'] } });
+    expect(generateAIResponse(results, metadata).message).toBe('Found 1 alternative to Figma, most similar first.');
+  });
+});
+
+describe('compare page URLs', () => {
+  it('parses ids in order, dropping unknown, repeated and malformed ones', () => {
+    expect(parseCompareIds('3,1,3,99,x,2.5,2', RESOURCES)).toEqual([3, 1, 2]);
+    expect(parseCompareIds('1,2,3,4,5', [...RESOURCES, makeResource({ id: 5, name: 'Framer' })])).toEqual([1, 2, 3, 4]);
+    expect(parseCompareIds(null, RESOURCES)).toEqual([]);
+  });
+
+  it('puts the pinned resource first', () => {
+    expect(buildCompareUrl([2, 1, 3], 1)).toBe('/compare?ids=1,2,3&pin=1');
+    expect(buildCompareUrl([2, 3])).toBe('/compare?ids=2,3');
+  });
+
+  it('opens a comparison with the target and its top alternatives', () => {
+    const { results } = compareSearch(RESOURCES, INDEX, RESOURCES[0]);
+    expect(getComparisonUrl(RESOURCES[0], results.map(r => r.resource))).toBe('/compare?ids=1,3,2&pin=1');
+    expect(getComparisonUrl(RESOURCES[0], [])).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendTurn,
+  describeFilters,
+  detectFilterRemovals,
+  getPriorTurns,
+  getRefinementText,
+  isRefinementQuery,
+  mergeRefinement,
+  MAX_CONVERSATION_TURNS,
+  type ConversationTurn,
+} from '../conversation';
+import { createFallbackParse, type ParsedQuery } from '../llm-query-parser';
+
+const aiImageTools: ParsedQuery = {
+  intent: 'find',
+  filters: { categories: ['AI'], minGravityScore: 8 },
+  concepts: ['image generation'],
+  semanticTerms: ['ai'],
+  confidence: 'high',
+};
+
+const turn = (query: string, overrides: Partial<ConversationTurn> = {}): ConversationTurn => ({
+  query,
+  parsedQuery: aiImageTools,
+  searchText: query,
+  resultCount: 10,
+  isRefinement: false,
+  ...overrides,
+});
+
+describe('isRefinementQuery', () => {
+  it('recognizes follow-ups', () => {
+    expect(isRefinementQuery('only the free ones')).toBe(true);
+    expect(isRefinementQuery('now show open source')).toBe(true);
+    expect(isRefinementQuery('what about video')).toBe(true);
+    expect(isRefinementQuery('any price')).toBe(true);
+    expect(isRefinementQuery('free')).toBe(true);
+    expect(isRefinementQuery('rated over 9')).toBe(true);
+  });
+
+  it('treats anything else as a new search', () => {
+    expect(isRefinementQuery('tools for YouTube creators')).toBe(false);
+    expect(isRefinementQuery('figma')).toBe(false);
+    expect(isRefinementQuery('')).toBe(false);
+  });
+});
+
+describe('detectFilterRemovals', () => {
+  it('maps removal phrases to the filters they clear', () => {
+    expect(detectFilterRemovals('any price')).toEqual(['pricing']);
+    expect(detectFilterRemovals('free or paid is fine')).toEqual(['pricing']);
+    expect(detectFilterRemovals('any category')).toEqual(['categories', 'subCategories']);
+    expect(detectFilterRemovals('any rating')).toEqual(['minGravityScore', 'maxGravityScore']);
+    expect(detectFilterRemovals('closed source is fine')).toEqual(['opensource']);
+    expect(detectFilterRemovals('start over')).toHaveLength(8);
+    expect(detectFilterRemovals('only the free ones')).toEqual([]);
+  });
+});
+
+describe('getRefinementText', () => {
+  it('keeps only what the follow-up adds', () => {
+    expect(getRefinementText('only the free ones')).toBe('');
+    expect(getRefinementText('any price')).toBe('');
+    expect(getRefinementText('now with templates for video')).toBe('video');
+    expect(getRefinementText('what about animation')).toBe('animation');
+  });
+});
+
+describe('mergeRefinement', () => {
+  it('adds new filters and keeps the previous ones', () => {
+    const merged = mergeRefinement(aiImageTools, createFallbackParse('only the free ones'), 'only the free ones');
+    expect(merged.filters).toEqual({ categories: ['AI'], minGravityScore: 8, pricing: ['Free'] });
+    expect(merged.concepts).toEqual(['image generation']);
+    expect(merged.refinesPrevious).toBe(true);
+  });
+
+  it('replaces filters the follow-up changes and removes the ones it drops', () => {
+    const paid = mergeRefinement({ ...aiImageTools, filters: { ...aiImageTools.filters, pricing: ['Free'] } }, createFallbackParse('paid'), 'paid');
+    expect(paid.filters.pricing).toEqual(['Paid']);
+
+    const anyPrice = mergeRefinement(paid, createFallbackParse('any price'), 'any price');
+    expect(anyPrice.filters).toEqual({ categories: ['AI'], minGravityScore: 8 });
+
+    const anyRating = mergeRefinement(anyPrice, createFallbackParse('any rating'), 'any rating');
+    expect(anyRating.filters).toEqual({ categories: ['AI'] });
+  });
+
+  it('adds new text as a concept', () => {
+    expect(mergeRefinement(aiImageTools, createFallbackParse('what about animation'), 'what about animation').concepts)
+      .toEqual(['image generation', 'animation']);
+  });
+});
+
+describe('createFallbackParse with a previous search', () => {
+  it('merges refinements locally', () => {
+    const parsed = createFallbackParse('only free tools', aiImageTools);
+    expect(parsed.filters).toEqual({ categories: ['AI'], minGravityScore: 8, pricing: ['Free'] });
+    expect(parsed.refinesPrevious).toBe(true);
+
+    expect(createFallbackParse('not open source', { ...aiImageTools, filters: { opensource: true } }).filters).toEqual({});
+  });
+
+  it('parses a new search on its own', () => {
+    const parsed = createFallbackParse('tools for YouTube creators', aiImageTools);
+    expect(parsed.filters).toEqual({ categories: ['Tools'] });
+    expect(parsed.refinesPrevious).toBeUndefined();
+  });
+});
+
+describe('conversation turns', () => {
+  it('continues the conversation for refinements and starts over otherwise', () => {
+    const first = appendTurn(null, turn('ai image tools'));
+    const refined = appendTurn(first, turn('only the free ones', { isRefinement: true }));
+    expect(refined.turns.map(t => t.query)).toEqual(['ai image tools', 'only the free ones']);
+    expect(appendTurn(refined, turn('figma')).turns.map(t => t.query)).toEqual(['figma']);
+  });
+
+  it('keeps a bounded history and sends the recent turns with their filters', () => {
+    let conversation = appendTurn(null, turn('q0'));
+    for (let i = 1; i < 12; i++) {
+      conversation = appendTurn(conversation, turn(`q${i}`, { isRefinement: true }));
+    }
+    expect(conversation.turns).toHaveLength(MAX_CONVERSATION_TURNS);
+
+    const prior = getPriorTurns(conversation);
+    expect(prior.map(t => t.query)).toEqual(['q7', 'q8', 'q9', 'q10', 'q11']);
+    expect(prior[0].filters).toEqual(aiImageTools.filters);
+  });
+});
+
+describe('describeFilters', () => {
+  it('summarizes filters for the response message', () => {
+    expect(describeFilters({ pricing: ['Free'], minGravityScore: 9, categories: ['AI'], opensource: true }))
+      .toEqual(['Free resources', 'rated 9+', 'in AI', 'open source']);
+    expect(describeFilters({})).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { computeFacetCounts, getScoreTier } from '../facets';
+import { semanticSearch } from '../semantic-search';
+import type { NormalizedResource } from '../../../types/resource';
+
+function makeResource(overrides: Partial<NormalizedResource> & { id: number; name: string }): NormalizedResource {
+  return {
+    url: `https://${overrides.name.toLowerCase().replace(/\s/g, '')}.com`,
+    description: `${overrides.name} description`,
+    category: 'Tools',
+    subCategory: null,
+    pricing: 'Free',
+    featured: false,
+    opensource: false,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 7.5,
+    ...overrides,
+  };
+}
+
+const RESOURCES: NormalizedResource[] = [
+  makeResource({ id: 1, name: 'Runway', category: 'AI', subCategory: 'Video', pricing: 'Freemium', tags: ['video', 'ai'], gravityScore: 9.1, featured: true }),
+  makeResource({ id: 2, name: 'Sora', category: 'AI', subCategory: 'Video', pricing: 'Paid', tags: ['video', 'ai'], gravityScore: 8.4 }),
+  makeResource({ id: 3, name: 'VEED', category: 'Tools', subCategory: 'Productivity', pricing: 'Freemium', tags: ['video', 'editor'], gravityScore: 7.2 }),
+  makeResource({ id: 4, name: 'Shotcut', category: 'Tools', subCategory: null, tags: ['video', 'editor'], opensource: true, gravityScore: 5.5 }),
+  makeResource({ id: 5, name: 'Coolors', category: 'Tools', subCategory: 'Design', tags: ['color'], gravityScore: 8.0 }),
+];
+
+describe('getScoreTier', () => {
+  it('puts scores in the band they fall in', () => {
+    expect(getScoreTier(9.5)).toBe('9-10');
+    expect(getScoreTier(9)).toBe('9-10');
+    expect(getScoreTier(8.99)).toBe('8-9');
+    expect(getScoreTier(6)).toBe('6-7');
+    expect(getScoreTier(3.2)).toBe('below-6');
+  });
+});
+
+describe('computeFacetCounts', () => {
+  it('counts every facet', () => {
+    expect(computeFacetCounts(RESOURCES)).toEqual({
+      category: { AI: 2, Tools: 3 },
+      subCategory: { Video: 2, Productivity: 1, Design: 1 },
+      pricing: { Freemium: 2, Paid: 1, Free: 2 },
+      scoreTier: { '9-10': 1, '8-9': 2, '7-8': 1, 'below-6': 1 },
+      featured: 1,
+      opensource: 1,
+    });
+  });
+
+  it('returns empty counts for no resources', () => {
+    expect(computeFacetCounts([])).toEqual({
+      category: {}, subCategory: {}, pricing: {}, scoreTier: {}, featured: 0, opensource: 0,
+    });
+  });
+});
+
+describe('semanticSearch facets', () => {
+  it('counts the matches for the query', () => {
+    const { metadata } = semanticSearch(RESOURCES, 'video');
+    expect(metadata.facets?.category).toEqual({ AI: 2, Tools: 2 });
+    expect(metadata.facets?.subCategory).toEqual({ Video: 2, Productivity: 1 });
+  });
+
+  it('counts every match, not just the returned page', () => {
+    const { results, metadata } = semanticSearch(RESOURCES, 'video', { maxResults: 1 });
+    expect(results).toHaveLength(1);
+    expect(metadata.facets?.category).toEqual({ AI: 2, Tools: 2 });
+  });
+
+  it('counts within the hard-filtered pool', () => {
+    const { metadata } = semanticSearch(RESOURCES, 'video', { hardFilters: { pricing: ['Freemium'] } });
+    expect(metadata.facets?.category).toEqual({ AI: 1, Tools: 1 });
+    expect(metadata.facets?.pricing).toEqual({ Freemium: 2 });
+  });
+
+  it('counts the whole pool for filter-only searches', () => {
+    const { metadata } = semanticSearch(RESOURCES, '', { hardFilters: { categories: ['Tools'] } });
+    expect(metadata.facets?.category).toEqual({ Tools: 3 });
+    expect(metadata.facets?.opensource).toBe(1);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findSpan,
+  findLiteralMatches,
+  getFieldSpans,
+  splitHighlightSegments,
+  getDescriptionSnippet,
+  type MatchSpan,
+} from '../match-spans';
+import { semanticSearch } from '../semantic-search';
+import type { NormalizedResource } from '../../../types/resource';
+
+function makeResource(overrides: Partial<NormalizedResource> & { id: number; name: string }): NormalizedResource {
+  return {
+    url: `https://example.com/${overrides.id}`,
+    description: null,
+    category: null,
+    subCategory: null,
+    pricing: null,
+    featured: false,
+    opensource: false,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 8.0,
+    ...overrides,
+  };
+}
+
+const RESOURCES: NormalizedResource[] = [
+  makeResource({ id: 1, name: 'Figma', description: 'Collaborative interface design tool', category: 'Tools', tags: ['design', 'prototype'] }),
+  makeResource({ id: 2, name: 'Webflow', description: 'Professional no-code website builder', category: 'Tools', tags: ['website', 'no-code'] }),
+  makeResource({ id: 3, name: 'Coolors', description: 'Color palette generator', category: 'Tools', tags: ['color', 'palette'] }),
+  makeResource({ id: 4, name: 'Pexels', description: 'Free stock photos and videos', category: 'Templates', tags: ['photo', 'stock'] }),
+  makeResource({ id: 5, name: 'Egghead', description: 'Short screencast courses for developers', category: 'Learning', tags: ['courses'] }),
+];
+
+describe('ScoredResult.matches', () => {
+  it('marks an exact name match across the whole name', () => {
+    const { results } = semanticSearch(RESOURCES, 'figma');
+    expect(results[0].matches).toContainEqual({ field: 'name', start: 0, end: 5, kind: 'exact' });
+  });
+
+  it('marks name prefixes and contained substrings', () => {
+    const coolors = semanticSearch(RESOURCES, 'cool').results.find(r => r.resource.id === 3)!;
+    expect(coolors.matches).toContainEqual({ field: 'name', start: 0, end: 4, kind: 'prefix' });
+
+    const webflow = semanticSearch(RESOURCES, 'flow').results.find(r => r.resource.id === 2)!;
+    expect(webflow.matches).toContainEqual({ field: 'name', start: 3, end: 7, kind: 'exact' });
+  });
+
+  it('marks exact tags with their tag index', () => {
+    const figma = semanticSearch(RESOURCES, 'prototype').results.find(r => r.resource.id === 1)!;
+    expect(figma.matches).toContainEqual({ field: 'tags', start: 0, end: 9, kind: 'exact', tagIndex: 1 });
+  });
+
+  it('marks category alias matches as synonyms', () => {
+    const egghead = semanticSearch(RESOURCES, 'tutorials').results.find(r => r.resource.id === 5);
+    expect(egghead?.matches).toContainEqual({ field: 'category', start: 0, end: 8, kind: 'synonym' });
+  });
+
+  it('marks typo matches as fuzzy', () => {
+    const { results } = semanticSearch(RESOURCES, 'webfow');
+    const webflow = results.find(r => r.resource.id === 2)!;
+    expect(webflow.matches).toContainEqual({ field: 'name', start: 0, end: 7, kind: 'fuzzy' });
+  });
+
+  it('marks the query inside descriptions', () => {
+    const pexels = semanticSearch(RESOURCES, 'stock photos').results.find(r => r.resource.id === 4)!;
+    const spans = getFieldSpans(pexels.matches, 'description');
+    expect(spans.length).toBeGreaterThan(0);
+    expect('Free stock photos and videos'.slice(spans[0].start, spans[0].end)).toBe('stock photos');
+  });
+});
+
+describe('findSpan', () => {
+  it('is case-insensitive and respects word starts', () => {
+    expect(findSpan('Design Tool', 'tool', 'name', 'exact')).toEqual({ field: 'name', start: 7, end: 11, kind: 'exact' });
+    expect(findSpan('maintain', 'ai', 'description', 'exact', { wordStart: true })).toBeNull();
+    expect(findSpan('AI tools', 'ai', 'description', 'exact', { wordStart: true })).not.toBeNull();
+  });
+});
+
+describe('getFieldSpans / splitHighlightSegments', () => {
+  it('merges overlapping spans keeping the strongest kind', () => {
+    const matches: MatchSpan[] = [
+      { field: 'name', start: 0, end: 4, kind: 'fuzzy' },
+      { field: 'name', start: 2, end: 6, kind: 'exact' },
+      { field: 'description', start: 0, end: 3, kind: 'exact' },
+    ];
+    expect(getFieldSpans(matches, 'name')).toEqual([{ field: 'name', start: 0, end: 6, kind: 'exact' }]);
+  });
+
+  it('splits text into plain and highlighted segments', () => {
+    const segments = splitHighlightSegments('Webflow site', [{ field: 'name', start: 3, end: 7, kind: 'exact' }]);
+    expect(segments).toEqual([
+      { text: 'Web', kind: null },
+      { text: 'flow', kind: 'exact' },
+      { text: ' site', kind: null },
+    ]);
+  });
+});
+
+describe('getDescriptionSnippet', () => {
+  const description =
+    'A long description that starts with filler words and keeps going for a while before it finally mentions moodboards near the end of the text.';
+
+  it('returns short descriptions whole', () => {
+    expect(getDescriptionSnippet('Short text', [], 50)).toEqual({ text: 'Short text', spans: [] });
+    expect(getDescriptionSnippet(null, [])).toBeNull();
+  });
+
+  it('centres the window on the best match with ellipses', () => {
+    const start = description.indexOf('moodboards');
+    const snippet = getDescriptionSnippet(description, [
+      { field: 'description', start, end: start + 10, kind: 'exact' },
+    ], 60)!;
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(62);
+    expect(snippet.spans).toHaveLength(1);
+    expect(snippet.text.slice(snippet.spans[0].start, snippet.spans[0].end)).toBe('moodboards');
+  });
+
+  it('starts at the beginning when nothing in the description matched', () => {
+    const snippet = getDescriptionSnippet(description, [], 60)!;
+    expect(snippet.text.startsWith('A long description')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+  });
+});
+
+describe('findLiteralMatches', () => {
+  it('finds the term in name, description and tags', () => {
+    const matches = findLiteralMatches(RESOURCES[1], 'web');
+    expect(matches).toContainEqual({ field: 'name', start: 0, end: 3, kind: 'prefix' });
+    expect(matches).toContainEqual({ field: 'description', start: 21, end: 24, kind: 'exact' });
+    expect(matches).toContainEqual({ field: 'tags', start: 0, end: 3, kind: 'exact', tagIndex: 0 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateParsedQuery,
+  formatParsedQueryIssue,
+  validatePriorTurns,
+  MAX_PRIOR_TURNS,
+  MAX_QUERY_LENGTH,
+  MAX_TURN_FILTER_VALUES,
+  PARSED_QUERY_JSON_SCHEMA,
+} from '../parsed-query-schema';
+import { CATEGORY_NAMES } from '../../../data/taxonomy';
+
+const valid = {
+  intent: 'filter',
+  filters: { pricing: ['Free'], categories: ['AI'], minGravityScore: 9 },
+  concepts: ['video'],
+  semanticTerms: ['tools'],
+  confidence: 'high',
+};
+
+describe('validateParsedQuery', () => {
+  it('accepts a valid parse unchanged', () => {
+    const result = validateParsedQuery(valid);
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.value).toEqual(valid);
+  });
+
+  it('normalizes taxonomy values case-insensitively', () => {
+    const { value, valid: isValid } = validateParsedQuery({
+      ...valid,
+      filters: { pricing: ['free'], categories: ['learning'], subCategories: ['design'], tags: [' Video '] },
+    });
+    expect(isValid).toBe(true);
+    expect(value.filters).toEqual({ pricing: ['Free'], categories: ['Learning'], subCategories: ['Design'], tags: ['video'] });
+  });
+
+  it('reports unknown taxonomy values instead of silently dropping them', () => {
+    const { value, issues } = validateParsedQuery({
+      ...valid,
+      filters: { categories: ['AI', 'Widgets'], pricing: ['Cheap'] },
+    });
+    expect(value.filters).toEqual({ categories: ['AI'] });
+    expect(issues.map(formatParsedQueryIssue)).toEqual([
+      'filters.pricing[0]: unknown pricing "Cheap"',
+      'filters.categories[1]: unknown category "Widgets"',
+    ]);
+  });
+
+  it('reports unknown fields and wrong types', () => {
+    const { value, issues } = validateParsedQuery({
+      ...valid,
+      mood: 'happy',
+      filters: { featured: 'yes', color: 'red' },
+      concepts: ['ok', 3],
+    });
+    expect(value.filters).toEqual({});
+    expect(value.concepts).toEqual(['ok']);
+    expect(issues.map(issue => issue.path)).toEqual(['mood', 'filters.color', 'filters.featured', 'concepts[1]']);
+  });
+
+  it('clamps out-of-range scores and says so', () => {
+    const { value, issues } = validateParsedQuery({ ...valid, filters: { minGravityScore: 12 } });
+    expect(value.filters.minGravityScore).toBe(10);
+    expect(issues[0].message).toMatch(/outside 0-10, clamped to 10/);
+  });
+
+  it('falls back to defaults for invalid or missing required fields', () => {
+    const { value, issues } = validateParsedQuery({ intent: 'shop', confidence: 'certain' });
+    expect(value).toEqual({ intent: 'find', filters: {}, concepts: [], semanticTerms: [], confidence: 'medium' });
+    expect(issues.map(issue => issue.path)).toEqual(['intent', 'confidence', 'filters', 'concepts', 'semanticTerms']);
+  });
+
+  it('requires a comparison target for compare intent', () => {
+    expect(validateParsedQuery({ ...valid, intent: 'compare' }).issues).toEqual([
+      { path: 'comparisonTarget', message: 'required when intent is "compare"' },
+    ]);
+    expect(validateParsedQuery({ ...valid, intent: 'compare', comparisonTarget: 'Figma' }).valid).toBe(true);
+  });
+
+  it('accepts refinesPrevious only as a boolean', () => {
+    expect(validateParsedQuery({ ...valid, refinesPrevious: false }).value.refinesPrevious).toBe(false);
+    expect(validateParsedQuery({ ...valid, refinesPrevious: 'yes' }).issues[0].path).toBe('refinesPrevious');
+  });
+
+  it('rejects non-object input', () => {
+    const result = validateParsedQuery('not json');
+    expect(result.valid).toBe(false);
+    expect(result.issues[0].path).toBe('(root)');
+    expect(result.value.intent).toBe('find');
+  });
+});
+
+describe('PARSED_QUERY_JSON_SCHEMA', () => {
+  it('takes its enums from the taxonomy', () => {
+    expect(PARSED_QUERY_JSON_SCHEMA.properties.filters.properties.categories.items.enum).toEqual([...CATEGORY_NAMES]);
+  });
+
+  it('lists every field the validator accepts', () => {
+    const { value } = validateParsedQuery({ ...valid, comparisonTarget: 'Figma', explanation: 'x', refinesPrevious: true });
+    expect(Object.keys(PARSED_QUERY_JSON_SCHEMA.properties).sort()).toEqual(Object.keys(value).sort());
+  });
+});
+
+describe('validatePriorTurns', () => {
+  it('keeps the most recent turns with normalized filters', () => {
+    const turns = Array.from({ length: 7 }, (_, i) => ({ query: `q${i}`, filters: { pricing: ['free'], categories: ['Widgets'] } }));
+    expect(validatePriorTurns(turns)).toEqual(
+      Array.from({ length: MAX_PRIOR_TURNS }, (_, i) => ({ query: `q${i + 2}`, filters: { pricing: ['Free'] } }))
+    );
+  });
+
+  it('rejects malformed turns', () => {
+    expect(validatePriorTurns('AI tools')).toBeNull();
+    expect(validatePriorTurns([{ filters: {} }])).toBeNull();
+    expect(validatePriorTurns([{ query: '  ' }])).toBeNull();
+  });
+
+  it('rejects turn queries longer than the query limit', () => {
+    expect(validatePriorTurns([{ query: 'a'.repeat(MAX_QUERY_LENGTH), filters: {} }])).toHaveLength(1);
+    expect(validatePriorTurns([{ query: 'a'.repeat(MAX_QUERY_LENGTH + 1), filters: {} }])).toBeNull();
+  });
+
+  it('caps filter lists and drops oversized tags', () => {
+    const tags = Array.from({ length: 50 }, (_, i) => `tag${i}`);
+    const [turn] = validatePriorTurns([{ query: 'tools', filters: { tags: ['x'.repeat(500), ...tags] } }])!;
+    expect(turn.filters.tags).toEqual(tags.slice(0, MAX_TURN_FILTER_VALUES));
+  });
+});
@@ -1,9 +1,33 @@
 import { describe, it, expect } from 'vitest';
 import {
   classifyQueryComplexity,
+  getKnownToolNames,
   isSimpleQuery,
   isComplexQuery,
+  COMPLEXITY_THRESHOLD,
 } from '../query-classifier';
+import { resources } from '../../../data';
+import type { NormalizedResource } from '../../../types/resource';
+
+function makeResource(id: number, name: string): NormalizedResource {
+  return {
+    id,
+    name,
+    url: `https://${name.toLowerCase()}.com`,
+    description: null,
+    category: 'Tools',
+    subCategory: null,
+    pricing: 'Free',
+    featured: false,
+    opensource: false,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 5,
+  };
+}
 
 describe('classifyQueryComplexity', () => {
   describe('simple queries', () => {
@@ -26,6 +50,14 @@ describe('classifyQueryComplexity', () => {
       expect(classifyQueryComplexity('framer')).toMatchObject({ isComplex: false });
       expect(classifyQueryComplexity('notion')).toMatchObject({ isComplex: false });
     });
+
+    it('classifies operator syntax as simple so it skips the LLM', () => {
+      expect(classifyQueryComplexity('category:AI pricing:free score:>9 tag:video -tag:3d')).toMatchObject({
+        isComplex: false,
+        reasons: ['operator syntax'],
+        suggestedIntent: 'filter',
+      });
+    });
   });
 
   describe('complex queries - rating operators', () => {
@@ -89,6 +121,94 @@ describe('classifyQueryComplexity', () => {
     });
   });
 
+  describe('known tool names from the dataset', () => {
+    it('covers every resource name, including multi-word names', () => {
+      const names = getKnownToolNames(resources);
+      for (const resource of resources) {
+        expect(classifyQueryComplexity(resource.name).isComplex).toBe(false);
+      }
+      expect(names.has('laws of ux')).toBe(true);
+      expect(classifyQueryComplexity('Good Design Tools')).toMatchObject({ isComplex: false, reasons: ['known tool name'] });
+      expect(classifyQueryComplexity('Open Alternative').isComplex).toBe(false);
+    });
+
+    it('matches names typed without punctuation, spaces or a generic suffix', () => {
+      expect(classifyQueryComplexity('dall-e').reasons).toEqual(['known tool name']);
+      expect(classifyQueryComplexity('vscode').reasons).toEqual(['known tool name']);
+      expect(classifyQueryComplexity('shadcn ui').reasons).toEqual(['known tool name']);
+      expect(classifyQueryComplexity('tailwind').reasons).toEqual(['known tool name']);
+    });
+
+    it('keeps several names joined by connectors on the fast path', () => {
+      const result = classifyQueryComplexity('Figma and Framer and Webflow');
+      expect(result).toMatchObject({ isComplex: false, reasons: ['known tool names'] });
+      expect(classifyQueryComplexity('Framer Motion, GSAP & Rive').isComplex).toBe(false);
+    });
+
+    it('still sends names mixed with other words through the patterns', () => {
+      expect(classifyQueryComplexity('figma and framer for free').isComplex).toBe(true);
+      expect(classifyQueryComplexity('figma vs framer').suggestedIntent).toBe('compare');
+      expect(classifyQueryComplexity('and figma').reasons).not.toContain('known tool name');
+    });
+
+    it('uses the resources it is given', () => {
+      const custom = [makeResource(1, 'Penpot'), makeResource(2, 'Lunacy')];
+      expect(classifyQueryComplexity('Penpot and Lunacy', { resources: custom })).toMatchObject({
+        isComplex: false,
+        reasons: ['known tool names'],
+      });
+      expect(classifyQueryComplexity('figma and framer and webflow', { resources: custom }).reasons)
+        .not.toContain('known tool names');
+    });
+  });
+
+  describe('confidence', () => {
+    it('scores complexity from 0 to 1 around the threshold', () => {
+      const simple = classifyQueryComplexity('color picker');
+      const complex = classifyQueryComplexity('free design tools rated over 8');
+      expect(simple.complexity).toBeLessThan(COMPLEXITY_THRESHOLD);
+      expect(complex.complexity).toBeGreaterThanOrEqual(COMPLEXITY_THRESHOLD);
+      expect(complex.complexity).toBeLessThanOrEqual(1);
+    });
+
+    it('is certain about operators and tool names', () => {
+      expect(classifyQueryComplexity('pricing:free').confidence).toBe(1);
+      expect(classifyQueryComplexity('figma').confidence).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('grows with the number of signals', () => {
+      const one = classifyQueryComplexity('freemium apps');
+      const several = classifyQueryComplexity('show me free design tools rated over 8');
+      expect(several.confidence).toBeGreaterThan(one.confidence);
+    });
+
+    it('is low for multi-word queries with no signals', () => {
+      expect(classifyQueryComplexity('mood board tools').confidence).toBeLessThan(0.5);
+    });
+  });
+
+  describe('debug mode', () => {
+    it('lists the signals and explains the decision', () => {
+      const { debug } = classifyQueryComplexity('free design tools', { debug: true });
+      expect(debug?.signals).toEqual([
+        { reason: 'contains pricing keyword', match: 'free', weight: 0.6 },
+        { reason: 'category with modifier', match: 'design tools', weight: 0.6 },
+      ]);
+      expect(debug?.threshold).toBe(COMPLEXITY_THRESHOLD);
+      expect(debug?.explanation[debug.explanation.length - 1]).toMatch(/^complexity 0\.84 >= 0\.5 → LLM parse/);
+    });
+
+    it('names the resources a fast-path query was made of', () => {
+      const { debug } = classifyQueryComplexity('Figma and Framer', { debug: true });
+      expect(debug?.knownToolNames).toEqual(['figma', 'framer']);
+      expect(debug?.explanation[debug.explanation.length - 1]).toMatch(/→ local search/);
+    });
+
+    it('is left out unless asked for', () => {
+      expect(classifyQueryComplexity('free design tools').debug).toBeUndefined();
+    });
+  });
+
   describe('suggested intent', () => {
     it('suggests filter intent for rating queries', () => {
       expect(classifyQueryComplexity('best rated tools').suggestedIntent).toBe('filter');
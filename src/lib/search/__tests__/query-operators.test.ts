@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { parseQueryOperators, hasQueryOperators } from '../query-operators';
+import { semanticSearch, applyHardFilters } from '../semantic-search';
+import { resources } from '../../../data';
+
+describe('parseQueryOperators', () => {
+  it('parses the full example into hard filters and free text', () => {
+    const parsed = parseQueryOperators('category:AI pricing:free score:>9 tag:video -tag:3d opensource:yes figma');
+    expect(parsed.filters).toEqual({
+      categories: ['AI'],
+      pricing: ['Free'],
+      minGravityScore: 9.1,
+      tags: ['video'],
+      excludeTags: ['3d'],
+      opensource: true,
+    });
+    expect(parsed.freeText).toBe('figma');
+    expect(parsed.operators).toHaveLength(6);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it('resolves category aliases and case-insensitive keys', () => {
+    expect(parseQueryOperators('Category:tutorials').filters.categories).toEqual(['Learning']);
+    expect(parseQueryOperators('cat:ai').filters.categories).toEqual(['AI']);
+  });
+
+  it('supports comma-separated OR values and quoted values', () => {
+    expect(parseQueryOperators('pricing:free,freemium').filters.pricing).toEqual(['Free', 'Freemium']);
+    expect(parseQueryOperators('pricing:"pay per use"').filters.pricing).toEqual(['Pay per use']);
+    expect(parseQueryOperators('pricing:pay-per-use').filters.pricing).toEqual(['Pay per use']);
+  });
+
+  it('parses numeric score comparisons', () => {
+    expect(parseQueryOperators('score:>=8.5').filters).toEqual({ minGravityScore: 8.5 });
+    expect(parseQueryOperators('score:<8').filters).toEqual({ maxGravityScore: 7.9 });
+    expect(parseQueryOperators('rating:<=7').filters).toEqual({ maxGravityScore: 7 });
+    expect(parseQueryOperators('score:9').filters).toEqual({ minGravityScore: 9 });
+    expect(parseQueryOperators('score:=9').filters).toEqual({ minGravityScore: 9, maxGravityScore: 9 });
+    expect(parseQueryOperators('score:7..9').filters).toEqual({ minGravityScore: 7, maxGravityScore: 9 });
+  });
+
+  it('negates categories, pricing, flags and score comparisons', () => {
+    expect(parseQueryOperators('-category:tools -pricing:paid').filters).toEqual({
+      excludeCategories: ['Tools'],
+      excludePricing: ['Paid'],
+    });
+    expect(parseQueryOperators('-opensource:yes').filters).toEqual({ opensource: false });
+    expect(parseQueryOperators('featured:no').filters).toEqual({ featured: false });
+    expect(parseQueryOperators('-score:>9').filters).toEqual({ maxGravityScore: 9 });
+  });
+
+  it('reports invalid values and ignores them', () => {
+    const parsed = parseQueryOperators('category:widgets score:high opensource:maybe design');
+    expect(parsed.filters).toEqual({});
+    expect(parsed.errors.map(e => e.raw)).toEqual(['category:widgets', 'score:high', 'opensource:maybe']);
+    expect(parsed.freeText).toBe('design');
+  });
+
+  it('leaves unknown key:value tokens and URLs in the free text', () => {
+    const parsed = parseQueryOperators('https://figma.com note:later');
+    expect(parsed.operators).toEqual([]);
+    expect(parsed.freeText).toBe('https://figma.com note:later');
+    expect(hasQueryOperators('mood board tools')).toBe(false);
+    expect(hasQueryOperators('mood board tag:moodboard')).toBe(true);
+  });
+
+  it('does not resolve Object.prototype members as operator keys', () => {
+    const parsed = parseQueryOperators('constructor:foo toString:x __proto__:y figma');
+    expect(parsed.operators).toEqual([]);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.freeText).toBe('constructor:foo toString:x __proto__:y figma');
+  });
+});
+
+describe('operator queries in search', () => {
+  it('excludes negated values in applyHardFilters', () => {
+    const filtered = applyHardFilters(resources, { categories: ['AI'], excludeTags: ['video'] });
+    expect(filtered.length).toBeGreaterThan(0);
+    for (const resource of filtered) {
+      expect(resource.category).toBe('AI');
+      expect((resource.tags ?? []).some(tag => tag.includes('video'))).toBe(false);
+    }
+  });
+
+  it('ranks a filter-only query by gravity score', () => {
+    const { filters, freeText } = parseQueryOperators('category:AI score:>=8');
+    const { results, metadata } = semanticSearch(resources, freeText, { hardFilters: filters });
+    expect(results.length).toBe(applyHardFilters(resources, filters).length);
+    expect(metadata.quality).toBe('high');
+    const scores = results.map(r => r.resource.gravityScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(results.every(r => r.resource.category === 'AI' && r.resource.gravityScore >= 8)).toBe(true);
+  });
+
+  it('still searches free text within the filtered pool', () => {
+    const { filters, freeText } = parseQueryOperators('category:tools figma');
+    const { results } = semanticSearch(resources, freeText, { hardFilters: filters });
+    expect(results[0].resource.name).toBe('Figma');
+    expect(results.every(r => r.resource.category === 'Tools')).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { resources } from '../../../data';
+import {
+  answersFromParsedQuery,
+  buildRecommendation,
+  getRecommendationReason,
+  recommendResources,
+  RECOMMEND_STEPS,
+} from '../recommend';
+import type { ParsedQuery } from '../parsed-query-schema';
+
+describe('buildRecommendation', () => {
+  it('turns budget, open source and task into hard filters', () => {
+    const { hardFilters } = buildRecommendation({ task: 'ai-generation', budget: 'free-tier', openSource: 'required' });
+    expect(hardFilters).toEqual({ categories: ['AI'], pricing: ['Free', 'Freemium'], opensource: true });
+  });
+
+  it('leaves unanswered questions unconstrained', () => {
+    expect(buildRecommendation({})).toEqual({ query: '', hardFilters: {}, concepts: [] });
+    expect(buildRecommendation({ budget: 'any', openSource: 'any' }).hardFilters).toEqual({});
+  });
+
+  it('ranks by task, role and team concepts without duplicates', () => {
+    const { query, concepts } = buildRecommendation({ role: 'designer', task: 'ui-design', teamSize: 'large' });
+    expect(query).toBe('ui design');
+    expect(concepts).toEqual(['design', 'ui', 'components', 'design system', 'figma', 'collaboration']);
+  });
+
+  it('keeps the text the wizard was opened with', () => {
+    expect(buildRecommendation({ context: 'podcast', task: 'video-motion' }).query).toBe('podcast video animation');
+  });
+
+  it('only offers answers the recommendation understands', () => {
+    for (const step of RECOMMEND_STEPS) {
+      for (const option of step.options) {
+        expect(() => buildRecommendation({ [step.id]: option.value })).not.toThrow();
+      }
+    }
+  });
+});
+
+describe('answersFromParsedQuery', () => {
+  const parsed = (filters: ParsedQuery['filters']): ParsedQuery => ({
+    intent: 'recommend',
+    filters,
+    concepts: [],
+    semanticTerms: [],
+    confidence: 'high',
+  });
+
+  it('pre-fills budget and open source from the parse', () => {
+    expect(answersFromParsedQuery(parsed({ pricing: ['Free'], opensource: true }), 'free tools'))
+      .toEqual({ context: 'free tools', budget: 'free', openSource: 'required' });
+    expect(answersFromParsedQuery(parsed({ pricing: ['Free', 'Freemium'] }), 'cheap').budget).toBe('free-tier');
+    expect(answersFromParsedQuery(parsed({ pricing: ['Paid'] }), 'pro').budget).toBeUndefined();
+  });
+});
+
+describe('getRecommendationReason', () => {
+  const [resource] = resources;
+
+  it('explains a pick from its match reasons', () => {
+    const reason = getRecommendationReason({
+      resource,
+      score: 100,
+      matches: [],
+      matchReasons: ['llm concept: design', 'exact tag: design', 'category: Tools', 'quality boost: 9.0'],
+    });
+    expect(reason).toBe('Good for design, in Tools');
+  });
+
+  it('falls back to the gravity rationale', () => {
+    const reason = getRecommendationReason({ resource, score: 10, matches: [], matchReasons: ['top rated'] });
+    expect(reason).toBe(resource.gravityRationale ?? `Rated ${resource.gravityScore.toFixed(1)}`);
+  });
+});
+
+describe('recommendResources', () => {
+  it('returns a ranked shortlist with a reason for each pick', () => {
+    const picks = recommendResources(resources, { role: 'designer', task: 'ui-design' });
+    expect(picks).toHaveLength(5);
+    for (const pick of picks) expect(pick.reason).not.toBe('');
+  });
+
+  it('never breaks the hard filters', () => {
+    const picks = recommendResources(resources, { task: 'website', budget: 'free', openSource: 'required' }, { limit: 8 });
+    expect(picks.length).toBeGreaterThan(0);
+    for (const { resource } of picks) {
+      expect(resource.pricing).toBe('Free');
+      expect(resource.opensource).toBe(true);
+    }
+  });
+
+  it('shows the highest-rated resources when nothing is answered', () => {
+    const picks = recommendResources(resources, {}, { limit: 3 });
+    const best = [...resources].sort((a, b) => b.gravityScore - a.gravityScore).slice(0, 3);
+    expect(picks.map(p => p.resource.id)).toEqual(best.map(r => r.id));
+  });
+});
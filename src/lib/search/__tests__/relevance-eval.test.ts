@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { resources } from '../../../data';
+import goldenQueriesData from '../../../data/golden-queries.json';
+import baselineData from '../../../data/relevance-baseline.json';
+import {
+  precisionAtK,
+  recall,
+  ndcgAtK,
+  evaluateGoldenSet,
+  findUnknownResources,
+  toBaseline,
+  compareToBaseline,
+  type GoldenQuery,
+  type RelevanceBaseline,
+  type RelevanceReport,
+} from '../relevance-eval';
+
+// JSON imports type each query's grades as a different object shape, hence the double cast
+const goldenQueries = goldenQueriesData as unknown as GoldenQuery[];
+const baseline = baselineData as RelevanceBaseline;
+
+const RELEVANT = { Alpha: 3, Beta: 2, Gamma: 1 };
+
+describe('metrics', () => {
+  it('computes precision@k over the top k', () => {
+    expect(precisionAtK(['Alpha', 'Other', 'Beta', 'Gamma'], RELEVANT, 2)).toBe(0.5);
+    expect(precisionAtK(['Alpha', 'Beta', 'Gamma'], RELEVANT, 3)).toBe(1);
+    expect(precisionAtK([], RELEVANT, 5)).toBe(0);
+  });
+
+  it('computes recall over all results', () => {
+    expect(recall(['Other', 'Alpha', 'Gamma'], RELEVANT)).toBeCloseTo(2 / 3);
+    expect(recall(['Other'], {})).toBe(1);
+  });
+
+  it('gives NDCG 1 for the ideal order and less otherwise', () => {
+    expect(ndcgAtK(['Alpha', 'Beta', 'Gamma'], RELEVANT, 3)).toBe(1);
+    const swapped = ndcgAtK(['Gamma', 'Beta', 'Alpha'], RELEVANT, 3);
+    expect(swapped).toBeGreaterThan(0);
+    expect(swapped).toBeLessThan(1);
+    expect(ndcgAtK(['Other'], RELEVANT, 3)).toBe(0);
+  });
+});
+
+describe('compareToBaseline', () => {
+  const report: RelevanceReport = {
+    k: 5,
+    overall: { precisionAtK: 0.5, recall: 1, ndcg: 0.8 },
+    queries: [{ query: 'icons', precisionAtK: 0.5, recall: 1, ndcg: 0.8, topResults: [], missing: [] }],
+  };
+
+  it('passes when metrics match the stored baseline', () => {
+    expect(compareToBaseline(report, toBaseline(report))).toEqual([]);
+  });
+
+  it('reports metrics that dropped', () => {
+    const stored = toBaseline({ ...report, overall: { ...report.overall, ndcg: 0.9 } });
+    expect(compareToBaseline(report, stored)).toEqual(['overall: ndcg 0.8 < baseline 0.9']);
+  });
+
+  it('reports queries missing from the baseline', () => {
+    const stored = { ...toBaseline(report), queries: {} };
+    expect(compareToBaseline(report, stored)).toEqual(['"icons": not in baseline']);
+  });
+});
+
+describe('golden query set', () => {
+  it('only names resources in the directory', () => {
+    expect(findUnknownResources(resources, goldenQueries)).toEqual([]);
+  });
+
+  // Update with `npm run eval-search -- --update-baseline` after a deliberate change
+  it('stays at or above the stored baseline', () => {
+    const report = evaluateGoldenSet(resources, goldenQueries, baseline.k);
+    expect(compareToBaseline(report, baseline)).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeQueryForAnalytics,
+  validateSearchLogEvent,
+  aggregateSearchEvents,
+  isFailingSearch,
+  MAX_LOGGED_QUERY_LENGTH,
+  type SearchLogEvent,
+} from '../search-analytics';
+import { getUnknownPhrases, findMissingConcepts, buildSearchReport } from '../search-report';
+
+const event = (overrides: Partial<SearchLogEvent> = {}): SearchLogEvent => ({
+  query: 'mood board for my wedding',
+  quality: 'low',
+  resultCount: 0,
+  llmEnhanced: true,
+  view: '3d',
+  ...overrides,
+});
+
+describe('normalizeQueryForAnalytics', () => {
+  it('lowercases, collapses whitespace and drops trailing punctuation', () => {
+    expect(normalizeQueryForAnalytics('  Free   AI Tools?! ')).toBe('free ai tools');
+  });
+
+  it('redacts emails, URLs and long numbers', () => {
+    expect(normalizeQueryForAnalytics('tools for jane@example.com')).toBe('tools for [email]');
+    expect(normalizeQueryForAnalytics('sites like https://example.com/me')).toBe('sites like [url]');
+    expect(normalizeQueryForAnalytics('call 555-123-4567')).toBe('call [number]');
+    expect(normalizeQueryForAnalytics('top 10 3d tools')).toBe('top 10 3d tools');
+  });
+
+  it('truncates long queries and rejects empty ones', () => {
+    expect(normalizeQueryForAnalytics('a'.repeat(300))).toHaveLength(MAX_LOGGED_QUERY_LENGTH);
+    expect(normalizeQueryForAnalytics(' ?? ')).toBeNull();
+  });
+});
+
+describe('validateSearchLogEvent', () => {
+  it('accepts a well-formed event and re-normalizes its query', () => {
+    expect(validateSearchLogEvent({ ...event(), query: 'Mood Board  for my wedding?' })).toEqual(event());
+  });
+
+  it('rejects malformed events', () => {
+    expect(validateSearchLogEvent(null)).toBeNull();
+    expect(validateSearchLogEvent({ ...event(), quality: 'great' })).toBeNull();
+    expect(validateSearchLogEvent({ ...event(), resultCount: -1 })).toBeNull();
+    expect(validateSearchLogEvent({ ...event(), view: 'kitchen' })).toBeNull();
+    expect(validateSearchLogEvent({ ...event(), llmEnhanced: 'yes' })).toBeNull();
+  });
+});
+
+describe('aggregateSearchEvents', () => {
+  it('counts per query, most failures first', () => {
+    const stats = aggregateSearchEvents([
+      event({ query: 'figma', quality: 'high', resultCount: 5, llmEnhanced: false, view: 'search-modal' }),
+      event(),
+      event({ view: 'card' }),
+      event({ query: 'figma', quality: 'high', resultCount: 5, llmEnhanced: false, view: 'search-modal' }),
+    ]);
+    expect(stats).toEqual([
+      { query: 'mood board for my wedding', count: 2, zeroResultCount: 2, lowQualityCount: 2, llmEnhancedCount: 2, views: { '3d': 1, card: 1 } },
+      { query: 'figma', count: 2, zeroResultCount: 0, lowQualityCount: 0, llmEnhancedCount: 0, views: { 'search-modal': 2 } },
+    ]);
+  });
+
+  it('treats zero results as failing whatever the quality', () => {
+    expect(isFailingSearch({ quality: 'high', resultCount: 0 })).toBe(true);
+    expect(isFailingSearch({ quality: 'fallback', resultCount: 4 })).toBe(true);
+    expect(isFailingSearch({ quality: 'medium', resultCount: 4 })).toBe(false);
+  });
+});
+
+describe('search report', () => {
+  it('splits queries into phrases the semantic mappings do not cover', () => {
+    expect(getUnknownPhrases('mood board for my wedding')).toEqual(['mood board', 'wedding']);
+    expect(getUnknownPhrases('free photo editing tools')).toEqual(['editing']);
+    expect(getUnknownPhrases('vibe coding')).toEqual([]);
+  });
+
+  it('ranks missing concepts by the failing searches they appear in', () => {
+    const stats = aggregateSearchEvents([
+      event(),
+      event(),
+      event({ query: 'invitations for a wedding' }),
+      event({ query: 'wedding photos', quality: 'high', resultCount: 8 }),
+    ]);
+    expect(findMissingConcepts(stats)).toEqual([
+      { phrase: 'wedding', failingSearches: 3, examples: ['mood board for my wedding', 'invitations for a wedding'] },
+      { phrase: 'mood board', failingSearches: 2, examples: ['mood board for my wedding'] },
+      { phrase: 'invitations', failingSearches: 1, examples: ['invitations for a wedding'] },
+    ]);
+  });
+
+  it('lists only failing queries in the report', () => {
+    const stats = aggregateSearchEvents([event(), event({ query: 'figma', quality: 'high', resultCount: 5 })]);
+    const report = buildSearchReport(stats, { totalSearches: 2, failingSearches: 1 });
+    expect(report.topFailingQueries.map(s => s.query)).toEqual(['mood board for my wedding']);
+    expect(report.totalSearches).toBe(2);
+  });
+});
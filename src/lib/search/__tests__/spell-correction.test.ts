@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { resources } from '../../../data';
+import { buildVocabulary, getSpellingCorrection } from '../spell-correction';
+import { semanticSearch } from '../semantic-search';
+
+describe('buildVocabulary', () => {
+  it('collects words from names, tags, subcategories and synonyms', () => {
+    const vocabulary = buildVocabulary(resources);
+    expect(vocabulary.has('figma')).toBe(true);
+    expect(vocabulary.has('typography')).toBe(true);
+    expect(vocabulary.has('prototyping')).toBe(true);
+    expect(vocabulary.has('tools')).toBe(true);
+  });
+
+  it('is cached per resource list', () => {
+    expect(buildVocabulary(resources)).toBe(buildVocabulary(resources));
+  });
+});
+
+describe('getSpellingCorrection', () => {
+  it('corrects misspelled words', () => {
+    expect(getSpellingCorrection(resources, 'protoyping tols')).toBe('prototyping tools');
+    expect(getSpellingCorrection(resources, 'ilustration')).toBe('illustration');
+    expect(getSpellingCorrection(resources, 'colr palete')).toBe('color palette');
+  });
+
+  it('fixes swapped letters', () => {
+    expect(getSpellingCorrection(resources, 'vidoe editing')).toBe('video editing');
+    expect(getSpellingCorrection(resources, 'figam')).toBe('figma');
+  });
+
+  it('leaves known words, short words, plurals and common words alone', () => {
+    expect(getSpellingCorrection(resources, 'figma')).toBeNull();
+    expect(getSpellingCorrection(resources, 'tools for youtube creators')).toBeNull();
+    expect(getSpellingCorrection(resources, 'ai image generators')).toBeNull();
+    expect(getSpellingCorrection(resources, 'something similar to this')).toBeNull();
+  });
+
+  it('keeps operators as typed', () => {
+    expect(getSpellingCorrection(resources, 'pricing:free protoyping')).toBe('pricing:free prototyping');
+  });
+
+  it('gives up on words with nothing close', () => {
+    expect(getSpellingCorrection(resources, 'zzzzqx')).toBeNull();
+  });
+});
+
+describe('semanticSearch suggestedQuery', () => {
+  it('suggests a correction for weak results', () => {
+    const { metadata } = semanticSearch(resources, 'protoyping tols', { includeFallback: true });
+    expect(metadata.quality).not.toBe('high');
+    expect(metadata.suggestedQuery).toBe('prototyping tools');
+  });
+
+  it('only suggests corrections that find more', () => {
+    expect(semanticSearch(resources, 'figma').metadata.suggestedQuery).toBeUndefined();
+    expect(semanticSearch(resources, 'zzzzqx').metadata.suggestedQuery).toBeUndefined();
+  });
+
+  it('can be turned off', () => {
+    const { metadata } = semanticSearch(resources, 'protoyping tols', { correctSpelling: false });
+    expect(metadata.suggestedQuery).toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { getTypeaheadSuggestions } from '../typeahead';
+import type { NormalizedResource } from '../../../types/resource';
+
+function makeResource(overrides: Partial<NormalizedResource> & { id: number; name: string }): NormalizedResource {
+  return {
+    url: `https://${overrides.name.toLowerCase().replace(/\s/g, '')}.com`,
+    description: `${overrides.name} description`,
+    category: 'Tools',
+    subCategory: null,
+    pricing: 'Free',
+    featured: false,
+    opensource: false,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 5,
+    ...overrides,
+  };
+}
+
+const RESOURCES: NormalizedResource[] = [
+  makeResource({ id: 1, name: 'Figma', pricing: 'Freemium', subCategory: 'Design', tags: ['design', 'figma'] }),
+  makeResource({ id: 2, name: 'Freepik', category: 'Inspiration', tags: ['stock', 'free'] }),
+  makeResource({ id: 3, name: 'Blender', category: 'Tools', subCategory: '3D', opensource: true, tags: ['3d', 'animation'] }),
+  makeResource({ id: 4, name: 'Runway', category: 'AI', pricing: 'Freemium', subCategory: 'Video', tags: ['video', 'animation'] }),
+  makeResource({ id: 5, name: 'Midjourney', category: 'AI', pricing: 'Paid', subCategory: 'Generative', tags: ['image generation'] }),
+];
+
+const labels = (query: string) => getTypeaheadSuggestions(RESOURCES, query).map(s => s.label);
+
+describe('getTypeaheadSuggestions', () => {
+  it('suggests facets with counts first', () => {
+    const [first, second] = getTypeaheadSuggestions(RESOURCES, 'fre');
+    expect(first).toEqual({ kind: 'facet', label: 'pricing: Free', value: 'pricing:Free ', count: 2 });
+    expect(second).toMatchObject({ kind: 'facet', label: 'pricing: Freemium', count: 2 });
+    expect(labels('fre')).toContain('Freepik');
+    expect(labels('fre')).toContain('#free');
+  });
+
+  it('covers names, subcategories, tags and concepts', () => {
+    expect(labels('fig')).toEqual(expect.arrayContaining(['Figma', '#figma', 'figma alternative']));
+    expect(labels('anim')).toEqual(['#animation']);
+    expect(labels('gen')).toEqual(expect.arrayContaining(['Generative', '#image generation']));
+    expect(labels('open')).toContain('open source');
+  });
+
+  it('replaces only the word being typed', () => {
+    const [suggestion] = getTypeaheadSuggestions(RESOURCES, 'animation tools for vid');
+    expect(suggestion.value).toBe('animation tools for sub:Video ');
+  });
+
+  it('counts within operators already in the query', () => {
+    const [free] = getTypeaheadSuggestions(RESOURCES, 'category:AI fre');
+    expect(free).toMatchObject({ label: 'pricing: Freemium', value: 'category:AI pricing:Freemium ', count: 1 });
+    expect(labels('category:AI fre')).not.toContain('pricing: Free');
+  });
+
+  it('completes operator values, keeping aliases and negation', () => {
+    expect(labels('pricing:')).toEqual(['pricing: Free', 'pricing: Freemium', 'pricing: Paid']);
+    expect(getTypeaheadSuggestions(RESOURCES, 'cat:ins')[0].value).toBe('category:Inspiration ');
+    expect(getTypeaheadSuggestions(RESOURCES, '-tag:3')).toEqual([
+      { kind: 'tag', label: '#3d', value: '-tag:3d ', count: 1 },
+    ]);
+    expect(getTypeaheadSuggestions(RESOURCES, 'https://fig')).toEqual([]);
+  });
+
+  it('stays quiet for short or finished words', () => {
+    expect(getTypeaheadSuggestions(RESOURCES, 'f')).toEqual([]);
+    expect(getTypeaheadSuggestions(RESOURCES, 'figma ')).toEqual([]);
+    expect(labels('Midjourney')).not.toContain('Midjourney');
+  });
+
+  it('limits the number of suggestions and each kind', () => {
+    const many = Array.from({ length: 10 }, (_, i) => makeResource({ id: 100 + i, name: `Design Tool ${i}` }));
+    const suggestions = getTypeaheadSuggestions([...RESOURCES, ...many], 'des', 4);
+    expect(suggestions.length).toBeLessThanOrEqual(4);
+    expect(suggestions.filter(s => s.kind === 'resource')).toHaveLength(2);
+  });
+});
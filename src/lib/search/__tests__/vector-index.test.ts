@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import resourcesData from '../../../data/resources.json';
+import vectorIndexData from '../../../data/vector-index.json';
+import {
+  buildVectorIndex,
+  serializeVectorIndex,
+  cosineSimilarity,
+  findSimilarResources,
+  getSharedTerms,
+  tokenizeForIndex,
+} from '../vector-index';
+import type { NormalizedResource } from '../../../types/resource';
+
+function makeResource(overrides: Partial<NormalizedResource> & { id: number; name: string }): NormalizedResource {
+  return {
+    url: `https://example.com/${overrides.name.toLowerCase().replace(/\s+/g, '-')}`,
+    description: null,
+    category: null,
+    subCategory: null,
+    pricing: null,
+    featured: false,
+    opensource: false,
+    tags: null,
+    count: null,
+    tier: null,
+    thumbnail: null,
+    screenshot: null,
+    gravityScore: 5.0,
+    ...overrides,
+  };
+}
+
+const RESOURCES: NormalizedResource[] = [
+  makeResource({ id: 1, name: 'Penboard', description: 'Collaborative vector design editor for interface prototyping', category: 'Tools', subCategory: 'Design', tags: ['design', 'prototyping'] }),
+  makeResource({ id: 2, name: 'Sketchpad', description: 'Vector interface design editor with prototyping and handoff', category: 'Tools', subCategory: 'Design', tags: ['design', 'prototyping'], gravityScore: 8 }),
+  makeResource({ id: 3, name: 'Photobank', description: 'Royalty free stock photography library', category: 'Templates', subCategory: 'Assets', tags: ['photos', 'stock'] }),
+  makeResource({ id: 4, name: 'Plugin Hub', description: 'Plugins for Penboard and Sketchpad', category: 'Tools', subCategory: 'Productivity', tags: ['plugins'] }),
+];
+
+describe('tokenizeForIndex', () => {
+  it('drops stopwords and numbers and strips plurals', () => {
+    expect(tokenizeForIndex('The icons for 2024 teams and UI kits')).toEqual(['icon', 'ui', 'kit']);
+  });
+});
+
+describe('buildVectorIndex', () => {
+  it('matches the checked-in vector-index.json (run npm run build-index)', () => {
+    const index = buildVectorIndex(resourcesData as NormalizedResource[]);
+    expect(index).toEqual(vectorIndexData);
+  });
+
+  it('is deterministic regardless of input order', () => {
+    const forward = serializeVectorIndex(buildVectorIndex(RESOURCES));
+    const reversed = serializeVectorIndex(buildVectorIndex([...RESOURCES].reverse()));
+    expect(reversed).toBe(forward);
+    expect(JSON.parse(forward)).toEqual(buildVectorIndex(RESOURCES));
+  });
+
+  it('produces unit-length vectors', () => {
+    const index = buildVectorIndex(RESOURCES);
+    for (const vector of Object.values(index.vectors)) {
+      expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 3);
+    }
+  });
+
+  it('keeps subcategory as a category-scoped term and leaves out the own name', () => {
+    const index = buildVectorIndex(RESOURCES);
+    const terms = (id: number) => index.vectors[String(id)].map(([term]) => index.terms[term]);
+    expect(terms(1)).toContain('sub:tools/design');
+    expect(terms(1)).not.toContain('penboard');
+    expect(terms(4)).toContain('penboard');
+  });
+});
+
+describe('findSimilarResources', () => {
+  const index = buildVectorIndex(RESOURCES);
+
+  it('ranks resources with shared text first and excludes the target', () => {
+    const similar = findSimilarResources(index, 1, RESOURCES);
+    expect(similar[0].resource.name).toBe('Sketchpad');
+    expect(similar.map(s => s.resource.id)).not.toContain(1);
+    expect(similar.map(s => s.resource.id)).not.toContain(3);
+  });
+
+  it('only ranks the given candidates', () => {
+    const similar = findSimilarResources(index, 1, RESOURCES.filter(r => r.id !== 2));
+    expect(similar.map(s => s.resource.id)).not.toContain(2);
+  });
+
+  it('returns nothing for ids missing from the index', () => {
+    expect(findSimilarResources(index, 999, RESOURCES)).toEqual([]);
+  });
+
+  it('explains a match with shared terms', () => {
+    expect(getSharedTerms(index, 1, 2)).toEqual(expect.arrayContaining(['sub:tools/design']));
+  });
+});
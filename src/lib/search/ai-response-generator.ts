@@ -39,6 +39,16 @@ export function generateAIResponse(
     };
   }
 
+  // Comparison results are ranked by similarity to a single resource
+  if (metadata.comparisonTarget) {
+    return {
+      message: 'Found ' + matchCount + ' alternative' + (matchCount === 1 ? '' : 's') + ' to ' +
+        metadata.comparisonTarget + ', most similar first.',
+      matchCount,
+      highlight: metadata.comparisonTarget,
+    };
+  }
+
   // Generate response based on quality and context
   switch (quality) {
     case 'high':
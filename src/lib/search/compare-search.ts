@@ -0,0 +1,209 @@
+/**
+ * Compare-Intent Search for Design Directory
+ *
+ * Answers "alternatives to Figma" / "tools like Webflow" from the local
+ * vector index: the target is resolved to a resource in the directory and
+ * the (hard-filtered) pool is ranked by similarity to it.
+ */
+
+import type { NormalizedResource } from '../../types/resource';
+import { applyHardFilters, type HardFilters, type MatchQuality, type SearchResponse } from './semantic-search';
+import { findSpan, type MatchSpan } from './match-spans';
+import { similarityRatio } from './fuzzy-match';
+import { computeFacetCounts } from './facets';
+import { findSimilarResources, getSharedTerms, type VectorIndex } from './vector-index';
+
+/**
+ * A comparison phrase found in a query
+ */
+export interface ComparisonQuery {
+  /** The product being compared against, as typed */
+  target: string;
+}
+
+/**
+ * Comparison phrasings; the capture group is the target
+ *
+ * "like" only counts after a noun for what's being looked for ("tools like
+ * Webflow") or at the start ("like Figma but free"), so "I'd like figma"
+ * stays a normal search.
+ */
+const COMPARISON_PATTERNS = [
+  /\b(?:alternatives?|replacements?|substitutes?)\s+(?:to|for|of)\s+(.+)$/i,
+  /\b(?:similar\s+to|instead\s+of|compared\s+to)\s+(.+)$/i,
+  /(?:^|\b(?:tools?|apps?|software|something|anything|products?|platforms?|services?|sites?|websites?|resources?|options?|ones?)\s+)like\s+(.+)$/i,
+  /^(.+?)\s+(?:alternatives?|replacements?|competitors?)\b/i,
+  /^(.+?)\s+(?:vs\.?|versus)\b/i,
+];
+
+/** Minimum name similarity for a fuzzy target match ("figam" → Figma) */
+const TARGET_SIMILARITY_THRESHOLD = 0.8;
+
+/** Similarity at or above which the top comparison result counts as a strong match */
+const HIGH_SIMILARITY = 0.2;
+
+/**
+ * Extract the comparison target from a query
+ */
+export function parseComparisonQuery(query: string): ComparisonQuery | null {
+  const normalized = query.trim().replace(/[?!.]+$/, '');
+  for (const pattern of COMPARISON_PATTERNS) {
+    const match = normalized.match(pattern);
+    const target = match?.[1]
+      .replace(/^(?:free|paid|open\s*source|cheap|cheaper|better|good|best)\s+/i, '')
+      .trim();
+    if (target) return { target };
+  }
+  return null;
+}
+
+/**
+ * Resolve a product name to a resource, exactly or with a small typo
+ */
+export function findResourceByName(
+  resources: NormalizedResource[],
+  name: string
+): NormalizedResource | null {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const exact = resources.find(r => r.name.toLowerCase() === normalized);
+  if (exact) return exact;
+
+  let best: NormalizedResource | null = null;
+  let bestRatio = TARGET_SIMILARITY_THRESHOLD;
+  for (const resource of resources) {
+    const ratio = similarityRatio(resource.name.toLowerCase(), normalized);
+    if (ratio >= bestRatio) {
+      best = resource;
+      bestRatio = ratio;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse a comparison query and resolve its target to a resource
+ *
+ * Trailing words are dropped until a name matches, so
+ * "alternatives to figma for teams" still resolves to Figma.
+ */
+export function resolveComparisonTarget(
+  resources: NormalizedResource[],
+  query: string
+): NormalizedResource | null {
+  const comparison = parseComparisonQuery(query);
+  if (!comparison) return null;
+
+  const words = comparison.target.split(/\s+/);
+  for (let length = words.length; length > 0; length--) {
+    const resource = findResourceByName(resources, words.slice(0, length).join(' '));
+    if (resource) return resource;
+  }
+  return null;
+}
+
+/**
+ * Rank resources by similarity to a target resource
+ *
+ * Hard filters narrow the pool first (e.g. "free alternatives to Figma").
+ * Shared tags are returned as concept spans for highlighting.
+ */
+export function compareSearch(
+  resources: NormalizedResource[],
+  index: VectorIndex,
+  target: NormalizedResource,
+  options: { hardFilters?: HardFilters; maxResults?: number; query?: string } = {}
+): SearchResponse {
+  const { hardFilters, maxResults = 50, query = target.name } = options;
+  const pool = applyHardFilters(resources, hardFilters);
+  const similar = findSimilarResources(index, target.id, pool, { limit: maxResults });
+  const targetTags = new Set((target.tags ?? []).map(t => t.toLowerCase()));
+
+  const results = similar.map(({ resource, similarity }) => {
+    const matches: MatchSpan[] = [];
+    resource.tags?.forEach((tag, tagIndex) => {
+      if (!targetTags.has(tag.toLowerCase())) return;
+      const span = findSpan(tag, tag, 'tags', 'concept', { tagIndex });
+      if (span) matches.push(span);
+    });
+
+    const shared = getSharedTerms(index, target.id, resource.id)
+      .filter(term => !term.startsWith('sub:'));
+    return {
+      resource,
+      score: Math.round(similarity * 1000) / 10,
+      matchReasons: [
+        'similar to ' + target.name,
+        ...(shared.length > 0 ? ['shares: ' + shared.join(', ')] : []),
+      ],
+      matches,
+    };
+  });
+
+  const quality: MatchQuality =
+    results.length === 0 ? 'fallback' : similar[0].similarity >= HIGH_SIMILARITY ? 'high' : 'medium';
+
+  return {
+    results,
+    metadata: {
+      quality,
+      totalResults: results.length,
+      detectedConcepts: [],
+      expandedTerms: [],
+      matchedCategory: null,
+      matchedPricing: null,
+      originalQuery: query,
+      directMatchCount: results.length,
+      filteredPoolSize: pool.length,
+      appliedFilters: hardFilters,
+      comparisonTarget: target.name,
+      facets: computeFacetCounts(results.map(r => r.resource)),
+    },
+  };
+}
+
+/** Resources shown side by side on the compare page */
+export const MIN_COMPARE_RESOURCES = 2;
+export const MAX_COMPARE_RESOURCES = 4;
+
+/**
+ * Parse the compare page's `ids` parameter ("1,5,9")
+ *
+ * Unknown, repeated and malformed ids are dropped; at most
+ * MAX_COMPARE_RESOURCES are kept, in the order given.
+ */
+export function parseCompareIds(value: string | null, resources: NormalizedResource[]): number[] {
+  if (!value) return [];
+  const known = new Set(resources.map(r => r.id));
+  const ids: number[] = [];
+  for (const part of value.split(',')) {
+    const id = Number(part.trim());
+    if (/^\d+$/.test(part.trim()) && known.has(id) && !ids.includes(id)) ids.push(id);
+  }
+  return ids.slice(0, MAX_COMPARE_RESOURCES);
+}
+
+/**
+ * URL of the compare page; the pinned resource is shown first and can't be removed
+ */
+export function buildCompareUrl(ids: number[], pinnedId?: number): string {
+  const ordered = pinnedId !== undefined ? [pinnedId, ...ids.filter(id => id !== pinnedId)] : ids;
+  const params = new URLSearchParams({ ids: ordered.slice(0, MAX_COMPARE_RESOURCES).join(',') });
+  if (pinnedId !== undefined) params.set('pin', String(pinnedId));
+  // Commas read better than %2C in a shareable URL
+  return `/compare?${params.toString().replace(/%2C/g, ',')}`;
+}
+
+/**
+ * Compare page URL for a comparison search: the target next to its top alternatives
+ *
+ * Returns null unless there is at least one alternative to compare against.
+ */
+export function getComparisonUrl(target: NormalizedResource, alternatives: NormalizedResource[]): string | null {
+  const ids = alternatives
+    .filter(r => r.id !== target.id)
+    .slice(0, MAX_COMPARE_RESOURCES - 1)
+    .map(r => r.id);
+  return ids.length >= MIN_COMPARE_RESOURCES - 1 ? buildCompareUrl(ids, target.id) : null;
+}
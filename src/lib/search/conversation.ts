@@ -0,0 +1,225 @@
+/**
+ * Conversational Search Refinement
+ *
+ * Keeps the state of a search conversation in InspoChat so follow-ups
+ * build on the previous search instead of starting over:
+ *
+ *   "AI image tools"      → AI image tools
+ *   "only the free ones"  → + pricing: Free
+ *   "now show open source"→ + opensource
+ *   "any price"           → - pricing
+ *
+ * The LLM decides for itself whether a follow-up refines the conversation
+ * (ParsedQuery.refinesPrevious). Without it, the heuristics here decide,
+ * and the fallback parse is merged into the previous turn locally.
+ */
+
+import {
+  CATEGORY_NAMES,
+  CATEGORY_ALIAS_MAP,
+  PRICING_KEYWORD_MAP,
+} from '../../data/taxonomy';
+import {
+  MAX_PRIOR_TURNS,
+  MAX_QUERY_LENGTH,
+  type ParsedQuery,
+  type ParsedQueryFilters,
+  type ParsedQueryTurn,
+} from './parsed-query-schema';
+import type { HardFilters } from './semantic-search';
+
+/**
+ * One search in a conversation
+ */
+export interface ConversationTurn {
+  /** The message as typed */
+  query: string;
+  /** The search state after this turn (merged with earlier turns when refining) */
+  parsedQuery: ParsedQuery;
+  /** Free text that was searched */
+  searchText: string;
+  /** LLM concepts used for soft matching, carried into refinements */
+  llmConcepts?: string[];
+  resultCount: number;
+  /** Whether this turn refined the previous one */
+  isRefinement: boolean;
+}
+
+export interface SearchConversation {
+  turns: ConversationTurn[];
+}
+
+/** Turns kept in memory (older turns stop being shown or sent) */
+export const MAX_CONVERSATION_TURNS = 8;
+
+/**
+ * Phrases that remove a constraint, by the filters they clear
+ */
+const REMOVAL_PATTERNS: { pattern: RegExp; filters: (keyof ParsedQueryFilters)[] }[] = [
+  {
+    pattern: /\b(?:start over|reset|clear (?:all |the )?filters|remove (?:all )?filters|no filters)\b/,
+    filters: ['pricing', 'categories', 'subCategories', 'minGravityScore', 'maxGravityScore', 'tags', 'featured', 'opensource'],
+  },
+  {
+    pattern: /\b(?:any|all|whatever) (?:price|prices|pricing|cost)\b|\bregardless of (?:price|pricing|cost)\b|\b(?:free or paid|paid or free)\b|\bdon'?t care (?:about|what) (?:the )?(?:price|pricing|cost)\b/,
+    filters: ['pricing'],
+  },
+  { pattern: /\b(?:any|all) sub-?categor(?:y|ies)\b/, filters: ['subCategories'] },
+  { pattern: /\b(?:any|all) categor(?:y|ies)\b/, filters: ['categories', 'subCategories'] },
+  {
+    pattern: /\b(?:any|all) (?:ratings?|scores?)\b|\bregardless of (?:rating|score)\b/,
+    filters: ['minGravityScore', 'maxGravityScore'],
+  },
+  { pattern: /\b(?:any|all) tags?\b/, filters: ['tags'] },
+  {
+    pattern: /\bclosed[- ]source\b|\bnot (?:only |just )?open[- ]?source\b|\bdoes(?:n'?t| not) (?:need to|have to) be open[- ]?source\b|\bany licen[cs]e\b/,
+    filters: ['opensource'],
+  },
+  { pattern: /\bnot (?:only |just )?featured\b|\bnon-featured\b/, filters: ['featured'] },
+];
+
+/** Openers that mark a message as building on the previous one */
+const REFINEMENT_OPENER = /^(?:only|just|now|and|also|but|plus|what about|how about|instead|make (?:it|them|those)|show (?:me )?(?:only|just)|with|without|except|exclude|include|same|narrow|limit|filter)\b/;
+
+/** References back to the previous results */
+const REFERENCE_WORDS = /\b(?:ones|them|those|these)\b/;
+
+/** Words that carry no search meaning in a follow-up */
+const FILLER_WORDS = new Set([
+  'only', 'just', 'now', 'and', 'also', 'but', 'plus', 'what', 'about', 'how', 'instead', 'make', 'show',
+  'me', 'the', 'ones', 'one', 'them', 'those', 'these', 'it', 'that', 'are', 'is', 'be', 'with', 'please',
+  'any', 'all', 'same', 'narrow', 'limit', 'filter', 'to', 'down', 'which', 'a', 'an', 'of', 'can', 'you',
+  'rated', 'rating', 'score', 'over', 'under', 'above', 'below', 'at', 'least', 'most', 'greater', 'less',
+  'than', 'tool', 'tools', 'app', 'apps', 'resource', 'resources', 'open', 'source', 'oss', 'featured',
+  'premium', 'free', 'freemium', 'paid',
+]);
+
+/** Category and pricing words, which the fallback parse turns into filters */
+const FILTER_WORDS = new Set(
+  [
+    ...CATEGORY_NAMES,
+    ...Object.values(CATEGORY_ALIAS_MAP).flat(),
+    ...Object.values(PRICING_KEYWORD_MAP).flat(),
+  ].flatMap(phrase => phrase.toLowerCase().split(/\s+/))
+);
+
+/**
+ * The filters a follow-up asks to remove ("any price" → pricing)
+ */
+export function detectFilterRemovals(query: string): (keyof ParsedQueryFilters)[] {
+  const normalized = query.toLowerCase();
+  const removed = new Set<keyof ParsedQueryFilters>();
+  for (const { pattern, filters } of REMOVAL_PATTERNS) {
+    if (pattern.test(normalized)) filters.forEach(filter => removed.add(filter));
+  }
+  return Array.from(removed);
+}
+
+/**
+ * Text in a follow-up beyond refinement words, filters and removals
+ * ("only the free ones" → "", "now with templates for video" → "templates for video")
+ */
+export function getRefinementText(query: string): string {
+  let text = query.toLowerCase();
+  for (const { pattern } of REMOVAL_PATTERNS) {
+    text = text.replace(new RegExp(pattern.source, 'g'), ' ');
+  }
+  const words = text
+    .replace(/\d+(?:\.\d+)?\+?/g, ' ')
+    .split(/[^a-z0-9'-]+/)
+    .filter(word => word && !FILLER_WORDS.has(word) && !FILTER_WORDS.has(word));
+
+  // Drop connecting words left dangling at either end ("for video" stays, "for" alone doesn't)
+  while (words.length > 0 && ['for', 'in', 'on', 'or'].includes(words[0])) words.shift();
+  while (words.length > 0 && ['for', 'in', 'on', 'or'].includes(words[words.length - 1])) words.pop();
+  return words.join(' ');
+}
+
+/**
+ * Whether a message reads as a refinement of the previous search
+ *
+ * True for refinement openers ("only…", "now…", "what about…"), references
+ * to the previous results ("…the free ones"), removals ("any price") and
+ * messages made only of filters ("free", "rated over 9").
+ */
+export function isRefinementQuery(query: string): boolean {
+  const normalized = query.toLowerCase().trim();
+  if (!normalized) return false;
+  return (
+    REFINEMENT_OPENER.test(normalized) ||
+    REFERENCE_WORDS.test(normalized) ||
+    detectFilterRemovals(normalized).length > 0 ||
+    getRefinementText(normalized) === ''
+  );
+}
+
+/**
+ * Merge a follow-up parse into the previous search state
+ *
+ * Filters the follow-up sets replace the previous values ("only the paid
+ * ones" after "free" switches pricing); removals clear them. Concepts carry
+ * over, plus any new text in the follow-up.
+ */
+export function mergeRefinement(previous: ParsedQuery, followUp: ParsedQuery, query: string): ParsedQuery {
+  const filters: ParsedQueryFilters = { ...previous.filters, ...followUp.filters };
+  for (const filter of detectFilterRemovals(query)) {
+    delete filters[filter];
+  }
+
+  const refinementText = getRefinementText(query);
+  const concepts = refinementText && !previous.concepts.includes(refinementText)
+    ? [...previous.concepts, refinementText]
+    : previous.concepts;
+
+  const comparisonTarget = followUp.comparisonTarget ?? previous.comparisonTarget;
+
+  return {
+    intent: followUp.intent === 'compare' ? 'compare' : previous.intent,
+    filters,
+    concepts,
+    semanticTerms: previous.semanticTerms,
+    confidence: followUp.confidence,
+    ...(comparisonTarget ? { comparisonTarget } : {}),
+    refinesPrevious: true,
+  };
+}
+
+/**
+ * The latest turn, if the conversation has one
+ */
+export function getLatestTurn(conversation: SearchConversation | null | undefined): ConversationTurn | null {
+  return conversation?.turns[conversation.turns.length - 1] ?? null;
+}
+
+/**
+ * Prior turns in the shape the parse endpoint accepts
+ */
+export function getPriorTurns(conversation: SearchConversation | null | undefined): ParsedQueryTurn[] {
+  return (conversation?.turns ?? [])
+    .slice(-MAX_PRIOR_TURNS)
+    // Turns resolved locally were never length-checked; the endpoint rejects long ones
+    .map(turn => ({ query: turn.query.slice(0, MAX_QUERY_LENGTH), filters: turn.parsedQuery.filters }));
+}
+
+/**
+ * Add a turn; a turn that doesn't refine the previous one starts a new conversation
+ */
+export function appendTurn(conversation: SearchConversation | null | undefined, turn: ConversationTurn): SearchConversation {
+  const previous = turn.isRefinement ? conversation?.turns ?? [] : [];
+  return { turns: [...previous, turn].slice(-MAX_CONVERSATION_TURNS) };
+}
+
+/**
+ * Short human-readable filter descriptions ("Free resources", "rated 9+", "in AI")
+ */
+export function describeFilters(filters: HardFilters): string[] {
+  const parts: string[] = [];
+  if (filters.pricing?.length) parts.push(`${filters.pricing.join(' or ')} resources`);
+  if (filters.minGravityScore !== undefined) parts.push(`rated ${filters.minGravityScore}+`);
+  if (filters.maxGravityScore !== undefined) parts.push(`rated under ${filters.maxGravityScore}`);
+  if (filters.categories?.length) parts.push(`in ${filters.categories.join(', ')}`);
+  if (filters.subCategories?.length) parts.push(filters.subCategories.join(', '));
+  if (filters.opensource) parts.push('open source');
+  if (filters.featured) parts.push('featured');
+  return parts;
+}
@@ -0,0 +1,71 @@
+/**
+ * Facet Counts
+ *
+ * How a set of resources breaks down by category, subcategory, pricing,
+ * score tier, featured and open source - "AI (12) · Tools (7)" for the
+ * current search. semanticSearch returns them in its metadata, and the
+ * table view counts its own filtered rows with the same helper.
+ */
+
+import type { NormalizedResource } from '../../types/resource';
+
+/**
+ * Gravity score bands, highest first (the table's rating filter)
+ */
+export const SCORE_TIERS = [
+  { value: '9-10', min: 9 },
+  { value: '8-9', min: 8 },
+  { value: '7-8', min: 7 },
+  { value: '6-7', min: 6 },
+  { value: 'below-6', min: 0 },
+] as const;
+
+export type ScoreTier = (typeof SCORE_TIERS)[number]['value'];
+
+export interface FacetCounts {
+  category: Record<string, number>;
+  subCategory: Record<string, number>;
+  pricing: Record<string, number>;
+  scoreTier: Record<string, number>;
+  /** Resources that are featured */
+  featured: number;
+  /** Resources that are open source */
+  opensource: number;
+}
+
+/**
+ * Score tier a gravity score falls in
+ */
+export function getScoreTier(score: number): ScoreTier {
+  return (SCORE_TIERS.find(tier => score >= tier.min) ?? SCORE_TIERS[SCORE_TIERS.length - 1]).value;
+}
+
+/**
+ * Count resources per facet value
+ *
+ * Resources without a category, subcategory or pricing are left out of
+ * that facet rather than counted under an empty value.
+ */
+export function computeFacetCounts(resources: NormalizedResource[]): FacetCounts {
+  const counts: FacetCounts = {
+    category: {},
+    subCategory: {},
+    pricing: {},
+    scoreTier: {},
+    featured: 0,
+    opensource: 0,
+  };
+  const add = (facet: Record<string, number>, value: string | null) => {
+    if (value) facet[value] = (facet[value] ?? 0) + 1;
+  };
+
+  for (const resource of resources) {
+    add(counts.category, resource.category);
+    add(counts.subCategory, resource.subCategory);
+    add(counts.pricing, resource.pricing);
+    add(counts.scoreTier, getScoreTier(resource.gravityScore));
+    if (resource.featured) counts.featured++;
+    if (resource.opensource) counts.opensource++;
+  }
+  return counts;
+}
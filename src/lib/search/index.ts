@@ -10,6 +10,7 @@ export {
   quickSearch,
   getSuggestions,
   applyHardFilters,
+  hasActiveFilters,
   type ScoredResult,
   type MatchQuality,
   type SearchMetadata,
@@ -18,6 +19,42 @@ export {
   type HardFilters,
 } from './semantic-search';
 
+// Facet counts for the current results
+export {
+  computeFacetCounts,
+  getScoreTier,
+  SCORE_TIERS,
+  type FacetCounts,
+  type ScoreTier,
+} from './facets';
+
+// "Did you mean" corrections for weak matches
+export {
+  getSpellingCorrection,
+  buildVocabulary,
+} from './spell-correction';
+
+// Typeahead completions for the search modal
+export {
+  getTypeaheadSuggestions,
+  type TypeaheadSuggestion,
+  type SuggestionKind,
+} from './typeahead';
+
+// Match spans for highlighting
+export {
+  findSpan,
+  findLiteralMatches,
+  getFieldSpans,
+  splitHighlightSegments,
+  getDescriptionSnippet,
+  type MatchSpan,
+  type MatchKind,
+  type MatchField,
+  type HighlightSegment,
+  type MatchSnippet,
+} from './match-spans';
+
 // AI response generation
 export {
   generateAIResponse,
@@ -65,9 +102,42 @@ export {
   classifyQueryComplexity,
   isSimpleQuery,
   isComplexQuery,
+  getKnownToolNames,
+  COMPLEXITY_THRESHOLD,
   type QueryClassification,
+  type ClassificationDebug,
+  type ClassifierSignal,
+  type ClassifyOptions,
 } from './query-classifier';
 
+export {
+  parseQueryOperators,
+  hasQueryOperators,
+  resolveOperatorKey,
+  type OperatorQuery,
+  type QueryOperator,
+  type QueryOperatorKey,
+  type QueryOperatorError,
+} from './query-operators';
+
+// Local vector index and compare-intent search
+export {
+  buildVectorIndex,
+  findSimilarResources,
+  cosineSimilarity,
+  type VectorIndex,
+  type SparseVector,
+  type SimilarResource,
+} from './vector-index';
+
+export {
+  compareSearch,
+  parseComparisonQuery,
+  resolveComparisonTarget,
+  findResourceByName,
+  type ComparisonQuery,
+} from './compare-search';
+
 export {
   parseQueryWithLLM,
   createFallbackParse,
@@ -5,40 +5,17 @@
  * filters and semantic concepts for intelligent search.
  */
 
-/**
- * Parsed query structure returned by the LLM
- */
-export interface ParsedQuery {
-  /** The intent behind the query */
-  intent: 'filter' | 'find' | 'compare' | 'explore' | 'recommend';
-
-  /** Hard filters that must match exactly */
-  filters: {
-    pricing?: ('Free' | 'Freemium' | 'Paid' | 'Pay per use')[];
-    categories?: string[];
-    subCategories?: string[];
-    minGravityScore?: number;
-    maxGravityScore?: number;
-    tags?: string[];
-    featured?: boolean;
-    opensource?: boolean;
-  };
-
-  /** Semantic concepts extracted for soft matching */
-  concepts: string[];
-
-  /** Original semantic terms for fallback matching */
-  semanticTerms: string[];
-
-  /** Confidence level of the parse */
-  confidence: 'high' | 'medium' | 'low';
-
-  /** For comparison queries - the tool being compared against */
-  comparisonTarget?: string;
-
-  /** Human-readable explanation of what the query is asking for */
-  explanation?: string;
-}
+import { CATEGORY_NAMES, describeTaxonomyForPrompt } from '../../data/taxonomy';
+import {
+  validateParsedQuery,
+  formatParsedQueryIssue,
+  type ParsedQuery,
+  type ParsedQueryIssue,
+  type ParsedQueryTurn,
+} from './parsed-query-schema';
+import { isRefinementQuery, mergeRefinement } from './conversation';
+
+export type { ParsedQuery, ParsedQueryIssue };
 
 /**
  * The system prompt for Claude to parse search queries
@@ -46,9 +23,7 @@ export interface ParsedQuery {
 const QUERY_PARSER_SYSTEM_PROMPT = `You are a search query parser for a design tool directory. Your job is to understand user queries and extract structured filters and semantic concepts.
 
 Available data fields to filter on:
-- category: "Tools", "AI", "Templates", "Learning", "Inspiration", "Community"
-- subCategory: "Design", "Development", "Productivity", "Generative", "Assets", "Guides", "Galleries", etc.
-- pricing: "Free", "Freemium", "Paid", "Pay per use"
+${describeTaxonomyForPrompt()}
 - gravityScore: 7.5 to 9.8 (higher = more important/popular, like a rating)
 - tags: design, prototyping, ai, video, animation, icons, collaboration, react, etc.
 - featured: true/false
@@ -99,121 +74,79 @@ Now parse: "${query}"`;
 
 /**
  * Parse a query using the Claude API via the Edge Function
+ *
+ * In a conversation, the prior turns go along so the model can merge a
+ * follow-up into them; the fallback parse merges into `previous` locally.
  */
-export async function parseQueryWithLLM(query: string): Promise<ParsedQuery> {
+export async function parseQueryWithLLM(
+  query: string,
+  conversation?: { turns: ParsedQueryTurn[]; previous: ParsedQuery }
+): Promise<ParsedQuery> {
   try {
     const response = await fetch('/api/search/parse-query', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ query }),
+      body: JSON.stringify(conversation?.turns.length ? { query, turns: conversation.turns } : { query }),
     });
 
     if (!response.ok) {
       throw new Error(`API error: ${response.status}`);
     }
 
-    const parsed: ParsedQuery = await response.json();
-
-    // Validate and sanitize the response
-    return sanitizeParsedQuery(parsed);
+    // Validate against the shared schema (see parsed-query-schema.ts)
+    return parseEndpointResponse(await response.json());
   } catch (error) {
     if (import.meta.env.DEV) {
       console.warn('LLM query parsing failed, using fallback:', error);
     }
-    return createFallbackParse(query);
+    return createFallbackParse(query, conversation?.previous);
   }
 }
 
 /**
- * Sanitize and validate the parsed query from LLM
+ * Validate the endpoint's response against the shared ParsedQuery schema
+ *
+ * Response metadata (cached, issues reported by the server, error) is kept
+ * out of validation. Anything invalid is removed and reported alongside
+ * the server's issues.
  */
-function sanitizeParsedQuery(parsed: Partial<ParsedQuery>): ParsedQuery {
-  // Ensure valid intent
-  const validIntents = ['filter', 'find', 'compare', 'explore', 'recommend'] as const;
-  const intent = validIntents.includes(parsed.intent as typeof validIntents[number])
-    ? (parsed.intent as ParsedQuery['intent'])
-    : 'find';
-
-  // Sanitize filters
-  const filters: ParsedQuery['filters'] = {};
-
-  if (parsed.filters) {
-    // Validate pricing
-    if (Array.isArray(parsed.filters.pricing)) {
-      const validPricing = ['Free', 'Freemium', 'Paid', 'Pay per use'];
-      filters.pricing = parsed.filters.pricing.filter(p =>
-        validPricing.includes(p)
-      ) as ParsedQuery['filters']['pricing'];
-    }
-
-    // Validate categories
-    if (Array.isArray(parsed.filters.categories)) {
-      const validCategories = ['Tools', 'AI', 'Templates', 'Learning', 'Inspiration', 'Community'];
-      filters.categories = parsed.filters.categories.filter(c =>
-        validCategories.includes(c)
-      );
-    }
-
-    // Validate subCategories (allow any string, just ensure it's an array)
-    if (Array.isArray(parsed.filters.subCategories)) {
-      filters.subCategories = parsed.filters.subCategories.filter(s => typeof s === 'string');
-    }
-
-    // Validate gravity scores
-    if (typeof parsed.filters.minGravityScore === 'number') {
-      filters.minGravityScore = Math.max(0, Math.min(10, parsed.filters.minGravityScore));
-    }
-    if (typeof parsed.filters.maxGravityScore === 'number') {
-      filters.maxGravityScore = Math.max(0, Math.min(10, parsed.filters.maxGravityScore));
-    }
-
-    // Validate tags
-    if (Array.isArray(parsed.filters.tags)) {
-      filters.tags = parsed.filters.tags.filter(t => typeof t === 'string');
-    }
-
-    // Boolean flags
-    if (typeof parsed.filters.featured === 'boolean') {
-      filters.featured = parsed.filters.featured;
-    }
-    if (typeof parsed.filters.opensource === 'boolean') {
-      filters.opensource = parsed.filters.opensource;
-    }
+function parseEndpointResponse(body: unknown): ParsedQuery {
+  const { cached, issues: serverIssues, error: _error, ...output } =
+    (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const { value, issues } = validateParsedQuery(output);
+
+  const allIssues = [...(Array.isArray(serverIssues) ? (serverIssues as ParsedQueryIssue[]) : []), ...issues];
+  if (issues.length > 0 && import.meta.env.DEV) {
+    console.warn('Parse response failed validation:', issues.map(formatParsedQueryIssue));
   }
 
-  // Ensure arrays for concepts and semanticTerms
-  const concepts = Array.isArray(parsed.concepts)
-    ? parsed.concepts.filter(c => typeof c === 'string')
-    : [];
-
-  const semanticTerms = Array.isArray(parsed.semanticTerms)
-    ? parsed.semanticTerms.filter(t => typeof t === 'string')
-    : [];
-
-  // Validate confidence
-  const validConfidence = ['high', 'medium', 'low'] as const;
-  const confidence = validConfidence.includes(parsed.confidence as typeof validConfidence[number])
-    ? (parsed.confidence as ParsedQuery['confidence'])
-    : 'medium';
-
   return {
-    intent,
-    filters,
-    concepts,
-    semanticTerms,
-    confidence,
-    comparisonTarget: typeof parsed.comparisonTarget === 'string' ? parsed.comparisonTarget : undefined,
-    explanation: typeof parsed.explanation === 'string' ? parsed.explanation : undefined,
+    ...value,
+    ...(typeof cached === 'boolean' ? { cached } : {}),
+    ...(allIssues.length > 0 ? { issues: allIssues } : {}),
   };
 }
 
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
  * Create a fallback parse when LLM is unavailable
  * Uses simple heuristics to extract basic filters
+ *
+ * Given the previous search state, a follow-up that reads as a refinement
+ * ("only the free ones", "any price") is merged into it.
  */
-export function createFallbackParse(query: string): ParsedQuery {
+export function createFallbackParse(query: string, previous?: ParsedQuery): ParsedQuery {
+  if (previous && isRefinementQuery(query)) {
+    // "tools" in a follow-up ("only free tools") refers to the results, not the Tools category
+    const followUp = createFallbackParse(query.replace(/\b(?:tools?|apps?)\b/gi, ' '));
+    return mergeRefinement(previous, followUp, query);
+  }
+
   const normalizedQuery = query.toLowerCase();
   const filters: ParsedQuery['filters'] = {};
   const concepts: string[] = [];
@@ -257,6 +190,14 @@ export function createFallbackParse(query: string): ParsedQuery {
     filters.categories = ['Templates'];
   } else if (/\bcommunity\b/.test(normalizedQuery)) {
     filters.categories = ['Community'];
+  } else {
+    // Any other category defined in the taxonomy, matched by name
+    const named = CATEGORY_NAMES.find(name =>
+      new RegExp('\\b' + escapeRegExp(name.toLowerCase()) + 's?\\b').test(normalizedQuery)
+    );
+    if (named) {
+      filters.categories = [named];
+    }
   }
 
   // Detect comparison intent
@@ -0,0 +1,220 @@
+/**
+ * Match Spans for Search Highlighting
+ *
+ * Structured "what matched where" data attached to each ScoredResult, plus
+ * helpers the UI uses to highlight names/tags and build a description
+ * snippet around the best match.
+ */
+
+/**
+ * How a span matched the query
+ * - exact: the query (or a query term) appears verbatim
+ * - prefix: the field starts with the query
+ * - fuzzy: typo-tolerant match
+ * - synonym: a synonym or category alias of a query term matched
+ * - concept: a detected or LLM-extracted concept matched
+ */
+export type MatchKind = 'exact' | 'prefix' | 'fuzzy' | 'synonym' | 'concept';
+
+export type MatchField = 'name' | 'description' | 'tags' | 'category' | 'subCategory';
+
+/**
+ * A matched character range within a resource field
+ */
+export interface MatchSpan {
+  field: MatchField;
+  /** Start offset (inclusive) in the field value */
+  start: number;
+  /** End offset (exclusive) in the field value */
+  end: number;
+  kind: MatchKind;
+  /** Index into resource.tags when field is 'tags' */
+  tagIndex?: number;
+}
+
+/**
+ * A run of text that is either plain or highlighted
+ */
+export interface HighlightSegment {
+  text: string;
+  /** Match kind for highlighted segments, null for plain text */
+  kind: MatchKind | null;
+}
+
+/**
+ * A description excerpt centred on the best match
+ */
+export interface MatchSnippet {
+  text: string;
+  /** Spans rebased onto `text` */
+  spans: MatchSpan[];
+}
+
+/** Stronger kinds win when spans overlap and when picking the snippet anchor */
+const KIND_PRIORITY: Record<MatchKind, number> = {
+  exact: 5,
+  prefix: 4,
+  synonym: 3,
+  concept: 2,
+  fuzzy: 1,
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the first occurrence of `term` in `text` (case-insensitive)
+ *
+ * With `wordStart`, the match must begin at a word boundary so short terms
+ * like "ai" don't highlight the middle of "maintain".
+ */
+export function findSpan(
+  text: string,
+  term: string,
+  field: MatchField,
+  kind: MatchKind,
+  options: { wordStart?: boolean; tagIndex?: number } = {}
+): MatchSpan | null {
+  const needle = term.trim();
+  if (!needle) return null;
+
+  let start: number;
+  if (options.wordStart) {
+    const match = new RegExp('\\b' + escapeRegExp(needle), 'i').exec(text);
+    start = match ? match.index : -1;
+  } else {
+    start = text.toLowerCase().indexOf(needle.toLowerCase());
+  }
+  if (start === -1) return null;
+
+  const span: MatchSpan = { field, start, end: start + needle.length, kind };
+  if (options.tagIndex !== undefined) span.tagIndex = options.tagIndex;
+  return span;
+}
+
+/**
+ * Spans for one field (and tag), sorted and with overlaps merged
+ */
+export function getFieldSpans(
+  matches: MatchSpan[] | undefined,
+  field: MatchField,
+  tagIndex?: number
+): MatchSpan[] {
+  const spans = (matches ?? [])
+    .filter(m => m.field === field && (tagIndex === undefined || m.tagIndex === tagIndex))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const merged: MatchSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+      if (KIND_PRIORITY[span.kind] > KIND_PRIORITY[last.kind]) last.kind = span.kind;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Split text into plain and highlighted segments
+ */
+export function splitHighlightSegments(text: string, spans: MatchSpan[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  for (const span of spans) {
+    const start = Math.max(cursor, Math.min(span.start, text.length));
+    const end = Math.min(span.end, text.length);
+    if (end <= start) continue;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), kind: null });
+    segments.push({ text: text.slice(start, end), kind: span.kind });
+    cursor = end;
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), kind: null });
+  return segments;
+}
+
+/**
+ * Build a short description excerpt around the strongest description match
+ *
+ * Falls back to the start of the description when nothing in it matched.
+ * Cuts on word boundaries and marks truncation with an ellipsis.
+ */
+export function getDescriptionSnippet(
+  description: string | null,
+  matches: MatchSpan[] | undefined,
+  maxLength = 120
+): MatchSnippet | null {
+  if (!description) return null;
+
+  const spans = getFieldSpans(matches, 'description');
+  if (description.length <= maxLength) {
+    return { text: description, spans };
+  }
+
+  const anchor = spans.reduce<MatchSpan | null>(
+    (best, span) => (!best || KIND_PRIORITY[span.kind] > KIND_PRIORITY[best.kind] ? span : best),
+    null
+  );
+
+  // Centre the window on the anchor, clamped to the description
+  let start = 0;
+  if (anchor) {
+    const centre = Math.floor((anchor.start + anchor.end) / 2);
+    start = Math.max(0, Math.min(centre - Math.floor(maxLength / 2), description.length - maxLength));
+  }
+  let end = Math.min(description.length, start + maxLength);
+
+  // Snap to word boundaries without cutting into the anchor
+  if (start > 0) {
+    const nextSpace = description.indexOf(' ', start);
+    if (nextSpace !== -1 && (!anchor || nextSpace < anchor.start)) start = nextSpace + 1;
+  }
+  if (end < description.length) {
+    const prevSpace = description.lastIndexOf(' ', end);
+    if (prevSpace > start && (!anchor || prevSpace >= anchor.end)) end = prevSpace;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < description.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: prefix + description.slice(start, end) + suffix,
+    spans: spans
+      .filter(span => span.start >= start && span.end <= end)
+      .map(span => ({ ...span, start: span.start + offset, end: span.end + offset })),
+  };
+}
+
+/**
+ * Literal (substring) match spans for a term in a resource's name,
+ * description and tags. Used by views that filter by plain substring
+ * rather than semanticSearch (e.g. the table search box).
+ */
+export function findLiteralMatches(
+  resource: { name: string; description: string | null; tags: string[] | null },
+  term: string
+): MatchSpan[] {
+  const needle = term.trim();
+  if (!needle) return [];
+
+  const matches: MatchSpan[] = [];
+  const nameSpan = findSpan(resource.name, needle, 'name', 'exact');
+  if (nameSpan) {
+    matches.push(nameSpan.start === 0 ? { ...nameSpan, kind: 'prefix' } : nameSpan);
+  }
+  if (resource.description) {
+    const descriptionSpan = findSpan(resource.description, needle, 'description', 'exact');
+    if (descriptionSpan) matches.push(descriptionSpan);
+  }
+  resource.tags?.forEach((tag, tagIndex) => {
+    const tagSpan = findSpan(tag, needle, 'tags', 'exact', { tagIndex });
+    if (tagSpan) matches.push(tagSpan);
+  });
+  return matches;
+}
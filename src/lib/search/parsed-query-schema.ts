@@ -0,0 +1,381 @@
+/**
+ * ParsedQuery Schema
+ *
+ * The single definition of the structured query the LLM produces. Shared by
+ * the parse-query endpoint (which validates model output, retries once with
+ * the issues, and exposes the JSON Schema as the model's tool input) and the
+ * client (which validates the endpoint's response).
+ *
+ * Validation collects every issue instead of silently dropping bad fields:
+ * the returned value contains only valid data, and `issues` says what was
+ * removed or corrected and why.
+ */
+
+import {
+  CATEGORY_NAMES,
+  PRICING_VALUES,
+  getAllSubCategories,
+  normalizeCategoryName,
+  normalizePricingValue,
+  type PricingValue,
+} from '../../data/taxonomy.js';
+
+export const QUERY_INTENTS = ['filter', 'find', 'compare', 'explore', 'recommend'] as const;
+export const CONFIDENCE_LEVELS = ['high', 'medium', 'low'] as const;
+
+export type QueryIntent = (typeof QUERY_INTENTS)[number];
+export type ParseConfidence = (typeof CONFIDENCE_LEVELS)[number];
+
+/** Gravity score bounds accepted in filters */
+export const PARSED_SCORE_MIN = 0;
+export const PARSED_SCORE_MAX = 10;
+
+/**
+ * Hard filters extracted from the query
+ */
+export interface ParsedQueryFilters {
+  pricing?: PricingValue[];
+  categories?: string[];
+  subCategories?: string[];
+  minGravityScore?: number;
+  maxGravityScore?: number;
+  tags?: string[];
+  featured?: boolean;
+  opensource?: boolean;
+}
+
+/**
+ * Parsed query structure returned by the LLM
+ */
+export interface ParsedQuery {
+  /** The intent behind the query */
+  intent: QueryIntent;
+
+  /** Hard filters that must match exactly */
+  filters: ParsedQueryFilters;
+
+  /** Semantic concepts extracted for soft matching */
+  concepts: string[];
+
+  /** Original semantic terms for fallback matching */
+  semanticTerms: string[];
+
+  /** Confidence level of the parse */
+  confidence: ParseConfidence;
+
+  /** For comparison queries - the tool being compared against */
+  comparisonTarget?: string;
+
+  /** Human-readable explanation of what the query is asking for */
+  explanation?: string;
+
+  /**
+   * For follow-ups in a conversation: true when the query refines the
+   * previous search (filters are then the complete, merged set), false
+   * when it starts a new one
+   */
+  refinesPrevious?: boolean;
+
+  /** True when the server answered from its parse cache */
+  cached?: boolean;
+
+  /** Fields the model got wrong that were removed or corrected */
+  issues?: ParsedQueryIssue[];
+}
+
+/**
+ * A single validation issue, e.g. { path: 'filters.categories[1]', message: 'unknown category "Widgets"' }
+ */
+export interface ParsedQueryIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * A prior turn of a search conversation, as sent to the parse endpoint
+ */
+export interface ParsedQueryTurn {
+  query: string;
+  /** Filters in effect after the turn */
+  filters: ParsedQueryFilters;
+}
+
+/** Prior turns beyond this are dropped (oldest first) */
+export const MAX_PRIOR_TURNS = 5;
+
+/** Longest query, current or prior, the parse endpoint accepts */
+export const MAX_QUERY_LENGTH = 1000;
+
+/** Values kept per filter in a prior turn; tags longer than MAX_TAG_LENGTH are dropped */
+export const MAX_TURN_FILTER_VALUES = 10;
+export const MAX_TAG_LENGTH = 50;
+
+export interface ParsedQueryValidationResult {
+  valid: boolean;
+  issues: ParsedQueryIssue[];
+  /** The valid parts of the input; invalid fields removed, defaults filled in */
+  value: ParsedQuery;
+}
+
+/** Name of the tool the model must call with its parse */
+export const PARSE_QUERY_TOOL_NAME = 'parse_search_query';
+
+/**
+ * JSON Schema for the model's tool input (Anthropic `input_schema`,
+ * OpenAI function `parameters`)
+ */
+export const PARSED_QUERY_JSON_SCHEMA = {
+  type: 'object' as const,
+  additionalProperties: false,
+  required: ['intent', 'filters', 'concepts', 'semanticTerms', 'confidence'],
+  properties: {
+    intent: { type: 'string', enum: [...QUERY_INTENTS] },
+    filters: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        pricing: { type: 'array', items: { type: 'string', enum: [...PRICING_VALUES] } },
+        categories: { type: 'array', items: { type: 'string', enum: [...CATEGORY_NAMES] } },
+        subCategories: { type: 'array', items: { type: 'string', enum: getAllSubCategories() } },
+        minGravityScore: { type: 'number', minimum: PARSED_SCORE_MIN, maximum: PARSED_SCORE_MAX },
+        maxGravityScore: { type: 'number', minimum: PARSED_SCORE_MIN, maximum: PARSED_SCORE_MAX },
+        tags: { type: 'array', items: { type: 'string' } },
+        featured: { type: 'boolean' },
+        opensource: { type: 'boolean' },
+      },
+    },
+    concepts: { type: 'array', items: { type: 'string' }, description: 'Semantic concepts for soft matching' },
+    semanticTerms: { type: 'array', items: { type: 'string' }, description: 'Original terms for fallback matching' },
+    confidence: { type: 'string', enum: [...CONFIDENCE_LEVELS] },
+    comparisonTarget: { type: 'string', description: 'For compare intent: the tool to find alternatives to' },
+    explanation: { type: 'string', description: 'Brief explanation' },
+    refinesPrevious: {
+      type: 'boolean',
+      description: 'Follow-ups only: true if the query refines the previous search, false if it starts a new one',
+    },
+  },
+};
+
+const TOP_LEVEL_FIELDS = new Set(Object.keys(PARSED_QUERY_JSON_SCHEMA.properties));
+const FILTER_FIELDS = new Set(Object.keys(PARSED_QUERY_JSON_SCHEMA.properties.filters.properties));
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Validate an array of strings, normalizing each item (null = invalid)
+ */
+function validateStringArray<T extends string>(
+  value: unknown,
+  path: string,
+  issues: ParsedQueryIssue[],
+  normalize: (item: string) => T | null,
+  label: string
+): T[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'expected an array of strings, got ' + formatValue(value) });
+    return undefined;
+  }
+  const valid: T[] = [];
+  value.forEach((item, i) => {
+    if (typeof item !== 'string') {
+      issues.push({ path: `${path}[${i}]`, message: 'expected a string, got ' + formatValue(item) });
+      return;
+    }
+    const normalized = normalize(item);
+    if (normalized === null) {
+      issues.push({ path: `${path}[${i}]`, message: `unknown ${label} "${item}"` });
+    } else if (!valid.includes(normalized)) {
+      valid.push(normalized);
+    }
+  });
+  return valid;
+}
+
+function normalizeSubCategory(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  return getAllSubCategories().find(sub => sub.toLowerCase() === normalized) ?? null;
+}
+
+function validateFilters(value: unknown, issues: ParsedQueryIssue[]): ParsedQueryFilters {
+  const filters: ParsedQueryFilters = {};
+  if (value === undefined) {
+    issues.push({ path: 'filters', message: 'missing' });
+    return filters;
+  }
+  if (!isObject(value)) {
+    issues.push({ path: 'filters', message: 'expected an object, got ' + formatValue(value) });
+    return filters;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!FILTER_FIELDS.has(key)) {
+      issues.push({ path: `filters.${key}`, message: 'unknown filter' });
+    }
+  }
+
+  const set = <K extends keyof ParsedQueryFilters>(key: K, result: ParsedQueryFilters[K] | undefined) => {
+    if (result !== undefined && (!Array.isArray(result) || result.length > 0)) filters[key] = result;
+  };
+
+  if (value.pricing !== undefined) {
+    set('pricing', validateStringArray(value.pricing, 'filters.pricing', issues, normalizePricingValue, 'pricing'));
+  }
+  if (value.categories !== undefined) {
+    set('categories', validateStringArray(value.categories, 'filters.categories', issues, normalizeCategoryName, 'category'));
+  }
+  if (value.subCategories !== undefined) {
+    set('subCategories', validateStringArray(value.subCategories, 'filters.subCategories', issues, normalizeSubCategory, 'subcategory'));
+  }
+  if (value.tags !== undefined) {
+    set('tags', validateStringArray(value.tags, 'filters.tags', issues, tag => tag.trim().toLowerCase() || null, 'tag'));
+  }
+
+  for (const key of ['minGravityScore', 'maxGravityScore'] as const) {
+    const score = value[key];
+    if (score === undefined) continue;
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      issues.push({ path: `filters.${key}`, message: 'expected a number, got ' + formatValue(score) });
+    } else if (score < PARSED_SCORE_MIN || score > PARSED_SCORE_MAX) {
+      const clamped = Math.max(PARSED_SCORE_MIN, Math.min(PARSED_SCORE_MAX, score));
+      issues.push({ path: `filters.${key}`, message: `${score} is outside ${PARSED_SCORE_MIN}-${PARSED_SCORE_MAX}, clamped to ${clamped}` });
+      filters[key] = clamped;
+    } else {
+      filters[key] = score;
+    }
+  }
+
+  for (const key of ['featured', 'opensource'] as const) {
+    const flag = value[key];
+    if (flag === undefined) continue;
+    if (typeof flag !== 'boolean') {
+      issues.push({ path: `filters.${key}`, message: 'expected a boolean, got ' + formatValue(flag) });
+    } else {
+      filters[key] = flag;
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Validate untrusted parse output (model output or an API response)
+ *
+ * Taxonomy values are matched case-insensitively and normalized. Required
+ * fields that are missing or invalid fall back to safe defaults
+ * (intent "find", confidence "medium", empty arrays) and are reported.
+ */
+export function validateParsedQuery(data: unknown): ParsedQueryValidationResult {
+  const issues: ParsedQueryIssue[] = [];
+  if (!isObject(data)) {
+    return {
+      valid: false,
+      issues: [{ path: '(root)', message: 'expected an object, got ' + formatValue(data) }],
+      value: { intent: 'find', filters: {}, concepts: [], semanticTerms: [], confidence: 'medium' },
+    };
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!TOP_LEVEL_FIELDS.has(key)) {
+      issues.push({ path: key, message: 'unknown field' });
+    }
+  }
+
+  let intent: QueryIntent = 'find';
+  if (QUERY_INTENTS.includes(data.intent as QueryIntent)) {
+    intent = data.intent as QueryIntent;
+  } else {
+    issues.push({ path: 'intent', message: `expected one of ${QUERY_INTENTS.join(', ')}, got ${formatValue(data.intent)}` });
+  }
+
+  let confidence: ParseConfidence = 'medium';
+  if (CONFIDENCE_LEVELS.includes(data.confidence as ParseConfidence)) {
+    confidence = data.confidence as ParseConfidence;
+  } else {
+    issues.push({ path: 'confidence', message: `expected one of ${CONFIDENCE_LEVELS.join(', ')}, got ${formatValue(data.confidence)}` });
+  }
+
+  const filters = validateFilters(data.filters, issues);
+
+  const value: ParsedQuery = { intent, filters, concepts: [], semanticTerms: [], confidence };
+
+  for (const key of ['concepts', 'semanticTerms'] as const) {
+    if (data[key] === undefined) {
+      issues.push({ path: key, message: 'missing' });
+      continue;
+    }
+    value[key] = validateStringArray(data[key], key, issues, item => item.trim() || null, 'value') ?? [];
+  }
+
+  for (const key of ['comparisonTarget', 'explanation'] as const) {
+    const text = data[key];
+    if (text === undefined) continue;
+    if (typeof text === 'string') {
+      value[key] = text;
+    } else {
+      issues.push({ path: key, message: 'expected a string, got ' + formatValue(text) });
+    }
+  }
+
+  if (data.refinesPrevious !== undefined) {
+    if (typeof data.refinesPrevious === 'boolean') {
+      value.refinesPrevious = data.refinesPrevious;
+    } else {
+      issues.push({ path: 'refinesPrevious', message: 'expected a boolean, got ' + formatValue(data.refinesPrevious) });
+    }
+  }
+
+  if (intent === 'compare' && !value.comparisonTarget) {
+    issues.push({ path: 'comparisonTarget', message: 'required when intent is "compare"' });
+  }
+
+  return { valid: issues.length === 0, issues, value };
+}
+
+/**
+ * Format an issue as "path: message"
+ */
+export function formatParsedQueryIssue(issue: ParsedQueryIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+/**
+ * Validate prior conversation turns from a request body
+ *
+ * Invalid filter values are dropped silently here: they came from our own
+ * client, and a stale turn shouldn't fail the request. Turns go into the
+ * prompt, so their size is bounded like the query's: a query over
+ * MAX_QUERY_LENGTH is rejected, and filter lists are cut to
+ * MAX_TURN_FILTER_VALUES.
+ *
+ * @returns the most recent MAX_PRIOR_TURNS turns, or null if malformed
+ */
+export function validatePriorTurns(data: unknown): ParsedQueryTurn[] | null {
+  if (!Array.isArray(data)) return null;
+
+  const turns: ParsedQueryTurn[] = [];
+  for (const turn of data.slice(-MAX_PRIOR_TURNS)) {
+    if (!isObject(turn) || typeof turn.query !== 'string' || !turn.query.trim()) return null;
+    if (turn.query.length > MAX_QUERY_LENGTH) return null;
+    turns.push({ query: turn.query.trim(), filters: capTurnFilters(validateFilters(turn.filters ?? {}, [])) });
+  }
+  return turns;
+}
+
+function capTurnFilters(filters: ParsedQueryFilters): ParsedQueryFilters {
+  const capped: ParsedQueryFilters = { ...filters };
+  if (filters.pricing) capped.pricing = filters.pricing.slice(0, MAX_TURN_FILTER_VALUES);
+  if (filters.categories) capped.categories = filters.categories.slice(0, MAX_TURN_FILTER_VALUES);
+  if (filters.subCategories) capped.subCategories = filters.subCategories.slice(0, MAX_TURN_FILTER_VALUES);
+  if (filters.tags) {
+    const tags = filters.tags.filter(tag => tag.length <= MAX_TAG_LENGTH).slice(0, MAX_TURN_FILTER_VALUES);
+    if (tags.length > 0) capped.tags = tags;
+    else delete capped.tags;
+  }
+  return capped;
+}
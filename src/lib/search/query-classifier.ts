@@ -3,161 +3,351 @@
  *
  * Determines whether a query should use local-only search (fast path)
  * or LLM-enhanced search (for complex queries requiring intent parsing).
+ *
+ * Each pattern that suggests the LLM is needed adds to a complexity score
+ * (0-1); the query is complex at COMPLEXITY_THRESHOLD or above. Queries
+ * made only of resource names from the directory ("Figma and Framer",
+ * "Laws of UX") always take the fast path. Pass `debug` to get the
+ * signals and a step-by-step explanation of the routing decision.
  */
 
+import type { NormalizedResource } from '../../types/resource';
+import { resources as directoryResources } from '../../data';
+import { hasQueryOperators } from './query-operators';
+
 /**
- * Patterns that indicate a complex query requiring LLM parsing
+ * Patterns that indicate a complex query requiring LLM parsing,
+ * with how strongly each one suggests the LLM is needed
  */
 const COMPLEX_QUERY_PATTERNS = {
   // Rating/score operators
-  ratingOperators: /\b(over|under|above|below|more\s+than|less\s+than|greater\s+than|at\s+least|at\s+most)\s*\d+/i,
-  ratingKeywords: /\b(top\s*rated|best|highest\s*rated|rating|rated|score|gravity)/i,
+  ratingOperators: {
+    pattern: /\b(over|under|above|below|more\s+than|less\s+than|greater\s+than|at\s+least|at\s+most)\s*\d+/i,
+    reason: 'contains rating operator',
+    weight: 0.9,
+  },
+  ratingKeywords: {
+    pattern: /\b(top\s*rated|best|highest\s*rated|rating|rated|score|gravity)/i,
+    reason: 'contains rating keyword',
+    weight: 0.6,
+  },
 
   // Pricing filters
-  pricingKeywords: /\b(free|freemium|paid|premium|open\s*source|oss|subscription|one-time|lifetime)/i,
+  pricingKeywords: {
+    pattern: /\b(free|freemium|paid|premium|open\s*source|oss|subscription|one-time|lifetime)/i,
+    reason: 'contains pricing keyword',
+    weight: 0.6,
+  },
 
   // Comparison queries
-  comparisonKeywords: /\b(alternative|alternatives|similar\s+to|like|instead\s+of|vs|versus|compared\s+to|replacement)/i,
-
-  // Multi-intent queries (multiple concepts combined)
-  multiIntent: /\b(and|with|for|that|which)\b/i,
+  comparisonKeywords: {
+    pattern: /\b(alternative|alternatives|similar\s+to|like|instead\s+of|vs|versus|compared\s+to|replacement)/i,
+    reason: 'comparison query',
+    weight: 0.8,
+  },
 
   // Explicit filtering language
-  filterLanguage: /\b(only|just|exclusively|show\s+me|find\s+me|give\s+me|looking\s+for)\b/i,
+  filterLanguage: {
+    pattern: /\b(only|just|exclusively|show\s+me|find\s+me|give\s+me|looking\s+for)\b/i,
+    reason: 'explicit filter language',
+    weight: 0.6,
+  },
 
   // Feature-based queries
-  featureQueries: /\b(tools?\s+for|apps?\s+for|resources?\s+for|software\s+for)\b/i,
+  featureQueries: {
+    pattern: /\b(tools?\s+for|apps?\s+for|resources?\s+for|software\s+for)\b/i,
+    reason: 'feature-based query',
+    weight: 0.7,
+  },
 
   // Category combinations
-  categoryPlusModifier: /\b(ai|design|dev|development|learning|community|templates?|inspiration)\s+(tools?|apps?|resources?|platforms?)/i,
+  categoryPlusModifier: {
+    pattern: /\b(ai|design|dev|development|learning|community|templates?|inspiration)\s+(tools?|apps?|resources?|platforms?)/i,
+    reason: 'category with modifier',
+    weight: 0.6,
+  },
 };
 
+/** Multi-intent queries (multiple concepts combined), checked on 4+ words */
+const MULTI_INTENT_PATTERN = /\b(and|with|for|that|which)\b/i;
+const MULTI_INTENT_WEIGHT = 0.6;
+
 /**
  * Patterns that indicate a simple query (fast path)
  */
 const SIMPLE_QUERY_PATTERNS = {
-  // Single tool name (capitalized or known tools)
-  singleToolName: /^[A-Z][a-zA-Z0-9\s]{0,20}$/,
-
   // Very short queries without operators
   veryShort: /^[a-zA-Z]{1,8}$/,
 };
 
+/** Complexity at or above which a query goes to the LLM */
+export const COMPLEXITY_THRESHOLD = 0.5;
+
+/** Complexity of queries with no signals, by word count */
+const BASE_COMPLEXITY = {
+  veryShort: 0.1,
+  simple: 0.2,
+  // 3+ words may be semantic queries like "mood board tools"
+  multiWord: 0.6,
+};
+
+/** Complexity of a query made only of resource names */
+const KNOWN_TOOL_COMPLEXITY = 0.05;
+
+/** Words that can join resource names in a query ("Figma and Framer") */
+const NAME_CONNECTORS = new Set(['and', 'or', 'plus']);
+
+/**
+ * Trailing words people leave off when searching by name
+ * ("Tailwind CSS" → "tailwind", "Lucide Icons" → "lucide")
+ */
+const OPTIONAL_NAME_SUFFIXES = new Set(['css', 'ui', 'icons', 'ai', 'app', 'browser']);
+
+type SuggestedIntent = 'filter' | 'find' | 'compare' | 'explore';
+
+/**
+ * One pattern that pushed a query towards the LLM
+ */
+export interface ClassifierSignal {
+  reason: string;
+  /** Text in the query that matched */
+  match: string;
+  /** How strongly it suggests the LLM is needed, 0-1 */
+  weight: number;
+}
+
 /**
- * Known tool names that should always use fast path
- * (partial list - the search engine handles exact matching)
+ * Why the classifier routed a query the way it did (debug mode)
  */
-const KNOWN_TOOL_NAMES = new Set([
-  'figma',
-  'framer',
-  'webflow',
-  'notion',
-  'linear',
-  'cursor',
-  'claude',
-  'chatgpt',
-  'midjourney',
-  'github',
-  'vercel',
-  'supabase',
-  'tailwind',
-  'react',
-]);
+export interface ClassificationDebug {
+  signals: ClassifierSignal[];
+  /** Resource names the query was made of, if it was only names */
+  knownToolNames: string[];
+  threshold: number;
+  /** The routing decision, step by step */
+  explanation: string[];
+}
 
 export interface QueryClassification {
   isComplex: boolean;
+  /** How likely the query needs the LLM, 0-1 */
+  complexity: number;
+  /** How sure the classifier is of isComplex, 0-1 */
+  confidence: number;
   reasons: string[];
-  suggestedIntent?: 'filter' | 'find' | 'compare' | 'explore';
+  suggestedIntent?: SuggestedIntent;
+  /** Only with the `debug` option */
+  debug?: ClassificationDebug;
+}
+
+export interface ClassifyOptions {
+  /** Resources whose names take the fast path (default: the directory) */
+  resources?: NormalizedResource[];
+  /** Explain the routing decision */
+  debug?: boolean;
 }
 
 /**
- * Classify a search query as simple (local-only) or complex (LLM-enhanced)
+ * Lowercase words of a name or query, punctuation dropped ("DALL-E" → "dall e")
  */
-export function classifyQueryComplexity(query: string): QueryClassification {
-  const normalizedQuery = query.toLowerCase().trim();
-  const reasons: string[] = [];
+function normalizeName(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
 
-  // Empty or very short queries are simple
-  if (!normalizedQuery || normalizedQuery.length < 2) {
-    return { isComplex: false, reasons: ['query too short'] };
-  }
+const knownNamesCache = new WeakMap<NormalizedResource[], Set<string>>();
 
-  // Known tool names are simple
-  if (KNOWN_TOOL_NAMES.has(normalizedQuery)) {
-    return { isComplex: false, reasons: ['known tool name'] };
-  }
+/**
+ * Every way a resource name can be typed: as written, without spaces or
+ * punctuation ("vscode", "dalle"), and without a generic suffix ("tailwind")
+ */
+export function getKnownToolNames(resources: NormalizedResource[]): Set<string> {
+  const cached = knownNamesCache.get(resources);
+  if (cached) return cached;
 
-  // Check for simple patterns first
-  if (SIMPLE_QUERY_PATTERNS.veryShort.test(normalizedQuery) && normalizedQuery.length <= 5) {
-    return { isComplex: false, reasons: ['very short single word'] };
+  const names = new Set<string>();
+  for (const resource of resources) {
+    const name = normalizeName(resource.name);
+    if (!name) continue;
+    names.add(name);
+
+    const words = name.split(' ');
+    if (words.length > 1) {
+      names.add(words.join(''));
+      const withoutSuffix = words.slice(0, -1).join(' ');
+      if (OPTIONAL_NAME_SUFFIXES.has(words[words.length - 1]) && withoutSuffix.length >= 3) {
+        names.add(withoutSuffix);
+      }
+    }
   }
 
-  // Check for complex patterns
-  let suggestedIntent: 'filter' | 'find' | 'compare' | 'explore' | undefined;
+  knownNamesCache.set(resources, names);
+  return names;
+}
 
-  if (COMPLEX_QUERY_PATTERNS.ratingOperators.test(normalizedQuery)) {
-    reasons.push('contains rating operator');
-    suggestedIntent = 'filter';
-  }
+/**
+ * Split a query into resource names joined by connectors
+ *
+ * Returns the names, or null if anything else is in the query.
+ * Longer names win, so "framer motion" isn't read as "framer" + "motion".
+ */
+function matchKnownToolNames(query: string, knownNames: Set<string>): string[] | null {
+  const words = normalizeName(query).split(' ').filter(Boolean);
+  const maxNameWords = 5;
+  const matched: string[] = [];
 
-  if (COMPLEX_QUERY_PATTERNS.ratingKeywords.test(normalizedQuery)) {
-    reasons.push('contains rating keyword');
-    suggestedIntent = suggestedIntent || 'filter';
+  let i = 0;
+  while (i < words.length) {
+    let end = 0;
+    for (let j = Math.min(words.length, i + maxNameWords); j > i; j--) {
+      const span = words.slice(i, j);
+      if (knownNames.has(span.join(' ')) || knownNames.has(span.join(''))) {
+        end = j;
+        break;
+      }
+    }
+
+    if (end > 0) {
+      matched.push(words.slice(i, end).join(' '));
+      i = end;
+    } else if (NAME_CONNECTORS.has(words[i]) && matched.length > 0) {
+      i++;
+    } else {
+      return null;
+    }
   }
 
-  if (COMPLEX_QUERY_PATTERNS.pricingKeywords.test(normalizedQuery)) {
-    reasons.push('contains pricing keyword');
-    suggestedIntent = suggestedIntent || 'filter';
+  return matched.length > 0 ? matched : null;
+}
+
+/**
+ * Combine signal weights: each one closes part of the remaining gap to 1
+ */
+function combineWeights(weights: number[]): number {
+  return 1 - weights.reduce((remaining, weight) => remaining * (1 - weight), 1);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Build a classification, with confidence from the distance to the threshold
+ */
+function buildClassification(
+  complexity: number,
+  reasons: string[],
+  suggestedIntent: SuggestedIntent | undefined,
+  debugInfo: Omit<ClassificationDebug, 'threshold'> | null
+): QueryClassification {
+  const isComplex = complexity >= COMPLEXITY_THRESHOLD;
+  const distance = isComplex
+    ? (complexity - COMPLEXITY_THRESHOLD) / (1 - COMPLEXITY_THRESHOLD)
+    : (COMPLEXITY_THRESHOLD - complexity) / COMPLEXITY_THRESHOLD;
+  const classification: QueryClassification = {
+    isComplex,
+    complexity: round(complexity),
+    confidence: round(distance),
+    reasons,
+  };
+  if (suggestedIntent) classification.suggestedIntent = suggestedIntent;
+
+  if (debugInfo) {
+    classification.debug = {
+      ...debugInfo,
+      threshold: COMPLEXITY_THRESHOLD,
+      explanation: [
+        ...debugInfo.explanation,
+        `complexity ${round(complexity)} ${isComplex ? '>=' : '<'} ${COMPLEXITY_THRESHOLD} → ` +
+          `${isComplex ? 'LLM parse' : 'local search'} (confidence ${round(distance)})`,
+      ],
+    };
   }
+  return classification;
+}
+
+/**
+ * Classify a search query as simple (local-only) or complex (LLM-enhanced)
+ */
+export function classifyQueryComplexity(query: string, options: ClassifyOptions = {}): QueryClassification {
+  const { resources = directoryResources, debug = false } = options;
+  const normalizedQuery = query.toLowerCase().trim();
+  const explanation: string[] = [];
+  const debugInfo = (signals: ClassifierSignal[] = [], knownToolNames: string[] = []) =>
+    debug ? { signals, knownToolNames, explanation } : null;
 
-  if (COMPLEX_QUERY_PATTERNS.comparisonKeywords.test(normalizedQuery)) {
-    reasons.push('comparison query');
-    suggestedIntent = 'compare';
+  // Empty or very short queries are simple
+  if (!normalizedQuery || normalizedQuery.length < 2) {
+    explanation.push('query is under 2 characters');
+    return buildClassification(0, ['query too short'], undefined, debugInfo());
   }
 
-  if (COMPLEX_QUERY_PATTERNS.filterLanguage.test(normalizedQuery)) {
-    reasons.push('explicit filter language');
-    suggestedIntent = suggestedIntent || 'filter';
+  // Operator syntax (category:AI score:>9) is parsed deterministically
+  if (hasQueryOperators(query)) {
+    explanation.push('operator syntax is parsed locally');
+    return buildClassification(0, ['operator syntax'], 'filter', debugInfo());
   }
 
-  if (COMPLEX_QUERY_PATTERNS.featureQueries.test(normalizedQuery)) {
-    reasons.push('feature-based query');
-    suggestedIntent = suggestedIntent || 'find';
+  // Queries made only of resource names are simple
+  const knownToolNames = matchKnownToolNames(normalizedQuery, getKnownToolNames(resources));
+  if (knownToolNames) {
+    explanation.push(`only resource names: ${knownToolNames.join(', ')}`);
+    const reason = knownToolNames.length === 1 ? 'known tool name' : 'known tool names';
+    return buildClassification(KNOWN_TOOL_COMPLEXITY, [reason], undefined, debugInfo([], knownToolNames));
   }
 
-  if (COMPLEX_QUERY_PATTERNS.categoryPlusModifier.test(normalizedQuery)) {
-    reasons.push('category with modifier');
-    suggestedIntent = suggestedIntent || 'find';
+  // Check for simple patterns first
+  if (SIMPLE_QUERY_PATTERNS.veryShort.test(normalizedQuery) && normalizedQuery.length <= 5) {
+    explanation.push('single word of 5 letters or fewer');
+    return buildClassification(BASE_COMPLEXITY.veryShort, ['very short single word'], undefined, debugInfo());
   }
 
+  // Check for complex patterns
+  const signals: ClassifierSignal[] = [];
+  let suggestedIntent: SuggestedIntent | undefined;
+  const check = (
+    { pattern, reason, weight }: { pattern: RegExp; reason: string; weight: number },
+    intent: SuggestedIntent,
+    override = false
+  ) => {
+    const match = normalizedQuery.match(pattern);
+    if (!match) return;
+    signals.push({ reason, match: match[0], weight });
+    suggestedIntent = override ? intent : suggestedIntent || intent;
+  };
+
+  check(COMPLEX_QUERY_PATTERNS.ratingOperators, 'filter', true);
+  check(COMPLEX_QUERY_PATTERNS.ratingKeywords, 'filter');
+  check(COMPLEX_QUERY_PATTERNS.pricingKeywords, 'filter');
+  check(COMPLEX_QUERY_PATTERNS.comparisonKeywords, 'compare', true);
+  check(COMPLEX_QUERY_PATTERNS.filterLanguage, 'filter');
+  check(COMPLEX_QUERY_PATTERNS.featureQueries, 'find');
+  check(COMPLEX_QUERY_PATTERNS.categoryPlusModifier, 'find');
+
   // Multi-word queries with connecting words often need semantic understanding
   const wordCount = normalizedQuery.split(/\s+/).length;
-  if (wordCount >= 4 && COMPLEX_QUERY_PATTERNS.multiIntent.test(normalizedQuery)) {
-    reasons.push('multi-intent query');
-    suggestedIntent = suggestedIntent || 'find';
+  if (wordCount >= 4) {
+    check({ pattern: MULTI_INTENT_PATTERN, reason: 'multi-intent query', weight: MULTI_INTENT_WEIGHT }, 'find');
   }
 
-  // If we found any complexity indicators, it's complex
-  if (reasons.length > 0) {
-    return {
-      isComplex: true,
-      reasons,
-      suggestedIntent,
-    };
+  const reasons = signals.map(signal => signal.reason);
+
+  // If we found any complexity indicators, they decide
+  if (signals.length > 0) {
+    explanation.push(...signals.map(s => `${s.reason}: "${s.match}" (+${s.weight})`));
+    return buildClassification(combineWeights(signals.map(s => s.weight)), reasons, suggestedIntent, debugInfo(signals));
   }
 
-  // Default: treat multi-word queries (3+) as potentially complex
-  // to catch semantic queries like "mood board tools"
   if (wordCount >= 3) {
-    return {
-      isComplex: true,
-      reasons: ['multi-word query may need semantic understanding'],
-      suggestedIntent: 'find',
-    };
+    explanation.push(`no signals, ${wordCount} words`);
+    return buildClassification(
+      BASE_COMPLEXITY.multiWord,
+      ['multi-word query may need semantic understanding'],
+      'find',
+      debugInfo()
+    );
   }
 
   // Simple query
-  return { isComplex: false, reasons: ['simple query'] };
+  explanation.push(`no signals, ${wordCount} word${wordCount === 1 ? '' : 's'}`);
+  return buildClassification(BASE_COMPLEXITY.simple, ['simple query'], undefined, debugInfo());
 }
 
 /**
@@ -0,0 +1,298 @@
+/**
+ * Query Operator Parser for Design Directory Search
+ *
+ * Deterministic parser for power-user search syntax:
+ *
+ *   category:AI pricing:free score:>9 tag:video -tag:3d opensource:yes figma
+ *
+ * Operators become HardFilters; everything else is returned as free text
+ * for semanticSearch. Queries that use operators never need the LLM.
+ *
+ * Supported operators (keys are case-insensitive):
+ * - category:<name|alias>     (cat:)        e.g. category:ai, category:tutorials
+ * - sub:<name>                (subcategory:) e.g. sub:generative
+ * - pricing:<value>           (price:)      e.g. pricing:free, pricing:"pay per use"
+ * - score:<comparison>        (rating:)     e.g. score:>9, score:<=8, score:7..9, score:9 (= >=9)
+ * - tag:<tag>                 (tags:)       e.g. tag:video
+ * - featured:<yes|no>
+ * - opensource:<yes|no>       (oss:)
+ *
+ * Prefix with "-" to negate (-tag:3d, -category:tools, -opensource:yes).
+ * Comma-separate values for OR (pricing:free,freemium). Quote values with spaces.
+ */
+
+import { normalizeCategoryName, normalizePricingValue, PRICING_KEYWORD_MAP, getAllSubCategories } from '../../data/taxonomy';
+import { resolveCategory } from './semantic-mappings';
+import type { HardFilters } from './semantic-search';
+
+export type QueryOperatorKey =
+  | 'category'
+  | 'sub'
+  | 'pricing'
+  | 'score'
+  | 'tag'
+  | 'featured'
+  | 'opensource';
+
+/**
+ * A single operator token recognised in the query
+ */
+export interface QueryOperator {
+  key: QueryOperatorKey;
+  /** Raw value as typed (quotes removed) */
+  value: string;
+  negated: boolean;
+  /** Original token, e.g. `-tag:3d` */
+  raw: string;
+}
+
+/**
+ * An operator whose value could not be interpreted (it is ignored)
+ */
+export interface QueryOperatorError {
+  raw: string;
+  message: string;
+}
+
+export interface OperatorQuery {
+  /** Filters extracted from operators (empty object if none) */
+  filters: HardFilters;
+  /** Remaining free-text terms for semantic search */
+  freeText: string;
+  operators: QueryOperator[];
+  errors: QueryOperatorError[];
+}
+
+/**
+ * Operator key aliases → canonical key
+ *
+ * A Map rather than an object literal, so keys like `constructor:` don't
+ * resolve to Object.prototype members.
+ */
+const OPERATOR_KEYS = new Map<string, QueryOperatorKey>([
+  ['category', 'category'],
+  ['cat', 'category'],
+  ['sub', 'sub'],
+  ['subcategory', 'sub'],
+  ['pricing', 'pricing'],
+  ['price', 'pricing'],
+  ['score', 'score'],
+  ['rating', 'score'],
+  ['gravity', 'score'],
+  ['tag', 'tag'],
+  ['tags', 'tag'],
+  ['featured', 'featured'],
+  ['opensource', 'opensource'],
+  ['oss', 'opensource'],
+]);
+
+/**
+ * Matches `key:value`, `-key:value`, `key:"quoted value"` and plain words
+ */
+const TOKEN_PATTERN = /(-?)([a-z]+):("([^"]*)"|\S+)|"([^"]*)"|\S+/gi;
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'on'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', 'off'];
+
+/**
+ * Canonical key for an operator key or alias (`cat` → `category`)
+ */
+export function resolveOperatorKey(key: string): QueryOperatorKey | undefined {
+  return OPERATOR_KEYS.get(key.toLowerCase());
+}
+
+/**
+ * Check whether a query uses any recognised operator
+ */
+export function hasQueryOperators(query: string): boolean {
+  return parseQueryOperators(query).operators.length > 0;
+}
+
+type ListFilterKey =
+  | 'categories'
+  | 'subCategories'
+  | 'pricing'
+  | 'tags'
+  | 'excludeCategories'
+  | 'excludeSubCategories'
+  | 'excludePricing'
+  | 'excludeTags';
+
+function pushValue(filters: HardFilters, field: ListFilterKey, value: string): void {
+  const list = filters[field] ?? [];
+  if (!list.some(existing => existing.toLowerCase() === value.toLowerCase())) {
+    list.push(value);
+  }
+  filters[field] = list;
+}
+
+function resolveOperatorCategory(value: string): string | null {
+  return normalizeCategoryName(value) ?? resolveCategory(value);
+}
+
+function resolveOperatorSubCategory(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  return getAllSubCategories().find(sub => sub.toLowerCase() === normalized) ?? null;
+}
+
+function resolveOperatorPricing(value: string): string | null {
+  const normalized = value.trim().toLowerCase().replace(/[-_]+/g, ' ');
+  const exact = normalizePricingValue(normalized);
+  if (exact) return exact;
+  for (const [pricing, keywords] of Object.entries(PRICING_KEYWORD_MAP)) {
+    if (keywords.includes(normalized)) return pricing;
+  }
+  return null;
+}
+
+function parseBooleanValue(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * Apply a score comparison (>9, >=9, <8, <=8, 7..9, 9) to the filters
+ * Returns false if the value is not a valid comparison.
+ */
+function applyScoreComparison(filters: HardFilters, value: string, negated: boolean): boolean {
+  const range = value.match(/^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/);
+  if (range) {
+    if (negated) return false;
+    filters.minGravityScore = parseFloat(range[1]);
+    filters.maxGravityScore = parseFloat(range[2]);
+    return true;
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)$/);
+  if (!comparison) return false;
+
+  const operator = comparison[1] ?? '>=';
+  const score = parseFloat(comparison[2]);
+  // Scores have one decimal place, so strict comparisons step by 0.1
+  const step = 0.1;
+
+  // Negation flips the comparison: -score:>9 is score <= 9
+  const effective = negated
+    ? ({ '>=': '<', '<=': '>', '>': '<=', '<': '>=', '=': null } as const)[operator]
+    : operator;
+
+  switch (effective) {
+    case '>=':
+      filters.minGravityScore = score;
+      return true;
+    case '>':
+      filters.minGravityScore = Math.round((score + step) * 10) / 10;
+      return true;
+    case '<=':
+      filters.maxGravityScore = score;
+      return true;
+    case '<':
+      filters.maxGravityScore = Math.round((score - step) * 10) / 10;
+      return true;
+    case '=':
+      filters.minGravityScore = score;
+      filters.maxGravityScore = score;
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply one operator to the filters, returning an error message if invalid
+ */
+function applyOperator(filters: HardFilters, operator: QueryOperator): string | null {
+  const { key, negated } = operator;
+  const values = operator.value.split(',').map(v => v.trim()).filter(Boolean);
+  if (values.length === 0) return 'missing value';
+
+  switch (key) {
+    case 'category': {
+      for (const value of values) {
+        const category = resolveOperatorCategory(value);
+        if (!category) return 'unknown category "' + value + '"';
+        pushValue(filters, negated ? 'excludeCategories' : 'categories', category);
+      }
+      return null;
+    }
+    case 'sub': {
+      for (const value of values) {
+        const subCategory = resolveOperatorSubCategory(value);
+        if (!subCategory) return 'unknown subcategory "' + value + '"';
+        pushValue(filters, negated ? 'excludeSubCategories' : 'subCategories', subCategory);
+      }
+      return null;
+    }
+    case 'pricing': {
+      for (const value of values) {
+        const pricing = resolveOperatorPricing(value);
+        if (!pricing) return 'unknown pricing "' + value + '"';
+        pushValue(filters, negated ? 'excludePricing' : 'pricing', pricing);
+      }
+      return null;
+    }
+    case 'tag': {
+      for (const value of values) {
+        pushValue(filters, negated ? 'excludeTags' : 'tags', value.toLowerCase());
+      }
+      return null;
+    }
+    case 'score': {
+      if (values.length > 1 || !applyScoreComparison(filters, values[0], negated)) {
+        return 'invalid score comparison "' + operator.value + '"';
+      }
+      return null;
+    }
+    case 'featured':
+    case 'opensource': {
+      const flag = parseBooleanValue(values[0]);
+      if (flag === null || values.length > 1) return 'expected yes or no, got "' + operator.value + '"';
+      filters[key] = negated ? !flag : flag;
+      return null;
+    }
+  }
+}
+
+/**
+ * Parse operator syntax out of a query
+ *
+ * Unrecognised `word:value` tokens (e.g. URLs) are left in the free text.
+ */
+export function parseQueryOperators(query: string): OperatorQuery {
+  const filters: HardFilters = {};
+  const operators: QueryOperator[] = [];
+  const errors: QueryOperatorError[] = [];
+  const freeTerms: string[] = [];
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, rawKey, rawValue, quotedValue, quotedTerm] = match;
+    const key = rawKey ? resolveOperatorKey(rawKey) : undefined;
+
+    if (!key) {
+      freeTerms.push(quotedTerm ?? raw);
+      continue;
+    }
+
+    const operator: QueryOperator = {
+      key,
+      value: quotedValue ?? rawValue,
+      negated: negation === '-',
+      raw,
+    };
+    operators.push(operator);
+
+    const error = applyOperator(filters, operator);
+    if (error) {
+      errors.push({ raw, message: error });
+    }
+  }
+
+  return {
+    filters,
+    freeText: freeTerms.join(' ').trim(),
+    operators,
+    errors,
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Guided Recommendations for the "recommend" Intent
+ *
+ * A short questionnaire (role, task, budget, team size, open source) is
+ * turned into the same inputs the rest of search uses: HardFilters for
+ * what must hold (budget, open source, a category for some tasks), a query
+ * and concepts for what should rank higher. The shortlist explains each
+ * pick from its matchReasons.
+ */
+
+import type { NormalizedResource } from '../../types/resource';
+import type { ParsedQuery } from './parsed-query-schema';
+import {
+  semanticSearch,
+  applyHardFilters,
+  hasActiveFilters,
+  type HardFilters,
+  type ScoredResult,
+} from './semantic-search';
+
+export type RecommendRole = 'designer' | 'developer' | 'creator' | 'marketer' | 'founder' | 'student';
+export type RecommendTask =
+  | 'ui-design'
+  | 'prototyping'
+  | 'website'
+  | 'ai-generation'
+  | 'video-motion'
+  | 'graphics-3d'
+  | 'branding'
+  | 'inspiration'
+  | 'learning';
+export type RecommendBudget = 'free' | 'free-tier' | 'any';
+export type RecommendTeamSize = 'solo' | 'small' | 'large';
+export type RecommendOpenSource = 'required' | 'any';
+
+/**
+ * Answers to the wizard; unanswered questions don't constrain anything
+ */
+export interface RecommendAnswers {
+  role?: RecommendRole;
+  task?: RecommendTask;
+  budget?: RecommendBudget;
+  teamSize?: RecommendTeamSize;
+  openSource?: RecommendOpenSource;
+  /** Free text the wizard was opened with ("tools for my podcast") */
+  context?: string;
+}
+
+export interface RecommendOption {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+export interface RecommendStep {
+  id: Exclude<keyof RecommendAnswers, 'context'>;
+  question: string;
+  options: RecommendOption[];
+}
+
+/**
+ * The wizard's questions, in order
+ */
+export const RECOMMEND_STEPS: RecommendStep[] = [
+  {
+    id: 'role',
+    question: 'What do you do?',
+    options: [
+      { value: 'designer', label: 'Designer' },
+      { value: 'developer', label: 'Developer' },
+      { value: 'creator', label: 'Content creator' },
+      { value: 'marketer', label: 'Marketer' },
+      { value: 'founder', label: 'Founder / PM' },
+      { value: 'student', label: 'Student' },
+    ],
+  },
+  {
+    id: 'task',
+    question: 'What are you working on?',
+    options: [
+      { value: 'ui-design', label: 'UI design', description: 'Interfaces, components, design systems' },
+      { value: 'prototyping', label: 'Prototyping', description: 'Interactive mockups and flows' },
+      { value: 'website', label: 'A website', description: 'Building, launching and hosting' },
+      { value: 'ai-generation', label: 'AI generation', description: 'Images, copy and assets from prompts' },
+      { value: 'video-motion', label: 'Video & motion', description: 'Editing, animation, effects' },
+      { value: 'graphics-3d', label: 'Graphics & 3D', description: 'Illustration, 3D, visual effects' },
+      { value: 'branding', label: 'Branding', description: 'Color, type, logos, mockups' },
+      { value: 'inspiration', label: 'Finding inspiration', description: 'Galleries and showcases' },
+      { value: 'learning', label: 'Learning', description: 'Guides, courses, articles' },
+    ],
+  },
+  {
+    id: 'budget',
+    question: "What's your budget?",
+    options: [
+      { value: 'free', label: 'Free only' },
+      { value: 'free-tier', label: 'A free tier is enough' },
+      { value: 'any', label: 'Happy to pay' },
+    ],
+  },
+  {
+    id: 'teamSize',
+    question: 'Who will use it?',
+    options: [
+      { value: 'solo', label: 'Just me' },
+      { value: 'small', label: 'A small team' },
+      { value: 'large', label: 'A large team' },
+    ],
+  },
+  {
+    id: 'openSource',
+    question: 'Does it need to be open source?',
+    options: [
+      { value: 'required', label: 'Yes, open source only' },
+      { value: 'any', label: "Doesn't matter" },
+    ],
+  },
+];
+
+/**
+ * What each task searches for, and the category it's limited to (if any)
+ */
+const TASK_PROFILES: Record<RecommendTask, { query: string; concepts: string[]; filters?: HardFilters }> = {
+  'ui-design': { query: 'ui design', concepts: ['design', 'ui', 'components', 'design system'] },
+  prototyping: { query: 'prototyping', concepts: ['prototyping', 'animation', 'framer', 'ux'] },
+  website: { query: 'website builder', concepts: ['website', 'no-code', 'hosting', 'deployment'] },
+  'ai-generation': { query: 'ai generation', concepts: ['image generation', 'generation', 'ai'], filters: { categories: ['AI'] } },
+  'video-motion': { query: 'video animation', concepts: ['video', 'animation', 'motion', 'effects'] },
+  'graphics-3d': { query: '3d graphics', concepts: ['3d', 'graphics', 'illustration', 'art'] },
+  branding: { query: 'branding', concepts: ['branding', 'color', 'typography', 'mockups'] },
+  inspiration: { query: 'design inspiration', concepts: ['inspiration', 'gallery', 'showcase', 'curated'], filters: { categories: ['Inspiration'] } },
+  learning: { query: 'design tutorials', concepts: ['tutorials', 'articles', 'courses'], filters: { categories: ['Learning'] } },
+};
+
+/** Concepts that suit each role, after the task's */
+const ROLE_CONCEPTS: Record<RecommendRole, string[]> = {
+  designer: ['design', 'figma', 'ui'],
+  developer: ['development', 'react', 'code', 'css'],
+  creator: ['video', 'youtube', 'social media', 'creative'],
+  marketer: ['social media', 'analytics', 'branding'],
+  founder: ['no-code', 'startups', 'productivity'],
+  student: ['tutorials', 'learning', 'free'],
+};
+
+const BUDGET_PRICING: Record<RecommendBudget, string[] | undefined> = {
+  free: ['Free'],
+  'free-tier': ['Free', 'Freemium'],
+  any: undefined,
+};
+
+/**
+ * Search inputs for a set of answers
+ */
+export interface Recommendation {
+  query: string;
+  hardFilters: HardFilters;
+  concepts: string[];
+}
+
+/**
+ * Turn wizard answers into a query, hard filters and concepts
+ */
+export function buildRecommendation(answers: RecommendAnswers): Recommendation {
+  const task = answers.task ? TASK_PROFILES[answers.task] : null;
+
+  const hardFilters: HardFilters = { ...task?.filters };
+  const pricing = answers.budget ? BUDGET_PRICING[answers.budget] : undefined;
+  if (pricing) hardFilters.pricing = pricing;
+  if (answers.openSource === 'required') hardFilters.opensource = true;
+
+  const concepts = [
+    ...(task?.concepts ?? []),
+    ...(answers.role ? ROLE_CONCEPTS[answers.role] : []),
+    ...(answers.teamSize === 'small' || answers.teamSize === 'large' ? ['collaboration'] : []),
+    ...(answers.teamSize === 'large' ? ['design system'] : []),
+  ];
+
+  const query = [answers.context?.trim(), task?.query].filter(Boolean).join(' ');
+  return { query, hardFilters, concepts: [...new Set(concepts)] };
+}
+
+/**
+ * Pre-fill answers from an LLM parse with the recommend intent
+ */
+export function answersFromParsedQuery(parsedQuery: ParsedQuery, query: string): RecommendAnswers {
+  const { pricing, opensource } = parsedQuery.filters;
+  const answers: RecommendAnswers = { context: query };
+  if (pricing?.length === 1 && pricing[0] === 'Free') answers.budget = 'free';
+  else if (pricing?.length && pricing.every(p => p === 'Free' || p === 'Freemium')) answers.budget = 'free-tier';
+  if (opensource) answers.openSource = 'required';
+  return answers;
+}
+
+/**
+ * A shortlisted resource with the reason it was picked
+ */
+export interface RecommendedResource {
+  resource: NormalizedResource;
+  score: number;
+  reason: string;
+}
+
+/**
+ * Readable versions of matchReasons, or null for ones not worth showing
+ */
+function describeMatchReason(reason: string): string | null {
+  const [kind, ...rest] = reason.split(': ');
+  const value = rest.join(': ');
+  switch (kind) {
+    case 'llm concept':
+    case 'llm concept tag':
+      return `good for ${value}`;
+    case 'exact tag':
+    case 'partial tag':
+    case 'synonym tag':
+      return `tagged ${value}`;
+    case 'subcategory':
+    case 'category':
+      return `in ${value}`;
+    case 'pricing':
+      return value;
+    case 'description contains query':
+      return 'described as a match';
+    case 'featured':
+      return 'featured pick';
+    default:
+      return null;
+  }
+}
+
+/**
+ * One-line reason for a pick, from its matchReasons
+ *
+ * Falls back to the gravity rationale when no reason is worth showing.
+ */
+export function getRecommendationReason(result: ScoredResult): string {
+  const reasons: string[] = [];
+  // "good for design" makes "tagged design" redundant
+  const subjects = new Set<string>();
+  for (const matchReason of result.matchReasons) {
+    const text = describeMatchReason(matchReason);
+    const subject = matchReason.split(': ').slice(1).join(': ').toLowerCase();
+    if (!text || reasons.includes(text) || (subject && subjects.has(subject))) continue;
+    if (subject) subjects.add(subject);
+    reasons.push(text);
+  }
+  if (reasons.length === 0) {
+    return result.resource.gravityRationale ?? `Rated ${result.resource.gravityScore.toFixed(1)}`;
+  }
+  const sentence = reasons.slice(0, 3).join(', ');
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
+
+/**
+ * Rank resources for a set of answers
+ *
+ * Hard filters always hold; within them, results are ranked by the
+ * semantic search for the task and the concepts for the role and team.
+ * A short list is topped up with the highest-rated resources that pass
+ * the filters.
+ */
+export function recommendResources(
+  resources: NormalizedResource[],
+  answers: RecommendAnswers,
+  options: { limit?: number } = {}
+): RecommendedResource[] {
+  const { limit = 5 } = options;
+  const { query, hardFilters, concepts } = buildRecommendation(answers);
+  const filters = hasActiveFilters(hardFilters) ? hardFilters : undefined;
+
+  const { results } = query
+    ? semanticSearch(resources, query, {
+        hardFilters: filters,
+        llmConcepts: concepts,
+        minResults: limit,
+        maxResults: limit,
+        includeFallback: true,
+      })
+    : { results: [] as ScoredResult[] };
+
+  const picked = new Set(results.map(r => r.resource.id));
+  const topRated: ScoredResult[] = applyHardFilters(resources, filters)
+    .filter(resource => !picked.has(resource.id))
+    .sort((a, b) => b.gravityScore - a.gravityScore)
+    .slice(0, Math.max(0, limit - results.length))
+    .map(resource => ({ resource, score: resource.gravityScore * 10, matchReasons: ['top rated'], matches: [] }));
+
+  return [...results, ...topRated].slice(0, limit).map(result => ({
+    resource: result.resource,
+    score: result.score,
+    reason: getRecommendationReason(result),
+  }));
+}
@@ -0,0 +1,203 @@
+/**
+ * Search Relevance Evaluation
+ *
+ * Scores semanticSearch against a golden set of queries, each paired with
+ * the resources that should come back and how relevant each one is
+ * (3 = ideal, 2 = relevant, 1 = acceptable). Reports precision@k, recall
+ * and NDCG@k per query and averaged over the set.
+ *
+ * The golden set lives in src/data/golden-queries.json and the metrics it
+ * is held to in src/data/relevance-baseline.json. Run
+ * `npm run eval-search` to see the report, and add `-- --update-baseline`
+ * after a deliberate change to SCORING_WEIGHTS or the semantic mappings.
+ */
+
+import type { NormalizedResource } from '../../types/resource';
+import { semanticSearch, type SearchOptions } from './semantic-search';
+
+/** Graded relevance: 3 = ideal, 2 = relevant, 1 = acceptable */
+export type RelevanceGrade = 1 | 2 | 3;
+
+export interface GoldenQuery {
+  query: string;
+  /** Expected resource names and how relevant each is */
+  relevant: Record<string, RelevanceGrade>;
+}
+
+export interface RelevanceMetrics {
+  precisionAtK: number;
+  recall: number;
+  ndcg: number;
+}
+
+export interface QueryEvaluation extends RelevanceMetrics {
+  query: string;
+  /** Names of the top k results, in order */
+  topResults: string[];
+  /** Expected resources that weren't returned at all */
+  missing: string[];
+}
+
+export interface RelevanceReport {
+  k: number;
+  queries: QueryEvaluation[];
+  /** Mean of each metric over all queries */
+  overall: RelevanceMetrics;
+}
+
+/**
+ * Stored metrics the golden set must not drop below
+ */
+export interface RelevanceBaseline {
+  k: number;
+  overall: RelevanceMetrics;
+  queries: Record<string, RelevanceMetrics>;
+}
+
+/** Cut-off for precision and NDCG */
+export const DEFAULT_K = 5;
+
+/** Search the way the app does: a few results at least, padded with fallbacks */
+export const EVAL_SEARCH_OPTIONS: SearchOptions = {
+  minResults: 3,
+  maxResults: 50,
+  includeFallback: true,
+};
+
+/** Metric differences smaller than this are rounding, not regressions */
+const TOLERANCE = 1e-4;
+
+const METRIC_NAMES: (keyof RelevanceMetrics)[] = ['precisionAtK', 'recall', 'ndcg'];
+
+/**
+ * Share of the top k results that are relevant at any grade
+ */
+export function precisionAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  if (k <= 0) return 0;
+  const hits = ranked.slice(0, k).filter(name => (relevant[name] ?? 0) > 0).length;
+  return hits / k;
+}
+
+/**
+ * Share of the relevant resources returned anywhere in the results
+ */
+export function recall(ranked: string[], relevant: Record<string, number>): number {
+  const expected = Object.keys(relevant).filter(name => relevant[name] > 0);
+  if (expected.length === 0) return 1;
+  const returned = new Set(ranked);
+  return expected.filter(name => returned.has(name)).length / expected.length;
+}
+
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, i) => sum + (2 ** grade - 1) / Math.log2(i + 2), 0);
+}
+
+/**
+ * Normalized discounted cumulative gain over the top k results
+ *
+ * 1 when the results are in the ideal order (highest grades first).
+ */
+export function ndcgAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const ideal = dcg(Object.values(relevant).filter(grade => grade > 0).sort((a, b) => b - a).slice(0, k));
+  if (ideal === 0) return 1;
+  return dcg(ranked.slice(0, k).map(name => relevant[name] ?? 0)) / ideal;
+}
+
+/**
+ * Run one golden query and score its results
+ */
+export function evaluateQuery(
+  resources: NormalizedResource[],
+  golden: GoldenQuery,
+  k = DEFAULT_K
+): QueryEvaluation {
+  const { results } = semanticSearch(resources, golden.query, EVAL_SEARCH_OPTIONS);
+  const ranked = results.map(result => result.resource.name);
+  const returned = new Set(ranked);
+
+  return {
+    query: golden.query,
+    precisionAtK: precisionAtK(ranked, golden.relevant, k),
+    recall: recall(ranked, golden.relevant),
+    ndcg: ndcgAtK(ranked, golden.relevant, k),
+    topResults: ranked.slice(0, k),
+    missing: Object.keys(golden.relevant).filter(name => !returned.has(name)),
+  };
+}
+
+/**
+ * Run the whole golden set
+ */
+export function evaluateGoldenSet(
+  resources: NormalizedResource[],
+  goldenQueries: GoldenQuery[],
+  k = DEFAULT_K
+): RelevanceReport {
+  const queries = goldenQueries.map(golden => evaluateQuery(resources, golden, k));
+  const mean = (metric: keyof RelevanceMetrics) =>
+    queries.length > 0 ? queries.reduce((sum, q) => sum + q[metric], 0) / queries.length : 0;
+
+  return {
+    k,
+    queries,
+    overall: { precisionAtK: mean('precisionAtK'), recall: mean('recall'), ndcg: mean('ndcg') },
+  };
+}
+
+/**
+ * Golden-set names that aren't in the resource list (renamed or removed)
+ */
+export function findUnknownResources(resources: NormalizedResource[], goldenQueries: GoldenQuery[]): string[] {
+  const names = new Set(resources.map(resource => resource.name));
+  const unknown = goldenQueries.flatMap(golden => Object.keys(golden.relevant).filter(name => !names.has(name)));
+  return [...new Set(unknown)];
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+function roundMetrics(metrics: RelevanceMetrics): RelevanceMetrics {
+  return { precisionAtK: round(metrics.precisionAtK), recall: round(metrics.recall), ndcg: round(metrics.ndcg) };
+}
+
+/**
+ * Baseline to store for a report, rounded so it diffs cleanly
+ */
+export function toBaseline(report: RelevanceReport): RelevanceBaseline {
+  return {
+    k: report.k,
+    overall: roundMetrics(report.overall),
+    queries: Object.fromEntries(report.queries.map(q => [q.query, roundMetrics(q)])),
+  };
+}
+
+/**
+ * Metrics that dropped below the baseline, as readable lines
+ *
+ * Queries missing from the baseline are reported too, so a new golden
+ * query can't slip in without its metrics being recorded.
+ */
+export function compareToBaseline(report: RelevanceReport, baseline: RelevanceBaseline): string[] {
+  if (report.k !== baseline.k) {
+    return [`baseline was recorded at k=${baseline.k}, report uses k=${report.k}`];
+  }
+
+  const regressions: string[] = [];
+  const check = (label: string, current: RelevanceMetrics, stored: RelevanceMetrics) => {
+    for (const metric of METRIC_NAMES) {
+      if (current[metric] < stored[metric] - TOLERANCE) {
+        regressions.push(`${label}: ${metric} ${round(current[metric])} < baseline ${stored[metric]}`);
+      }
+    }
+  };
+
+  check('overall', report.overall, baseline.overall);
+  for (const query of report.queries) {
+    const stored = baseline.queries[query.query];
+    if (!stored) {
+      regressions.push(`"${query.query}": not in baseline`);
+      continue;
+    }
+    check(`"${query.query}"`, query, stored);
+  }
+  return regressions;
+}
@@ -0,0 +1,135 @@
+/**
+ * Search Analytics
+ *
+ * Shape and privacy rules for search logging, shared by the client logger
+ * (search-logger.ts), the /api/analytics/search endpoint and the admin
+ * report (search-report.ts).
+ *
+ * Privacy: only the normalized query and result facts are recorded - no IP,
+ * user id, timestamp or session. Emails, URLs and long numbers are redacted
+ * before a query leaves the browser, and again on the server.
+ */
+
+import type { MatchQuality } from './semantic-search';
+
+/** Where the search was made */
+export const SEARCH_VIEWS = ['landing', '3d', 'table', 'card', 'search-modal'] as const;
+export type SearchView = (typeof SEARCH_VIEWS)[number];
+
+const MATCH_QUALITIES: readonly MatchQuality[] = ['high', 'medium', 'low', 'fallback'];
+
+/** Longer queries are truncated before logging */
+export const MAX_LOGGED_QUERY_LENGTH = 100;
+
+/**
+ * One logged search
+ */
+export interface SearchLogEvent {
+  /** Normalized, redacted query (see normalizeQueryForAnalytics) */
+  query: string;
+  quality: MatchQuality;
+  resultCount: number;
+  /** Whether the LLM parsed the query */
+  llmEnhanced: boolean;
+  view: SearchView;
+}
+
+/**
+ * Aggregated counts for one normalized query
+ */
+export interface SearchQueryStats {
+  query: string;
+  count: number;
+  zeroResultCount: number;
+  /** Searches with low or fallback quality (including zero results) */
+  lowQualityCount: number;
+  llmEnhancedCount: number;
+  views: Partial<Record<SearchView, number>>;
+}
+
+/**
+ * Normalize a query for logging: lowercase, collapse whitespace, drop
+ * trailing punctuation and redact anything that could identify a person
+ *
+ * @returns null when nothing meaningful is left to log
+ */
+export function normalizeQueryForAnalytics(query: string): string | null {
+  const normalized = query
+    .toLowerCase()
+    .replace(/[^\s@]+@[^\s@]+\.[^\s@]+/g, '[email]')
+    .replace(/\b(?:https?:\/\/|www\.)\S+/g, '[url]')
+    .replace(/\d[\d\s-]{4,}\d/g, '[number]')
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.,;]+$/, '')
+    .trim()
+    .slice(0, MAX_LOGGED_QUERY_LENGTH)
+    .trim();
+  return normalized || null;
+}
+
+/**
+ * A search that found nothing or nothing good
+ */
+export function isFailingSearch(event: Pick<SearchLogEvent, 'quality' | 'resultCount'>): boolean {
+  return event.resultCount === 0 || event.quality === 'low' || event.quality === 'fallback';
+}
+
+/**
+ * Validate an event posted by a client, re-normalizing its query
+ *
+ * @returns null if the event is malformed
+ */
+export function validateSearchLogEvent(data: unknown): SearchLogEvent | null {
+  if (!data || typeof data !== 'object') return null;
+  const { query, quality, resultCount, llmEnhanced, view } = data as Record<string, unknown>;
+
+  if (typeof query !== 'string') return null;
+  const normalized = normalizeQueryForAnalytics(query);
+  if (!normalized) return null;
+  if (!MATCH_QUALITIES.includes(quality as MatchQuality)) return null;
+  if (typeof resultCount !== 'number' || !Number.isInteger(resultCount) || resultCount < 0) return null;
+  if (typeof llmEnhanced !== 'boolean') return null;
+  if (!SEARCH_VIEWS.includes(view as SearchView)) return null;
+
+  return {
+    query: normalized,
+    quality: quality as MatchQuality,
+    resultCount,
+    llmEnhanced,
+    view: view as SearchView,
+  };
+}
+
+/**
+ * Aggregate raw events into per-query stats, most failures first
+ */
+export function aggregateSearchEvents(events: SearchLogEvent[]): SearchQueryStats[] {
+  const byQuery = new Map<string, SearchQueryStats>();
+
+  for (const event of events) {
+    let stats = byQuery.get(event.query);
+    if (!stats) {
+      stats = { query: event.query, count: 0, zeroResultCount: 0, lowQualityCount: 0, llmEnhancedCount: 0, views: {} };
+      byQuery.set(event.query, stats);
+    }
+    stats.count++;
+    if (event.resultCount === 0) stats.zeroResultCount++;
+    if (isFailingSearch(event)) stats.lowQualityCount++;
+    if (event.llmEnhanced) stats.llmEnhancedCount++;
+    stats.views[event.view] = (stats.views[event.view] ?? 0) + 1;
+  }
+
+  return sortByFailures(Array.from(byQuery.values()));
+}
+
+/**
+ * Order stats by failing searches, then zero-result searches, then volume
+ */
+export function sortByFailures(stats: SearchQueryStats[]): SearchQueryStats[] {
+  return [...stats].sort((a, b) =>
+    b.lowQualityCount - a.lowQualityCount ||
+    b.zeroResultCount - a.zeroResultCount ||
+    b.count - a.count ||
+    a.query.localeCompare(b.query)
+  );
+}
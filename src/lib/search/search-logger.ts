@@ -0,0 +1,44 @@
+/**
+ * Client-side Search Logging
+ *
+ * Posts each search to /api/analytics/search when VITE_SEARCH_ANALYTICS
+ * is "true" (off by default, so static deployments never call an API that
+ * doesn't exist). Fire-and-forget: logging never delays or breaks a search.
+ */
+
+import type { MatchQuality } from './semantic-search';
+import { normalizeQueryForAnalytics, type SearchLogEvent, type SearchView } from './search-analytics';
+
+const ANALYTICS_ENDPOINT = '/api/analytics/search';
+
+export function isSearchAnalyticsEnabled(): boolean {
+  return import.meta.env.VITE_SEARCH_ANALYTICS === 'true';
+}
+
+/**
+ * Log a completed search
+ */
+export function logSearch(search: {
+  query: string;
+  quality: MatchQuality;
+  resultCount: number;
+  llmEnhanced: boolean;
+  view: SearchView;
+}): void {
+  if (!isSearchAnalyticsEnabled()) return;
+
+  const query = normalizeQueryForAnalytics(search.query);
+  if (!query) return;
+
+  const event: SearchLogEvent = { ...search, query };
+  fetch(ANALYTICS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(event),
+    keepalive: true,
+  }).catch(error => {
+    if (import.meta.env.DEV) {
+      console.warn('Search analytics request failed:', error);
+    }
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Search Analytics Report
+ *
+ * Turns aggregated search stats into the admin report: the queries that
+ * fail most often, and the words in them that no synonym group, concept
+ * mapping, category alias or pricing keyword covers - candidates for new
+ * entries in semantic-mappings.ts.
+ */
+
+import { conceptMappings, synonymGroups, categoryAliases, pricingKeywords } from './semantic-mappings.js';
+import { sortByFailures, type SearchQueryStats } from './search-analytics.js';
+
+/**
+ * A phrase from failing queries that the semantic mappings don't know
+ */
+export interface MissingConcept {
+  phrase: string;
+  /** Failing searches containing the phrase */
+  failingSearches: number;
+  /** A few of the failing queries it appeared in */
+  examples: string[];
+}
+
+export interface SearchReport {
+  totalSearches: number;
+  failingSearches: number;
+  topFailingQueries: SearchQueryStats[];
+  missingConcepts: MissingConcept[];
+}
+
+/** Filler words that never make a concept on their own */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'any', 'app', 'apps', 'are', 'best', 'for', 'find', 'from', 'good', 'i', 'in', 'is',
+  'it', 'like', 'me', 'my', 'need', 'of', 'on', 'or', 'show', 'some', 'something', 'that', 'the', 'to',
+  'tool', 'tools', 'want', 'website', 'websites', 'what', 'with', 'site', 'sites', 'resource', 'resources',
+  'looking', 'help', 'can', 'do', 'how', 'which', 'where', 'get', 'make', 'making',
+]);
+
+const MAX_EXAMPLES = 3;
+
+function stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+function splitWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+let knownWords: Set<string> | null = null;
+
+/**
+ * Every word the semantic mappings already understand (stemmed)
+ */
+function getKnownWords(): Set<string> {
+  if (knownWords) return knownWords;
+
+  const phrases: string[] = [];
+  for (const [key, synonyms] of Object.entries(synonymGroups)) phrases.push(key, ...synonyms);
+  for (const [name, concept] of Object.entries(conceptMappings)) phrases.push(name, ...concept.keywords);
+  for (const [category, aliases] of Object.entries(categoryAliases)) phrases.push(category, ...aliases);
+  for (const [pricing, keywords] of Object.entries(pricingKeywords)) phrases.push(pricing, ...keywords);
+
+  knownWords = new Set(phrases.flatMap(splitWords).map(stem));
+  return knownWords;
+}
+
+/**
+ * Split a query into runs of consecutive unknown words
+ * ("mood board for my wedding" → ["mood board", "wedding"])
+ */
+export function getUnknownPhrases(query: string): string[] {
+  const known = getKnownWords();
+  const phrases: string[] = [];
+  let current: string[] = [];
+
+  for (const word of splitWords(query)) {
+    const isUnknown = word.length > 1 && !/^\d+$/.test(word) && !STOPWORDS.has(word) && !known.has(stem(word));
+    if (isUnknown) {
+      current.push(word);
+    } else if (current.length > 0) {
+      phrases.push(current.join(' '));
+      current = [];
+    }
+  }
+  if (current.length > 0) phrases.push(current.join(' '));
+  return phrases;
+}
+
+/**
+ * Rank unknown phrases across failing queries by how many searches they sank
+ */
+export function findMissingConcepts(stats: SearchQueryStats[], limit = 20): MissingConcept[] {
+  const byPhrase = new Map<string, MissingConcept>();
+
+  for (const { query, lowQualityCount } of sortByFailures(stats)) {
+    if (lowQualityCount === 0) continue;
+    for (const phrase of new Set(getUnknownPhrases(query))) {
+      let missing = byPhrase.get(phrase);
+      if (!missing) {
+        missing = { phrase, failingSearches: 0, examples: [] };
+        byPhrase.set(phrase, missing);
+      }
+      missing.failingSearches += lowQualityCount;
+      if (missing.examples.length < MAX_EXAMPLES) missing.examples.push(query);
+    }
+  }
+
+  return Array.from(byPhrase.values())
+    .sort((a, b) => b.failingSearches - a.failingSearches || a.phrase.localeCompare(b.phrase))
+    .slice(0, limit);
+}
+
+/**
+ * Build the admin report from per-query stats
+ */
+export function buildSearchReport(
+  stats: SearchQueryStats[],
+  totals: { totalSearches: number; failingSearches: number },
+  limit = 25
+): SearchReport {
+  return {
+    ...totals,
+    topFailingQueries: sortByFailures(stats).filter(s => s.lowQualityCount > 0).slice(0, limit),
+    missingConcepts: findMissingConcepts(stats, limit),
+  };
+}
@@ -10,6 +10,8 @@
  * Removed overly broad terms like "visual" from photo synonyms.
  */
 
+import { CATEGORY_ALIAS_MAP, PRICING_KEYWORD_MAP } from '../../data/taxonomy.js';
+
 /**
  * Synonym Groups - Words that should match each other
  * Key is the canonical term, values are synonyms that expand to include the key
@@ -191,23 +193,17 @@ export const conceptMappings: Record<string, {
 
 /**
  * Category Aliases - Alternative names for categories
+ * Defined per category in src/data/taxonomy.ts
  */
-export const categoryAliases: Record<string, string[]> = {
-  'AI': ['artificial intelligence', 'machine learning', 'ml', 'generative', 'smart'],
-  'Tools': ['apps', 'applications', 'software', 'programs', 'utilities'],
-  'Inspiration': ['inspo', 'ideas', 'galleries', 'showcase', 'portfolio', 'examples'],
-  'Learning': ['tutorials', 'courses', 'education', 'educational', 'training', 'lessons'],
-  'Templates': ['assets', 'resources', 'kits', 'starters', 'boilerplates'],
-  'Community': ['communities', 'forums', 'social', 'network', 'networking'],
-};
+export const categoryAliases: Record<string, string[]> = CATEGORY_ALIAS_MAP;
 
 /**
  * Pricing Keywords - For filtering by pricing model
+ * Pricing values come from src/data/taxonomy.ts; "Open Source" is a flag,
+ * not a pricing value, but is resolved the same way.
  */
 export const pricingKeywords: Record<string, string[]> = {
-  'Free': ['free', 'gratis', 'no cost', '$0', 'zero cost'],
-  'Freemium': ['freemium', 'free tier', 'free plan', 'basic free', 'free version'],
-  'Paid': ['paid', 'premium', 'pro', 'subscription', 'license'],
+  ...PRICING_KEYWORD_MAP,
   'Open Source': ['open source', 'opensource', 'oss', 'libre', 'foss'],
 };
 
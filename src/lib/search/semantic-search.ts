@@ -9,6 +9,8 @@
  * Enhanced with LLM support:
  * - Hard filters for explicit criteria (pricing, rating, etc.)
  * - LLM-extracted concept matching
+ *
+ * Weaker matches carry a "did you mean" correction (see spell-correction.ts).
  */
 
 import type { NormalizedResource } from '../../types/resource';
@@ -18,12 +20,16 @@ import {
   resolveCategory,
   resolvePricing,
   conceptMappings,
-} from './semantic-mappings';
+} from './semantic-mappings.js';
 import {
   getFuzzyScore,
   getMultiTermFuzzyScore,
+  isFuzzyMatch,
   tokenize,
-} from './fuzzy-match';
+} from './fuzzy-match.js';
+import { findSpan, type MatchSpan } from './match-spans.js';
+import { computeFacetCounts, type FacetCounts } from './facets.js';
+import { getSpellingCorrection } from './spell-correction.js';
 
 /**
  * Search result with scoring metadata
@@ -32,6 +38,8 @@ export interface ScoredResult {
   resource: NormalizedResource;
   score: number;
   matchReasons: string[];
+  /** Where the query matched, for highlighting (see match-spans.ts) */
+  matches: MatchSpan[];
 }
 
 /**
@@ -51,6 +59,11 @@ export interface HardFilters {
   tags?: string[];
   featured?: boolean;
   opensource?: boolean;
+  /** Negated filters - resources matching any of these are excluded */
+  excludePricing?: string[];
+  excludeCategories?: string[];
+  excludeSubCategories?: string[];
+  excludeTags?: string[];
 }
 
 /**
@@ -71,6 +84,12 @@ export interface SearchMetadata {
   appliedFilters?: HardFilters;
   /** LLM concepts used for matching */
   llmConcepts?: string[];
+  /** Resource name for compare-intent results ranked by similarity */
+  comparisonTarget?: string;
+  /** Spelling-corrected query that finds more direct matches ("did you mean") */
+  suggestedQuery?: string;
+  /** How every match in the filtered pool breaks down, not just the returned page */
+  facets?: FacetCounts;
 }
 
 /**
@@ -92,6 +111,8 @@ export interface SearchOptions {
   hardFilters?: HardFilters;
   /** LLM-extracted semantic concepts for boosting */
   llmConcepts?: string[];
+  /** Propose a corrected query when results aren't high quality (default true) */
+  correctSpelling?: boolean;
 }
 
 /**
@@ -122,6 +143,16 @@ const SCORING_WEIGHTS = {
   LLM_CONCEPT_MATCH: 40,  // NEW - LLM-extracted concept matches
 };
 
+/**
+ * Check whether any hard filter constraint is set
+ */
+export function hasActiveFilters(filters: HardFilters | undefined): filters is HardFilters {
+  if (!filters) return false;
+  return Object.values(filters).some(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined
+  );
+}
+
 /**
  * Apply hard filters to resources BEFORE scoring
  * This ensures results MUST match the filter criteria
@@ -181,6 +212,27 @@ export function applyHardFilters(
       if (!matchesTag) return false;
     }
 
+    // Exclusions (resource must match none)
+    if (filters.excludePricing?.length && resource.pricing) {
+      const resourcePricing = resource.pricing.toLowerCase();
+      if (filters.excludePricing.some(p => resourcePricing === p.toLowerCase())) return false;
+    }
+    if (filters.excludeCategories?.length && resource.category) {
+      const resourceCategory = resource.category.toLowerCase();
+      if (filters.excludeCategories.some(c => resourceCategory === c.toLowerCase())) return false;
+    }
+    if (filters.excludeSubCategories?.length && resource.subCategory) {
+      const resourceSubCategory = resource.subCategory.toLowerCase();
+      if (filters.excludeSubCategories.some(sc => resourceSubCategory === sc.toLowerCase())) return false;
+    }
+    if (filters.excludeTags?.length && resource.tags?.length) {
+      const resourceTags = resource.tags.map(t => t.toLowerCase());
+      const hasExcludedTag = filters.excludeTags.some(
+        filterTag => resourceTags.some(rt => rt.includes(filterTag.toLowerCase()))
+      );
+      if (hasExcludedTag) return false;
+    }
+
     // Boolean flags
     if (filters.featured !== undefined) {
       if (resource.featured !== filters.featured) return false;
@@ -207,10 +259,41 @@ export function semanticSearch(
     includeFallback = false,
     hardFilters,
     llmConcepts,
+    correctSpelling = true,
   } = options;
 
   const normalizedQuery = query.toLowerCase().trim();
 
+  // Filter-only query (e.g. "category:AI score:>9"): rank the filtered pool by gravity
+  if (!normalizedQuery && hasActiveFilters(hardFilters)) {
+    const filteredResources = applyHardFilters(resources, hardFilters);
+    const results = [...filteredResources]
+      .sort((a, b) => b.gravityScore - a.gravityScore)
+      .slice(0, maxResults)
+      .map(resource => ({
+        resource,
+        score: resource.gravityScore * 10,
+        matchReasons: ['matches filters'],
+        matches: [],
+      }));
+    return {
+      results,
+      metadata: {
+        quality: results.length > 0 ? 'high' : 'fallback',
+        totalResults: results.length,
+        detectedConcepts: [],
+        expandedTerms: [],
+        matchedCategory: null,
+        matchedPricing: null,
+        originalQuery: query,
+        directMatchCount: results.length,
+        filteredPoolSize: filteredResources.length,
+        appliedFilters: hardFilters,
+        facets: computeFacetCounts(filteredResources),
+      },
+    };
+  }
+
   // Handle empty query
   if (!normalizedQuery) {
     return {
@@ -247,6 +330,7 @@ export function semanticSearch(
         directMatchCount: 0,
         filteredPoolSize: 0,
         appliedFilters: hardFilters,
+        facets: computeFacetCounts([]),
       },
     };
   }
@@ -305,13 +389,14 @@ export function semanticSearch(
 
   // Layer 3: Intelligent Fallbacks (only for very short/generic queries)
   let finalResults = scoredResults.slice(0, maxResults);
+  let fallbackResults: ScoredResult[] = [];
   let quality: MatchQuality = determineQuality(scoredResults);
 
   // Only use fallback for very generic queries (2-3 chars) with no results
   const isGenericQuery = normalizedQuery.length <= 3 && detectedConcepts.length === 0;
   
   if (includeFallback && isGenericQuery && finalResults.length < minResults) {
-    const fallbackResults = generateFallbacks(
+    fallbackResults = generateFallbacks(
       filteredResources, // Use filtered pool for fallbacks too
       detectedConcepts,
       matchedCategory,
@@ -323,6 +408,16 @@ export function semanticSearch(
     quality = finalResults.length > 0 ? 'fallback' : 'low';
   }
 
+  // Offer a correction for weaker results, but only one that finds more
+  let suggestedQuery: string | undefined;
+  if (correctSpelling && quality !== 'high') {
+    const correction = getSpellingCorrection(resources, query);
+    if (correction) {
+      const corrected = semanticSearch(resources, correction, { ...options, correctSpelling: false });
+      if (corrected.metadata.directMatchCount > directMatchCount) suggestedQuery = correction;
+    }
+  }
+
   return {
     results: finalResults,
     metadata: {
@@ -337,6 +432,8 @@ export function semanticSearch(
       filteredPoolSize,
       appliedFilters: hardFilters,
       llmConcepts,
+      suggestedQuery,
+      facets: computeFacetCounts([...scoredResults, ...fallbackResults].map(r => r.resource)),
     },
   };
 }
@@ -356,28 +453,44 @@ function scoreResource(
 ): ScoredResult {
   let score = 0;
   const matchReasons: string[] = [];
+  const matches: MatchSpan[] = [];
   const nameLower = resource.name.toLowerCase();
+  const addMatch = (span: MatchSpan | null) => {
+    if (span) matches.push(span);
+  };
 
   // 1. Exact name match
   if (nameLower === query) {
     score += SCORING_WEIGHTS.NAME_EXACT;
     matchReasons.push('exact name match');
+    addMatch({ field: 'name', start: 0, end: resource.name.length, kind: 'exact' });
   }
   // 2. Name starts with query
   else if (nameLower.startsWith(query)) {
     score += SCORING_WEIGHTS.NAME_STARTS_WITH;
     matchReasons.push('name starts with query');
+    addMatch({ field: 'name', start: 0, end: query.length, kind: 'prefix' });
   }
   // 3. Name contains query
   else if (nameLower.includes(query)) {
     score += SCORING_WEIGHTS.NAME_CONTAINS;
     matchReasons.push('name contains query');
+    addMatch(findSpan(resource.name, query, 'name', 'exact'));
+  }
+  // Highlight individual query terms in the name (no score change)
+  else if (queryTokens.length > 1) {
+    for (const token of queryTokens) {
+      if (token.length >= 3) addMatch(findSpan(resource.name, token, 'name', 'exact', { wordStart: true }));
+    }
   }
 
   // 4. Concept boost (e.g., "vibe code" → Cursor gets boost)
   if (conceptBoostedNames.has(nameLower)) {
     score += SCORING_WEIGHTS.CONCEPT_BOOST;
     matchReasons.push('concept match');
+    if (!matches.some(m => m.field === 'name')) {
+      addMatch({ field: 'name', start: 0, end: resource.name.length, kind: 'concept' });
+    }
   }
 
   // 4b. LLM-extracted concept matching (NEW)
@@ -392,13 +505,22 @@ function scoreResource(
       if (descriptionLower.includes(conceptLower)) {
         score += SCORING_WEIGHTS.LLM_CONCEPT_MATCH;
         matchReasons.push(`llm concept: ${concept}`);
+        addMatch(findSpan(resource.description || '', concept, 'description', 'concept'));
         break; // Only count once per resource
       }
       
       // Check tags for concept match
-      if (tagsLower.some(tag => tag.includes(conceptLower) || conceptLower.includes(tag))) {
+      const conceptTagIndex = tagsLower.findIndex(tag => tag.includes(conceptLower) || conceptLower.includes(tag));
+      if (conceptTagIndex !== -1) {
         score += SCORING_WEIGHTS.LLM_CONCEPT_MATCH;
         matchReasons.push(`llm concept tag: ${concept}`);
+        addMatch({
+          field: 'tags',
+          start: 0,
+          end: tagsLower[conceptTagIndex].length,
+          kind: 'concept',
+          tagIndex: conceptTagIndex,
+        });
         break;
       }
     }
@@ -408,7 +530,7 @@ function scoreResource(
   if (resource.tags?.length) {
     let tagMatchFound = false;
     
-    for (const tag of resource.tags) {
+    resource.tags.forEach((tag, tagIndex) => {
       const tagLower = tag.toLowerCase();
 
       // Check exact tag match with query terms (strong signal)
@@ -416,6 +538,7 @@ function scoreResource(
         if (tagLower === token) {
           score += SCORING_WEIGHTS.TAG_EXACT;
           matchReasons.push(`exact tag: ${tag}`);
+          addMatch({ field: 'tags', start: 0, end: tag.length, kind: 'exact', tagIndex });
           tagMatchFound = true;
           break;
         }
@@ -428,24 +551,29 @@ function scoreResource(
           if (token.length >= 4 && (tagLower.includes(token) || token.includes(tagLower))) {
             score += SCORING_WEIGHTS.TAG_CONTAINS;
             matchReasons.push(`partial tag: ${tag}`);
+            const start = tagLower.indexOf(token);
+            addMatch(start === -1
+              ? { field: 'tags', start: 0, end: tag.length, kind: 'exact', tagIndex }
+              : { field: 'tags', start, end: start + token.length, kind: start === 0 ? 'prefix' : 'exact', tagIndex });
             break;
           }
         }
       }
-    }
+    });
 
     // Synonym tag matching - only exact matches, not partial
     if (!tagMatchFound) {
-      for (const tag of resource.tags) {
+      resource.tags.forEach((tag, tagIndex) => {
         const tagLower = tag.toLowerCase();
         for (const term of expandedTerms) {
           if (tagLower === term) {
             score += SCORING_WEIGHTS.SYNONYM_MATCH;
             matchReasons.push(`synonym tag: ${tag}`);
+            addMatch({ field: 'tags', start: 0, end: tag.length, kind: 'synonym', tagIndex });
             break;
           }
         }
-      }
+      });
     }
   }
 
@@ -456,12 +584,22 @@ function scoreResource(
     if (matchedCategory && categoryLower === matchedCategory.toLowerCase()) {
       score += SCORING_WEIGHTS.CATEGORY_MATCH;
       matchReasons.push(`category: ${resource.category}`);
+      // Resolved through an alias (e.g. "tutorials" → Learning) unless named directly
+      addMatch({
+        field: 'category',
+        start: 0,
+        end: resource.category.length,
+        kind: query.includes(categoryLower) ? 'exact' : 'synonym',
+      });
     }
 
     // Check if query contains category name
     if (query.includes(categoryLower) || categoryLower.includes(query)) {
       score += SCORING_WEIGHTS.CATEGORY_MATCH / 2;
       matchReasons.push(`category partial: ${resource.category}`);
+      addMatch(query.includes(categoryLower)
+        ? { field: 'category', start: 0, end: resource.category.length, kind: 'exact' }
+        : findSpan(resource.category, query, 'category', categoryLower.startsWith(query) ? 'prefix' : 'exact'));
     }
   }
 
@@ -474,6 +612,9 @@ function scoreResource(
     ) {
       score += SCORING_WEIGHTS.SUBCATEGORY_MATCH;
       matchReasons.push(`subcategory: ${resource.subCategory}`);
+      addMatch(query.includes(subCategoryLower)
+        ? { field: 'subCategory', start: 0, end: resource.subCategory.length, kind: 'exact' }
+        : findSpan(resource.subCategory, query, 'subCategory', subCategoryLower.startsWith(query) ? 'prefix' : 'exact'));
     }
   }
 
@@ -486,6 +627,14 @@ function scoreResource(
     if (descriptionLower.includes(query) && query.length >= 4) {
       score += SCORING_WEIGHTS.DESCRIPTION_CONTAINS;
       matchReasons.push('description contains query');
+      addMatch(findSpan(resource.description, query, 'description', 'exact'));
+    }
+
+    // Highlight query terms and their synonyms in the description (no score change)
+    for (const term of expandedTerms) {
+      if (term.length < 3 || term === query) continue;
+      const kind = queryTokens.includes(term) ? 'exact' : 'synonym';
+      addMatch(findSpan(resource.description, term, 'description', kind, { wordStart: true }));
     }
   }
 
@@ -507,6 +656,7 @@ function scoreResource(
     if (fuzzyScore > 0) {
       score += fuzzyScore * SCORING_WEIGHTS.FUZZY_MAX;
       matchReasons.push('fuzzy name match');
+      addMatch({ field: 'name', start: 0, end: resource.name.length, kind: 'fuzzy' });
     }
 
     // Multi-term fuzzy for longer queries
@@ -519,6 +669,7 @@ function scoreResource(
       if (multiTermScore > 0) {
         score += multiTermScore * (SCORING_WEIGHTS.FUZZY_MAX / 2);
         matchReasons.push('fuzzy content match');
+        getFuzzyWordSpans(resource.description, queryTokens).forEach(addMatch);
       }
     }
   }
@@ -539,9 +690,24 @@ function scoreResource(
     resource,
     score,
     matchReasons,
+    matches,
   };
 }
 
+/**
+ * Spans for description words that fuzzily match a query token
+ */
+function getFuzzyWordSpans(text: string, queryTokens: string[]): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const wordLower = word[0].toLowerCase();
+    if (wordLower.length >= 3 && queryTokens.some(token => token.length >= 3 && isFuzzyMatch(token, wordLower, 0.75))) {
+      spans.push({ field: 'description', start: word.index, end: word.index + word[0].length, kind: 'fuzzy' });
+    }
+  }
+  return spans;
+}
+
 /**
  * Determine the quality of search results
  */
@@ -588,6 +754,7 @@ function generateFallbacks(
           resource,
           score: resource.gravityScore * 4,
           matchReasons: ['category fallback'],
+          matches: [],
         });
         if (fallbacks.length >= count) break;
       }
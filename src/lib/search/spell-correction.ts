@@ -0,0 +1,139 @@
+/**
+ * "Did You Mean" Spelling Correction
+ *
+ * Builds a vocabulary from the directory itself (resource names, tags,
+ * categories, subcategories) plus the synonym and concept keywords, then
+ * replaces query words that aren't in it with the closest word that is.
+ * Only proposed when a search matched poorly, so correct but unusual
+ * words are never second-guessed on a good search.
+ */
+
+import type { NormalizedResource } from '../../types/resource';
+import { synonymGroups, conceptMappings, categoryAliases, pricingKeywords } from './semantic-mappings.js';
+import { levenshteinDistance, similarityRatio, tokenize } from './fuzzy-match.js';
+
+/** Words shorter than this are left alone - too many close neighbours */
+const MIN_WORD_LENGTH = 4;
+
+/** Minimum similarity for a correction */
+const MIN_SIMILARITY = 0.7;
+
+/** Common words that aren't in the directory but aren't typos either */
+const COMMON_WORDS = new Set([
+  'about', 'alternative', 'alternatives', 'best', 'find', 'from', 'good', 'help', 'like',
+  'make', 'making', 'need', 'only', 'same', 'show', 'similar', 'some', 'that', 'than',
+  'them', 'these', 'this', 'want', 'what', 'when', 'where', 'which', 'with', 'without',
+]);
+
+/**
+ * Word frequencies for a resource list, cached per array
+ */
+const vocabularyCache = new WeakMap<NormalizedResource[], Map<string, number>>();
+
+/**
+ * Every word the search understands, with how often it appears
+ */
+export function buildVocabulary(resources: NormalizedResource[]): Map<string, number> {
+  const cached = vocabularyCache.get(resources);
+  if (cached) return cached;
+
+  const vocabulary = new Map<string, number>();
+  const add = (text: string | null | undefined) => {
+    if (!text) return;
+    for (const word of tokenize(text)) {
+      if (/^[a-z]+$/.test(word)) vocabulary.set(word, (vocabulary.get(word) ?? 0) + 1);
+    }
+  };
+
+  for (const resource of resources) {
+    add(resource.name);
+    add(resource.category);
+    add(resource.subCategory);
+    resource.tags?.forEach(add);
+  }
+  for (const [term, synonyms] of Object.entries(synonymGroups)) {
+    add(term);
+    synonyms.forEach(add);
+  }
+  for (const [concept, mapping] of Object.entries(conceptMappings)) {
+    add(concept);
+    mapping.keywords.forEach(add);
+  }
+  for (const keywords of [...Object.values(categoryAliases), ...Object.values(pricingKeywords)]) {
+    keywords.forEach(add);
+  }
+
+  vocabularyCache.set(resources, vocabulary);
+  return vocabulary;
+}
+
+/**
+ * Most common vocabulary word that differs by one swapped pair of
+ * adjacent letters ("vidoe" → "video"), which edit distance counts as two
+ */
+function findTransposition(word: string, vocabulary: Map<string, number>): string | null {
+  let best: string | null = null;
+  for (let i = 0; i < word.length - 1; i++) {
+    const swapped = word.slice(0, i) + word[i + 1] + word[i] + word.slice(i + 2);
+    if (vocabulary.has(swapped) && (!best || vocabulary.get(swapped)! > vocabulary.get(best)!)) {
+      best = swapped;
+    }
+  }
+  return best;
+}
+
+/**
+ * Closest vocabulary word to a misspelled one, or null if none is close
+ *
+ * Swapped letters win; otherwise ties go to the more common word.
+ */
+function correctWord(word: string, vocabulary: Map<string, number>): string | null {
+  const transposition = findTransposition(word, vocabulary);
+  if (transposition) return transposition;
+
+  const maxDistance = word.length >= 6 ? 2 : 1;
+  let best: { word: string; similarity: number; frequency: number } | null = null;
+
+  for (const [candidate, frequency] of vocabulary) {
+    if (Math.abs(candidate.length - word.length) > maxDistance) continue;
+    const similarity = similarityRatio(word, candidate);
+    if (similarity < MIN_SIMILARITY || levenshteinDistance(word, candidate) > maxDistance) continue;
+    if (
+      !best ||
+      similarity > best.similarity ||
+      (similarity === best.similarity && frequency > best.frequency)
+    ) {
+      best = { word: candidate, similarity, frequency };
+    }
+  }
+  return best?.word ?? null;
+}
+
+/**
+ * Propose a corrected query, or null if every word looks right
+ *
+ * Operator tokens (pricing:free) and quoted phrases are kept as typed.
+ */
+export function getSpellingCorrection(resources: NormalizedResource[], query: string): string | null {
+  const vocabulary = buildVocabulary(resources);
+  let changed = false;
+
+  const corrected = query.replace(/"[^"]*"|\S+/g, token => {
+    const word = token.toLowerCase();
+    if (
+      word.length < MIN_WORD_LENGTH ||
+      !/^[a-z]+$/.test(word) ||
+      vocabulary.has(word) ||
+      vocabulary.has(word.replace(/s$/, '')) ||
+      COMMON_WORDS.has(word)
+    ) {
+      return token;
+    }
+    const replacement = correctWord(word, vocabulary);
+    if (!replacement) return token;
+    changed = true;
+    return replacement;
+  });
+
+  return changed ? corrected.trim() : null;
+}
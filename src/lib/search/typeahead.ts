@@ -0,0 +1,174 @@
+/**
+ * Typeahead Suggestions for the Search Modal
+ *
+ * Completes the last word of the query as the user types: resource names,
+ * tags, subcategories, concept names and operator facets with counts
+ * ("fre" → pricing: Free (42)). Accepting a suggestion replaces that word,
+ * so facets become operators (pricing:Free) and filter the results.
+ *
+ * Counts respect operators already in the query: with "category:AI fre"
+ * the count for pricing:Free is the number of free AI resources.
+ */
+
+import type { NormalizedResource } from '../../types/resource';
+import { applyHardFilters } from './semantic-search';
+import { conceptMappings } from './semantic-mappings';
+import { parseQueryOperators, resolveOperatorKey, type QueryOperatorKey } from './query-operators';
+
+export type SuggestionKind = 'facet' | 'resource' | 'subcategory' | 'tag' | 'concept';
+
+export interface TypeaheadSuggestion {
+  kind: SuggestionKind;
+  /** Text shown in the list, e.g. "pricing: Free" */
+  label: string;
+  /** Full query after accepting the suggestion */
+  value: string;
+  /** Matching resources, for facets, subcategories and tags */
+  count?: number;
+}
+
+/** Minimum characters in the last word before suggesting */
+const MIN_PREFIX_LENGTH = 2;
+
+/** Kinds in the order they're shown when equally good matches */
+const KIND_ORDER: SuggestionKind[] = ['facet', 'resource', 'subcategory', 'tag', 'concept'];
+
+interface Candidate {
+  kind: SuggestionKind;
+  label: string;
+  /** Text the last word is replaced with */
+  completion: string;
+  /** Text matched against what was typed */
+  match: string;
+  /** Operator the candidate belongs to, for "key:partial" completions */
+  key?: QueryOperatorKey;
+  count?: number;
+}
+
+/**
+ * Operator token for a value, quoted when it contains spaces
+ */
+function toOperator(key: string, value: string): string {
+  return /\s/.test(value) ? `${key}:"${value}"` : `${key}:${value}`;
+}
+
+function countBy(values: Iterable<string>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Everything that can be suggested for a set of resources
+ */
+function buildCandidates(resources: NormalizedResource[]): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  const facet = (key: QueryOperatorKey, counts: Map<string, number>) => {
+    for (const [value, count] of counts) {
+      candidates.push({ kind: 'facet', key, label: `${key}: ${value}`, completion: toOperator(key, value), match: value, count });
+    }
+  };
+  facet('pricing', countBy(resources.flatMap(r => (r.pricing ? [r.pricing] : []))));
+  facet('category', countBy(resources.flatMap(r => (r.category ? [r.category] : []))));
+
+  const openSourceCount = resources.filter(r => r.opensource).length;
+  if (openSourceCount > 0) {
+    candidates.push({ kind: 'facet', key: 'opensource', label: 'open source', completion: 'opensource:yes', match: 'open source', count: openSourceCount });
+  }
+  const featuredCount = resources.filter(r => r.featured).length;
+  if (featuredCount > 0) {
+    candidates.push({ kind: 'facet', key: 'featured', label: 'featured', completion: 'featured:yes', match: 'featured', count: featuredCount });
+  }
+
+  for (const resource of resources) {
+    candidates.push({ kind: 'resource', label: resource.name, completion: resource.name, match: resource.name });
+  }
+
+  const subCategories = countBy(resources.flatMap(r => (r.subCategory ? [r.subCategory] : [])));
+  for (const [subCategory, count] of subCategories) {
+    candidates.push({ kind: 'subcategory', key: 'sub', label: subCategory, completion: toOperator('sub', subCategory), match: subCategory, count });
+  }
+
+  const tags = countBy(resources.flatMap(r => r.tags ?? []));
+  for (const [tag, count] of tags) {
+    candidates.push({ kind: 'tag', key: 'tag', label: `#${tag}`, completion: toOperator('tag', tag), match: tag, count });
+  }
+
+  for (const concept of Object.keys(conceptMappings)) {
+    candidates.push({ kind: 'concept', label: concept, completion: concept, match: concept });
+  }
+
+  return candidates;
+}
+
+/**
+ * How well typed text matches a candidate: 0 for a prefix of the whole
+ * text, 1 for a prefix of a later word, null for no match
+ */
+function matchRank(text: string, typed: string): number | null {
+  const lower = text.toLowerCase();
+  if (lower.startsWith(typed)) return 0;
+  if (lower.split(/[\s\-/]+/).some(word => word.startsWith(typed))) return 1;
+  return null;
+}
+
+/**
+ * Suggestions for the word being typed
+ *
+ * Each kind is capped so a long list of matching resource names can't
+ * crowd out facets. Suggestions that wouldn't change the query are left out.
+ */
+export function getTypeaheadSuggestions(
+  resources: NormalizedResource[],
+  query: string,
+  maxSuggestions = 6
+): TypeaheadSuggestion[] {
+  const lastSpace = query.search(/\S+$/);
+  if (lastSpace === -1) return [];
+  const before = query.slice(0, lastSpace);
+  const token = query.slice(lastSpace);
+
+  // "pricing:fr" completes values of one operator; "-tag:3" keeps its negation
+  const scoped = token.match(/^(-?)([a-z]+):"?([^"]*)$/i);
+  const operatorKey = scoped ? resolveOperatorKey(scoped[2]) : undefined;
+  if (scoped && !operatorKey) return [];
+  const negation = scoped?.[1] ?? '';
+  const typed = (scoped ? scoped[3] : token).toLowerCase();
+  // An operator key on its own ("pricing:") lists all its values
+  if (!scoped && typed.length < MIN_PREFIX_LENGTH) return [];
+
+  // Counts reflect the operators already typed
+  const { filters, operators } = parseQueryOperators(before);
+  const pool = operators.length > 0 ? applyHardFilters(resources, filters) : resources;
+
+  const perKind = Math.ceil(maxSuggestions / 2);
+  const ranked = buildCandidates(pool)
+    .filter(candidate => !operatorKey || candidate.key === operatorKey)
+    .filter(candidate => !negation || candidate.key !== undefined)
+    .map(candidate => ({ candidate, rank: matchRank(candidate.match, typed) }))
+    .filter((entry): entry is { candidate: Candidate; rank: number } => entry.rank !== null)
+    .filter(({ candidate }) => candidate.completion.toLowerCase() !== token.replace(/^-/, '').toLowerCase())
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      KIND_ORDER.indexOf(a.candidate.kind) - KIND_ORDER.indexOf(b.candidate.kind) ||
+      (b.candidate.count ?? 0) - (a.candidate.count ?? 0) ||
+      a.candidate.label.localeCompare(b.candidate.label)
+    );
+
+  const suggestions: TypeaheadSuggestion[] = [];
+  const perKindCount = new Map<SuggestionKind, number>();
+  for (const { candidate } of ranked) {
+    const used = perKindCount.get(candidate.kind) ?? 0;
+    if (used >= perKind) continue;
+    perKindCount.set(candidate.kind, used + 1);
+    suggestions.push({
+      kind: candidate.kind,
+      label: candidate.label,
+      value: `${before}${candidate.key ? negation : ''}${candidate.completion} `,
+      count: candidate.count,
+    });
+    if (suggestions.length >= maxSuggestions) break;
+  }
+  return suggestions;
+}
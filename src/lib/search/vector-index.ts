@@ -0,0 +1,250 @@
+/**
+ * Local Vector Index for "Similar To" Search
+ *
+ * TF-IDF vectors built from each resource's description, tags and
+ * subcategory. Powers compare-intent search ("alternatives to Figma") and
+ * the related resources on the detail page without any network call.
+ *
+ * The index is generated at build time by scripts/build-vector-index.ts
+ * into src/data/vector-index.json. Building is deterministic (sorted terms,
+ * rounded weights), so the same resources.json always produces the same file.
+ *
+ * This module must stay free of browser/Vite-only APIs: the build script
+ * imports it with tsx.
+ */
+
+import type { NormalizedResource } from '../../types/resource';
+
+/** Bump when the tokenizer or weighting changes so stale indexes are rebuilt */
+export const VECTOR_INDEX_VERSION = 1;
+
+/**
+ * Sparse vector as [termIndex, weight] pairs sorted by term index
+ */
+export type SparseVector = [number, number][];
+
+export interface VectorIndex {
+  version: number;
+  /** Vocabulary, sorted alphabetically */
+  terms: string[];
+  /** Resource id → L2-normalised TF-IDF vector */
+  vectors: Record<string, SparseVector>;
+}
+
+/**
+ * A resource with its cosine similarity to the target (0-1)
+ */
+export interface SimilarResource {
+  resource: NormalizedResource;
+  similarity: number;
+}
+
+/** Field weights applied to raw term counts */
+const FIELD_WEIGHTS = {
+  description: 1,
+  tags: 3,
+  subCategory: 4,
+};
+
+/** Only the strongest terms per resource are kept, which keeps the JSON small */
+const MAX_TERMS_PER_RESOURCE = 40;
+
+/** Weights are rounded so the generated file is stable across platforms */
+const WEIGHT_PRECISION = 4;
+
+/**
+ * Common English and marketing words that carry no similarity signal
+ */
+const STOPWORDS = new Set([
+  'a', 'about', 'across', 'all', 'allow', 'allows', 'allowing', 'also', 'an', 'and', 'any', 'are', 'as',
+  'at', 'be', 'been', 'between', 'beyond', 'both', 'but', 'by', 'can', 'each', 'enable', 'enables',
+  'enabling', 'every', 'for', 'from', 'has', 'have', 'help', 'helps', 'how', 'in', 'including',
+  'into', 'is', 'it', 'its', 'just', 'like', 'look', 'looking', 'make', 'makes', 'more', 'most',
+  'need', 'new', 'no', 'not', 'of', 'on', 'one', 'or', 'other', 'our', 'out', 'over', 'own', 'such',
+  'than', 'that', 'the', 'their', 'them', 'these', 'they', 'this', 'those', 'through', 'to', 'up',
+  'use', 'used', 'uses', 'using', 'value', 'via', 'want', 'was', 'what', 'when', 'where', 'which',
+  'while', 'who', 'whether', 'will', 'with', 'within', 'without', 'you', 'your',
+  'platform', 'platforms', 'offers', 'offering', 'provides', 'providing', 'features', 'feature',
+  'standout', 'capabilities', 'serves', 'lies', 'teams', 'team', 'users', 'user', 'work', 'workflow',
+  'workflows', 'tool', 'tools', 'resource', 'resources', 'based', 'time', 'real', 'way', 'well',
+  'even', 'so', 'do', 'does', 'only', 'very', 'many', 'much',
+]);
+
+/**
+ * Strip a plural "s" so "icons" and "icon" share a term
+ */
+function stem(word: string): string {
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Tokenize free text into index terms
+ */
+export function tokenizeForIndex(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+    .map(stem);
+}
+
+/**
+ * Weighted term counts for one resource
+ *
+ * The resource's own name is left out so descriptions that mention another
+ * product ("a Figma plugin") don't make it look like that product.
+ */
+function getTermCounts(resource: NormalizedResource): Map<string, number> {
+  const counts = new Map<string, number>();
+  const nameTerms = new Set(tokenizeForIndex(resource.name));
+  const add = (term: string, weight: number) => {
+    if (nameTerms.has(term)) return;
+    counts.set(term, (counts.get(term) ?? 0) + weight);
+  };
+
+  for (const term of tokenizeForIndex(resource.description ?? '')) {
+    add(term, FIELD_WEIGHTS.description);
+  }
+  for (const tag of resource.tags ?? []) {
+    for (const term of tokenizeForIndex(tag)) add(term, FIELD_WEIGHTS.tags);
+  }
+  // Subcategory is a distinct term: "Design" under Tools is not "Design" under AI
+  if (resource.subCategory) {
+    add('sub:' + (resource.category ?? '').toLowerCase() + '/' + resource.subCategory.toLowerCase(), FIELD_WEIGHTS.subCategory);
+  }
+  return counts;
+}
+
+function round(value: number): number {
+  const factor = 10 ** WEIGHT_PRECISION;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Build a TF-IDF index over resources
+ *
+ * Uses sublinear term frequency (1 + ln tf) and smoothed IDF. Each vector
+ * is truncated to its strongest terms and L2-normalised.
+ */
+export function buildVectorIndex(resources: NormalizedResource[]): VectorIndex {
+  const sorted = [...resources].sort((a, b) => a.id - b.id);
+  const documents = sorted.map(resource => ({ id: resource.id, counts: getTermCounts(resource) }));
+
+  // Document frequency per term
+  const documentFrequency = new Map<string, number>();
+  for (const { counts } of documents) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const total = documents.length;
+  const idf = (term: string) => Math.log((total + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+
+  // Weight and truncate each document before fixing the vocabulary
+  const weighted = documents.map(({ id, counts }) => {
+    const entries = Array.from(counts, ([term, count]) => [term, (1 + Math.log(count)) * idf(term)] as const)
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, MAX_TERMS_PER_RESOURCE);
+    const norm = Math.sqrt(entries.reduce((sum, [, weight]) => sum + weight * weight, 0)) || 1;
+    return { id, entries: entries.map(([term, weight]) => [term, weight / norm] as const) };
+  });
+
+  const terms = Array.from(new Set(weighted.flatMap(doc => doc.entries.map(([term]) => term)))).sort();
+  const termIndex = new Map(terms.map((term, i) => [term, i]));
+
+  const vectors: Record<string, SparseVector> = {};
+  for (const { id, entries } of weighted) {
+    vectors[String(id)] = entries
+      .map(([term, weight]): [number, number] => [termIndex.get(term)!, round(weight)])
+      .sort((a, b) => a[0] - b[0]);
+  }
+
+  return { version: VECTOR_INDEX_VERSION, terms, vectors };
+}
+
+/**
+ * Serialize an index for src/data/vector-index.json
+ *
+ * One term and one vector per line keeps diffs readable when resources change.
+ */
+export function serializeVectorIndex(index: VectorIndex): string {
+  const terms = index.terms.map(term => '    ' + JSON.stringify(term)).join(',\n');
+  const vectors = Object.entries(index.vectors)
+    .map(([id, vector]) => '    ' + JSON.stringify(id) + ': ' + JSON.stringify(vector))
+    .join(',\n');
+  return '{\n  "version": ' + index.version + ',\n  "terms": [\n' + terms + '\n  ],\n  "vectors": {\n' + vectors + '\n  }\n}\n';
+}
+
+/**
+ * Cosine similarity of two normalised sparse vectors
+ */
+export function cosineSimilarity(a: SparseVector, b: SparseVector): number {
+  let i = 0;
+  let j = 0;
+  let dot = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i][0] === b[j][0]) {
+      dot += a[i][1] * b[j][1];
+      i++;
+      j++;
+    } else if (a[i][0] < b[j][0]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return dot;
+}
+
+/**
+ * Rank resources by similarity to a target resource
+ *
+ * Pass `candidates` to rank a filtered pool. The target itself is excluded,
+ * as are resources missing from the index.
+ */
+export function findSimilarResources(
+  index: VectorIndex,
+  targetId: number,
+  candidates: NormalizedResource[],
+  options: { limit?: number; minSimilarity?: number } = {}
+): SimilarResource[] {
+  const { limit = 10, minSimilarity = 0.05 } = options;
+  const target = index.vectors[String(targetId)];
+  if (!target) return [];
+
+  const similar: SimilarResource[] = [];
+  for (const resource of candidates) {
+    if (resource.id === targetId) continue;
+    const vector = index.vectors[String(resource.id)];
+    if (!vector) continue;
+    const similarity = cosineSimilarity(target, vector);
+    if (similarity >= minSimilarity) {
+      similar.push({ resource, similarity });
+    }
+  }
+
+  return similar
+    .sort((a, b) => b.similarity - a.similarity || b.resource.gravityScore - a.resource.gravityScore)
+    .slice(0, limit);
+}
+
+/**
+ * Terms two resources share, strongest first (for explaining a match)
+ */
+export function getSharedTerms(index: VectorIndex, aId: number, bId: number, limit = 3): string[] {
+  const a = index.vectors[String(aId)];
+  const b = index.vectors[String(bId)];
+  if (!a || !b) return [];
+
+  const bWeights = new Map(b);
+  return a
+    .filter(([term]) => bWeights.has(term))
+    .map(([term, weight]) => [term, weight * bWeights.get(term)!] as const)
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, limit)
+    .map(([term]) => index.terms[term]);
+}
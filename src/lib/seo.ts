@@ -0,0 +1,228 @@
+/**
+ * Prerendered Resource Pages
+ *
+ * `/resource/:id` is rendered on the client, so crawlers and link previews
+ * (Slack, X, iMessage) only ever saw the generic index.html. At build time
+ * the prerender plugin in vite.config.ts copies the built index.html once
+ * per resource with its own title, description, canonical URL, Open Graph
+ * and Twitter tags and SoftwareApplication JSON-LD, and writes sitemap.xml
+ * and robots.txt next to it. The React app still boots from the same shell.
+ *
+ * Everything here is pure string work so it runs in the Vite config and in
+ * tests without a DOM.
+ */
+
+import type { NormalizedResource } from '../types/resource';
+
+export const SITE_NAME = 'OS Design Directory';
+
+/** Used when SITE_URL isn't set at build time */
+export const DEFAULT_SITE_URL = 'https://design-directory-blue.vercel.app';
+
+/** Size of the per-resource social preview cards (see og-image.ts) */
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/** Longest meta description before it's cut at a word boundary */
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/**
+ * Everything a page's head needs for search engines and link previews
+ */
+export interface PageMeta {
+  title: string;
+  description: string;
+  canonicalUrl: string;
+  imageUrl: string;
+  /** Structured data, serialized into a ld+json script */
+  jsonLd?: Record<string, unknown>;
+}
+
+/**
+ * Site origin without a trailing slash
+ */
+export function normalizeSiteUrl(siteUrl: string): string {
+  return siteUrl.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Path of a resource's detail page (matches the router in App.tsx)
+ */
+export function getResourcePath(resource: Pick<NormalizedResource, 'id'>): string {
+  return `/resource/${resource.id}`;
+}
+
+/**
+ * Path of a resource's social preview card, written by the build
+ * (the same card is served on demand from /api/og/resource/:id)
+ */
+export function getOgImagePath(resource: Pick<NormalizedResource, 'id'>): string {
+  return `/og/resource/${resource.id}.png`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:–-]+$/, '')}…`;
+}
+
+/**
+ * Meta description for a resource, falling back to its category when it
+ * has no description of its own
+ */
+export function getResourceDescription(resource: NormalizedResource): string {
+  const description = resource.description?.trim()
+    || `${resource.name}: ${resource.subCategory ?? resource.category ?? 'design'} resource in the ${SITE_NAME}.`;
+  return truncate(description.replace(/\s+/g, ' '), MAX_DESCRIPTION_LENGTH);
+}
+
+/**
+ * schema.org SoftwareApplication for a resource
+ *
+ * Free and freemium resources get a zero-price offer. The gravity score is
+ * an editorial ranking, not a user rating, so it isn't published as one.
+ */
+export function buildResourceJsonLd(
+  resource: NormalizedResource,
+  canonicalUrl: string,
+  imageUrl: string
+): Record<string, unknown> {
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'SoftwareApplication',
+    name: resource.name,
+    description: getResourceDescription(resource),
+    url: resource.url,
+    mainEntityOfPage: canonicalUrl,
+    image: imageUrl,
+    applicationCategory: 'DesignApplication',
+    operatingSystem: 'Web',
+  };
+  if (resource.category) jsonLd.genre = resource.subCategory ?? resource.category;
+  if (resource.tags?.length) jsonLd.keywords = resource.tags.join(', ');
+  if (resource.pricing === 'Free' || resource.pricing === 'Freemium') {
+    jsonLd.offers = { '@type': 'Offer', price: '0', priceCurrency: 'USD' };
+  }
+  return jsonLd;
+}
+
+/**
+ * Head metadata for a resource's detail page
+ */
+export function getResourcePageMeta(resource: NormalizedResource, siteUrl: string): PageMeta {
+  const origin = normalizeSiteUrl(siteUrl);
+  const canonicalUrl = `${origin}${getResourcePath(resource)}`;
+  const imageUrl = `${origin}${getOgImagePath(resource)}`;
+  return {
+    title: `${resource.name} | ${SITE_NAME}`,
+    description: getResourceDescription(resource),
+    canonicalUrl,
+    imageUrl,
+    jsonLd: buildResourceJsonLd(resource, canonicalUrl, imageUrl),
+  };
+}
+
+/**
+ * Replace a tag matched by `pattern`, or add it at the end of <head>
+ */
+function upsertHeadTag(html: string, pattern: RegExp, tag: string): string {
+  // Replacer functions, so `$` in resource text isn't read as a substitution
+  if (pattern.test(html)) return html.replace(pattern, () => tag);
+  return html.replace('</head>', () => `  ${tag}\n  </head>`);
+}
+
+function upsertMeta(html: string, attribute: 'name' | 'property', key: string, content: string): string {
+  return upsertHeadTag(
+    html,
+    new RegExp(`<meta\\s+${attribute}="${key}"[^>]*>`),
+    `<meta ${attribute}="${key}" content="${escapeHtml(content)}" />`
+  );
+}
+
+/**
+ * Apply page metadata to the built index.html
+ *
+ * Rewrites the tags the template already has (title, description, og:*,
+ * twitter:*) and adds the canonical link, og:url and JSON-LD.
+ */
+export function applyPageMeta(html: string, meta: PageMeta): string {
+  let page = upsertHeadTag(html, /<title>[^<]*<\/title>/, `<title>${escapeHtml(meta.title)}</title>`);
+  page = upsertMeta(page, 'name', 'description', meta.description);
+
+  page = upsertMeta(page, 'property', 'og:title', meta.title);
+  page = upsertMeta(page, 'property', 'og:description', meta.description);
+  page = upsertMeta(page, 'property', 'og:image', meta.imageUrl);
+  page = upsertMeta(page, 'property', 'og:image:width', String(OG_IMAGE_WIDTH));
+  page = upsertMeta(page, 'property', 'og:image:height', String(OG_IMAGE_HEIGHT));
+  page = upsertMeta(page, 'property', 'og:url', meta.canonicalUrl);
+  page = upsertMeta(page, 'property', 'og:site_name', SITE_NAME);
+
+  page = upsertMeta(page, 'name', 'twitter:card', 'summary_large_image');
+  page = upsertMeta(page, 'name', 'twitter:title', meta.title);
+  page = upsertMeta(page, 'name', 'twitter:description', meta.description);
+  page = upsertMeta(page, 'name', 'twitter:image', meta.imageUrl);
+
+  page = upsertHeadTag(
+    page,
+    /<link\s+rel="canonical"[^>]*>/,
+    `<link rel="canonical" href="${escapeHtml(meta.canonicalUrl)}" />`
+  );
+
+  if (meta.jsonLd) {
+    // `<` escaped so a description can't close the script tag
+    const json = JSON.stringify(meta.jsonLd).replace(/</g, '\\u003c');
+    page = upsertHeadTag(
+      page,
+      /<script type="application\/ld\+json">[\s\S]*?<\/script>/,
+      `<script type="application/ld+json">${json}</script>`
+    );
+  }
+  return page;
+}
+
+/**
+ * The built index.html with a resource's metadata
+ */
+export function renderResourcePage(template: string, resource: NormalizedResource, siteUrl: string): string {
+  return applyPageMeta(template, getResourcePageMeta(resource, siteUrl));
+}
+
+/**
+ * sitemap.xml listing the home page and every resource page
+ */
+export function buildSitemap(resources: NormalizedResource[], siteUrl: string): string {
+  const origin = normalizeSiteUrl(siteUrl);
+  const urls = [`${origin}/`, ...resources.map(resource => `${origin}${getResourcePath(resource)}`)];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url => `  <url><loc>${escapeHtml(url)}</loc></url>`),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * robots.txt allowing every page and pointing at the sitemap
+ *
+ * The serverless functions under /api are left out of crawling.
+ */
+export function buildRobotsTxt(siteUrl: string): string {
+  return [
+    'User-agent: *',
+    'Allow: /',
+    'Disallow: /api/',
+    '',
+    `Sitemap: ${normalizeSiteUrl(siteUrl)}/sitemap.xml`,
+    '',
+  ].join('\n');
+}
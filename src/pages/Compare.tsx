@@ -0,0 +1,227 @@
+import { useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Check, ExternalLink, Minus, Pin, X } from 'lucide-react';
+import { resources } from '../data';
+import type { NormalizedResource } from '../types/resource';
+import {
+  buildCompareUrl,
+  parseCompareIds,
+  MIN_COMPARE_RESOURCES,
+} from '../lib/search/compare-search';
+import { GravityScoreBadge } from '../components/ui/GravityScoreBadge';
+import { ResourceLogo } from '../components/ui/ResourceLogo';
+
+/**
+ * Pricing text colour, matching the pricing badges on the detail page
+ */
+function getPricingColor(pricing: string | null): string {
+  const lower = pricing?.toLowerCase();
+  if (lower === 'free') return 'text-emerald-400';
+  if (lower === 'freemium') return 'text-amber-400';
+  if (lower === 'paid' || lower === 'pay per use') return 'text-rose-400';
+  return 'text-[var(--fg-secondary)]';
+}
+
+/**
+ * Screenshot cell - falls back to a dash when missing or broken
+ */
+function ScreenshotCell({ resource }: { resource: NormalizedResource }) {
+  const [failed, setFailed] = useState(false);
+  if (!resource.screenshot || failed) {
+    return <Minus className="w-4 h-4 text-[var(--fg-tertiary)]" aria-label="No screenshot" />;
+  }
+  return (
+    <img
+      src={resource.screenshot}
+      alt={`${resource.name} screenshot`}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className="w-full aspect-[16/10] object-cover object-top rounded border border-[var(--border-secondary)]"
+    />
+  );
+}
+
+/**
+ * Rows of the comparison, one attribute per row
+ */
+const COMPARE_ROWS: { label: string; render: (resource: NormalizedResource) => React.ReactNode }[] = [
+  {
+    label: 'Pricing',
+    render: resource => (
+      <span className={`text-sm ${getPricingColor(resource.pricing)}`}>{resource.pricing ?? 'Unknown'}</span>
+    ),
+  },
+  {
+    label: 'Open source',
+    render: resource => resource.opensource
+      ? <Check className="w-4 h-4 text-emerald-400" aria-label="Yes" />
+      : <Minus className="w-4 h-4 text-[var(--fg-tertiary)]" aria-label="No" />,
+  },
+  {
+    label: 'Gravity score',
+    render: resource => (
+      <div className="space-y-1.5">
+        <GravityScoreBadge score={resource.gravityScore} size="sm" />
+        {resource.gravityRationale && (
+          <p className="text-xs text-[var(--fg-secondary)] leading-relaxed">{resource.gravityRationale}</p>
+        )}
+      </div>
+    ),
+  },
+  {
+    label: 'Tags',
+    render: resource => resource.tags?.length ? (
+      <div className="flex flex-wrap gap-1">
+        {resource.tags.map(tag => (
+          <span key={tag} className="px-1.5 py-0.5 rounded bg-[var(--bg-secondary)]/60 text-[var(--fg-secondary)] text-xs border border-[var(--border-secondary)]">
+            {tag}
+          </span>
+        ))}
+      </div>
+    ) : <Minus className="w-4 h-4 text-[var(--fg-tertiary)]" aria-label="None" />,
+  },
+  {
+    label: 'Subcategory',
+    render: resource => (
+      <span className="text-sm text-[var(--fg-primary)]">{resource.subCategory ?? resource.category ?? 'Resource'}</span>
+    ),
+  },
+  {
+    label: 'Screenshot',
+    render: resource => <ScreenshotCell resource={resource} />,
+  },
+];
+
+/**
+ * Compare Page
+ *
+ * Shows 2-4 resources side by side (/compare?ids=1,5,9). Comparison
+ * searches ("alternatives to Figma") open it with the target pinned
+ * (&pin=1) next to its closest alternatives. Other columns can be removed
+ * down to MIN_COMPARE_RESOURCES.
+ */
+export default function Compare() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const ids = useMemo(() => parseCompareIds(searchParams.get('ids'), resources), [searchParams]);
+  const pinnedParam = Number(searchParams.get('pin'));
+  const pinnedId = ids.includes(pinnedParam) ? pinnedParam : undefined;
+  const compared = ids
+    .map(id => resources.find(r => r.id === id))
+    .filter((r): r is NormalizedResource => r !== undefined);
+
+  const removeResource = (id: number) => {
+    navigate(buildCompareUrl(ids.filter(other => other !== id), pinnedId), { replace: true });
+  };
+
+  if (compared.length < MIN_COMPARE_RESOURCES) {
+    return (
+      <div className="min-h-screen bg-[var(--bg-primary)] text-[var(--fg-primary)] flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-semibold mb-4">Nothing to Compare</h1>
+          <p className="text-[var(--fg-tertiary)] mb-6">
+            Pick at least {MIN_COMPARE_RESOURCES} resources, or search for "alternatives to" a tool.
+          </p>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-[#FE5102] text-white rounded-lg hover:bg-[#FE5102]/90 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Universe
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const pinned = compared.find(r => r.id === pinnedId);
+
+  return (
+    <div className="min-h-screen bg-[var(--bg-primary)] text-[var(--fg-primary)]">
+      <header className="sticky top-0 z-10 bg-[var(--bg-primary)] border-b border-[var(--border-secondary)]">
+        <div className="max-w-7xl mx-auto px-6 h-16 flex items-center gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-[var(--fg-secondary)] hover:text-[var(--fg-primary)] transition-colors"
+            aria-label="Go back"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <h1 className="text-sm font-medium truncate">
+            {pinned ? `${pinned.name} vs. alternatives` : `Comparing ${compared.length} resources`}
+          </h1>
+        </div>
+      </header>
+
+      <main id="main-content" tabIndex={-1} className="max-w-7xl mx-auto px-6 py-8 outline-none overflow-x-auto">
+        <table className="w-full min-w-[640px] table-fixed border-collapse">
+          <thead>
+            <tr>
+              <th scope="col" className="w-32 text-left align-bottom pb-4">
+                <span className="sr-only">Attribute</span>
+              </th>
+              {compared.map(resource => (
+                <th key={resource.id} scope="col" className="text-left align-bottom pb-4 px-3">
+                  <div className="flex items-start gap-2">
+                    <ResourceLogo resource={resource} size="md" />
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        to={`/resource/${resource.id}`}
+                        className="block text-sm font-medium text-[var(--fg-primary)] hover:text-[#FE5102] transition-colors truncate"
+                      >
+                        {resource.name}
+                      </Link>
+                      {resource.id === pinnedId ? (
+                        <span className="inline-flex items-center gap-1 text-xs text-[#FE5102]">
+                          <Pin className="w-3 h-3" />
+                          Compared to
+                        </span>
+                      ) : (
+                        <a
+                          href={resource.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-xs font-normal text-[var(--fg-tertiary)] hover:text-[var(--fg-primary)] transition-colors"
+                        >
+                          Visit
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      )}
+                    </div>
+                    {resource.id !== pinnedId && compared.length > MIN_COMPARE_RESOURCES && (
+                      <button
+                        onClick={() => removeResource(resource.id)}
+                        className="p-1 rounded-full text-[var(--fg-secondary)] hover:text-[var(--fg-primary)] hover:bg-[var(--bg-tertiary)] transition-colors"
+                        aria-label={`Remove ${resource.name} from comparison`}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARE_ROWS.map(row => (
+              <tr key={row.label} className="border-t border-[var(--border-secondary)]">
+                <th scope="row" className="text-left align-top py-4 text-xs font-semibold uppercase tracking-wide text-[var(--fg-secondary)]">
+                  {row.label}
+                </th>
+                {compared.map(resource => (
+                  <td
+                    key={resource.id}
+                    className={`align-top py-4 px-3 ${resource.id === pinnedId ? 'bg-[#FE5102]/5' : ''}`}
+                  >
+                    {row.render(resource)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </main>
+    </div>
+  );
+}
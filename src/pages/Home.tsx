@@ -2,6 +2,7 @@ import { useState, useMemo, lazy, Suspense, useCallback, useRef, useEffect } fro
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Box, Table2, Search, LayoutGrid, Info, X } from 'lucide-react';
 import { SearchModal } from '../components/search/SearchModal';
+import { RecommendWizard } from '../components/search/RecommendWizard';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useTouchDevice } from '../hooks/useTouchDevice';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -15,12 +16,21 @@ import { AIFilterResponse } from '../components/ui/AIFilterResponse';
 import InspoResourceTooltip from '../components/ui/InspoResourceTooltip';
 import { InspoTable } from '../components/ui/InspoTable';
 import { CardView } from '../components/card-view';
+import { ExportMenu } from '../components/ui/ExportMenu';
+import { CollectionsPanel } from '../components/ui/CollectionsPanel';
+import type { ExportContext } from '../lib/export';
 import {
   semanticSearch,
   generateAIResponse,
   generateCategoryResponse,
 } from '../lib/search';
+import { logSearch } from '../lib/search/search-logger';
+import { describeFilters, type SearchConversation } from '../lib/search/conversation';
+import { findResourceByName, getComparisonUrl } from '../lib/search/compare-search';
+import { answersFromParsedQuery, type RecommendAnswers } from '../lib/search/recommend';
+import { computeFacetCounts, type FacetCounts } from '../lib/search/facets';
 import { performLLMSearch } from '../hooks/useLLMSearch';
+import { useActiveCollection, useCollectionsStore } from '../store/useCollectionsStore';
 
 // Lazy load the 3D canvas for better initial load
 const InspoCanvas = lazy(() => import('../components/canvas/InspoCanvas'));
@@ -134,6 +144,8 @@ export default function Home() {
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredResourceIds, setFilteredResourceIds] = useState<number[] | null>(null);
   const [matchedCategories, setMatchedCategories] = useState<string[]>([]);
+  // How the current search results break down, for the category button counts
+  const [searchFacets, setSearchFacets] = useState<FacetCounts | null>(null);
 
   // Sync URL params to filter state on mount/change
   useEffect(() => {
@@ -147,9 +159,13 @@ export default function Home() {
 
   // AI response state
   const messageIdRef = useRef(0);
-  const [aiMessage, setAiMessage] = useState<{ id: number; text: string } | null>(null);
+  const [aiMessage, setAiMessage] = useState<{ id: number; text: string; suggestedQuery?: string } | null>(null);
   const [isAiTyping, setIsAiTyping] = useState(false);
 
+  // Search conversation - follow-ups in InspoChat refine the previous search
+  const [conversation, setConversation] = useState<SearchConversation | null>(null);
+  const [conversationThread, setConversationThread] = useState<{ query: string; summary: string }[]>([]);
+
   // Tooltip state
   const [hoveredResource, setHoveredResource] = useState<NormalizedResource | null>(null);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
@@ -158,6 +174,9 @@ export default function Home() {
   // Search modal state
   const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
 
+  // Recommendation wizard - answers it opens with, null while closed
+  const [recommendAnswers, setRecommendAnswers] = useState<RecommendAnswers | null>(null);
+
   // Mobile sort state - default to rating descending
   type MobileSortOption = 'rating' | 'free-first' | 'paid-first';
   const [mobileSortOption, _setMobileSortOption] = useState<MobileSortOption>('rating');
@@ -196,10 +215,19 @@ export default function Home() {
     }
   }, [displayMode]);
 
-  // Filter resources based on category, subcategory, and semantic search
+  // Favorites or a named collection narrows every view
+  const activeCollection = useActiveCollection();
+  const setActiveCollection = useCollectionsStore(state => state.setActiveCollection);
+  const collectionResources = useMemo(() => {
+    if (!activeCollection) return resources;
+    const ids = new Set(activeCollection.resourceIds);
+    return resources.filter(r => ids.has(r.id));
+  }, [activeCollection]);
+
+  // Filter resources based on collection, category, subcategory, and semantic search
   const filteredResources = useMemo(() => {
-    // Start with all resources or filter by category/subcategory
-    let baseResources = resources;
+    // Start with the collection (or all resources) and filter by category/subcategory
+    let baseResources = collectionResources;
 
     if (activeCategory) {
       baseResources = baseResources.filter(r => r.category === activeCategory);
@@ -221,7 +249,37 @@ export default function Home() {
     }
 
     return baseResources;
-  }, [activeCategory, activeSubCategory, searchQuery]);
+  }, [collectionResources, activeCategory, activeSubCategory, searchQuery]);
+
+  // Ids the universe highlights: search results, limited to the active collection
+  const visibleResourceIds = useMemo(() => {
+    if (!activeCollection) return filteredResourceIds;
+    const ids = new Set(activeCollection.resourceIds);
+    return (filteredResourceIds ?? filteredResources.map(r => r.id)).filter(id => ids.has(id));
+  }, [activeCollection, filteredResourceIds, filteredResources]);
+
+  // Resources currently visible in the universe, in ranked order when searching
+  const visibleResources = useMemo(() => {
+    if (!visibleResourceIds) return filteredResources;
+    const byId = new Map(resources.map(r => [r.id, r]));
+    return visibleResourceIds
+      .map(id => byId.get(id))
+      .filter((r): r is NormalizedResource => r !== undefined);
+  }, [visibleResourceIds, filteredResources]);
+
+  // Export context for the universe view
+  const exportContext = useMemo((): ExportContext => {
+    const filters: Record<string, string> = {};
+    if (activeCollection) filters.Collection = activeCollection.name;
+    if (searchQuery) filters.Search = searchQuery;
+    if (activeCategory) filters.Category = activeCategory;
+    if (activeSubCategory) filters['Sub-category'] = activeSubCategory;
+    return {
+      view: '3d',
+      filters,
+      sort: filteredResourceIds ? 'Relevance' : undefined,
+    };
+  }, [activeCollection, searchQuery, activeCategory, activeSubCategory, filteredResourceIds]);
 
   // Sort resources for mobile view
   // @ts-expect-error - Prepared for mobile list implementation
@@ -265,13 +323,39 @@ export default function Home() {
       const searchResult = await performLLMSearch(query, {
         enableLLM: true,
         timeout: 5000,
+        conversation,
       });
 
-      const { results, metadata, aiResponse, isLLMEnhanced } = searchResult;
+      const { results, metadata, aiResponse, isLLMEnhanced, operatorQuery, isRefinement } = searchResult;
+      logSearch({
+        query,
+        quality: metadata.quality,
+        resultCount: results.length,
+        llmEnhanced: isLLMEnhanced,
+        view: displayMode,
+      });
+
+      // Comparisons open side by side: the target pinned next to its top alternatives
+      const comparisonTarget = metadata.comparisonTarget
+        ? findResourceByName(resources, metadata.comparisonTarget)
+        : null;
+      const compareUrl = comparisonTarget
+        ? getComparisonUrl(comparisonTarget, results.map(r => r.resource))
+        : null;
+      if (compareUrl) {
+        navigate(compareUrl);
+        return;
+      }
+
+      // "What should I use for..." opens the guided flow, pre-filled from the parse
+      if (searchResult.parsedQuery?.intent === 'recommend' && !isRefinement) {
+        setRecommendAnswers(answersFromParsedQuery(searchResult.parsedQuery, query));
+      }
 
       // Extract matched resource IDs for filtering
       const ids = results.map(r => r.resource.id);
       setFilteredResourceIds(ids);
+      setSearchFacets(metadata.facets ?? null);
 
       // Extract matched categories for multi-ring highlighting
       const categories = [...new Set(results.map(r => r.resource.category).filter(Boolean))] as string[];
@@ -280,21 +364,11 @@ export default function Home() {
       // Build response message with filter context
       let message = aiResponse.message;
       
-      // Add context about applied filters if LLM was used
-      if (isLLMEnhanced && metadata.appliedFilters) {
-        const filters = metadata.appliedFilters;
-        const filterParts: string[] = [];
-        
-        if (filters.pricing?.length) {
-          filterParts.push(`${filters.pricing.join(' or ')} resources`);
-        }
-        if (filters.minGravityScore !== undefined) {
-          filterParts.push(`rated ${filters.minGravityScore}+`);
-        }
-        if (filters.categories?.length) {
-          filterParts.push(`in ${filters.categories.join(', ')}`);
-        }
-        
+      // Add context about applied filters if LLM, operator syntax or a refinement was used
+      // (comparison results keep their "alternatives to X" message)
+      if ((isLLMEnhanced || operatorQuery || isRefinement) && metadata.appliedFilters && !metadata.comparisonTarget) {
+        const filterParts = describeFilters(metadata.appliedFilters);
+
         if (filterParts.length > 0 && results.length > 0) {
           message = `Found ${results.length} ${filterParts.join(', ')}.`;
         } else if (results.length === 0 && filterParts.length > 0) {
@@ -302,8 +376,19 @@ export default function Home() {
         }
       }
 
+      // Mention operators that couldn't be understood (they were ignored)
+      if (operatorQuery?.errors.length) {
+        const ignored = operatorQuery.errors.map(e => `${e.raw} (${e.message})`).join(', ');
+        message = `${message} Ignored ${ignored}.`;
+      }
+
       messageIdRef.current += 1;
-      setAiMessage({ id: messageIdRef.current, text: message });
+      setAiMessage({ id: messageIdRef.current, text: message, suggestedQuery: metadata.suggestedQuery });
+
+      // Keep the thread going for refinements, start a new one otherwise
+      const turn = { query, summary: message };
+      setConversation(searchResult.conversation);
+      setConversationThread(thread => (isRefinement ? [...thread, turn] : [turn]));
     } catch (error) {
       console.error('Search error:', error);
       
@@ -316,17 +401,33 @@ export default function Home() {
 
       const ids = results.map(r => r.resource.id);
       setFilteredResourceIds(ids);
+      setSearchFacets(metadata.facets ?? null);
 
       const categories = [...new Set(results.map(r => r.resource.category).filter(Boolean))] as string[];
       setMatchedCategories(categories);
 
       const aiResponse = generateAIResponse(results, metadata);
       messageIdRef.current += 1;
-      setAiMessage({ id: messageIdRef.current, text: aiResponse.message });
+      setAiMessage({ id: messageIdRef.current, text: aiResponse.message, suggestedQuery: metadata.suggestedQuery });
+      setConversation(null);
+      setConversationThread([]);
     } finally {
       setIsAiTyping(false);
     }
-  }, []);
+  }, [displayMode, conversation, navigate]);
+
+  // Show the wizard's shortlist as the current search results
+  const handleShowRecommendations = useCallback((picks: NormalizedResource[]) => {
+    setRecommendAnswers(null);
+    setFilteredResourceIds(picks.map(r => r.id));
+    setSearchFacets(computeFacetCounts(picks));
+    setMatchedCategories([...new Set(picks.map(r => r.category).filter(Boolean))] as string[]);
+    setConversation(null);
+    setConversationThread([]);
+    messageIdRef.current += 1;
+    setAiMessage({ id: messageIdRef.current, text: `Showing your ${picks.length} recommended resources.` });
+    if (displayMode === 'landing') handleLandingNavigate('card');
+  }, [displayMode, handleLandingNavigate]);
 
   // Handle resource click — two-tap flow on touch devices
   const handleResourceClick = useCallback((resource: NormalizedResource) => {
@@ -361,7 +462,10 @@ export default function Home() {
     setAiMessage(null);
     setSearchQuery('');
     setFilteredResourceIds(null);
+    setSearchFacets(null);
     setMatchedCategories([]);
+    setConversation(null);
+    setConversationThread([]);
   }, []);
 
   // Handle category change with AI response
@@ -370,8 +474,11 @@ export default function Home() {
     setActiveSubCategory(null);
     setSearchQuery('');
     setFilteredResourceIds(null);  // Clear search filter
+    setSearchFacets(null);
     setMatchedCategories([]);       // Clear matched categories
     setHoveredResource(null);       // Clear tooltip to prevent stuck state
+    setConversation(null);          // A category pick starts over
+    setConversationThread([]);
 
     // Update URL params to stay in sync
     if (category) {
@@ -381,7 +488,7 @@ export default function Home() {
         next.delete('subCategory');
         return next;
       });
-      const categoryResources = resources.filter(r => r.category === category);
+      const categoryResources = collectionResources.filter(r => r.category === category);
       const response = generateCategoryResponse(category, categoryResources.length);
       messageIdRef.current += 1;
       setAiMessage({ id: messageIdRef.current, text: response.message });
@@ -409,7 +516,7 @@ export default function Home() {
         next.set('subCategory', subCategory);
         return next;
       });
-      const filtered = resources.filter(
+      const filtered = collectionResources.filter(
         r => r.category === activeCategory && r.subCategory === subCategory
       );
       messageIdRef.current += 1;
@@ -421,7 +528,7 @@ export default function Home() {
         return next;
       });
       // Reset to just category message
-      const categoryResources = resources.filter(r => r.category === activeCategory);
+      const categoryResources = collectionResources.filter(r => r.category === activeCategory);
       const response = generateCategoryResponse(activeCategory, categoryResources.length);
       messageIdRef.current += 1;
       setAiMessage({ id: messageIdRef.current, text: response.message });
@@ -481,7 +588,7 @@ export default function Home() {
                   resources={resources}
                   activeCategory={activeCategory}
                   activeSubFilter={activeSubCategory}
-                  filteredResourceIds={filteredResourceIds}
+                  filteredResourceIds={visibleResourceIds}
                   matchedCategories={matchedCategories}
                   onResourceClick={handleResourceClick}
                   onResourceHover={handleResourceHover}
@@ -514,12 +621,16 @@ export default function Home() {
             <button
               onClick={() => {
                 setSearchParams({});
+                setActiveCollection(null);
                 setActiveCategory(null);
                 setActiveSubCategory(null);
                 setSearchQuery('');
                 setAiMessage(null);
                 setFilteredResourceIds(null);
+                setSearchFacets(null);
                 setMatchedCategories([]);
+                setConversation(null);
+                setConversationThread([]);
               }}
               className="flex items-center justify-center w-10 h-[39px] bg-os-surface-dark/50 rounded-md border border-[var(--border-secondary)] hover:opacity-80 transition-opacity"
             >
@@ -641,44 +752,47 @@ export default function Home() {
               </AnimatePresence>
             </div>
 
-            {/* Right: View toggle (all screen sizes) */}
-            <div className="flex items-center bg-os-surface-dark/50 rounded-lg p-1 border border-[var(--border-secondary)]">
-              <button
-                onClick={() => setSearchParams({ display: '3d' })}
-                className={`p-2 rounded-md transition-all ${
-                  displayMode === '3d'
-                    ? 'bg-brand-aperol text-white'
-                    : 'text-os-text-secondary-dark hover:text-os-text-primary-dark hover:bg-[var(--bg-tertiary)]'
-                }`}
-                aria-label="3D View"
-                aria-current={displayMode === '3d' ? 'page' : undefined}
-              >
-                <Box className="w-4 h-4" />
-              </button>
-              <button
-                onClick={() => setSearchParams({ display: 'card' })}
-                className={`p-2 rounded-md transition-all ${
-                  displayMode === 'card'
-                    ? 'bg-brand-aperol text-white'
-                    : 'text-os-text-secondary-dark hover:text-os-text-primary-dark hover:bg-[var(--bg-tertiary)]'
-                }`}
-                aria-label="Card View"
-                aria-current={displayMode === 'card' ? 'page' : undefined}
-              >
-                <LayoutGrid className="w-4 h-4" />
-              </button>
-              <button
-                onClick={() => setSearchParams({ display: 'table' })}
-                className={`p-2 rounded-md transition-all ${
-                  displayMode === 'table'
-                    ? 'bg-brand-aperol text-white'
-                    : 'text-os-text-secondary-dark hover:text-os-text-primary-dark hover:bg-[var(--bg-tertiary)]'
-                }`}
-                aria-label="Table View"
-                aria-current={displayMode === 'table' ? 'page' : undefined}
-              >
-                <Table2 className="w-4 h-4" />
-              </button>
+            {/* Right: Collections + View toggle (all screen sizes) */}
+            <div className="flex items-center gap-2">
+              <CollectionsPanel resources={resources} />
+              <div className="flex items-center bg-os-surface-dark/50 rounded-lg p-1 border border-[var(--border-secondary)]">
+                <button
+                  onClick={() => setSearchParams({ display: '3d' })}
+                  className={`p-2 rounded-md transition-all ${
+                    displayMode === '3d'
+                      ? 'bg-brand-aperol text-white'
+                      : 'text-os-text-secondary-dark hover:text-os-text-primary-dark hover:bg-[var(--bg-tertiary)]'
+                  }`}
+                  aria-label="3D View"
+                  aria-current={displayMode === '3d' ? 'page' : undefined}
+                >
+                  <Box className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setSearchParams({ display: 'card' })}
+                  className={`p-2 rounded-md transition-all ${
+                    displayMode === 'card'
+                      ? 'bg-brand-aperol text-white'
+                      : 'text-os-text-secondary-dark hover:text-os-text-primary-dark hover:bg-[var(--bg-tertiary)]'
+                  }`}
+                  aria-label="Card View"
+                  aria-current={displayMode === 'card' ? 'page' : undefined}
+                >
+                  <LayoutGrid className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setSearchParams({ display: 'table' })}
+                  className={`p-2 rounded-md transition-all ${
+                    displayMode === 'table'
+                      ? 'bg-brand-aperol text-white'
+                      : 'text-os-text-secondary-dark hover:text-os-text-primary-dark hover:bg-[var(--bg-tertiary)]'
+                  }`}
+                  aria-label="Table View"
+                  aria-current={displayMode === 'table' ? 'page' : undefined}
+                >
+                  <Table2 className="w-4 h-4" />
+                </button>
+              </div>
             </div>
 
           </div>
@@ -712,6 +826,7 @@ export default function Home() {
                 onNavigate={handleLandingNavigate}
                 isExiting={isLandingExiting}
                 onExitComplete={handleLandingExitComplete}
+                onRecommend={() => setRecommendAnswers({})}
               />
             </motion.div>
           )}
@@ -737,7 +852,7 @@ export default function Home() {
               className="w-full h-full"
               style={{ overscrollBehaviorY: 'contain', WebkitOverflowScrolling: 'touch' }}
             >
-              <CardView resources={resources} />
+              <CardView resources={collectionResources} collectionName={activeCollection?.name} />
             </motion.div>
           )}
 
@@ -753,7 +868,8 @@ export default function Home() {
             >
               <div className="max-w-7xl mx-auto">
                 <InspoTable
-                  resources={resources}
+                  resources={collectionResources}
+                  collectionName={activeCollection?.name}
                   initialCategory={categoryParam || undefined}
                   initialSubCategory={subCategoryParam || undefined}
                   initialPricing={pricingParam || undefined}
@@ -812,7 +928,10 @@ export default function Home() {
                         message={aiMessage?.text ?? null}
                         isTyping={isAiTyping}
                         onDismiss={dismissAiResponse}
-                        matchCount={filteredResourceIds ? filteredResourceIds.length : filteredResources.length}
+                        matchCount={visibleResources.length}
+                        thread={conversation ? conversationThread : undefined}
+                        suggestedQuery={aiMessage?.suggestedQuery}
+                        onSearchSuggestion={handleSearch}
                       />
                     </motion.div>
                   )}
@@ -823,26 +942,36 @@ export default function Home() {
               <InspoChat
                 onSubmit={handleSearch}
                 isLoading={isAiTyping}
-                placeholder="Describe what you're looking for... (e.g., 'tools for YouTube creators')"
+                placeholder={conversation
+                  ? "Refine these results... (e.g., 'only the free ones', 'any price')"
+                  : "Describe what you're looking for... (e.g., 'tools for YouTube creators')"}
+                onRecommend={() => setRecommendAnswers({})}
               />
 
               {/* Category Buttons */}
               <CategoryButtons
-                resources={resources}
+                resources={collectionResources}
                 activeCategory={activeCategory}
                 activeSubCategory={activeSubCategory}
+                facetCounts={searchFacets}
                 onCategoryChange={handleCategoryChange}
                 onSubCategoryChange={handleSubCategoryChange}
               />
 
-              {/* Resource count */}
-              <div className="flex items-center justify-center" role="status" aria-live="polite">
-                <p className="flex items-center gap-2 text-sm text-os-text-secondary-dark">
+              {/* Resource count + export */}
+              <div className="relative flex items-center justify-center">
+                <p className="flex items-center gap-2 text-sm text-os-text-secondary-dark" role="status" aria-live="polite">
                   <span className="text-lg font-semibold text-brand-aperol">
-                    {filteredResourceIds ? filteredResourceIds.length : filteredResources.length}
+                    {visibleResources.length}
                   </span>
                   <span>design resources</span>
                 </p>
+                <ExportMenu
+                  resources={visibleResources}
+                  context={exportContext}
+                  placement="top"
+                  className="absolute right-0"
+                />
               </div>
             </div>
           </motion.div>
@@ -874,6 +1003,19 @@ export default function Home() {
         }}
       />
 
+      {/* Recommendation Wizard */}
+      <RecommendWizard
+        isOpen={recommendAnswers !== null}
+        onClose={() => setRecommendAnswers(null)}
+        resources={resources}
+        initialAnswers={recommendAnswers ?? undefined}
+        onSelectResource={(resource) => {
+          setRecommendAnswers(null);
+          navigate(`/resource/${resource.id}`);
+        }}
+        onShowResults={handleShowRecommendations}
+      />
+
       {/* Legend Button - Fixed position outside canvas for proper z-index */}
       {displayMode === '3d' && (
         <div className="fixed top-[164px] inset-x-0 z-[260] pointer-events-none">
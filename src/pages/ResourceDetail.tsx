@@ -21,10 +21,13 @@ import {
   LayoutGrid,
   Table2,
 } from 'lucide-react';
-import { resources } from '../data';
+import { resources, vectorIndex } from '../data';
+import { findSimilarResources } from '../lib/search/vector-index';
 import { RatingScale } from '../components/ui/RatingScale';
 import { SearchModal } from '../components/search/SearchModal';
 import { ResourceLogo } from '../components/ui/ResourceLogo';
+import { FavoriteButton } from '../components/ui/FavoriteButton';
+import { CollectionMenu } from '../components/ui/CollectionMenu';
 
 /**
  * Get domain from URL
@@ -96,7 +99,7 @@ function getPricingStyle(pricing: string | null) {
  * - Hero section with favicon/thumbnail
  * - About section with description and tags
  * - Details section with category, pricing, and badges
- * - Related resources section with smart matching
+ * - Related resources section ranked by text similarity
  */
 export default function ResourceDetail() {
   const { id } = useParams<{ id: string }>();
@@ -109,35 +112,11 @@ export default function ResourceDetail() {
   // Find the resource
   const resource = resources.find(r => r.id === Number(id));
 
-  // Calculate related resources based on shared tags, category, and subcategory
+  // Related resources: nearest neighbours in the local TF-IDF vector index
+  // (built from descriptions, tags and subcategory - see lib/search/vector-index.ts)
   const relatedResources = useMemo(() => {
     if (!resource) return [];
-
-    const resourceTags = resource.tags || [];
-
-    return resources
-      .filter(r => r.id !== resource.id)
-      .map(r => {
-        let score = 0;
-        const rTags = r.tags || [];
-
-        // +3 points per shared tag
-        const sharedTags = resourceTags.filter(t =>
-          rTags.some(rt => rt.toLowerCase() === t.toLowerCase())
-        );
-        score += sharedTags.length * 3;
-
-        // +2 points for same sub-category
-        if (r.subCategory && r.subCategory === resource.subCategory) score += 2;
-
-        // +1 point for same category
-        if (r.category && r.category === resource.category) score += 1;
-
-        return { resource: r, score };
-      })
-      .filter(s => s.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 4)
+    return findSimilarResources(vectorIndex, resource.id, resources, { limit: 4 })
       .map(s => s.resource);
   }, [resource]);
 
@@ -502,6 +481,10 @@ export default function ResourceDetail() {
                         {urlCopied ? 'Copied' : 'Copy'}
                       </span>
                     </button>
+
+                    {/* Favorite + Collections */}
+                    <FavoriteButton resource={resource} showLabel />
+                    <CollectionMenu resource={resource} />
                   </div>
                 </div>
               </div>
@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  createCollectionId,
+  findCollectionByName,
+  getCollectionSelection,
+  mergeCollections,
+  normalizeCollectionName,
+  toggleId,
+  type Collection,
+  type CollectionSelection,
+  type CollectionsData,
+} from '../lib/collections';
+
+/** localStorage key for favorites and collections */
+export const COLLECTIONS_STORAGE_KEY = 'design-directory:collections';
+
+interface CollectionsState extends CollectionsData {
+  /** Favorites or a collection id the views are filtered to (not persisted) */
+  activeCollectionId: string | null;
+
+  toggleFavorite: (resourceId: number) => void;
+  /** Returns null if the name is empty or already taken */
+  createCollection: (name: string, resourceIds?: number[]) => Collection | null;
+  /** Returns false if the name is empty or already taken */
+  renameCollection: (id: string, name: string) => boolean;
+  deleteCollection: (id: string) => void;
+  toggleInCollection: (collectionId: string, resourceId: number) => void;
+  importCollections: (data: CollectionsData) => void;
+  setActiveCollection: (id: string | null) => void;
+}
+
+export const useCollectionsStore = create<CollectionsState>()(
+  persist(
+    (set, get) => ({
+      favorites: [],
+      collections: [],
+      activeCollectionId: null,
+
+      toggleFavorite: (resourceId) => set(state => ({ favorites: toggleId(state.favorites, resourceId) })),
+
+      createCollection: (name, resourceIds = []) => {
+        const normalized = normalizeCollectionName(name);
+        if (!normalized || findCollectionByName(get().collections, normalized)) return null;
+        const collection: Collection = {
+          id: createCollectionId(),
+          name: normalized,
+          resourceIds,
+          createdAt: new Date().toISOString(),
+        };
+        set(state => ({ collections: [...state.collections, collection] }));
+        return collection;
+      },
+
+      renameCollection: (id, name) => {
+        const normalized = normalizeCollectionName(name);
+        const existing = findCollectionByName(get().collections, normalized);
+        if (!normalized || (existing && existing.id !== id)) return false;
+        set(state => ({
+          collections: state.collections.map(c => (c.id === id ? { ...c, name: normalized } : c)),
+        }));
+        return true;
+      },
+
+      deleteCollection: (id) => set(state => ({
+        collections: state.collections.filter(c => c.id !== id),
+        activeCollectionId: state.activeCollectionId === id ? null : state.activeCollectionId,
+      })),
+
+      toggleInCollection: (collectionId, resourceId) => set(state => ({
+        collections: state.collections.map(c =>
+          c.id === collectionId ? { ...c, resourceIds: toggleId(c.resourceIds, resourceId) } : c
+        ),
+      })),
+
+      importCollections: (data) => set(state => mergeCollections(state, data)),
+
+      setActiveCollection: (id) => set({ activeCollectionId: id }),
+    }),
+    {
+      name: COLLECTIONS_STORAGE_KEY,
+      version: 1,
+      partialize: ({ favorites, collections }) => ({ favorites, collections }),
+    }
+  )
+);
+
+/**
+ * Whether a resource is starred
+ */
+export function useIsFavorite(resourceId: number): boolean {
+  return useCollectionsStore(state => state.favorites.includes(resourceId));
+}
+
+/**
+ * The collection the views are filtered to, if any
+ */
+export function useActiveCollection(): CollectionSelection | null {
+  const activeCollectionId = useCollectionsStore(state => state.activeCollectionId);
+  const favorites = useCollectionsStore(state => state.favorites);
+  const collections = useCollectionsStore(state => state.collections);
+  return useMemo(
+    () => getCollectionSelection({ favorites, collections }, activeCollectionId),
+    [activeCollectionId, favorites, collections]
+  );
+}
@@ -3,6 +3,8 @@
  * Defines the data structures for the inspiration resource visualization
  */
 
+import { CATEGORY_NAMES, CATEGORY_COLOR_MAP, type CategoryName } from '../data/taxonomy.js';
+
 /**
  * Normalized resource type for component use (camelCase keys)
  */
@@ -38,30 +40,17 @@ export interface NormalizedResource {
 
 /**
  * Category ordering for ring layout
- * Inner rings (fewer resources) to outer rings (more resources)
+ * Inner rings (fewer resources) to outer rings (more resources).
+ * Defined in src/data/taxonomy.ts.
  */
-export const CATEGORY_ORDER = [
-  'Community',
-  'Inspiration',
-  'Learning',
-  'Templates',
-  'Tools',
-  'AI',
-] as const;
+export const CATEGORY_ORDER = CATEGORY_NAMES;
 
-export type CategoryName = (typeof CATEGORY_ORDER)[number];
+export type { CategoryName };
 
 /**
- * Category Color Mapping
+ * Category Color Mapping (from src/data/taxonomy.ts)
  */
-export const CATEGORY_COLORS: Record<string, string> = {
-  'Community': '#3B82F6',
-  'Inspiration': '#FF5102',
-  'Learning': '#10B981',
-  'Templates': '#F59E0B',
-  'Tools': '#EC4899',
-  'AI': '#06B6D4',
-};
+export const CATEGORY_COLORS: Record<string, string> = CATEGORY_COLOR_MAP;
 
 export const DEFAULT_COLOR = '#9CA3AF';
 
@@ -6,6 +6,8 @@
  * Higher gravity scores place resources closer to the center sphere.
  */
 
+import { CATEGORY_NAMES, CATEGORY_COLOR_MAP } from '../data/taxonomy';
+
 /**
  * Simple seeded random number generator
  * Creates deterministic "randomness" based on a string seed (resourceId)
@@ -276,14 +278,14 @@ export const RING_LAYOUT = {
  * Categories with fewer resources get inner (closer) rings
  *
  * @param resources - Array of resources with category property
- * @param categoryOrder - Ordered list of categories
- * @param categoryColors - Map of category to color hex
+ * @param categoryOrder - Ordered list of categories (defaults to the taxonomy)
+ * @param categoryColors - Map of category to color hex (defaults to the taxonomy)
  * @returns Array of CategoryRingConfig sorted by ring radius
  */
 export function calculateCategoryRings(
   resources: Array<{ category: string | null }>,
-  categoryOrder: readonly string[],
-  categoryColors: Record<string, string>
+  categoryOrder: readonly string[] = CATEGORY_NAMES,
+  categoryColors: Record<string, string> = CATEGORY_COLOR_MAP
 ): CategoryRingConfig[] {
   // Count resources per category
   const categoryCounts = new Map<string, number>();
@@ -520,14 +522,14 @@ function distance3D(
  * 4. Retry up to N times, then place at best available spot
  *
  * @param resources - Array of resources with category property
- * @param categoryOrder - Ordered list of categories
- * @param categoryColors - Map of category to color hex
+ * @param categoryOrder - Ordered list of categories (defaults to the taxonomy)
+ * @param categoryColors - Map of category to color hex (defaults to the taxonomy)
  * @returns Array of CategoryCluster with 3D positions
  */
 export function calculateCategoryClusters(
   resources: Array<{ category: string | null }>,
-  categoryOrder: readonly string[],
-  categoryColors: Record<string, string>
+  categoryOrder: readonly string[] = CATEGORY_NAMES,
+  categoryColors: Record<string, string> = CATEGORY_COLOR_MAP
 ): CategoryCluster[] {
   // Count resources per category
   const categoryCounts = new Map<string, number>();
@@ -6,6 +6,10 @@ interface ImportMetaEnv {
   readonly MODE: string;
   readonly BASE_URL: string;
   readonly SSR: boolean;
+  /** "true" to log searches to /api/analytics/search */
+  readonly VITE_SEARCH_ANALYTICS?: string;
+  /** "true" to log how each search was routed (local or LLM) to the console */
+  readonly VITE_DEBUG_SEARCH?: string;
 }
 
 interface ImportMeta {
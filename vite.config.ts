@@ -1,10 +1,78 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import fs from 'fs'
 import path from 'path'
+import { assertValidResources } from './src/data/schema'
+import { buildRobotsTxt, buildSitemap, DEFAULT_SITE_URL, getOgImagePath, renderResourcePage } from './src/lib/seo'
+import { createNodeAssetLoader, renderOgImage } from './src/lib/og-image'
+import type { NormalizedResource } from './src/types/resource'
+
+/**
+ * Fail the production build if resources.json violates the resource schema
+ */
+function validateResourcesPlugin(): Plugin {
+  const resourcesPath = path.resolve(__dirname, './src/data/resources.json')
+  return {
+    name: 'validate-resources',
+    apply: 'build',
+    buildStart() {
+      this.addWatchFile(resourcesPath)
+      assertValidResources(JSON.parse(fs.readFileSync(resourcesPath, 'utf-8')))
+    },
+  }
+}
+
+/**
+ * Write a prerendered HTML shell per resource (dist/resource/:id/index.html),
+ * its social preview card (dist/og/resource/:id.png) and sitemap.xml and
+ * robots.txt, so crawlers and link previews get each resource's own
+ * metadata. See src/lib/seo.ts and src/lib/og-image.ts.
+ *
+ * SITE_URL sets the origin used in canonical URLs, og:url and the sitemap.
+ * Cards are built from local files only, so the build needs no network;
+ * OG_CARD_FAVICONS=true fetches each resource's favicon for its logo.
+ */
+function prerenderResourcesPlugin(): Plugin {
+  const resourcesPath = path.resolve(__dirname, './src/data/resources.json')
+  let outDir = path.resolve(__dirname, 'dist')
+  return {
+    name: 'prerender-resources',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir)
+    },
+    async closeBundle() {
+      const siteUrl = process.env.SITE_URL || DEFAULT_SITE_URL
+      const template = fs.readFileSync(path.join(outDir, 'index.html'), 'utf-8')
+      const resources: NormalizedResource[] = JSON.parse(fs.readFileSync(resourcesPath, 'utf-8'))
+
+      for (const resource of resources) {
+        const dir = path.join(outDir, 'resource', String(resource.id))
+        fs.mkdirSync(dir, { recursive: true })
+        fs.writeFileSync(path.join(dir, 'index.html'), renderResourcePage(template, resource, siteUrl))
+      }
+      fs.writeFileSync(path.join(outDir, 'sitemap.xml'), buildSitemap(resources, siteUrl))
+      fs.writeFileSync(path.join(outDir, 'robots.txt'), buildRobotsTxt(siteUrl))
+
+      // Render a few at a time, since cards may fetch favicons
+      const loader = createNodeAssetLoader(path.resolve(__dirname, 'public'), {
+        fetchFavicons: process.env.OG_CARD_FAVICONS === 'true',
+      })
+      const queue = [...resources]
+      await Promise.all(Array.from({ length: 4 }, async () => {
+        for (let resource = queue.shift(); resource; resource = queue.shift()) {
+          const file = path.join(outDir, getOgImagePath(resource))
+          fs.mkdirSync(path.dirname(file), { recursive: true })
+          fs.writeFileSync(file, await renderOgImage(resource, loader))
+        }
+      }))
+    },
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), validateResourcesPlugin(), prerenderResourcesPlugin()],
   build: {
     chunkSizeWarningLimit: 1200,
     rollupOptions: {